@@ -1,6 +1,7 @@
 import React from "react";
 import { AuthProvider } from "./src/contexts/AuthContext";
 import { ThemeProvider } from "./src/contexts/ThemeContext";
+import { BlockProvider } from "./src/contexts/BlockContext";
 import { ChatProvider } from "./src/contexts/ChatContext";
 import AppNavigator from "./src/navigation/AppNavigator";
 
@@ -8,9 +9,11 @@ export default function App() {
   return (
     <ThemeProvider>
       <AuthProvider>
-        <ChatProvider>
-          <AppNavigator />
-        </ChatProvider>
+        <BlockProvider>
+          <ChatProvider>
+            <AppNavigator />
+          </ChatProvider>
+        </BlockProvider>
       </AuthProvider>
     </ThemeProvider>
   );
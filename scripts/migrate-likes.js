@@ -0,0 +1,98 @@
+/**
+ * Move post likes from the likedByUsers array to posts/{postId}/likes
+ * Uses the Admin SDK, so it needs serviceAccountKey.json in the project root
+ *
+ * Run with:
+ *   node scripts/migrate-likes.js [--dry-run]
+ *
+ * Every uid in a post's likedByUsers gets a like doc (keyed by uid, dated
+ * with the post's createdAt since the real time isn't known), likesCount is
+ * set to the number of like docs and likedByUsers is removed. Posts without
+ * likedByUsers are skipped, so it's safe to run again if it stops partway.
+ * --dry-run lists what would change without writing anything.
+ */
+
+const admin = require("firebase-admin");
+const serviceAccount = require("../serviceAccountKey.json"); // You'll need to download this from Firebase Console
+
+admin.initializeApp({
+  credential: admin.credential.cert(serviceAccount),
+});
+
+const db = admin.firestore();
+const { FieldValue } = admin.firestore;
+
+const BATCH_SIZE = 500; // Firestore batch limit
+
+async function migratePost(postDoc, dryRun) {
+  const data = postDoc.data();
+  const likers = [...new Set(data.likedByUsers)];
+  const likesRef = postDoc.ref.collection("likes");
+
+  // Likes made with the subcollection before the migration ran
+  const existing = await likesRef.get();
+  const existingIds = new Set(existing.docs.map((d) => d.id));
+  const newLikers = likers.filter((uid) => !existingIds.has(uid));
+  const likesCount = existingIds.size + newLikers.length;
+
+  console.log(
+    `  Post ${postDoc.id}: ${newLikers.length} likes to move, ` +
+      `likesCount ${data.likesCount} → ${likesCount}`
+  );
+  if (dryRun) return newLikers.length;
+
+  const createdAt = data.createdAt || FieldValue.serverTimestamp();
+  for (let i = 0; i < newLikers.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    newLikers.slice(i, i + BATCH_SIZE).forEach((uid) => {
+      batch.set(likesRef.doc(uid), { uid, createdAt });
+    });
+    await batch.commit();
+  }
+
+  // Last, so a post that failed partway is picked up again on the next run
+  await postDoc.ref.update({
+    likesCount,
+    likedByUsers: FieldValue.delete(),
+  });
+
+  return newLikers.length;
+}
+
+async function migrateLikes() {
+  const dryRun = process.argv.includes("--dry-run");
+  console.log(
+    dryRun
+      ? "Checking likes to migrate (dry run, nothing will be written)..."
+      : "Migrating likes..."
+  );
+
+  try {
+    const postsSnapshot = await db.collection("posts").get();
+    const posts = postsSnapshot.docs.filter((d) =>
+      Array.isArray(d.data().likedByUsers)
+    );
+
+    console.log(
+      `Found ${posts.length} of ${postsSnapshot.size} posts with likedByUsers`
+    );
+
+    let likesMoved = 0;
+    for (const postDoc of posts) {
+      likesMoved += await migratePost(postDoc, dryRun);
+    }
+
+    console.log("\n=== Summary ===");
+    console.log(
+      `${dryRun ? "🔍 Would migrate" : "✅ Migrated"}: ${posts.length} posts, ${likesMoved} likes`
+    );
+    console.log("✨ Done!");
+  } catch (error) {
+    console.error("❌ Error migrating likes:", error);
+    process.exit(1);
+  }
+
+  process.exit(0);
+}
+
+migrateLikes();
@@ -0,0 +1,92 @@
+/**
+ * Fault injection for the mock MeowChat server
+ * Settings can be changed at any time - from code, the /__mock/faults
+ * route or a scenario step - and apply to the next request or event
+ */
+
+const DEFAULT_FAULTS = {
+  latencyMs: 0, // added to every REST response, socket ack and event
+  jitterMs: 0, // random extra latency, 0..jitterMs
+  errorRate: 0, // 0-1 chance that a REST request fails with errorStatus
+  errorStatus: 500,
+  unauthorizedRequests: 0, // the next N REST requests get a 401
+  dropAcks: false, // store socket sends but never acknowledge them
+  rejectConnections: false, // refuse socket handshakes
+};
+
+function createFaults(initial = {}) {
+  let settings = { ...DEFAULT_FAULTS, ...initial };
+  // One-off failures: { method, path (RegExp source), status, times }
+  let failures = [];
+
+  function set(updates = {}) {
+    const { failures: added, ...rest } = updates;
+    settings = { ...settings, ...rest };
+    if (Array.isArray(added)) {
+      failures.push(
+        ...added.map((failure) => ({ times: 1, status: 500, ...failure }))
+      );
+    }
+    return get();
+  }
+
+  function clear() {
+    settings = { ...DEFAULT_FAULTS };
+    failures = [];
+    return get();
+  }
+
+  function get() {
+    return { ...settings, failures: failures.map((f) => ({ ...f })) };
+  }
+
+  function delay() {
+    const ms = settings.latencyMs + Math.random() * settings.jitterMs;
+    return ms > 0
+      ? new Promise((resolve) => setTimeout(resolve, ms))
+      : Promise.resolve();
+  }
+
+  /**
+   * Status code to fail a REST request with, or null to let it through
+   */
+  function takeHttpFailure(method, path) {
+    if (settings.unauthorizedRequests > 0) {
+      settings.unauthorizedRequests--;
+      return 401;
+    }
+
+    const index = failures.findIndex(
+      (f) =>
+        (!f.method || f.method.toUpperCase() === method) &&
+        (!f.path || new RegExp(f.path).test(path))
+    );
+    if (index !== -1) {
+      const failure = failures[index];
+      failure.times--;
+      if (failure.times <= 0) failures.splice(index, 1);
+      return failure.status;
+    }
+
+    if (settings.errorRate > 0 && Math.random() < settings.errorRate) {
+      return settings.errorStatus;
+    }
+    return null;
+  }
+
+  return {
+    set,
+    clear,
+    get,
+    delay,
+    takeHttpFailure,
+    get dropAcks() {
+      return settings.dropAcks;
+    },
+    get rejectConnections() {
+      return settings.rejectConnections;
+    },
+  };
+}
+
+module.exports = { createFaults, DEFAULT_FAULTS };
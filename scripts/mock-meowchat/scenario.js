@@ -0,0 +1,109 @@
+/**
+ * Scriptable scenarios for the mock MeowChat server
+ * A scenario is a list of JSON steps run in order. Steps that create
+ * something can name it with "as", and later steps refer to it by that
+ * name instead of its generated id:
+ *
+ *   [
+ *     { "action": "user", "uid": "alice", "username": "alice" },
+ *     { "action": "chat", "as": "dm", "createdBy": "alice", "participants": ["bob"] },
+ *     { "action": "message", "as": "hi", "chat": "dm", "from": "alice", "content": "hi" },
+ *     { "action": "typing", "chat": "dm", "from": "alice" },
+ *     { "action": "wait", "ms": 500 },
+ *     { "action": "reaction", "message": "hi", "from": "bob", "emoji": "❤️" },
+ *     { "action": "faults", "latencyMs": 2000 },
+ *     { "action": "disconnect", "uid": "bob" }
+ *   ]
+ */
+
+const STEP_HANDLERS = {
+  reset: (server) => server.reset(),
+
+  user: (server, step) =>
+    server.state.upsertUser(step.uid, {
+      username: step.username,
+      email: step.email,
+      profilePicture: step.profilePicture,
+    }).firebaseUid,
+
+  chat: (server, step) =>
+    server.actions.createChat(step.createdBy, {
+      id: step.id,
+      type: step.type,
+      participants: step.participants,
+      name: step.name,
+    })._id,
+
+  message: (server, step, resolve) =>
+    server.actions.sendMessage(resolve(step.chat), step.from, {
+      content: step.content,
+      type: step.type,
+      fileUrl: step.fileUrl,
+      replyTo: step.replyTo ? resolve(step.replyTo) : undefined,
+      clientMessageId: step.clientMessageId,
+    })._id,
+
+  edit: (server, step, resolve) =>
+    server.actions.editMessage(resolve(step.message), step.content)._id,
+
+  delete: (server, step, resolve) =>
+    server.actions.deleteMessage(resolve(step.message))._id,
+
+  reaction: (server, step, resolve) =>
+    step.emoji
+      ? server.actions.addReaction(resolve(step.message), step.from, step.emoji)
+          ._id
+      : server.actions.removeReaction(resolve(step.message), step.from)._id,
+
+  read: (server, step, resolve) =>
+    server.actions.markRead(resolve(step.message), step.from)._id,
+
+  typing: (server, step, resolve) =>
+    server.actions.setTyping(
+      resolve(step.chat),
+      step.from,
+      step.isTyping !== false
+    ),
+
+  presence: (server, step) =>
+    server.actions.setPresence(step.uid, step.isOnline !== false),
+
+  faults: (server, step) => {
+    const { action, ...settings } = step;
+    return server.faults.set(settings);
+  },
+
+  clearFaults: (server) => server.faults.clear(),
+
+  disconnect: (server, step) => server.disconnect(step.uid),
+
+  wait: (server, step) =>
+    new Promise((resolve) => setTimeout(resolve, step.ms || 0)),
+};
+
+/**
+ * Run steps in order
+ * Resolves with the ids of everything named with "as"
+ */
+async function runScenario(server, steps) {
+  const aliases = {};
+  const resolve = (ref) => (ref in aliases ? aliases[ref] : ref);
+
+  for (const [index, step] of steps.entries()) {
+    const handler = STEP_HANDLERS[step.action];
+    if (!handler) {
+      throw new Error(`Step ${index}: unknown action "${step.action}"`);
+    }
+
+    try {
+      const result = await handler(server, step, resolve);
+      if (step.as) aliases[step.as] = result;
+    } catch (error) {
+      throw new Error(`Step ${index} (${step.action}): ${error.message}`);
+    }
+  }
+
+  return aliases;
+}
+
+module.exports = { runScenario, STEP_ACTIONS: Object.keys(STEP_HANDLERS) };
@@ -0,0 +1,761 @@
+/**
+ * Mock MeowChat backend for development and integration tests
+ * Implements the REST routes in src/config/api.ts and the Socket.IO events
+ * socketService.ts uses, with in-memory state, fault injection and
+ * scriptable scenarios. Nothing is persisted and tokens are not verified:
+ * the uid is read from the Firebase ID token's payload, or from a
+ * "mock:UID" token in tests.
+ *
+ * Run with:
+ *   npm run mock:meowchat -- [--port 4000] [--latency MS]
+ *     [--jitter MS] [--error-rate 0-1] [--drop-acks] [--scenario FILE.json]
+ *
+ * then point the app at it with EXPO_PUBLIC_CHAT_API_URL=http://<host>:4000
+ * and EXPO_PUBLIC_CHAT_BACKEND=meowchat.
+ *
+ * Control routes (no auth, never faulted):
+ *   GET    /__mock/state        everything in memory
+ *   POST   /__mock/reset        clear state and faults
+ *   GET    /__mock/faults       current fault settings
+ *   POST   /__mock/faults       merge settings, see faults.js
+ *   DELETE /__mock/faults       back to no faults
+ *   POST   /__mock/disconnect   { uid? } drop sockets (all without uid)
+ *   POST   /__mock/scenario     { steps: [...] } run steps, see scenario.js
+ *
+ * From Node tests, createMockServer() gives the same controls directly,
+ * see scripts/test-mock-meowchat.js.
+ */
+
+const http = require("http");
+const fs = require("fs");
+const path = require("path");
+const { Server } = require("socket.io");
+const { createState } = require("./state");
+const { createFaults } = require("./faults");
+const { runScenario } = require("./scenario");
+
+const API = "/api";
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+  }
+}
+
+/**
+ * Read the uid from a Firebase ID token without verifying it
+ */
+function getUidFromToken(token) {
+  if (!token) return null;
+  if (token.startsWith("mock:")) return token.slice("mock:".length) || null;
+
+  const payload = token.split(".")[1];
+  if (!payload) return null;
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+    return claims.user_id || claims.sub || null;
+  } catch (error) {
+    return null;
+  }
+}
+
+function getClaimsFromToken(token) {
+  const payload = token && token.split(".")[1];
+  if (!payload) return {};
+  try {
+    return JSON.parse(Buffer.from(payload, "base64url").toString());
+  } catch (error) {
+    return {};
+  }
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on("data", (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, "Request body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+/**
+ * Minimal multipart/form-data parser - enough for the app's uploads
+ */
+function parseMultipart(buffer, boundary) {
+  const fields = {};
+  const files = [];
+  const delimiter = Buffer.from(`--${boundary}`);
+
+  let start = buffer.indexOf(delimiter);
+  while (start !== -1) {
+    start += delimiter.length;
+    if (buffer.slice(start, start + 2).toString() === "--") break;
+    start += 2; // CRLF after the delimiter
+
+    const end = buffer.indexOf(delimiter, start);
+    if (end === -1) break;
+
+    const part = buffer.slice(start, end - 2); // CRLF before the delimiter
+    const headerEnd = part.indexOf("\r\n\r\n");
+    const headers = part.slice(0, headerEnd).toString();
+    const body = part.slice(headerEnd + 4);
+
+    const name = (/name="([^"]*)"/i.exec(headers) || [])[1];
+    const filename = (/filename="([^"]*)"/i.exec(headers) || [])[1];
+    const type = (/content-type:\s*([^\r\n]+)/i.exec(headers) || [])[1];
+
+    if (filename !== undefined) {
+      files.push({
+        field: name,
+        name: filename,
+        type: type || "application/octet-stream",
+        data: body,
+      });
+    } else if (name) {
+      fields[name] = body.toString();
+    }
+    start = end;
+  }
+
+  return { fields, files };
+}
+
+async function parseRequestBody(req) {
+  const contentType = req.headers["content-type"] || "";
+  const buffer = await readBody(req);
+
+  if (contentType.startsWith("multipart/form-data")) {
+    const boundary = (/boundary=([^;]+)/.exec(contentType) || [])[1];
+    if (!boundary) throw new HttpError(400, "Missing multipart boundary");
+    return parseMultipart(buffer, boundary.replace(/^"|"$/g, ""));
+  }
+
+  if (buffer.length === 0) return { fields: {}, files: [] };
+  try {
+    return { fields: JSON.parse(buffer.toString()), files: [] };
+  } catch (error) {
+    throw new HttpError(400, "Invalid JSON body");
+  }
+}
+
+function sendJson(res, status, data) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+  });
+  res.end(JSON.stringify(data === undefined ? null : data));
+}
+
+function createMockServer(options = {}) {
+  const { port = 4000, host = "0.0.0.0", quiet = false } = options;
+  const state = createState();
+  const faults = createFaults(options.faults);
+  const connectionCounts = new Map(); // uid -> open sockets
+
+  const httpServer = http.createServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      const expected = error instanceof HttpError;
+      if (!expected) console.error("[mock] Request failed:", error);
+      sendJson(res, expected ? error.status : 500, { message: error.message });
+    });
+  });
+  const io = new Server(httpServer, { cors: { origin: "*" } });
+
+  const log = (...args) => {
+    if (!quiet) console.log("[mock]", ...args);
+  };
+
+  // Events
+
+  const userRoom = (uid) => `user:${uid}`;
+  const chatRoom = (chatId) => `chat:${chatId}`;
+
+  /**
+   * Deliver to everyone in the chat and to every participant's sockets
+   * Socket.IO sends once per socket even when it is in several rooms
+   */
+  function broadcastToChat(chat, event, payload, exceptUid) {
+    const rooms = [
+      chatRoom(chat._id),
+      ...chat.participants.map((uid) => userRoom(uid)),
+    ];
+    faults.delay().then(() => {
+      const target = exceptUid
+        ? io.to(rooms).except(userRoom(exceptUid))
+        : io.to(rooms);
+      target.emit(event, payload);
+    });
+  }
+
+  function requireChat(chatId, uid) {
+    const chat = state.getChat(chatId);
+    if (!chat) throw new HttpError(404, "Chat not found");
+    if (uid && !chat.participants.includes(uid)) {
+      throw new HttpError(403, "Not a participant in this chat");
+    }
+    return chat;
+  }
+
+  function requireMessage(messageId) {
+    const message = state.getMessage(messageId);
+    if (!message) throw new HttpError(404, "Message not found");
+    return message;
+  }
+
+  /**
+   * Changes shared by REST routes, socket events and scenarios - each
+   * stores the change and pushes the matching socket event
+   */
+  const actions = {
+    createChat(creatorUid, data) {
+      if (!creatorUid) throw new HttpError(400, "createdBy is required");
+      const { chat, created } = state.createChat({
+        ...data,
+        createdBy: creatorUid,
+      });
+      const populated = state.populateChat(chat);
+      if (created) broadcastToChat(chat, "chat_created", populated);
+      return populated;
+    },
+
+    updateChat(chatId, updates) {
+      const chat = requireChat(chatId);
+      state.updateChat(chatId, updates);
+      const populated = state.populateChat(chat);
+      broadcastToChat(chat, "chat_updated", populated);
+      return populated;
+    },
+
+    sendMessage(chatId, senderUid, data) {
+      const chat = requireChat(chatId, senderUid);
+      if (!data.content && !data.fileUrl) {
+        throw new HttpError(400, "Message needs content or a fileUrl");
+      }
+      const { message, created } = state.addMessage(chatId, senderUid, data);
+      const populated = state.populateMessage(message);
+      if (created) broadcastToChat(chat, "new_message", populated);
+      return populated;
+    },
+
+    editMessage(messageId, content) {
+      const message = requireMessage(messageId);
+      state.editMessage(messageId, content);
+      broadcastToChat(requireChat(message.chat), "message_edited", {
+        messageId,
+        content,
+      });
+      return state.populateMessage(message);
+    },
+
+    deleteMessage(messageId) {
+      const message = requireMessage(messageId);
+      const chat = requireChat(message.chat);
+      state.deleteMessage(messageId);
+      broadcastToChat(chat, "message_deleted", { messageId });
+      return message;
+    },
+
+    addReaction(messageId, uid, emoji) {
+      const message = requireMessage(messageId);
+      state.addReaction(messageId, uid, emoji);
+      broadcastToChat(requireChat(message.chat), "reaction_added", {
+        messageId,
+        reaction: { user: uid, emoji },
+      });
+      return state.populateMessage(message);
+    },
+
+    removeReaction(messageId, uid) {
+      const message = requireMessage(messageId);
+      state.removeReaction(messageId, uid);
+      broadcastToChat(requireChat(message.chat), "reaction_removed", {
+        messageId,
+        userId: uid,
+      });
+      return state.populateMessage(message);
+    },
+
+    markRead(messageId, uid) {
+      const message = requireMessage(messageId);
+      state.markRead(messageId, uid);
+      return state.populateMessage(message);
+    },
+
+    setTyping(chatId, uid, isTyping) {
+      const chat = requireChat(chatId, uid);
+      broadcastToChat(
+        chat,
+        isTyping ? "user_typing" : "user_stopped_typing",
+        {
+          chatId,
+          userId: uid,
+          username: state.getUser(uid).username,
+          isTyping,
+        },
+        uid
+      );
+    },
+
+    setPresence(uid, isOnline) {
+      const user = state.setOnline(uid, isOnline);
+      faults.delay().then(() => {
+        io.except(userRoom(uid)).emit(
+          isOnline ? "user_online" : "user_offline",
+          {
+            userId: uid,
+            isOnline,
+            lastSeen: user.lastSeen,
+          }
+        );
+      });
+      return user;
+    },
+  };
+
+  // REST
+
+  const routes = [];
+  const route = (method, pattern, handler) => {
+    routes.push({ method, pattern: new RegExp(`^${pattern}$`), handler });
+  };
+
+  // Auth
+  const login = ({ body }) => {
+    const token = body.firebaseToken;
+    const uid = getUidFromToken(token);
+    if (!uid) throw new HttpError(401, "Invalid Firebase token");
+    const claims = getClaimsFromToken(token);
+    return {
+      user: state.upsertUser(uid, {
+        username: body.username || claims.name,
+        email: body.email || claims.email,
+        profilePicture: body.profilePicture || claims.picture,
+      }),
+    };
+  };
+  route("POST", `${API}/auth/firebase-login`, login);
+  route("POST", `${API}/auth/meowgram-login`, login);
+  route("GET", `${API}/auth/me`, ({ uid }) => state.getUser(uid));
+  route("POST", `${API}/auth/logout`, () => ({ success: true }));
+  route("GET", `${API}/auth/search-users`, ({ query }) =>
+    state.searchUsers(query.get("q"))
+  );
+
+  // Chats
+  route("GET", `${API}/chats`, ({ uid }) =>
+    state.getChatsForUser(uid).map(state.populateChat)
+  );
+  route("POST", `${API}/chats`, ({ uid, body }) =>
+    actions.createChat(uid, {
+      type: body.type,
+      participants: body.participants,
+      name: body.name,
+    })
+  );
+  route("GET", `${API}/chats/([^/]+)`, ({ uid, params }) =>
+    state.populateChat(requireChat(params[0], uid))
+  );
+  route("PUT", `${API}/chats/([^/]+)`, ({ uid, params, body }) => {
+    requireChat(params[0], uid);
+    return actions.updateChat(params[0], { name: body.name });
+  });
+  route("DELETE", `${API}/chats/([^/]+)`, ({ uid, params }) => {
+    requireChat(params[0], uid);
+    state.deleteChat(params[0]);
+    return { success: true };
+  });
+  route(
+    "POST",
+    `${API}/chats/([^/]+)/participants`,
+    ({ uid, params, body }) => {
+      requireChat(params[0], uid);
+      state.addParticipants(params[0], body.participants || []);
+      return actions.updateChat(params[0], {});
+    }
+  );
+  route(
+    "DELETE",
+    `${API}/chats/([^/]+)/participants/([^/]+)`,
+    ({ uid, params }) => {
+      requireChat(params[0], uid);
+      state.removeParticipant(params[0], params[1]);
+      return actions.updateChat(params[0], {});
+    }
+  );
+
+  // Messages
+  route("GET", `${API}/messages/([^/]+)`, ({ uid, params, query }) => {
+    requireChat(params[0], uid);
+    const page = Math.max(1, parseInt(query.get("page") || "1", 10));
+    const limit = Math.max(1, parseInt(query.get("limit") || "50", 10));
+    return state.getMessagesPage(params[0], page, limit);
+  });
+  route(
+    "POST",
+    `${API}/messages/([^/]+)/reactions`,
+    ({ uid, params, body }) => {
+      if (!body.emoji) throw new HttpError(400, "emoji is required");
+      return actions.addReaction(params[0], uid, body.emoji);
+    }
+  );
+  route("DELETE", `${API}/messages/([^/]+)/reactions`, ({ uid, params }) =>
+    actions.removeReaction(params[0], uid)
+  );
+  route("POST", `${API}/messages/([^/]+)/upload`, (ctx) => {
+    const chatId = ctx.params[0];
+    requireChat(chatId, ctx.uid);
+    const [file] = storeUploads(ctx);
+    return actions.sendMessage(chatId, ctx.uid, {
+      content: ctx.body.content || "",
+      type: file.type.startsWith("image/") ? "image" : "file",
+      fileUrl: file.url,
+      fileName: file.name,
+    });
+  });
+  route("POST", `${API}/messages/([^/]+)`, ({ uid, params, body }) =>
+    actions.sendMessage(params[0], uid, {
+      content: body.content,
+      type: body.type,
+      fileUrl: body.fileUrl,
+      replyTo: body.replyTo,
+      clientMessageId: body.clientMessageId,
+    })
+  );
+  route("PUT", `${API}/messages/([^/]+)`, ({ uid, params, body }) => {
+    const message = requireMessage(params[0]);
+    if (message.sender !== uid) {
+      throw new HttpError(403, "Only the sender can edit a message");
+    }
+    return actions.editMessage(params[0], body.content || "");
+  });
+  route("DELETE", `${API}/messages/([^/]+)`, ({ uid, params }) => {
+    const message = requireMessage(params[0]);
+    if (message.sender !== uid) {
+      throw new HttpError(403, "Only the sender can delete a message");
+    }
+    actions.deleteMessage(params[0]);
+    return { success: true };
+  });
+
+  /**
+   * Keep uploaded files in memory and serve them from /uploads
+   * Names and types from the fileMetadata field win over the form parts
+   */
+  function storeUploads({ files, body, baseUrl }) {
+    if (files.length === 0) throw new HttpError(400, "No files uploaded");
+
+    let metadata = [];
+    try {
+      metadata = JSON.parse(body.fileMetadata || "[]");
+    } catch (error) {
+      throw new HttpError(400, "Invalid fileMetadata");
+    }
+
+    return files.map((file, index) => {
+      const name = (metadata[index] && metadata[index].name) || file.name;
+      const type = (metadata[index] && metadata[index].type) || file.type;
+      const id = state.addUpload({ name, type, data: file.data });
+      return {
+        url: `${baseUrl}/uploads/${id}`,
+        name,
+        type,
+        size: file.data.length,
+      };
+    });
+  }
+
+  // Control routes
+
+  async function handleControl(req, res, pathname, body) {
+    const key = `${req.method} ${pathname}`;
+    switch (key) {
+      case "GET /__mock/state":
+        return sendJson(res, 200, state.dump());
+      case "POST /__mock/reset":
+        server.reset();
+        return sendJson(res, 200, { success: true });
+      case "GET /__mock/faults":
+        return sendJson(res, 200, faults.get());
+      case "POST /__mock/faults":
+        return sendJson(res, 200, faults.set(body));
+      case "DELETE /__mock/faults":
+        return sendJson(res, 200, faults.clear());
+      case "POST /__mock/disconnect":
+        server.disconnect(body.uid);
+        return sendJson(res, 200, { success: true });
+      case "POST /__mock/scenario":
+        return sendJson(res, 200, {
+          aliases: await runScenario(server, body.steps || []),
+        });
+      default:
+        throw new HttpError(404, `Unknown control route ${key}`);
+    }
+  }
+
+  async function handleRequest(req, res) {
+    const url = new URL(req.url, `http://${req.headers.host || "localhost"}`);
+    const { pathname } = url;
+
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+        "Access-Control-Allow-Headers": "Authorization, Content-Type",
+      });
+      res.end();
+      return;
+    }
+
+    if (pathname.startsWith("/__mock/")) {
+      const { fields } = await parseRequestBody(req);
+      await handleControl(req, res, pathname, fields);
+      return;
+    }
+
+    if (req.method === "GET" && pathname.startsWith("/uploads/")) {
+      const file = state.getUpload(pathname.slice("/uploads/".length));
+      if (!file) throw new HttpError(404, "Upload not found");
+      res.writeHead(200, {
+        "Content-Type": file.type,
+        "Content-Length": file.data.length,
+        "Access-Control-Allow-Origin": "*",
+      });
+      res.end(file.data);
+      return;
+    }
+
+    await faults.delay();
+    const failure = faults.takeHttpFailure(req.method, pathname);
+    if (failure) {
+      log(`${req.method} ${pathname} -> injected ${failure}`);
+      throw new HttpError(failure, `Injected failure (${failure})`);
+    }
+
+    let params = null;
+    const matched = routes.find((r) => {
+      if (r.method !== req.method) return false;
+      const match = r.pattern.exec(pathname);
+      if (match) params = match.slice(1).map(decodeURIComponent);
+      return !!match;
+    });
+    if (!matched) throw new HttpError(404, `No route for ${pathname}`);
+
+    const { fields, files } = await parseRequestBody(req);
+    const authorization = req.headers.authorization || "";
+    const uid = getUidFromToken(authorization.replace(/^Bearer\s+/i, ""));
+    const isLogin = /\/auth\/(firebase|meowgram)-login$/.test(pathname);
+    if (!uid && !isLogin) throw new HttpError(401, "Missing or invalid token");
+
+    const result = await matched.handler({
+      uid,
+      params,
+      query: url.searchParams,
+      body: fields,
+      files,
+      baseUrl: `http://${req.headers.host}`,
+    });
+    log(`${req.method} ${pathname} -> 200`);
+    sendJson(res, 200, result);
+  }
+
+  // Sockets
+
+  io.use((socket, next) => {
+    if (faults.rejectConnections) {
+      next(new Error("Connection rejected (fault injection)"));
+      return;
+    }
+
+    const auth = socket.handshake.auth || {};
+    const uid = auth.firebaseUid || getUidFromToken(auth.token);
+    if (!uid || !auth.token) {
+      next(new Error("Unauthorized"));
+      return;
+    }
+
+    state.upsertUser(uid, {
+      username: auth.username,
+      email: auth.email,
+      profilePicture: auth.profilePicture,
+    });
+    socket.data.uid = uid;
+    next();
+  });
+
+  io.on("connection", (socket) => {
+    const uid = socket.data.uid;
+    log(`socket connected: ${uid}`);
+    socket.join(userRoom(uid));
+
+    const count = (connectionCounts.get(uid) || 0) + 1;
+    connectionCounts.set(uid, count);
+    if (count === 1) actions.setPresence(uid, true);
+
+    // Errors from actions become acks or are logged, never thrown
+    const guard = (handler) => (data, ack) => {
+      try {
+        handler(data || {}, ack);
+      } catch (error) {
+        log(`socket event from ${uid} failed: ${error.message}`);
+        if (typeof ack === "function") ack({ ok: false, error: error.message });
+      }
+    };
+
+    socket.on(
+      "join_chat",
+      guard(({ chatId }) => {
+        requireChat(chatId, uid);
+        socket.join(chatRoom(chatId));
+      })
+    );
+
+    socket.on(
+      "leave_chat",
+      guard(({ chatId }) => {
+        socket.leave(chatRoom(chatId));
+      })
+    );
+
+    socket.on(
+      "send_message",
+      guard((data, ack) => {
+        const message = actions.sendMessage(data.chatId, uid, {
+          content: data.content,
+          type: data.type,
+          fileUrl: data.fileUrl,
+          replyTo: data.replyTo,
+          clientMessageId: data.clientMessageId,
+        });
+        if (faults.dropAcks || typeof ack !== "function") return;
+        faults.delay().then(() => ack({ ok: true, message }));
+      })
+    );
+
+    socket.on(
+      "typing",
+      guard(({ chatId, isTyping }) => {
+        actions.setTyping(chatId, uid, !!isTyping);
+      })
+    );
+
+    socket.on(
+      "mark_read",
+      guard(({ messageId }) => {
+        actions.markRead(messageId, uid);
+      })
+    );
+
+    socket.on("disconnect", (reason) => {
+      log(`socket disconnected: ${uid} (${reason})`);
+      const remaining = (connectionCounts.get(uid) || 1) - 1;
+      if (remaining > 0) {
+        connectionCounts.set(uid, remaining);
+      } else {
+        connectionCounts.delete(uid);
+        actions.setPresence(uid, false);
+      }
+    });
+  });
+
+  const server = {
+    state,
+    faults,
+    actions,
+    io,
+
+    get url() {
+      const address = httpServer.address();
+      return address ? `http://localhost:${address.port}` : null;
+    },
+
+    start() {
+      return new Promise((resolve, reject) => {
+        httpServer.once("error", reject);
+        httpServer.listen(port, host, () => {
+          httpServer.off("error", reject);
+          resolve(server.url);
+        });
+      });
+    },
+
+    stop() {
+      return new Promise((resolve) => {
+        io.close(() => resolve());
+      });
+    },
+
+    reset() {
+      state.reset();
+      faults.clear();
+    },
+
+    /**
+     * Drop the sockets of one user, or of everyone
+     * Clients see "io server disconnect" and have to reconnect themselves
+     */
+    disconnect(uid) {
+      const target = uid ? io.in(userRoom(uid)) : io;
+      target.disconnectSockets(true);
+    },
+
+    scenario(steps) {
+      return runScenario(server, steps);
+    },
+  };
+
+  return server;
+}
+
+function parseArgs(argv) {
+  const args = { port: 4000, faults: {}, scenario: null };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--port") args.port = Number(argv[++i]);
+    else if (arg === "--latency") args.faults.latencyMs = Number(argv[++i]);
+    else if (arg === "--jitter") args.faults.jitterMs = Number(argv[++i]);
+    else if (arg === "--error-rate") args.faults.errorRate = Number(argv[++i]);
+    else if (arg === "--drop-acks") args.faults.dropAcks = true;
+    else if (arg === "--scenario") args.scenario = argv[++i];
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const server = createMockServer({ port: args.port, faults: args.faults });
+  const url = await server.start();
+  console.log(`🐱 Mock MeowChat server running at ${url}`);
+
+  if (args.scenario) {
+    const steps = JSON.parse(
+      fs.readFileSync(path.resolve(args.scenario), "utf8")
+    );
+    const aliases = await server.scenario(steps);
+    console.log("✅ Scenario loaded:", aliases);
+  }
+
+  process.on("SIGINT", () => {
+    server.stop().then(() => process.exit(0));
+  });
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error("❌ Mock server failed:", error);
+    process.exit(1);
+  });
+}
+
+module.exports = { createMockServer, getUidFromToken };
@@ -0,0 +1,317 @@
+/**
+ * In-memory data for the mock MeowChat server
+ * Shapes follow the models in src/services/meowChatAPI.ts - users are keyed
+ * by Firebase UID, and chats and messages come back populated
+ */
+
+function createState() {
+  let nextId = 1;
+  const users = new Map(); // firebaseUid -> user
+  const chats = new Map(); // _id -> chat (participants as uids)
+  const messages = new Map(); // _id -> message (sender as uid)
+  const uploads = new Map(); // _id -> { name, type, data }
+
+  const newId = (prefix) =>
+    `${prefix}${String(nextId++).padStart(6, "0")}${Date.now().toString(36)}`;
+
+  function reset() {
+    nextId = 1;
+    users.clear();
+    chats.clear();
+    messages.clear();
+    uploads.clear();
+  }
+
+  function upsertUser(firebaseUid, profile = {}) {
+    const existing = users.get(firebaseUid);
+    const user = {
+      _id: existing ? existing._id : newId("u"),
+      firebaseUid,
+      username:
+        profile.username ||
+        (existing && existing.username) ||
+        `user_${firebaseUid.slice(0, 6)}`,
+      email: profile.email || (existing && existing.email) || "",
+      profilePicture:
+        profile.profilePicture || (existing && existing.profilePicture) || "",
+      isOnline: existing ? existing.isOnline : false,
+      lastSeen: existing ? existing.lastSeen : new Date().toISOString(),
+    };
+    users.set(firebaseUid, user);
+    return user;
+  }
+
+  function getUser(firebaseUid) {
+    return users.get(firebaseUid) || upsertUser(firebaseUid);
+  }
+
+  function setOnline(firebaseUid, isOnline) {
+    const user = getUser(firebaseUid);
+    user.isOnline = isOnline;
+    user.lastSeen = new Date().toISOString();
+    return user;
+  }
+
+  function searchUsers(query) {
+    const q = String(query || "").toLowerCase();
+    return [...users.values()].filter(
+      (u) =>
+        u.username.toLowerCase().includes(q) ||
+        u.email.toLowerCase().includes(q)
+    );
+  }
+
+  // Chats
+
+  function populateMessage(message) {
+    if (!message) return undefined;
+    return { ...message, sender: getUser(message.sender) };
+  }
+
+  function populateChat(chat) {
+    const lastMessage = [...messages.values()]
+      .filter((m) => m.chat === chat._id)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+    return {
+      ...chat,
+      participants: chat.participants.map(getUser),
+      lastMessage: populateMessage(lastMessage),
+    };
+  }
+
+  function getChat(chatId) {
+    return chats.get(chatId) || null;
+  }
+
+  function getChatsForUser(firebaseUid) {
+    return [...chats.values()]
+      .filter((chat) => chat.participants.includes(firebaseUid))
+      .sort((a, b) => b.lastActivity.localeCompare(a.lastActivity));
+  }
+
+  /**
+   * Create a chat, or return the existing direct chat between the same two
+   * users
+   */
+  function createChat({ id, type = "direct", participants, name, createdBy }) {
+    const members = [...new Set([createdBy, ...(participants || [])])];
+    members.forEach((uid) => getUser(uid));
+
+    if (type === "direct") {
+      const existing = [...chats.values()].find(
+        (chat) =>
+          chat.type === "direct" &&
+          chat.participants.length === members.length &&
+          members.every((uid) => chat.participants.includes(uid))
+      );
+      if (existing) return { chat: existing, created: false };
+    }
+
+    const now = new Date().toISOString();
+    const chat = {
+      _id: id || newId("c"),
+      type,
+      name: type === "group" ? name || "Group" : undefined,
+      participants: members,
+      createdBy,
+      createdAt: now,
+      lastActivity: now,
+    };
+    chats.set(chat._id, chat);
+    return { chat, created: true };
+  }
+
+  function updateChat(chatId, updates) {
+    const chat = chats.get(chatId);
+    if (!chat) return null;
+    if (updates.name !== undefined) chat.name = updates.name;
+    chat.lastActivity = new Date().toISOString();
+    return chat;
+  }
+
+  function deleteChat(chatId) {
+    const chat = chats.get(chatId);
+    if (!chat) return null;
+    chats.delete(chatId);
+    [...messages.values()]
+      .filter((m) => m.chat === chatId)
+      .forEach((m) => messages.delete(m._id));
+    return chat;
+  }
+
+  function addParticipants(chatId, participants) {
+    const chat = chats.get(chatId);
+    if (!chat) return null;
+    participants.forEach((uid) => {
+      getUser(uid);
+      if (!chat.participants.includes(uid)) chat.participants.push(uid);
+    });
+    return chat;
+  }
+
+  function removeParticipant(chatId, firebaseUid) {
+    const chat = chats.get(chatId);
+    if (!chat) return null;
+    chat.participants = chat.participants.filter((uid) => uid !== firebaseUid);
+    return chat;
+  }
+
+  // Messages
+
+  /**
+   * Page 1 is the newest messages; each page is returned oldest first
+   */
+  function getMessagesPage(chatId, page, limit) {
+    const all = [...messages.values()]
+      .filter((m) => m.chat === chatId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    const start = (page - 1) * limit;
+    return {
+      messages: all
+        .slice(start, start + limit)
+        .reverse()
+        .map(populateMessage),
+      hasMore: all.length > start + limit,
+    };
+  }
+
+  function getMessage(messageId) {
+    return messages.get(messageId) || null;
+  }
+
+  /**
+   * Store a message - a clientMessageId already stored in the chat returns
+   * the first copy instead, so retried sends are harmless
+   */
+  function addMessage(chatId, senderUid, data) {
+    const chat = chats.get(chatId);
+    if (!chat) return null;
+
+    if (data.clientMessageId) {
+      const duplicate = [...messages.values()].find(
+        (m) => m.chat === chatId && m.clientMessageId === data.clientMessageId
+      );
+      if (duplicate) return { message: duplicate, created: false };
+    }
+
+    // Keep creation order strict even within the same millisecond
+    const last = [...messages.values()].pop();
+    let createdAt = new Date();
+    if (last && createdAt.toISOString() <= last.createdAt) {
+      createdAt = new Date(new Date(last.createdAt).getTime() + 1);
+    }
+
+    const message = {
+      _id: newId("m"),
+      chat: chatId,
+      sender: senderUid,
+      content: data.content || "",
+      type: data.type || "text",
+      fileUrl: data.fileUrl,
+      fileName: data.fileName,
+      replyTo: data.replyTo,
+      clientMessageId: data.clientMessageId,
+      createdAt: createdAt.toISOString(),
+      readBy: [senderUid],
+      reactions: [],
+    };
+    messages.set(message._id, message);
+    chat.lastActivity = message.createdAt;
+    return { message, created: true };
+  }
+
+  function editMessage(messageId, content) {
+    const message = messages.get(messageId);
+    if (!message) return null;
+    message.content = content;
+    message.editedAt = new Date().toISOString();
+    return message;
+  }
+
+  function deleteMessage(messageId) {
+    const message = messages.get(messageId);
+    if (!message) return null;
+    messages.delete(messageId);
+    return message;
+  }
+
+  function markRead(messageId, firebaseUid) {
+    const message = messages.get(messageId);
+    if (!message) return null;
+    if (!message.readBy.includes(firebaseUid)) {
+      message.readBy.push(firebaseUid);
+    }
+    return message;
+  }
+
+  function addReaction(messageId, firebaseUid, emoji) {
+    const message = messages.get(messageId);
+    if (!message) return null;
+    message.reactions = message.reactions.filter((r) => r.user !== firebaseUid);
+    message.reactions.push({ user: firebaseUid, emoji });
+    return message;
+  }
+
+  function removeReaction(messageId, firebaseUid) {
+    const message = messages.get(messageId);
+    if (!message) return null;
+    message.reactions = message.reactions.filter((r) => r.user !== firebaseUid);
+    return message;
+  }
+
+  // Uploads
+
+  function addUpload(file) {
+    const id = newId("f");
+    uploads.set(id, file);
+    return id;
+  }
+
+  function getUpload(id) {
+    return uploads.get(id) || null;
+  }
+
+  function dump() {
+    return {
+      users: [...users.values()],
+      chats: [...chats.values()],
+      messages: [...messages.values()],
+      uploads: [...uploads.entries()].map(([id, file]) => ({
+        id,
+        name: file.name,
+        type: file.type,
+        size: file.data.length,
+      })),
+    };
+  }
+
+  return {
+    reset,
+    upsertUser,
+    getUser,
+    setOnline,
+    searchUsers,
+    populateChat,
+    populateMessage,
+    getChat,
+    getChatsForUser,
+    createChat,
+    updateChat,
+    deleteChat,
+    addParticipants,
+    removeParticipant,
+    getMessagesPage,
+    getMessage,
+    addMessage,
+    editMessage,
+    deleteMessage,
+    markRead,
+    addReaction,
+    removeReaction,
+    addUpload,
+    getUpload,
+    dump,
+  };
+}
+
+module.exports = { createState };
@@ -0,0 +1,128 @@
+/**
+ * Repair like, comment and follow counters that drifted from the data they
+ * count
+ * Uses the Admin SDK, so it needs serviceAccountKey.json in the project root
+ *
+ * Run with:
+ *   node scripts/reconcile-counters.js [--dry-run]
+ *
+ * For every post, likesCount is set to the number of docs in its likes
+ * subcollection and commentsCount to the number of comments on it,
+ * including ones held for review. For every user,
+ * followersCount and followingCount are set to the sizes of their followers
+ * and following subcollections. --dry-run lists the differences without
+ * writing anything.
+ *
+ * Posts that still have likedByUsers are skipped; run
+ * scripts/migrate-likes.js first.
+ * A like, comment or follow landing between the count and the write can
+ * leave a counter off by one, so run it again if it reported changes.
+ */
+
+const admin = require("firebase-admin");
+const serviceAccount = require("../serviceAccountKey.json"); // You'll need to download this from Firebase Console
+
+admin.initializeApp({
+  credential: admin.credential.cert(serviceAccount),
+});
+
+const db = admin.firestore();
+
+async function countDocs(query) {
+  const snapshot = await query.count().get();
+  return snapshot.data().count;
+}
+
+async function reconcilePost(postDoc, dryRun) {
+  const data = postDoc.data();
+  if (Array.isArray(data.likedByUsers)) {
+    console.log(`  Skipping post ${postDoc.id} - likes not migrated yet`);
+    return null;
+  }
+
+  const [likesCount, commentsCount] = await Promise.all([
+    countDocs(postDoc.ref.collection("likes")),
+    countDocs(db.collection("comments").where("postId", "==", postDoc.id)),
+  ]);
+
+  const updates = {};
+  if (data.likesCount !== likesCount) updates.likesCount = likesCount;
+  if (data.commentsCount !== commentsCount) {
+    updates.commentsCount = commentsCount;
+  }
+
+  if (Object.keys(updates).length === 0) return null;
+
+  console.log(
+    `  Post ${postDoc.id}: likes ${data.likesCount} → ${likesCount}, ` +
+      `comments ${data.commentsCount} → ${commentsCount}`
+  );
+  if (!dryRun) await postDoc.ref.update(updates);
+  return updates;
+}
+
+async function reconcileUser(userDoc, dryRun) {
+  const [followersCount, followingCount] = await Promise.all([
+    countDocs(userDoc.ref.collection("followers")),
+    countDocs(userDoc.ref.collection("following")),
+  ]);
+
+  const data = userDoc.data();
+  const updates = {};
+  if (data.followersCount !== followersCount) {
+    updates.followersCount = followersCount;
+  }
+  if (data.followingCount !== followingCount) {
+    updates.followingCount = followingCount;
+  }
+
+  if (Object.keys(updates).length === 0) return null;
+
+  console.log(
+    `  User ${userDoc.id} (${data.username || "no username"}): ` +
+      `followers ${data.followersCount} → ${followersCount}, ` +
+      `following ${data.followingCount} → ${followingCount}`
+  );
+  if (!dryRun) await userDoc.ref.update(updates);
+  return updates;
+}
+
+async function reconcileCounters() {
+  const dryRun = process.argv.includes("--dry-run");
+  console.log(
+    dryRun
+      ? "Checking counters (dry run, nothing will be written)..."
+      : "Reconciling counters..."
+  );
+
+  try {
+    const postsSnapshot = await db.collection("posts").get();
+    console.log(`\nFound ${postsSnapshot.size} posts to check`);
+
+    let postsFixed = 0;
+    for (const postDoc of postsSnapshot.docs) {
+      if (await reconcilePost(postDoc, dryRun)) postsFixed++;
+    }
+
+    const usersSnapshot = await db.collection("users").get();
+    console.log(`\nFound ${usersSnapshot.size} users to check`);
+
+    let usersFixed = 0;
+    for (const userDoc of usersSnapshot.docs) {
+      if (await reconcileUser(userDoc, dryRun)) usersFixed++;
+    }
+
+    console.log("\n=== Summary ===");
+    console.log(
+      `${dryRun ? "🔍 Would fix" : "✅ Fixed"}: ${postsFixed} posts, ${usersFixed} users`
+    );
+    console.log("✨ Done!");
+  } catch (error) {
+    console.error("❌ Error reconciling counters:", error);
+    process.exit(1);
+  }
+
+  process.exit(0);
+}
+
+reconcileCounters();
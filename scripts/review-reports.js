@@ -0,0 +1,489 @@
+/**
+ * Moderator review queue for user reports
+ * Uses the Admin SDK, so it needs serviceAccountKey.json in the project root
+ *
+ * Run with:
+ *   node scripts/review-reports.js list [--all]
+ *   node scripts/review-reports.js show REPORT_ID
+ *   node scripts/review-reports.js dismiss REPORT_ID [--note "..."]
+ *   node scripts/review-reports.js hide REPORT_ID [--note "..."]
+ *   node scripts/review-reports.js suspend REPORT_ID [--note "..."]
+ *   node scripts/review-reports.js reinstate USER_ID [--note "..."]
+ *   node scripts/review-reports.js pending
+ *   node scripts/review-reports.js approve post|comment ID [--note "..."]
+ *   node scripts/review-reports.js reject post|comment ID [--note "..."]
+ *
+ * Every action resolves all open reports on the same target and writes an
+ * audit record to the moderationActions collection. Set MODERATOR_ID or pass
+ * --moderator to record who took the action.
+ *
+ * Posts and comments that the app's text moderation held for review are
+ * listed by "pending"; "approve" makes them visible and "reject" keeps
+ * them hidden and takes them off the queue.
+ */
+
+const os = require("os");
+const admin = require("firebase-admin");
+const serviceAccount = require("../serviceAccountKey.json"); // You'll need to download this from Firebase Console
+
+admin.initializeApp({
+  credential: admin.credential.cert(serviceAccount),
+});
+
+const db = admin.firestore();
+
+// hiddenBy value the app writes on content held for review
+const AUTO_MODERATOR_ID = "auto-moderation";
+
+const PENDING_COLLECTIONS = { post: "posts", comment: "comments" };
+
+const USAGE =
+  "❌ Usage: node scripts/review-reports.js <list|show|dismiss|hide|suspend|reinstate|pending|approve|reject> [TYPE] [ID] [--all] [--note TEXT] [--moderator ID]";
+
+function parseArgs(argv) {
+  const args = { positional: [], all: false, note: "", moderator: "" };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--all") {
+      args.all = true;
+    } else if (arg === "--note") {
+      args.note = argv[++i] || "";
+    } else if (arg === "--moderator") {
+      args.moderator = argv[++i] || "";
+    } else {
+      args.positional.push(arg);
+    }
+  }
+
+  return args;
+}
+
+function formatDate(timestamp) {
+  return timestamp ? new Date(timestamp).toISOString() : "-";
+}
+
+function truncate(text, length) {
+  if (!text) return "";
+  const singleLine = text.replace(/\s+/g, " ");
+  return singleLine.length > length
+    ? singleLine.slice(0, length - 1) + "…"
+    : singleLine;
+}
+
+async function getReport(reportId) {
+  const snap = await db.collection("reports").doc(reportId).get();
+  if (!snap.exists) {
+    throw new Error(`Report ${reportId} not found`);
+  }
+  return { id: snap.id, ...snap.data() };
+}
+
+/**
+ * The Firestore document holding the reported content
+ */
+function getTargetRef(report) {
+  switch (report.targetType) {
+    case "post":
+      return db.collection("posts").doc(report.targetId);
+    case "comment":
+      return db.collection("comments").doc(report.targetId);
+    case "message":
+      if (!report.snapshot || !report.snapshot.conversationId) {
+        throw new Error("Message report has no conversation id");
+      }
+      return db
+        .collection("conversations")
+        .doc(report.snapshot.conversationId)
+        .collection("messages")
+        .doc(report.targetId);
+    case "user":
+      return db.collection("users").doc(report.targetId);
+    default:
+      throw new Error(`Unknown target type: ${report.targetType}`);
+  }
+}
+
+/**
+ * Open reports about the same target as the given report
+ */
+async function getOpenReportsForTarget(report) {
+  const snap = await db
+    .collection("reports")
+    .where("targetId", "==", report.targetId)
+    .where("status", "==", "open")
+    .get();
+
+  return snap.docs
+    .map((d) => ({ id: d.id, ...d.data() }))
+    .filter((r) => r.targetType === report.targetType);
+}
+
+/**
+ * Resolve the open reports on a target and write the audit record in a
+ * single batch, so a report is never resolved without its audit entry
+ */
+async function resolveReports(report, action, moderatorId, note, applyToBatch) {
+  const openReports = await getOpenReportsForTarget(report);
+  const reportIds = openReports.map((r) => r.id);
+  if (!reportIds.includes(report.id)) {
+    reportIds.push(report.id);
+  }
+
+  const now = Date.now();
+  const batch = db.batch();
+
+  if (applyToBatch) {
+    applyToBatch(batch, now);
+  }
+
+  reportIds.forEach((id) => {
+    batch.update(db.collection("reports").doc(id), {
+      status: action === "dismiss" ? "dismissed" : "actioned",
+      reviewedAt: now,
+      reviewedBy: moderatorId,
+      resolution: action,
+    });
+  });
+
+  const actionRef = db.collection("moderationActions").doc();
+  batch.set(actionRef, {
+    id: actionRef.id,
+    action,
+    reportIds,
+    targetType: report.targetType,
+    targetId: report.targetId,
+    targetOwnerId: report.targetOwnerId,
+    moderatorId,
+    note,
+    createdAt: now,
+  });
+
+  await batch.commit();
+  return { actionId: actionRef.id, reportIds };
+}
+
+async function listReports(showAll) {
+  let q = db.collection("reports");
+  if (!showAll) {
+    q = q.where("status", "==", "open");
+  }
+  const snap = await q.get();
+
+  const reports = snap.docs
+    .map((d) => ({ id: d.id, ...d.data() }))
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+  if (reports.length === 0) {
+    console.log(showAll ? "No reports." : "🎉 No open reports.");
+    return;
+  }
+
+  // How many reports each target has, so repeat offenders stand out
+  const countByTarget = {};
+  reports.forEach((r) => {
+    const key = `${r.targetType}:${r.targetId}`;
+    countByTarget[key] = (countByTarget[key] || 0) + 1;
+  });
+
+  console.log(`\n📋 ${reports.length} ${showAll ? "" : "open "}reports\n`);
+  console.log(
+    "REPORT ID            | CREATED                  | TARGET   | REASON      | #  | STATUS"
+  );
+  console.log("─".repeat(96));
+
+  reports.forEach((r) => {
+    const count = countByTarget[`${r.targetType}:${r.targetId}`];
+    console.log(
+      [
+        r.id.padEnd(20),
+        formatDate(r.createdAt).padEnd(24),
+        r.targetType.padEnd(8),
+        r.reason.padEnd(11),
+        String(count).padEnd(2),
+        r.status,
+      ].join(" | ")
+    );
+    const text = truncate(r.snapshot && r.snapshot.text, 80);
+    if (text) {
+      console.log(`    "${text}"`);
+    }
+  });
+}
+
+async function showReport(reportId) {
+  const report = await getReport(reportId);
+  const snapshot = report.snapshot || {};
+
+  console.log(`\n🔎 Report ${report.id}\n`);
+  console.log(`Status:      ${report.status}`);
+  console.log(`Created:     ${formatDate(report.createdAt)}`);
+  console.log(`Reason:      ${report.reason}`);
+  console.log(`Details:     ${report.details || "-"}`);
+  console.log(`Reporter:    ${report.reporterId}`);
+  console.log(`Target:      ${report.targetType} ${report.targetId}`);
+  console.log(`Owner:       ${report.targetOwnerId}`);
+  console.log(`Author name: ${snapshot.authorName || "-"}`);
+  console.log(`Text:        ${snapshot.text || "-"}`);
+  (snapshot.imageUrls || []).forEach((url) => {
+    console.log(`Image:       ${url}`);
+  });
+  if (snapshot.postId) console.log(`Post:        ${snapshot.postId}`);
+  if (snapshot.conversationId) {
+    console.log(`Chat:        ${snapshot.conversationId}`);
+  }
+  if (report.reviewedAt) {
+    console.log(
+      `Reviewed:    ${formatDate(report.reviewedAt)} by ${report.reviewedBy} (${report.resolution})`
+    );
+  }
+
+  const openReports = await getOpenReportsForTarget(report);
+  console.log(`\nOpen reports on this target: ${openReports.length}`);
+}
+
+async function dismissReport(reportId, moderatorId, note) {
+  const report = await getReport(reportId);
+  const result = await resolveReports(report, "dismiss", moderatorId, note);
+  console.log(
+    `✅ Dismissed ${result.reportIds.length} report(s) (audit ${result.actionId})`
+  );
+}
+
+async function hideContent(reportId, moderatorId, note) {
+  const report = await getReport(reportId);
+  if (report.targetType === "user") {
+    throw new Error("Users can't be hidden - use suspend instead");
+  }
+
+  const targetRef = getTargetRef(report);
+  const targetSnap = await targetRef.get();
+  if (!targetSnap.exists) {
+    console.log("⚠️  Content no longer exists - resolving reports only");
+  }
+
+  const result = await resolveReports(
+    report,
+    "hide",
+    moderatorId,
+    note,
+    (batch, now) => {
+      if (targetSnap.exists) {
+        batch.update(targetRef, { hiddenAt: now, hiddenBy: moderatorId });
+      }
+    }
+  );
+  console.log(
+    `✅ Hid ${report.targetType} ${report.targetId} and resolved ${result.reportIds.length} report(s) (audit ${result.actionId})`
+  );
+}
+
+async function suspendAccount(reportId, moderatorId, note) {
+  const report = await getReport(reportId);
+  const userId = report.targetOwnerId;
+
+  // Disabled accounts can't sign in, and revoking refresh tokens ends
+  // existing sessions when their ID token next expires
+  await admin.auth().updateUser(userId, { disabled: true });
+  await admin.auth().revokeRefreshTokens(userId);
+
+  const result = await resolveReports(
+    report,
+    "suspend",
+    moderatorId,
+    note,
+    (batch, now) => {
+      batch.set(
+        db.collection("users").doc(userId),
+        { suspendedAt: now, suspendedBy: moderatorId },
+        { merge: true }
+      );
+    }
+  );
+  console.log(
+    `✅ Suspended ${userId} and resolved ${result.reportIds.length} report(s) (audit ${result.actionId})`
+  );
+}
+
+async function reinstateAccount(userId, moderatorId, note) {
+  await admin.auth().updateUser(userId, { disabled: false });
+
+  const now = Date.now();
+  const batch = db.batch();
+  batch.update(db.collection("users").doc(userId), {
+    suspendedAt: admin.firestore.FieldValue.delete(),
+    suspendedBy: admin.firestore.FieldValue.delete(),
+  });
+
+  const actionRef = db.collection("moderationActions").doc();
+  batch.set(actionRef, {
+    id: actionRef.id,
+    action: "reinstate",
+    reportIds: [],
+    targetType: "user",
+    targetId: userId,
+    targetOwnerId: userId,
+    moderatorId,
+    note,
+    createdAt: now,
+  });
+
+  await batch.commit();
+  console.log(`✅ Reinstated ${userId} (audit ${actionRef.id})`);
+}
+
+async function listPending() {
+  const pending = [];
+  for (const [targetType, collectionName] of Object.entries(
+    PENDING_COLLECTIONS
+  )) {
+    const snap = await db
+      .collection(collectionName)
+      .where("hiddenBy", "==", AUTO_MODERATOR_ID)
+      .get();
+    snap.docs.forEach((d) =>
+      pending.push({ targetType, id: d.id, ...d.data() })
+    );
+  }
+
+  if (pending.length === 0) {
+    console.log("🎉 Nothing is waiting for review.");
+    return;
+  }
+
+  pending.sort((a, b) => a.hiddenAt - b.hiddenAt);
+  console.log(`\n⏳ ${pending.length} held for review\n`);
+  pending.forEach((item) => {
+    const authorId = item.targetType === "post" ? item.userId : item.authorId;
+    console.log(
+      [
+        item.targetType.padEnd(7),
+        item.id.padEnd(20),
+        formatDate(item.hiddenAt).padEnd(24),
+        authorId,
+      ].join(" | ")
+    );
+    console.log(`    Reason: ${item.hiddenReason || "-"}`);
+    const text = truncate(
+      item.targetType === "post" ? item.caption : item.text,
+      80
+    );
+    if (text) {
+      console.log(`    "${text}"`);
+    }
+  });
+}
+
+/**
+ * Release or keep hidden a post or comment that is held for review
+ */
+async function reviewPending(targetType, id, approve, moderatorId, note) {
+  const collectionName = PENDING_COLLECTIONS[targetType];
+  if (!collectionName) {
+    throw new Error("Only posts and comments are held for review");
+  }
+
+  const targetRef = db.collection(collectionName).doc(id);
+  const targetSnap = await targetRef.get();
+  if (!targetSnap.exists) {
+    throw new Error(`${targetType} ${id} not found`);
+  }
+  const data = targetSnap.data();
+  if (data.hiddenBy !== AUTO_MODERATOR_ID) {
+    throw new Error(`${targetType} ${id} is not waiting for review`);
+  }
+
+  const now = Date.now();
+  const batch = db.batch();
+  batch.update(
+    targetRef,
+    approve
+      ? {
+          hiddenAt: admin.firestore.FieldValue.delete(),
+          hiddenBy: admin.firestore.FieldValue.delete(),
+          hiddenReason: admin.firestore.FieldValue.delete(),
+        }
+      : { hiddenAt: now, hiddenBy: moderatorId }
+  );
+
+  const actionRef = db.collection("moderationActions").doc();
+  batch.set(actionRef, {
+    id: actionRef.id,
+    action: approve ? "approve" : "hide",
+    reportIds: [],
+    targetType,
+    targetId: id,
+    targetOwnerId: targetType === "post" ? data.userId : data.authorId,
+    moderatorId,
+    note,
+    createdAt: now,
+  });
+
+  await batch.commit();
+  console.log(
+    `✅ ${approve ? "Approved" : "Rejected"} ${targetType} ${id} (audit ${actionRef.id})`
+  );
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const [command, id, pendingId] = args.positional;
+  const moderatorId =
+    args.moderator || process.env.MODERATOR_ID || os.userInfo().username;
+  const isReviewCommand = command === "approve" || command === "reject";
+
+  if (
+    !command ||
+    (command !== "list" && command !== "pending" && !id) ||
+    (isReviewCommand && !pendingId)
+  ) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  try {
+    switch (command) {
+      case "list":
+        await listReports(args.all);
+        break;
+      case "show":
+        await showReport(id);
+        break;
+      case "dismiss":
+        await dismissReport(id, moderatorId, args.note);
+        break;
+      case "hide":
+        await hideContent(id, moderatorId, args.note);
+        break;
+      case "suspend":
+        await suspendAccount(id, moderatorId, args.note);
+        break;
+      case "reinstate":
+        await reinstateAccount(id, moderatorId, args.note);
+        break;
+      case "pending":
+        await listPending();
+        break;
+      case "approve":
+      case "reject":
+        await reviewPending(
+          id,
+          pendingId,
+          command === "approve",
+          moderatorId,
+          args.note
+        );
+        break;
+      default:
+        console.error(USAGE);
+        process.exit(1);
+    }
+  } catch (error) {
+    console.error("❌ Error:", error.message);
+    process.exit(1);
+  }
+
+  process.exit(0);
+}
+
+main();
@@ -0,0 +1,780 @@
+/**
+ * Tests for firestore.rules against the Firestore emulator (needs Java)
+ *
+ * Run with:
+ *   npm run test:rules
+ *
+ * emulators:exec sets FIRESTORE_EMULATOR_HOST, so the tests never touch a
+ * real project.
+ */
+
+const fs = require("fs");
+const path = require("path");
+const { describe, test, before, after, beforeEach } = require("node:test");
+const {
+  initializeTestEnvironment,
+  assertSucceeds,
+  assertFails,
+} = require("@firebase/rules-unit-testing");
+const {
+  doc,
+  getDoc,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  collection,
+  query,
+  where,
+  getDocs,
+  writeBatch,
+  increment,
+  arrayUnion,
+  deleteField,
+} = require("firebase/firestore");
+
+let testEnv;
+
+const as = (uid) => testEnv.authenticatedContext(uid).firestore();
+const anonymous = () => testEnv.unauthenticatedContext().firestore();
+
+const SEED = {
+  "users/alice": {
+    uid: "alice",
+    username: "alice",
+    followersCount: 0,
+    followingCount: 0,
+    postsCount: 0,
+  },
+  "users/bob": {
+    uid: "bob",
+    username: "bob",
+    followersCount: 0,
+    followingCount: 0,
+    postsCount: 0,
+  },
+  "posts/post1": {
+    userId: "alice",
+    caption: "Cat nap",
+    likesCount: 0,
+    commentsCount: 0,
+  },
+  "posts/heldPost": {
+    userId: "alice",
+    caption: "Held for review",
+    likesCount: 0,
+    commentsCount: 0,
+    hiddenAt: 1,
+    hiddenBy: "auto-moderation",
+  },
+  "comments/comment1": {
+    postId: "post1",
+    authorId: "bob",
+    text: "Cute!",
+    likes: [],
+  },
+  "notifications/like1": {
+    userId: "alice",
+    fromUserId: "bob",
+    type: "like",
+    postId: "post1",
+    read: false,
+  },
+  "conversations/alice_bob": {
+    id: "alice_bob",
+    type: "direct",
+    participants: ["alice", "bob"],
+    unreadCounts: { alice: 0, bob: 0 },
+    lastMessage: null,
+  },
+  "conversations/alice_bob/messages/message1": {
+    id: "message1",
+    senderId: "bob",
+    text: "Hi",
+    readBy: { bob: 1 },
+  },
+  "conversations/group1": {
+    id: "group1",
+    type: "group",
+    name: "Cats",
+    createdBy: "alice",
+    admins: ["alice"],
+    participants: ["alice", "bob", "carol"],
+    unreadCounts: { alice: 0, bob: 0, carol: 0 },
+  },
+};
+
+before(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: "demo-meowgram",
+    firestore: {
+      rules: fs.readFileSync(
+        path.join(__dirname, "..", "firestore.rules"),
+        "utf8"
+      ),
+    },
+  });
+});
+
+after(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore();
+    for (const [docPath, data] of Object.entries(SEED)) {
+      await setDoc(doc(db, docPath), data);
+    }
+  });
+});
+
+describe("users", () => {
+  test("profiles are readable when signed in", async () => {
+    await assertSucceeds(getDoc(doc(as("bob"), "users/alice")));
+    await assertFails(getDoc(doc(anonymous(), "users/alice")));
+  });
+
+  test("only the owner edits a profile", async () => {
+    await assertSucceeds(
+      updateDoc(doc(as("alice"), "users/alice"), { bio: "Meow" })
+    );
+    await assertFails(updateDoc(doc(as("bob"), "users/alice"), { bio: "x" }));
+  });
+
+  test("new profiles start with zero counters", async () => {
+    await assertSucceeds(
+      setDoc(doc(as("carol"), "users/carol"), {
+        uid: "carol",
+        followersCount: 0,
+        followingCount: 0,
+        postsCount: 0,
+      })
+    );
+    await assertFails(
+      setDoc(doc(as("dave"), "users/dave"), { uid: "dave", followersCount: 99 })
+    );
+  });
+
+  test("following count moves with the following doc, in one write", async () => {
+    const db = as("alice");
+    const followingRef = doc(db, "users/alice/following/bob");
+    const aliceRef = doc(db, "users/alice");
+
+    await assertFails(
+      updateDoc(aliceRef, {
+        followingCount: increment(1),
+        countedFollowingId: "bob",
+      })
+    );
+    await assertFails(updateDoc(aliceRef, { followersCount: increment(1) }));
+
+    const inflated = writeBatch(db);
+    inflated.set(followingRef, { uid: "bob" });
+    inflated.update(aliceRef, {
+      followingCount: increment(2),
+      countedFollowingId: "bob",
+    });
+    await assertFails(inflated.commit());
+
+    const follow = writeBatch(db);
+    follow.set(followingRef, { uid: "bob" });
+    follow.update(aliceRef, {
+      followingCount: increment(1),
+      countedFollowingId: "bob",
+    });
+    await assertSucceeds(follow.commit());
+
+    // The following doc already exists, so a second count can't ride on it
+    await assertFails(
+      updateDoc(aliceRef, {
+        followingCount: increment(1),
+        countedFollowingId: "bob",
+      })
+    );
+
+    const unfollow = writeBatch(db);
+    unfollow.delete(followingRef);
+    unfollow.update(aliceRef, {
+      followingCount: increment(-1),
+      countedFollowingId: "bob",
+    });
+    await assertSucceeds(unfollow.commit());
+  });
+
+  test("followers count moves with the follower doc, in one write", async () => {
+    const db = as("bob");
+    const followerRef = doc(db, "users/alice/followers/bob");
+    const aliceRef = doc(db, "users/alice");
+
+    await assertFails(updateDoc(aliceRef, { followersCount: increment(1) }));
+
+    const follow = writeBatch(db);
+    follow.set(followerRef, { uid: "bob" });
+    follow.update(aliceRef, { followersCount: increment(1) });
+    await assertSucceeds(follow.commit());
+
+    // The follower doc already exists, so a second count can't ride on it
+    await assertFails(updateDoc(aliceRef, { followersCount: increment(1) }));
+    await assertFails(updateDoc(aliceRef, { followersCount: increment(-1) }));
+
+    const unfollow = writeBatch(db);
+    unfollow.delete(followerRef);
+    unfollow.update(aliceRef, { followersCount: increment(-1) });
+    await assertSucceeds(unfollow.commit());
+
+    await assertFails(updateDoc(aliceRef, { followersCount: increment(-1) }));
+  });
+
+  test("follow docs are written by the follower", async () => {
+    await assertSucceeds(
+      setDoc(doc(as("bob"), "users/bob/following/alice"), { uid: "alice" })
+    );
+    await assertFails(
+      setDoc(doc(as("carol"), "users/alice/followers/bob"), { uid: "bob" })
+    );
+  });
+
+  test("blocked users can see the block and nothing else", async () => {
+    await assertSucceeds(
+      setDoc(doc(as("alice"), "users/alice/blockedUsers/bob"), {
+        blockedUserId: "bob",
+        createdAt: 1,
+      })
+    );
+    await assertSucceeds(
+      getDoc(doc(as("bob"), "users/alice/blockedUsers/bob"))
+    );
+    await assertFails(getDoc(doc(as("carol"), "users/alice/blockedUsers/bob")));
+    await assertFails(
+      setDoc(doc(as("bob"), "users/alice/blockedUsers/carol"), {
+        blockedUserId: "carol",
+      })
+    );
+  });
+});
+
+describe("posts", () => {
+  const newPost = (userId, extra = {}) => ({
+    userId,
+    caption: "New",
+    likesCount: 0,
+    commentsCount: 0,
+    ...extra,
+  });
+
+  test("posts are created by their author with zero counters", async () => {
+    const db = as("bob");
+    await assertSucceeds(setDoc(doc(db, "posts/bobPost"), newPost("bob")));
+    await assertFails(setDoc(doc(db, "posts/fake"), newPost("alice")));
+    await assertFails(
+      setDoc(doc(db, "posts/inflated"), newPost("bob", { likesCount: 100 }))
+    );
+  });
+
+  test("posts can only be created hidden by auto-moderation", async () => {
+    const db = as("bob");
+    await assertSucceeds(
+      setDoc(
+        doc(db, "posts/held"),
+        newPost("bob", { hiddenAt: 1, hiddenBy: "auto-moderation" })
+      )
+    );
+    await assertFails(
+      setDoc(
+        doc(db, "posts/modHidden"),
+        newPost("bob", { hiddenAt: 1, hiddenBy: "moderator" })
+      )
+    );
+  });
+
+  test("likes add the caller's like doc and move the count by one", async () => {
+    const db = as("bob");
+    const postRef = doc(db, "posts/post1");
+    const likeRef = doc(db, "posts/post1/likes/bob");
+
+    const like = writeBatch(db);
+    like.set(likeRef, { uid: "bob" });
+    like.update(postRef, { likesCount: increment(1) });
+    await assertSucceeds(like.commit());
+
+    const unlike = writeBatch(db);
+    unlike.delete(likeRef);
+    unlike.update(postRef, { likesCount: increment(-1) });
+    await assertSucceeds(unlike.commit());
+  });
+
+  test("likes can't be forged or inflated", async () => {
+    const db = as("bob");
+    const postRef = doc(db, "posts/post1");
+
+    const forged = writeBatch(db);
+    forged.set(doc(db, "posts/post1/likes/carol"), { uid: "carol" });
+    forged.update(postRef, { likesCount: increment(1) });
+    await assertFails(forged.commit());
+
+    const inflated = writeBatch(db);
+    inflated.set(doc(db, "posts/post1/likes/bob"), { uid: "bob" });
+    inflated.update(postRef, { likesCount: increment(2) });
+    await assertFails(inflated.commit());
+
+    await assertFails(updateDoc(postRef, { likesCount: increment(1) }));
+    await assertFails(setDoc(doc(db, "posts/post1/likes/bob"), { uid: "bob" }));
+  });
+
+  test("new posts can't carry a likers array", async () => {
+    await assertFails(
+      setDoc(
+        doc(as("bob"), "posts/legacy"),
+        newPost("bob", { likedByUsers: ["bob"] })
+      )
+    );
+  });
+
+  test("comment count moves with the comment, in one write", async () => {
+    const db = as("bob");
+    const postRef = doc(db, "posts/post1");
+    const commentRef = doc(db, "comments/comment2");
+    const comment = { postId: "post1", authorId: "bob", text: "Hi", likes: [] };
+
+    await assertFails(
+      updateDoc(postRef, {
+        commentsCount: increment(1),
+        countedCommentId: "comment1",
+      })
+    );
+
+    const inflated = writeBatch(db);
+    inflated.set(commentRef, comment);
+    inflated.update(postRef, {
+      commentsCount: increment(5),
+      countedCommentId: "comment2",
+    });
+    await assertFails(inflated.commit());
+
+    // The comment has to be on the post it's counted for
+    const elsewhere = writeBatch(db);
+    elsewhere.set(commentRef, { ...comment, postId: "heldPost" });
+    elsewhere.update(postRef, {
+      commentsCount: increment(1),
+      countedCommentId: "comment2",
+    });
+    await assertFails(elsewhere.commit());
+
+    const add = writeBatch(db);
+    add.set(commentRef, comment);
+    add.update(postRef, {
+      commentsCount: increment(1),
+      countedCommentId: "comment2",
+    });
+    await assertSucceeds(add.commit());
+
+    const remove = writeBatch(db);
+    remove.delete(commentRef);
+    remove.update(postRef, {
+      commentsCount: increment(-1),
+      countedCommentId: "comment2",
+    });
+    await assertSucceeds(remove.commit());
+  });
+
+  test("only the author edits or deletes a post", async () => {
+    await assertSucceeds(
+      updateDoc(doc(as("alice"), "posts/post1"), { caption: "Edited" })
+    );
+    await assertFails(
+      updateDoc(doc(as("bob"), "posts/post1"), { caption: "Hijacked" })
+    );
+    await assertFails(deleteDoc(doc(as("bob"), "posts/post1")));
+    await assertSucceeds(deleteDoc(doc(as("alice"), "posts/post1")));
+  });
+
+  test("authors can't release their own held posts", async () => {
+    await assertFails(
+      updateDoc(doc(as("alice"), "posts/heldPost"), {
+        hiddenAt: deleteField(),
+        hiddenBy: deleteField(),
+      })
+    );
+  });
+});
+
+describe("comments", () => {
+  test("comments are created by their author", async () => {
+    const db = as("carol");
+    const comment = { postId: "post1", text: "Meow", likes: [] };
+    await assertSucceeds(
+      setDoc(doc(db, "comments/new"), { ...comment, authorId: "carol" })
+    );
+    await assertFails(
+      setDoc(doc(db, "comments/fake"), { ...comment, authorId: "bob" })
+    );
+  });
+
+  test("likes toggle the caller's uid only", async () => {
+    await assertSucceeds(
+      updateDoc(doc(as("alice"), "comments/comment1"), {
+        likes: arrayUnion("alice"),
+      })
+    );
+    await assertFails(
+      updateDoc(doc(as("alice"), "comments/comment1"), {
+        likes: arrayUnion("carol"),
+      })
+    );
+    await assertFails(
+      updateDoc(doc(as("alice"), "comments/comment1"), { text: "Edited" })
+    );
+  });
+
+  test("the author or the post's author deletes a comment", async () => {
+    await assertFails(deleteDoc(doc(as("carol"), "comments/comment1")));
+    await assertSucceeds(deleteDoc(doc(as("alice"), "comments/comment1")));
+  });
+});
+
+describe("notifications", () => {
+  const notification = (fromUserId, userId) => ({
+    userId,
+    fromUserId,
+    type: "follow",
+    read: false,
+  });
+
+  test("notifications are sent as the caller", async () => {
+    const db = as("bob");
+    await assertSucceeds(
+      setDoc(doc(db, "notifications/follow1"), notification("bob", "alice"))
+    );
+    await assertFails(
+      setDoc(doc(db, "notifications/spoofed"), notification("carol", "alice"))
+    );
+    await assertFails(
+      setDoc(doc(db, "notifications/self"), notification("bob", "bob"))
+    );
+  });
+
+  test("recipients mark notifications read and nothing else", async () => {
+    const ref = doc(as("alice"), "notifications/like1");
+    await assertSucceeds(updateDoc(ref, { read: true }));
+    await assertFails(updateDoc(ref, { type: "comment" }));
+    await assertFails(
+      updateDoc(doc(as("bob"), "notifications/like1"), { read: true })
+    );
+  });
+
+  test("only the recipient and sender read a notification", async () => {
+    await assertSucceeds(getDoc(doc(as("alice"), "notifications/like1")));
+    await assertSucceeds(
+      getDocs(
+        query(
+          collection(as("bob"), "notifications"),
+          where("fromUserId", "==", "bob")
+        )
+      )
+    );
+    await assertFails(getDoc(doc(as("carol"), "notifications/like1")));
+  });
+});
+
+describe("conversations", () => {
+  test("only participants read a conversation and its messages", async () => {
+    await assertSucceeds(getDoc(doc(as("bob"), "conversations/alice_bob")));
+    await assertSucceeds(
+      getDocs(collection(as("bob"), "conversations/alice_bob/messages"))
+    );
+    await assertSucceeds(
+      getDocs(
+        query(
+          collection(as("bob"), "conversations"),
+          where("participants", "array-contains", "bob")
+        )
+      )
+    );
+    await assertFails(getDoc(doc(as("carol"), "conversations/alice_bob")));
+    await assertFails(
+      getDoc(doc(as("carol"), "conversations/alice_bob/messages/message1"))
+    );
+  });
+
+  test("missing conversations can be checked before creating", async () => {
+    await assertSucceeds(getDoc(doc(as("carol"), "conversations/alice_carol")));
+  });
+
+  test("direct conversations use the sorted uid pair as id", async () => {
+    const conversation = {
+      type: "direct",
+      participants: ["carol", "alice"],
+    };
+    await assertSucceeds(
+      setDoc(doc(as("carol"), "conversations/alice_carol"), conversation)
+    );
+    await assertFails(
+      setDoc(doc(as("carol"), "conversations/random"), conversation)
+    );
+    await assertFails(
+      setDoc(doc(as("dave"), "conversations/alice_carol"), conversation)
+    );
+  });
+
+  test("groups are created with their system message", async () => {
+    const db = as("carol");
+    const batch = writeBatch(db);
+    batch.set(doc(db, "conversations/group2"), {
+      type: "group",
+      name: "New",
+      createdBy: "carol",
+      admins: ["carol"],
+      participants: ["carol", "alice", "bob"],
+    });
+    batch.set(doc(db, "conversations/group2/messages/created"), {
+      type: "system",
+      senderId: "carol",
+      text: "carol created the group",
+    });
+    await assertSucceeds(batch.commit());
+  });
+
+  test("messages are sent as the caller by participants", async () => {
+    const message = { text: "Hello", readBy: {} };
+    await assertSucceeds(
+      setDoc(doc(as("alice"), "conversations/alice_bob/messages/new"), {
+        ...message,
+        senderId: "alice",
+      })
+    );
+    await assertFails(
+      setDoc(doc(as("alice"), "conversations/alice_bob/messages/fake"), {
+        ...message,
+        senderId: "bob",
+      })
+    );
+    await assertFails(
+      setDoc(doc(as("carol"), "conversations/alice_bob/messages/intruder"), {
+        ...message,
+        senderId: "carol",
+      })
+    );
+  });
+
+  test("only the sender edits a message; others add receipts and reactions", async () => {
+    const path = "conversations/alice_bob/messages/message1";
+    await assertSucceeds(
+      updateDoc(doc(as("bob"), path), { text: "Hi!", editedAt: 2 })
+    );
+    await assertFails(updateDoc(doc(as("alice"), path), { text: "Changed" }));
+    await assertSucceeds(
+      updateDoc(doc(as("alice"), path), {
+        "readBy.alice": 3,
+        "reactions.alice": "❤️",
+      })
+    );
+    await assertFails(
+      updateDoc(doc(as("alice"), path), { "reactions.bob": "👎" })
+    );
+  });
+
+  test("only the sender deletes a message", async () => {
+    const path = "conversations/alice_bob/messages/message1";
+    await assertFails(deleteDoc(doc(as("alice"), path)));
+    await assertSucceeds(deleteDoc(doc(as("bob"), path)));
+  });
+
+  test("blocked users can't message or start a direct conversation", async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      const db = context.firestore();
+      await setDoc(doc(db, "users/alice/blockedUsers/bob"), {
+        blockedUserId: "bob",
+      });
+      await setDoc(doc(db, "users/alice/blockedUsers/carol"), {
+        blockedUserId: "carol",
+      });
+    });
+
+    await assertFails(
+      setDoc(doc(as("bob"), "conversations/alice_bob/messages/new"), {
+        senderId: "bob",
+        text: "Hello?",
+        readBy: {},
+      })
+    );
+    await assertFails(
+      setDoc(doc(as("carol"), "conversations/alice_carol"), {
+        type: "direct",
+        participants: ["carol", "alice"],
+      })
+    );
+    // The one who blocked can still write, and groups aren't affected
+    await assertSucceeds(
+      setDoc(doc(as("alice"), "conversations/alice_bob/messages/new"), {
+        senderId: "alice",
+        text: "Hello",
+        readBy: {},
+      })
+    );
+    await assertSucceeds(
+      setDoc(doc(as("bob"), "conversations/group1/messages/new"), {
+        senderId: "bob",
+        text: "Hello all",
+        readBy: {},
+      })
+    );
+  });
+
+  test("unread counters of others only move with a sent message", async () => {
+    const ref = doc(as("alice"), "conversations/alice_bob");
+    await assertSucceeds(updateDoc(ref, { "unreadCounts.alice": 0 }));
+    await assertFails(updateDoc(ref, { "unreadCounts.bob": 0 }));
+    await assertSucceeds(
+      updateDoc(ref, {
+        lastMessage: { id: "m2", text: "Hey", senderId: "alice" },
+        "unreadCounts.bob": increment(1),
+      })
+    );
+  });
+
+  test("conversations are hidden per user", async () => {
+    const ref = doc(as("alice"), "conversations/alice_bob");
+    await assertSucceeds(updateDoc(ref, { deletedBy: arrayUnion("alice") }));
+    await assertFails(updateDoc(ref, { deletedBy: arrayUnion("bob") }));
+  });
+
+  test("history is cleared per user", async () => {
+    const ref = doc(as("alice"), "conversations/alice_bob");
+    await assertSucceeds(updateDoc(ref, { "clearedAt.alice": 5 }));
+    await assertFails(updateDoc(ref, { "clearedAt.bob": 5 }));
+  });
+
+  test("admins manage members; anyone can leave", async () => {
+    await assertFails(
+      updateDoc(doc(as("bob"), "conversations/group1"), {
+        participants: arrayUnion("dave"),
+      })
+    );
+    await assertFails(
+      updateDoc(doc(as("bob"), "conversations/group1"), {
+        participants: ["alice", "bob"],
+      })
+    );
+    await assertFails(
+      updateDoc(doc(as("bob"), "conversations/group1"), { name: "Dogs" })
+    );
+    await assertSucceeds(
+      updateDoc(doc(as("bob"), "conversations/group1"), {
+        participants: ["alice", "carol"],
+        admins: ["alice"],
+        "unreadCounts.bob": deleteField(),
+      })
+    );
+    await assertSucceeds(
+      updateDoc(doc(as("alice"), "conversations/group1"), {
+        participants: ["alice"],
+        "unreadCounts.carol": deleteField(),
+      })
+    );
+  });
+
+  test("typing indicators are written for the caller", async () => {
+    const typing = (userId) => ({
+      userId,
+      username: userId,
+      conversationId: "alice_bob",
+      timestamp: Date.now(),
+    });
+    await assertSucceeds(
+      setDoc(
+        doc(as("alice"), "typingIndicators/alice_bob_alice"),
+        typing("alice")
+      )
+    );
+    await assertFails(
+      setDoc(doc(as("alice"), "typingIndicators/alice_bob_bob"), typing("bob"))
+    );
+    await assertFails(
+      setDoc(
+        doc(as("carol"), "typingIndicators/alice_bob_carol"),
+        typing("carol")
+      )
+    );
+  });
+
+  test("only participants see who is typing", async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), "typingIndicators/alice_bob_bob"), {
+        userId: "bob",
+        username: "bob",
+        conversationId: "alice_bob",
+        timestamp: Date.now(),
+      });
+    });
+    const typingIn = (uid) =>
+      getDocs(
+        query(
+          collection(as(uid), "typingIndicators"),
+          where("conversationId", "==", "alice_bob")
+        )
+      );
+
+    await assertSucceeds(typingIn("alice"));
+    await assertFails(typingIn("carol"));
+    await assertFails(
+      getDoc(doc(as("carol"), "typingIndicators/alice_bob_bob"))
+    );
+  });
+
+  test("presence is written for the caller", async () => {
+    await assertSucceeds(
+      setDoc(doc(as("alice"), "userPresence/alice"), {
+        uid: "alice",
+        isOnline: true,
+      })
+    );
+    await assertFails(
+      setDoc(doc(as("alice"), "userPresence/bob"), {
+        uid: "bob",
+        isOnline: false,
+      })
+    );
+  });
+});
+
+describe("moderation", () => {
+  const report = (reporterId) => ({
+    reporterId,
+    targetType: "post",
+    targetId: "post1",
+    targetOwnerId: "alice",
+    reason: "spam",
+    status: "open",
+    createdAt: 1,
+  });
+
+  test("reports are filed as the caller and stay private", async () => {
+    const reportRef = doc(as("bob"), "reports/bob_post_post1");
+    await assertSucceeds(setDoc(reportRef, report("bob")));
+    await assertFails(
+      setDoc(doc(as("bob"), "reports/carol_post_post1"), report("carol"))
+    );
+    await assertFails(getDoc(doc(as("alice"), "reports/bob_post_post1")));
+    await assertFails(updateDoc(reportRef, { status: "resolved" }));
+  });
+
+  test("each reporter files one report per target", async () => {
+    const db = as("bob");
+    await assertFails(setDoc(doc(db, "reports/report1"), report("bob")));
+
+    const reportRef = doc(db, "reports/bob_post_post1");
+    await assertSucceeds(getDoc(reportRef));
+    await assertSucceeds(setDoc(reportRef, report("bob")));
+    await assertFails(
+      setDoc(reportRef, { ...report("bob"), reason: "harassment" })
+    );
+  });
+
+  test("moderation actions are Admin SDK only", async () => {
+    await assertFails(getDoc(doc(as("alice"), "moderationActions/action1")));
+    await assertFails(
+      setDoc(doc(as("alice"), "moderationActions/action1"), { note: "x" })
+    );
+  });
+});
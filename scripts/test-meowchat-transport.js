@@ -0,0 +1,223 @@
+/**
+ * Tests for the app's MeowChat transport (meowChatTransport, socketService,
+ * meowChatAPI and apiClient) against the mock MeowChat server
+ * The TypeScript sources are compiled on load with the project's
+ * TypeScript. Firebase auth and AsyncStorage are the only stand-ins: the
+ * signed-in user hands out "mock:UID" tokens, which the mock server accepts.
+ *
+ * Run with:
+ *   npm run test:mock-meowchat
+ */
+
+const fs = require("fs");
+const Module = require("module");
+const ts = require("typescript");
+const { describe, test, before, after, beforeEach } = require("node:test");
+const assert = require("node:assert/strict");
+const { createMockServer } = require("./mock-meowchat/server");
+
+const USER_ID = "alice";
+
+// Compile the app's .ts files to CommonJS as they are required
+require.extensions[".ts"] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, "utf8"), {
+    fileName: filename,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      esModuleInterop: true,
+    },
+  });
+  module._compile(outputText, filename);
+};
+
+const storage = new Map();
+const stubs = {
+  "@react-native-async-storage/async-storage": {
+    __esModule: true,
+    default: {
+      getItem: async (key) => (storage.has(key) ? storage.get(key) : null),
+      setItem: async (key, value) => {
+        storage.set(key, value);
+      },
+      removeItem: async (key) => {
+        storage.delete(key);
+      },
+    },
+  },
+  "../config/firebase": {
+    auth: {
+      currentUser: {
+        uid: USER_ID,
+        displayName: USER_ID,
+        email: null,
+        photoURL: null,
+        getIdToken: async () => `mock:${USER_ID}`,
+      },
+    },
+  },
+};
+
+const originalLoad = Module._load;
+Module._load = function (request, ...rest) {
+  return stubs[request] || originalLoad.call(this, request, ...rest);
+};
+
+let server;
+let baseUrl;
+let transport;
+let socketService;
+
+async function request(uid, method, path, body) {
+  const response = await fetch(`${baseUrl}/api${path}`, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer mock:${uid}`,
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  return response.json();
+}
+
+// A new chat partner for each test, so every test starts with an empty chat
+async function createDirectChat(otherUserId) {
+  for (const uid of [USER_ID, otherUserId]) {
+    await request(uid, "POST", "/auth/firebase-login", {
+      firebaseToken: `mock:${uid}`,
+      username: uid,
+    });
+  }
+  const chat = await request(USER_ID, "POST", "/chats", {
+    type: "direct",
+    participants: [otherUserId],
+  });
+  return chat._id;
+}
+
+function waitForConnectionState(state) {
+  return new Promise((resolve) => {
+    const unsubscribe = transport.subscribeToConnectionState((current) => {
+      if (current !== state) return;
+      // Called synchronously with the current state first
+      setImmediate(() => unsubscribe());
+      resolve();
+    });
+  });
+}
+
+function outboxMessage(conversationId, recipientId, id, text) {
+  return {
+    id,
+    conversationId,
+    senderId: USER_ID,
+    senderName: USER_ID,
+    senderAvatar: "",
+    text,
+    recipientIds: [recipientId],
+    createdAt: Date.now(),
+    status: "sending",
+    attempts: 0,
+  };
+}
+
+async function storedMessages(uid, chatId) {
+  const { messages } = await request(uid, "GET", `/messages/${chatId}`);
+  return messages;
+}
+
+before(async () => {
+  server = createMockServer({ port: 0, host: "127.0.0.1", quiet: true });
+  baseUrl = await server.start();
+
+  // The app reads its config when first loaded
+  process.env.EXPO_PUBLIC_CHAT_API_URL = baseUrl;
+  // The services log every socket event - keep the test output readable
+  console.log = () => {};
+  console.warn = () => {};
+
+  ({
+    meowChatTransport: transport,
+  } = require("../src/services/meowChatTransport"));
+  ({ socketService } = require("../src/services/socketService"));
+
+  // Signs in with the backend and opens the socket, as the app does
+  await transport.updatePresence(USER_ID, true);
+  await waitForConnectionState("connected");
+});
+
+after(async () => {
+  socketService.disconnect();
+  await server.stop();
+});
+
+beforeEach(() => {
+  server.faults.clear();
+});
+
+describe("meowChatTransport", () => {
+  test("sends over the socket once connected", async () => {
+    const chatId = await createDirectChat("bob");
+    const messages = new Promise((resolve, reject) => {
+      const unsubscribe = transport.subscribeToMessages(
+        chatId,
+        50,
+        (list) => {
+          if (!list.some((m) => m.clientMessageId === "socket-1")) return;
+          unsubscribe();
+          resolve(list);
+        },
+        reject
+      );
+    });
+    assert.ok(socketService.isSocketConnected());
+
+    await transport.sendMessage(
+      outboxMessage(chatId, "bob", "socket-1", "Hello")
+    );
+
+    const [stored] = await storedMessages("bob", chatId);
+    assert.equal(stored.clientMessageId, "socket-1");
+    assert.equal(stored.content, "Hello");
+    const [cached] = (await messages).filter(
+      (m) => m.clientMessageId === "socket-1"
+    );
+    assert.equal(cached.id, stored._id);
+  });
+
+  test("falls back to REST when the acknowledgement never comes", async () => {
+    const chatId = await createDirectChat("carol");
+    assert.ok(socketService.isSocketConnected());
+    server.faults.set({ dropAcks: true });
+
+    await transport.sendMessage(
+      outboxMessage(chatId, "carol", "lost-ack-1", "Still")
+    );
+
+    // The socket send was stored; the REST retry found it by its client id
+    const messages = await storedMessages("carol", chatId);
+    assert.equal(messages.length, 1);
+    assert.equal(messages[0].clientMessageId, "lost-ack-1");
+  });
+
+  test("sends over REST while the socket is down", async () => {
+    const chatId = await createDirectChat("dave");
+    server.faults.set({ rejectConnections: true });
+    const reconnecting = waitForConnectionState("reconnecting");
+    server.disconnect(USER_ID);
+    await reconnecting;
+    assert.ok(!socketService.isSocketConnected());
+
+    await transport.sendMessage(
+      outboxMessage(chatId, "dave", "rest-1", "Offline")
+    );
+
+    const messages = await storedMessages("dave", chatId);
+    assert.equal(messages.length, 1);
+    assert.equal(messages[0].clientMessageId, "rest-1");
+
+    // Leave the socket connected for the next test
+    server.faults.clear();
+    await waitForConnectionState("connected");
+  });
+});
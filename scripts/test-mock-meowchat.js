@@ -0,0 +1,221 @@
+/**
+ * Integration tests for the chat REST routes and socket events, run
+ * against the mock MeowChat server - no backend or network needed
+ *
+ * Run with:
+ *   npm run test:mock-meowchat
+ */
+
+const { describe, test, before, after, beforeEach } = require("node:test");
+const assert = require("node:assert/strict");
+const { io: connectSocket } = require("socket.io-client");
+const { createMockServer } = require("./mock-meowchat/server");
+
+let server;
+let baseUrl;
+const sockets = [];
+
+async function request(uid, method, path, body) {
+  const response = await fetch(`${baseUrl}/api${path}`, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      ...(uid ? { Authorization: `Bearer mock:${uid}` } : {}),
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+function connect(uid) {
+  const socket = connectSocket(baseUrl, {
+    auth: { token: `mock:${uid}`, firebaseUid: uid, username: uid },
+    transports: ["websocket"],
+    reconnection: false,
+  });
+  sockets.push(socket);
+  return new Promise((resolve, reject) => {
+    socket.once("connect", () => resolve(socket));
+    socket.once("connect_error", reject);
+  });
+}
+
+function nextEvent(socket, event) {
+  return new Promise((resolve) => socket.once(event, resolve));
+}
+
+function emitWithAck(socket, event, payload) {
+  return new Promise((resolve) => socket.emit(event, payload, resolve));
+}
+
+async function createDirectChat() {
+  await request("alice", "POST", "/auth/firebase-login", {
+    firebaseToken: "mock:alice",
+    username: "alice",
+  });
+  await request("bob", "POST", "/auth/firebase-login", {
+    firebaseToken: "mock:bob",
+    username: "bob",
+  });
+  const { body } = await request("alice", "POST", "/chats", {
+    type: "direct",
+    participants: ["bob"],
+  });
+  return body._id;
+}
+
+before(async () => {
+  server = createMockServer({ port: 0, host: "127.0.0.1", quiet: true });
+  baseUrl = await server.start();
+});
+
+after(async () => {
+  sockets.forEach((socket) => socket.disconnect());
+  await server.stop();
+});
+
+beforeEach(() => {
+  sockets.splice(0).forEach((socket) => socket.disconnect());
+  server.reset();
+});
+
+describe("REST", () => {
+  test("requests need a token", async () => {
+    const { status } = await request(null, "GET", "/chats");
+    assert.equal(status, 401);
+  });
+
+  test("chats are listed for their participants only", async () => {
+    const chatId = await createDirectChat();
+    const bobChats = await request("bob", "GET", "/chats");
+    assert.deepEqual(
+      bobChats.body.map((chat) => chat._id),
+      [chatId]
+    );
+
+    const carolChat = await request("carol", "GET", `/chats/${chatId}`);
+    assert.equal(carolChat.status, 403);
+  });
+
+  test("a repeated clientMessageId is stored once", async () => {
+    const chatId = await createDirectChat();
+    const message = { content: "Hi", clientMessageId: "client-1" };
+    const first = await request(
+      "alice",
+      "POST",
+      `/messages/${chatId}`,
+      message
+    );
+    const second = await request(
+      "alice",
+      "POST",
+      `/messages/${chatId}`,
+      message
+    );
+    assert.equal(first.body._id, second.body._id);
+
+    const { body } = await request("bob", "GET", `/messages/${chatId}`);
+    assert.equal(body.messages.length, 1);
+  });
+
+  test("only the sender edits or deletes a message", async () => {
+    const chatId = await createDirectChat();
+    const { body: message } = await request(
+      "alice",
+      "POST",
+      `/messages/${chatId}`,
+      { content: "Hi" }
+    );
+
+    const edit = await request("bob", "PUT", `/messages/${message._id}`, {
+      content: "Changed",
+    });
+    assert.equal(edit.status, 403);
+    const remove = await request("alice", "DELETE", `/messages/${message._id}`);
+    assert.equal(remove.status, 200);
+  });
+});
+
+describe("sockets", () => {
+  test("messages sent over the socket are acknowledged and delivered", async () => {
+    const chatId = await createDirectChat();
+    const [alice, bob] = await Promise.all([connect("alice"), connect("bob")]);
+    bob.emit("join_chat", { chatId });
+
+    const delivered = nextEvent(bob, "new_message");
+    const ack = await emitWithAck(alice, "send_message", {
+      chatId,
+      content: "Hello",
+      type: "text",
+      clientMessageId: "client-2",
+    });
+    assert.equal(ack.ok, true);
+    assert.equal(ack.message.clientMessageId, "client-2");
+
+    const message = await delivered;
+    assert.equal(message._id, ack.message._id);
+  });
+
+  test("typing is sent to everyone but the typist", async () => {
+    const chatId = await createDirectChat();
+    const [alice, bob] = await Promise.all([connect("alice"), connect("bob")]);
+
+    let aliceSawOwnTyping = false;
+    alice.on("user_typing", () => {
+      aliceSawOwnTyping = true;
+    });
+    const typing = nextEvent(bob, "user_typing");
+    alice.emit("typing", { chatId, isTyping: true });
+
+    const event = await typing;
+    assert.equal(event.userId, "alice");
+    assert.equal(aliceSawOwnTyping, false);
+  });
+});
+
+describe("faults", () => {
+  test("injected failures fail the matching request once", async () => {
+    await createDirectChat();
+    server.faults.set({ failures: [{ method: "GET", path: "/chats$" }] });
+
+    assert.equal((await request("alice", "GET", "/chats")).status, 500);
+    assert.equal((await request("alice", "GET", "/chats")).status, 200);
+  });
+
+  test("dropped acknowledgements still store the message", async () => {
+    const chatId = await createDirectChat();
+    const alice = await connect("alice");
+    server.faults.set({ dropAcks: true });
+
+    let acked = false;
+    alice.emit(
+      "send_message",
+      { chatId, content: "Lost ack", type: "text", clientMessageId: "c-3" },
+      () => {
+        acked = true;
+      }
+    );
+
+    // The REST fallback with the same id finds the stored message
+    const { body } = await request("alice", "POST", `/messages/${chatId}`, {
+      content: "Lost ack",
+      clientMessageId: "c-3",
+    });
+    assert.equal(body.clientMessageId, "c-3");
+    const { body: page } = await request("alice", "GET", `/messages/${chatId}`);
+    assert.equal(page.messages.length, 1);
+    assert.equal(acked, false);
+  });
+
+  test("disconnecting a user drops their sockets", async () => {
+    const alice = await connect("alice");
+    const disconnected = nextEvent(alice, "disconnect");
+    server.disconnect("alice");
+    assert.equal(await disconnected, "io server disconnect");
+  });
+
+  test("refused connections fail the handshake", async () => {
+    server.faults.set({ rejectConnections: true });
+    await assert.rejects(connect("alice"));
+  });
+});
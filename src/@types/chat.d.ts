@@ -12,55 +12,143 @@ export interface User {
   bio: string;
   isOnline: boolean;
   lastSeen: number; // timestamp
+  readReceiptsEnabled?: boolean; // missing means enabled
 }
 
 /**
- * Conversation type representing a chat between two users
+ * Conversation kind - direct chats have exactly two participants
+ */
+export type ConversationType = "direct" | "group";
+
+/**
+ * Denormalized participant profile stored on the conversation
+ */
+export interface ParticipantDetails {
+  uid: string;
+  username: string;
+  displayName: string;
+  avatarUrl: string;
+}
+
+/**
+ * Conversation type representing a direct chat or a group chat
  */
 export interface Conversation {
   id: string;
+  type?: ConversationType; // missing on older documents, treated as "direct"
+  name?: string; // group name
+  avatarUrl?: string; // group avatar
+  admins?: string[]; // array of user IDs allowed to manage the group
+  createdBy?: string;
   participants: string[]; // array of user IDs
   participantDetails: {
-    [userId: string]: {
-      uid: string;
-      username: string;
-      displayName: string;
-      avatarUrl: string;
-    };
+    [userId: string]: ParticipantDetails;
   };
   lastMessage: Message | null;
   lastMessageTimestamp: number;
   createdAt: number;
   updatedAt: number;
-  unreadCount: number; // for current user
+  unreadCounts?: {
+    [userId: string]: number; // unread messages per participant
+  };
+  deliveredUpTo?: {
+    [userId: string]: number; // messages up to this timestamp reached the user's device
+  };
+  clearedAt?: {
+    [userId: string]: number; // messages up to this timestamp are hidden for the user
+  };
   isArchived: boolean;
   deletedBy?: string[]; // array of user IDs who have deleted/hidden this conversation
 }
 
+/**
+ * System event recorded in a conversation (group membership changes etc.)
+ */
+export type SystemEventType =
+  | "group_created"
+  | "members_added"
+  | "member_removed"
+  | "member_left"
+  | "group_renamed"
+  | "group_avatar_changed";
+
 /**
  * Message type representing individual messages within a conversation
  */
 export interface Message {
   id: string;
   conversationId: string;
+  type?: "text" | "system"; // missing on older documents, treated as "text"
+  systemEvent?: {
+    type: SystemEventType;
+    actorId: string;
+    targetIds?: string[];
+  };
   senderId: string;
   senderName: string;
   senderAvatar: string;
   text: string;
   mediaUrls?: string[];
   mediaTypes?: string[]; // e.g., 'image', 'video', 'file'
+  mediaThumbnails?: string[]; // poster frames for videos, "" for other media
   timestamp: number;
-  isRead: boolean;
+  isRead: boolean; // legacy flag - receipts are tracked per recipient in readBy
   readBy: {
     [userId: string]: number; // userId: timestamp when read
   };
+  reactions?: {
+    [userId: string]: string; // userId: emoji
+  };
   editedAt?: number;
   deletedAt?: number;
+  hiddenAt?: number; // set when a moderator removes the message
   replyTo?: {
     messageId: string;
     senderName: string;
     text: string;
   };
+  outboxStatus?: OutboxStatus; // local only - set while the message is still in the outbox
+  clientMessageId?: string; // id the sending device gave it, echoed by backends with server-side ids
+}
+
+/**
+ * Receipt state of a sent message, per recipient or summarized for all of them
+ */
+export type MessageStatus = "sent" | "delivered" | "read";
+
+/**
+ * Receipt state of a message for a single recipient
+ */
+export interface MessageReceipt {
+  userId: string;
+  status: MessageStatus;
+  readAt?: number;
+}
+
+/**
+ * Delivery state of a message waiting in the local outbox
+ */
+export type OutboxStatus = "pending" | "failed";
+
+/**
+ * Message queued on this device until the chat backend has accepted it
+ * The id is generated on the client so a retried send reuses the same document
+ */
+export interface OutboxMessage {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  senderName: string;
+  senderAvatar: string;
+  text: string;
+  mediaUrls?: string[];
+  mediaTypes?: string[];
+  mediaThumbnails?: string[];
+  replyTo?: Message["replyTo"];
+  recipientIds: string[];
+  createdAt: number;
+  status: OutboxStatus;
+  attempts: number;
 }
 
 /**
@@ -96,6 +184,14 @@ export interface UserPresence {
   currentConversationId?: string; // which conversation they're actively viewing
 }
 
+/**
+ * Live connection to the chat backend, for the connection banner
+ * connecting - first attempt; reconnecting - lost and retrying;
+ * offline - not connected and retries keep failing (or stopped)
+ */
+export type ChatConnectionState =
+  "connecting" | "connected" | "reconnecting" | "offline";
+
 /**
  * Notification type for chat-related events
  */
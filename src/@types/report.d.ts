@@ -0,0 +1,80 @@
+// Report and moderation TypeScript types for MeowGram
+
+/**
+ * What a report points at
+ */
+export type ReportTargetType = "post" | "comment" | "message" | "user";
+
+/**
+ * Reason category picked by the reporter
+ */
+export type ReportReason =
+  | "spam"
+  | "harassment"
+  | "hate"
+  | "nudity"
+  | "violence"
+  | "self_harm"
+  | "scam"
+  | "other";
+
+/**
+ * Open reports wait for review; reviewed ones are dismissed or actioned
+ */
+export type ReportStatus = "open" | "dismissed" | "actioned";
+
+/**
+ * Copy of the reported content at the time of the report, so reviewers
+ * can see what was reported even if it was edited or deleted since
+ */
+export interface ReportSnapshot {
+  text?: string;
+  imageUrls?: string[];
+  authorName?: string;
+  postId?: string; // parent post of a reported comment
+  conversationId?: string; // conversation of a reported message
+}
+
+/**
+ * Everything needed to file a report about one piece of content or user
+ */
+export interface ReportTarget {
+  targetType: ReportTargetType;
+  targetId: string;
+  targetOwnerId: string; // user responsible for the content
+  snapshot: ReportSnapshot;
+}
+
+export interface Report extends ReportTarget {
+  id: string;
+  reporterId: string;
+  reason: ReportReason;
+  details: string;
+  status: ReportStatus;
+  createdAt: number; // timestamp
+  reviewedAt?: number;
+  reviewedBy?: string;
+  resolution?: Exclude<ModerationActionType, "reinstate" | "approve">;
+}
+
+/**
+ * Action a moderator took - reinstate lifts an earlier suspension and
+ * approve releases content held for review by automatic moderation
+ */
+export type ModerationActionType =
+  "dismiss" | "hide" | "suspend" | "reinstate" | "approve";
+
+/**
+ * Audit record written for every moderation action
+ */
+export interface ModerationAction {
+  id: string;
+  action: ModerationActionType;
+  reportIds: string[]; // every open report on the target is resolved together
+  targetType: ReportTargetType;
+  targetId: string;
+  targetOwnerId: string;
+  moderatorId: string;
+  note?: string;
+  createdAt: number; // timestamp
+}
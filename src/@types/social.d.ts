@@ -0,0 +1,71 @@
+// Post, comment, follow and notification TypeScript types for MeowGram
+
+export interface Post {
+  id: string;
+  userId: string;
+  imageUrl: string;
+  caption?: string;
+  username?: string;
+  userAvatar?: string;
+  createdAt: any; // Firestore Timestamp
+  likesCount: number; // number of docs in posts/{id}/likes
+  commentsCount: number;
+  hiddenAt?: number; // set when a moderator removes the post
+  hiddenBy?: string;
+}
+
+/**
+ * Entry in posts/{postId}/likes, keyed by the liker's uid
+ */
+export interface PostLike {
+  uid: string;
+  createdAt: any; // Firestore Timestamp
+}
+
+export interface Comment {
+  id: string;
+  postId: string;
+  authorId: string;
+  text: string;
+  createdAt: any; // Firestore Timestamp
+  likes: string[];
+  hiddenAt?: number; // set when a moderator removes the comment
+  hiddenBy?: string;
+}
+
+/**
+ * Entry in users/{uid}/following or users/{uid}/followers
+ */
+export interface FollowEntry {
+  id: string;
+  uid: string;
+  username?: string;
+  avatarUrl?: string;
+  followedAt: any;
+}
+
+/**
+ * The user on either side of a follow, as stored in the follow entries
+ */
+export interface FollowProfile {
+  uid: string;
+  username?: string;
+  avatarUrl?: string;
+}
+
+export type NotificationType = "follow" | "like" | "comment" | "commentLike";
+
+export interface Notification {
+  id: string;
+  userId: string; // recipient
+  fromUserId: string;
+  type: NotificationType;
+  postId?: string;
+  postCaption?: string;
+  commentId?: string;
+  commentText?: string;
+  createdAt: any; // Firestore Timestamp
+  read: boolean;
+}
+
+export type NewNotification = Omit<Notification, "id" | "createdAt" | "read">;
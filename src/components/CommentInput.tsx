@@ -10,16 +10,10 @@ import {
   Text,
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
-import {
-  collection,
-  addDoc,
-  serverTimestamp,
-  updateDoc,
-  doc,
-  increment,
-} from "firebase/firestore";
-import { db } from "../config/firebase";
 import { useTheme } from "../contexts/ThemeContext";
+import { ModerationResult } from "../services/moderationService";
+import { moderateText } from "../services/textModerationService";
+import { addComment } from "../services/commentRepository";
 
 interface CommentInputProps {
   postId: string;
@@ -41,37 +35,48 @@ const CommentInput: React.FC<CommentInputProps> = ({
     const trimmed = text.trim();
     if (!trimmed || isSubmitting) return;
 
+    const moderation = moderateText(trimmed, "comment");
+    if (!moderation.isAllowed) {
+      Alert.alert("Comment not posted", moderation.reason);
+      return;
+    }
+
+    if (moderation.decision === "warn") {
+      Alert.alert("Content Warning", moderation.reason, [
+        { text: "Edit", style: "cancel" },
+        {
+          text: "Post Anyway",
+          onPress: () => postComment(trimmed, moderation),
+        },
+      ]);
+      return;
+    }
+
+    await postComment(trimmed, moderation);
+  };
+
+  const postComment = async (trimmed: string, moderation: ModerationResult) => {
     setIsSubmitting(true);
     Keyboard.dismiss();
 
-    const commentData = {
-      postId,
-      authorId: currentUser?.uid,
-      text: trimmed,
-      createdAt: serverTimestamp(),
-      likes: [],
-    };
+    const isPendingReview = moderation.decision === "hide";
 
     try {
-      await addDoc(collection(db, "comments"), commentData);
-      await updateDoc(doc(db, "posts", postId), {
-        commentsCount: increment(1),
-      });
-
-      // Create notification for post owner (if not commenting on own post)
-      if (post.userId !== currentUser.uid) {
-        await addDoc(collection(db, "notifications"), {
-          userId: post.userId,
-          fromUserId: currentUser.uid,
-          type: "comment",
-          postId,
-          commentText: trimmed,
-          createdAt: serverTimestamp(),
-          read: false,
-        });
-      }
+      await addComment(
+        { id: postId, userId: post.userId },
+        currentUser?.uid,
+        trimmed,
+        moderation
+      );
 
       setText("");
+
+      if (isPendingReview) {
+        Alert.alert(
+          "Comment under review",
+          "Your comment will be visible once it has been reviewed."
+        );
+      }
     } catch (err) {
       console.error("Failed to post comment:", err);
       Alert.alert("Error", "Failed to post comment. Please try again.");
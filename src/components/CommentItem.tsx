@@ -7,21 +7,12 @@ import {
   StyleSheet,
   Alert,
 } from "react-native";
-import {
-  doc,
-  onSnapshot,
-  updateDoc,
-  arrayUnion,
-  arrayRemove,
-  addDoc,
-  collection,
-  serverTimestamp,
-  query,
-  where,
-  getDocs,
-} from "firebase/firestore";
+import { doc, onSnapshot } from "firebase/firestore";
 import { db } from "../config/firebase";
+import { likeComment, unlikeComment } from "../services/commentRepository";
 import { getOptimizedImageUrl } from "../services/imageOptimization";
+import ReportModal from "./ReportModal";
+import { ReportTarget } from "../@types/report";
 
 interface CommentItemProps {
   comment: any;
@@ -41,6 +32,7 @@ const CommentItem: React.FC<CommentItemProps> = ({
   const [author, setAuthor] = useState<any>(null);
   const [isLiking, setIsLiking] = useState(false);
   const [optimisticLikes, setOptimisticLikes] = useState<any>(null);
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
 
   // Use optimistic likes if available, otherwise use comment.likes
   const commentLikes =
@@ -79,43 +71,10 @@ const CommentItem: React.FC<CommentItemProps> = ({
     }
 
     try {
-      const commentRef = doc(db, "comments", comment.id);
-
       if (wasLiked) {
-        // Unlike the comment
-        await updateDoc(commentRef, {
-          likes: arrayRemove(currentUser.uid),
-        });
+        await unlikeComment(comment.id, currentUser.uid);
       } else {
-        // Like the comment
-        await updateDoc(commentRef, {
-          likes: arrayUnion(currentUser.uid),
-        });
-
-        // Create notification for comment like (only if not liking own comment)
-        if (comment.authorId !== currentUser.uid) {
-          // Check if notification already exists
-          const existingNotificationQuery = query(
-            collection(db, "notifications"),
-            where("userId", "==", comment.authorId),
-            where("fromUserId", "==", currentUser.uid),
-            where("type", "==", "commentLike"),
-            where("commentId", "==", comment.id)
-          );
-          const existingSnap = await getDocs(existingNotificationQuery);
-          if (existingSnap.empty) {
-            await addDoc(collection(db, "notifications"), {
-              userId: comment.authorId,
-              fromUserId: currentUser.uid,
-              type: "commentLike",
-              postId: comment.postId,
-              commentId: comment.id,
-              commentText: comment.text,
-              createdAt: serverTimestamp(),
-              read: false,
-            });
-          }
-        }
+        await likeComment(comment, currentUser.uid);
       }
     } catch (error) {
       console.error("Error updating comment like:", error);
@@ -168,9 +127,40 @@ const CommentItem: React.FC<CommentItemProps> = ({
     );
   };
 
+  // Long-press someone else's comment to report it
+  const handleLongPress = () => {
+    if (!currentUser || comment.authorId === currentUser.uid) return;
+
+    Alert.alert("Comment", undefined, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Report",
+        style: "destructive",
+        onPress: () =>
+          setReportTarget({
+            targetType: "comment",
+            targetId: comment.id,
+            targetOwnerId: comment.authorId,
+            snapshot: {
+              text: comment.text || "",
+              authorName: author?.username || "",
+              postId: comment.postId || post?.id,
+            },
+          }),
+      },
+    ]);
+  };
+
   return (
     <View style={styles.comment}>
-      <TouchableOpacity style={styles.commentUserLink}>
+      <ReportModal
+        target={reportTarget}
+        onClose={() => setReportTarget(null)}
+      />
+      <TouchableOpacity
+        style={styles.commentUserLink}
+        onLongPress={handleLongPress}
+      >
         {author?.avatarUrl || author?.photoURL ? (
           <Image
             source={{
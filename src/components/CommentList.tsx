@@ -1,18 +1,12 @@
 import React, { useEffect, useState } from "react";
 import { View, FlatList, StyleSheet } from "react-native";
-import {
-  collection,
-  query,
-  where,
-  orderBy,
-  onSnapshot,
-  deleteDoc,
-  doc,
-  updateDoc,
-  increment,
-} from "firebase/firestore";
-import { db } from "../config/firebase";
+import { useBlocks } from "../contexts/BlockContext";
 import CommentItem from "./CommentItem";
+import {
+  subscribeToPostComments,
+  deleteComment,
+} from "../services/commentRepository";
+import { Comment } from "../@types/social";
 
 interface CommentListProps {
   postId: string;
@@ -27,60 +21,24 @@ const CommentList: React.FC<CommentListProps> = ({
   isPostOwner,
   post,
 }) => {
-  const [comments, setComments] = useState<any[]>([]);
+  const { isBlocked } = useBlocks();
+  const [comments, setComments] = useState<Comment[]>([]);
 
   useEffect(() => {
     if (!postId) return;
 
-    const q = query(
-      collection(db, "comments"),
-      where("postId", "==", postId),
-      orderBy("createdAt", "asc")
-    );
-
-    const unsub = onSnapshot(q, async (snap) => {
-      const commentsData: any[] = [];
-      const updatesNeeded: Promise<any>[] = [];
-
-      snap.docs.forEach((d) => {
-        const data = d.data();
-        const commentData = {
-          id: d.id,
-          ...data,
-          createdAt: data.createdAt || { toDate: () => new Date(0) },
-          likes: data.likes || [],
-        };
-        commentsData.push(commentData);
-
-        // If this comment doesn't have a likes field in Firestore, add it
-        if (!data.likes) {
-          updatesNeeded.push(
-            updateDoc(doc(db, "comments", d.id), { likes: [] })
-          );
-        }
-      });
-
-      setComments(commentsData);
-
-      // Update comments that don't have likes field (run in background)
-      if (updatesNeeded.length > 0) {
-        Promise.all(updatesNeeded).catch(console.error);
-      }
-    });
+    const unsub = subscribeToPostComments(postId, setComments, "asc");
 
     return () => unsub();
   }, [postId]);
 
-  const handleDelete = async (comment: any) => {
+  const handleDelete = async (comment: Comment) => {
     if (isPostOwner || comment.authorId === currentUser.uid) {
-      await deleteDoc(doc(db, "comments", comment.id));
-      await updateDoc(doc(db, "posts", postId), {
-        commentsCount: increment(-1),
-      });
+      await deleteComment(comment.id, postId);
     }
   };
 
-  const renderComment = ({ item }: { item: any }) => (
+  const renderComment = ({ item }: { item: Comment }) => (
     <CommentItem
       key={item.id}
       comment={item}
@@ -94,7 +52,9 @@ const CommentList: React.FC<CommentListProps> = ({
   return (
     <View style={styles.container}>
       <FlatList
-        data={comments}
+        data={comments.filter(
+          (comment) => !isBlocked(comment.authorId) && !comment.hiddenAt
+        )}
         keyExtractor={(item) => item.id}
         renderItem={renderComment}
         showsVerticalScrollIndicator={false}
@@ -0,0 +1,53 @@
+import React from "react";
+import { View, Text, StyleSheet, ActivityIndicator } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useChat } from "../contexts/ChatContext";
+
+/**
+ * Shows when the chat backend connection is down - hidden while connected,
+ * and while connecting until an attempt has failed
+ */
+export const ConnectionBanner: React.FC = () => {
+  const { connectionState } = useChat();
+
+  if (connectionState === "connected" || connectionState === "connecting") {
+    return null;
+  }
+
+  const isOffline = connectionState === "offline";
+  const label =
+    connectionState === "reconnecting"
+      ? "Reconnecting..."
+      : "You're offline. Messages will send when you reconnect.";
+
+  return (
+    <View style={[styles.container, isOffline && styles.offlineContainer]}>
+      {isOffline ? (
+        <Ionicons name="cloud-offline-outline" size={14} color="#fff" />
+      ) : (
+        <ActivityIndicator size="small" color="#fff" />
+      )}
+      <Text style={styles.text}>{label}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    backgroundColor: "#f0ad4e",
+  },
+  offlineContainer: {
+    backgroundColor: "#6c757d",
+  },
+  text: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#fff",
+  },
+});
@@ -11,11 +11,15 @@ import {
 } from "react-native";
 import { useChat } from "../contexts/ChatContext";
 import { useAuth } from "../contexts/AuthContext";
-import { formatMessageTime, getMessagePreview } from "../services/chatUtils";
 import {
-  deleteConversation,
-  clearConversationMessages,
-} from "../services/conversationService";
+  formatMessageTime,
+  getMessagePreview,
+  getConversationTitle,
+  getConversationAvatar,
+  getUnreadCount,
+  getClearedAt,
+} from "../services/chatUtils";
+import { chatTransport } from "../services/chatTransport";
 
 interface ConversationListProps {
   onSelectConversation: (conversationId: string) => void;
@@ -45,7 +49,10 @@ export const ConversationList: React.FC<ConversationListProps> = ({
           text: "Clear Messages",
           onPress: async () => {
             try {
-              await clearConversationMessages(conversationId);
+              await chatTransport.clearConversation(
+                conversationId,
+                user?.uid || ""
+              );
               Alert.alert("Success", "Messages cleared");
             } catch (error) {
               console.error("Error clearing messages:", error);
@@ -58,7 +65,10 @@ export const ConversationList: React.FC<ConversationListProps> = ({
           style: "destructive",
           onPress: async () => {
             try {
-              await deleteConversation(conversationId, user?.uid || "");
+              await chatTransport.deleteConversation(
+                conversationId,
+                user?.uid || ""
+              );
               Alert.alert("Success", "Conversation deleted");
             } catch (error) {
               console.error("Error deleting conversation:", error);
@@ -91,17 +101,18 @@ export const ConversationList: React.FC<ConversationListProps> = ({
   }
 
   const renderConversationItem = ({ item }: any) => {
-    // Get the OTHER participant (not the current user)
-    const otherParticipantId = item.participants.find(
-      (id: string) => id !== user?.uid
-    );
-    const otherParticipant =
-      otherParticipantId && item.participantDetails
-        ? item.participantDetails[otherParticipantId]
-        : null;
+    // Group name, or the OTHER participant (not the current user)
+    const title = getConversationTitle(item, user?.uid || "");
+    const avatarUrl = getConversationAvatar(item, user?.uid || "");
 
-    const hasUnread = item.unreadCount > 0;
-    const messagePreview = getMessagePreview(item.lastMessage);
+    const unreadCount = getUnreadCount(item, user?.uid || "");
+    const hasUnread = unreadCount > 0;
+    // Cleared conversations show no preview until a new message arrives
+    const messagePreview = getMessagePreview(
+      item.lastMessageTimestamp > getClearedAt(item, user?.uid || "")
+        ? item.lastMessage
+        : null
+    );
 
     return (
       <TouchableOpacity
@@ -111,14 +122,14 @@ export const ConversationList: React.FC<ConversationListProps> = ({
         ]}
         onPress={() => onSelectConversation(item.id)}
         onLongPress={() =>
-          handleLongPress(item.id, otherParticipant?.displayName || "Unknown")
+          handleLongPress(item.id, title)
         }
         delayLongPress={500}
       >
         <Image
           source={{
             uri:
-              otherParticipant?.avatarUrl ||
+              avatarUrl ||
               "https://via.placeholder.com/48?text=Avatar",
           }}
           style={styles.avatar}
@@ -130,7 +141,7 @@ export const ConversationList: React.FC<ConversationListProps> = ({
               style={[styles.conversationName, hasUnread && styles.unreadName]}
               numberOfLines={1}
             >
-              {otherParticipant?.displayName || "Unknown"}
+              {title}
             </Text>
             <Text style={styles.timestamp}>
               {formatMessageTime(item.lastMessageTimestamp)}
@@ -148,7 +159,7 @@ export const ConversationList: React.FC<ConversationListProps> = ({
         {hasUnread && (
           <View style={styles.unreadBadge}>
             <Text style={styles.unreadBadgeText}>
-              {item.unreadCount > 99 ? "99+" : item.unreadCount}
+              {unreadCount > 99 ? "99+" : unreadCount}
             </Text>
           </View>
         )}
@@ -17,7 +17,8 @@ import {
   CLOUDINARY_CLOUD_NAME,
   CLOUDINARY_UPLOAD_PRESET,
 } from "../config/cloudinary";
-import { moderateImageWithAI } from "../services/aiModeration";
+import { moderateImage } from "../services/moderationService";
+import { moderateText, TEXT_POLICIES } from "../services/textModerationService";
 import { getOptimizedImageUrl } from "../services/imageOptimization";
 
 interface UserProfile {
@@ -89,16 +90,18 @@ const EditProfileModal: React.FC<EditProfileModalProps> = ({
     setModerationMessage("");
 
     try {
-      // AI moderation check
-      const aiResult = await moderateImageWithAI(imageUri, "profile avatar");
+      const moderation = await moderateImage({
+        uri: imageUri,
+        context: "avatar",
+      });
 
-      if (!aiResult.isAllowed) {
-        setModerationMessage(`🚫 ${aiResult.reason}`);
-        Alert.alert("Upload Blocked", aiResult.reason);
+      if (!moderation.isAllowed) {
+        setModerationMessage(`🚫 ${moderation.reason}`);
+        Alert.alert("Upload Blocked", moderation.reason);
         return;
       }
 
-      setModerationMessage("🤖 AI approved! Uploading...");
+      setModerationMessage("Image approved! Uploading...");
 
       // Upload to Cloudinary
       const formData = new FormData();
@@ -142,6 +145,26 @@ const EditProfileModal: React.FC<EditProfileModalProps> = ({
   const handleSave = async () => {
     if (!currentUser?.uid) return;
 
+    const moderation = moderateText(bio.trim(), "bio");
+    if (!moderation.isAllowed) {
+      Alert.alert("Bio not saved", moderation.reason);
+      return;
+    }
+
+    if (moderation.decision === "warn") {
+      Alert.alert("Content Warning", moderation.reason, [
+        { text: "Edit", style: "cancel" },
+        { text: "Save Anyway", onPress: saveProfile },
+      ]);
+      return;
+    }
+
+    await saveProfile();
+  };
+
+  const saveProfile = async () => {
+    if (!currentUser?.uid) return;
+
     setLoading(true);
     try {
       const userDocRef = doc(db, "users", currentUser.uid);
@@ -297,6 +320,7 @@ const EditProfileModal: React.FC<EditProfileModalProps> = ({
               placeholderTextColor={colors.textMuted}
               multiline
               numberOfLines={3}
+              maxLength={TEXT_POLICIES.bio.maxLength}
             />
           </View>
 
@@ -8,25 +8,21 @@ import {
   Image,
   ActivityIndicator,
 } from "react-native";
-import { collection, onSnapshot } from "firebase/firestore";
-import { db } from "../config/firebase";
 import { useTheme } from "../contexts/ThemeContext";
+import { useBlocks } from "../contexts/BlockContext";
 import { useNavigation } from "@react-navigation/native";
 import { getOptimizedImageUrl } from "../services/imageOptimization";
-
-interface FollowUser {
-  id: string;
-  uid: string;
-  username: string;
-  avatarUrl?: string;
-  followedAt: Date;
-}
+import {
+  subscribeToFollowList,
+  FollowListType,
+} from "../services/followRepository";
+import { FollowEntry } from "../@types/social";
 
 interface FollowListModalProps {
   visible: boolean;
   onClose: () => void;
   userId: string;
-  type: "followers" | "following";
+  type: FollowListType;
 }
 
 const FollowListModal: React.FC<FollowListModalProps> = ({
@@ -35,27 +31,23 @@ const FollowListModal: React.FC<FollowListModalProps> = ({
   userId,
   type,
 }) => {
-  const [users, setUsers] = useState<FollowUser[]>([]);
+  const [users, setUsers] = useState<FollowEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const { colors } = useTheme();
+  const { isBlocked } = useBlocks();
   const navigation = useNavigation<any>();
 
   useEffect(() => {
     if (!visible || !userId) return;
     setLoading(true);
-    const ref = collection(db, "users", userId, type);
-    const unsub = onSnapshot(ref, (snapshot) => {
-      const usersData = snapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-      })) as FollowUser[];
-      setUsers(usersData);
+    const unsub = subscribeToFollowList(userId, type, (entries) => {
+      setUsers(entries);
       setLoading(false);
     });
     return () => unsub();
   }, [userId, type, visible]);
 
-  const renderUserItem = ({ item }: { item: FollowUser }) => (
+  const renderUserItem = ({ item }: { item: FollowEntry }) => (
     <TouchableOpacity
       onPress={() => {
         // close modal then navigate to the selected user's profile
@@ -154,7 +146,7 @@ const FollowListModal: React.FC<FollowListModalProps> = ({
             </View>
           ) : (
             <FlatList
-              data={users}
+              data={users.filter((u) => !isBlocked(u.uid || u.id))}
               renderItem={renderUserItem}
               keyExtractor={(item) => item.id}
               ListEmptyComponent={
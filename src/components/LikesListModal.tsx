@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import {
   View,
   Text,
@@ -7,46 +7,83 @@ import {
   StyleSheet,
   FlatList,
   Image,
+  ActivityIndicator,
 } from "react-native";
-import { collection, query, where, onSnapshot } from "firebase/firestore";
-import { db } from "../config/firebase";
 import { useTheme } from "../contexts/ThemeContext";
+import { useBlocks } from "../contexts/BlockContext";
 import { getOptimizedImageUrl } from "../services/imageOptimization";
+import { getPostLikesPage, PostLikeCursor } from "../services/postRepository";
+import { getUserProfile } from "../services/userService";
+
+const PAGE_SIZE = 20;
 
 interface LikesListModalProps {
   isOpen: boolean;
   onClose: () => void;
-  likedByUsers: string[];
+  postId: string;
+}
+
+interface Liker {
+  id: string;
+  username?: string;
+  avatarUrl?: string;
 }
 
 const LikesListModal: React.FC<LikesListModalProps> = ({
   isOpen,
   onClose,
-  likedByUsers,
+  postId,
 }) => {
-  const [users, setUsers] = useState<any[]>([]);
+  const [users, setUsers] = useState<Liker[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+  const cursorRef = useRef<PostLikeCursor | null>(null);
   const { colors } = useTheme();
+  const { isBlocked } = useBlocks();
 
-  useEffect(() => {
-    if (!isOpen || likedByUsers.length === 0) return;
+  // Load the next page of likers, or the first when reset is set
+  const loadPage = async (reset: boolean) => {
+    setLoading(true);
+    try {
+      const page = await getPostLikesPage(
+        postId,
+        PAGE_SIZE,
+        reset ? null : cursorRef.current
+      );
+      const likers = await Promise.all(
+        page.likes.map(async (like) => {
+          const profile = await getUserProfile(like.uid).catch(() => null);
+          return {
+            id: like.uid,
+            username: profile?.username,
+            avatarUrl: profile?.avatarUrl,
+          };
+        })
+      );
 
-    const q = query(
-      collection(db, "users"),
-      where("__name__", "in", likedByUsers.slice(0, 10)) // Firestore 'in' limit is 10
-    );
+      cursorRef.current = page.cursor || cursorRef.current;
+      setUsers((prev) => (reset ? likers : [...prev, ...likers]));
+      setHasMore(page.hasMore);
+    } catch (err) {
+      console.error("Error loading likes:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
 
-    const unsub = onSnapshot(q, (snap) => {
-      const usersData = snap.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-      }));
-      setUsers(usersData);
-    });
+  useEffect(() => {
+    if (!isOpen) return;
+    cursorRef.current = null;
+    loadPage(true);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, postId]);
 
-    return () => unsub();
-  }, [isOpen, likedByUsers]);
+  const loadMore = () => {
+    if (loading || !hasMore) return;
+    loadPage(false);
+  };
 
-  const renderUser = ({ item }: { item: any }) => (
+  const renderUser = ({ item }: { item: Liker }) => (
     <View style={[styles.userItem, { borderBottomColor: colors.borderColor }]}>
       <Image
         source={
@@ -64,6 +101,8 @@ const LikesListModal: React.FC<LikesListModalProps> = ({
     </View>
   );
 
+  const visibleUsers = users.filter((u) => !isBlocked(u.id));
+
   if (!isOpen) return null;
 
   return (
@@ -91,17 +130,26 @@ const LikesListModal: React.FC<LikesListModalProps> = ({
         </View>
 
         <View style={styles.content}>
-          {users.length === 0 ? (
-            <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
-              No likes yet
-            </Text>
+          {visibleUsers.length === 0 ? (
+            loading ? (
+              <ActivityIndicator style={styles.loader} />
+            ) : (
+              <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+                No likes yet
+              </Text>
+            )
           ) : (
             <FlatList
-              data={users}
+              data={visibleUsers}
               keyExtractor={(item) => item.id}
               renderItem={renderUser}
               showsVerticalScrollIndicator={false}
               contentContainerStyle={styles.listContainer}
+              onEndReached={loadMore}
+              onEndReachedThreshold={0.5}
+              ListFooterComponent={
+                loading ? <ActivityIndicator style={styles.loader} /> : null
+              }
             />
           )}
         </View>
@@ -160,6 +208,9 @@ const styles = StyleSheet.create({
     borderColor: "#ddd",
     marginRight: 8,
   },
+  loader: {
+    marginVertical: 16,
+  },
   emptyText: {
     textAlign: "center",
     fontSize: 16,
@@ -0,0 +1,168 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  StyleSheet,
+  FlatList,
+  Image,
+  Linking,
+  useWindowDimensions,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { getMediaFileName } from "../services/chatUtils";
+
+interface MediaViewerModalProps {
+  visible: boolean;
+  mediaUrls: string[];
+  mediaTypes: string[];
+  initialIndex: number;
+  onClose: () => void;
+}
+
+/**
+ * Full-screen, swipeable viewer for the attachments of a message
+ * Videos and files are handed off to the system player/viewer
+ */
+export const MediaViewerModal: React.FC<MediaViewerModalProps> = ({
+  visible,
+  mediaUrls,
+  mediaTypes,
+  initialIndex,
+  onClose,
+}) => {
+  const { width, height } = useWindowDimensions();
+  const [currentIndex, setCurrentIndex] = useState(initialIndex);
+  const listRef = useRef<FlatList>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setCurrentIndex(initialIndex);
+    }
+  }, [visible, initialIndex]);
+
+  const openExternally = (url: string) => {
+    Linking.openURL(url).catch((error) => {
+      console.error("Error opening media:", error);
+    });
+  };
+
+  const renderItem = ({
+    item: url,
+    index,
+  }: {
+    item: string;
+    index: number;
+  }) => {
+    const type = mediaTypes[index] || "image";
+
+    return (
+      <View style={[styles.page, { width, height }]}>
+        {type === "image" ? (
+          <Image
+            source={{ uri: url }}
+            style={{ width, height: height * 0.8 }}
+            resizeMode="contain"
+          />
+        ) : (
+          <TouchableOpacity
+            style={styles.externalMedia}
+            onPress={() => openExternally(url)}
+          >
+            <Ionicons
+              name={type === "video" ? "play-circle" : "document"}
+              size={72}
+              color="#fff"
+            />
+            <Text style={styles.externalText} numberOfLines={2}>
+              {type === "video" ? "Play video" : getMediaFileName(url)}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={false}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <FlatList
+          ref={listRef}
+          data={mediaUrls}
+          renderItem={renderItem}
+          keyExtractor={(url, index) => `${url}_${index}`}
+          horizontal
+          pagingEnabled
+          showsHorizontalScrollIndicator={false}
+          initialScrollIndex={initialIndex}
+          getItemLayout={(_, index) => ({
+            length: width,
+            offset: width * index,
+            index,
+          })}
+          onMomentumScrollEnd={(event) => {
+            setCurrentIndex(
+              Math.round(event.nativeEvent.contentOffset.x / width)
+            );
+          }}
+        />
+
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Ionicons name="close" size={28} color="#fff" />
+          </TouchableOpacity>
+          {mediaUrls.length > 1 && (
+            <Text style={styles.counter}>
+              {currentIndex + 1} / {mediaUrls.length}
+            </Text>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#000",
+  },
+  page: {
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  externalMedia: {
+    alignItems: "center",
+    paddingHorizontal: 32,
+  },
+  externalText: {
+    color: "#fff",
+    fontSize: 16,
+    marginTop: 12,
+    textAlign: "center",
+  },
+  header: {
+    position: "absolute",
+    top: 40,
+    left: 0,
+    right: 0,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+  },
+  closeButton: {
+    padding: 8,
+  },
+  counter: {
+    color: "#fff",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,160 @@
+import React from "react";
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  StyleSheet,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useTheme } from "../contexts/ThemeContext";
+
+export const REACTION_EMOJIS = ["❤️", "😂", "😮", "😢", "😡", "👍"];
+
+export interface MessageAction {
+  label: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  destructive?: boolean;
+  onPress: () => void;
+}
+
+interface MessageActionsModalProps {
+  visible: boolean;
+  currentReaction?: string;
+  actions: MessageAction[];
+  onReact: (emoji: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Long-press sheet for a message: emoji reactions plus message actions
+ */
+export const MessageActionsModal: React.FC<MessageActionsModalProps> = ({
+  visible,
+  currentReaction,
+  actions,
+  onReact,
+  onClose,
+}) => {
+  const { colors } = useTheme();
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <TouchableWithoutFeedback onPress={onClose}>
+        <View style={styles.backdrop}>
+          <TouchableWithoutFeedback>
+            <View
+              style={[styles.sheet, { backgroundColor: colors.bgPrimary }]}
+            >
+              {/* Reaction picker */}
+              <View
+                style={[
+                  styles.reactionRow,
+                  { backgroundColor: colors.bgSecondary },
+                ]}
+              >
+                {REACTION_EMOJIS.map((emoji) => (
+                  <TouchableOpacity
+                    key={emoji}
+                    style={[
+                      styles.reactionButton,
+                      currentReaction === emoji && styles.selectedReaction,
+                    ]}
+                    onPress={() => {
+                      onReact(emoji);
+                      onClose();
+                    }}
+                  >
+                    <Text style={styles.reactionEmoji}>{emoji}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {/* Message actions */}
+              {actions.map((action) => (
+                <TouchableOpacity
+                  key={action.label}
+                  style={[
+                    styles.actionItem,
+                    { borderTopColor: colors.borderLight },
+                  ]}
+                  onPress={() => {
+                    onClose();
+                    action.onPress();
+                  }}
+                >
+                  <Ionicons
+                    name={action.icon}
+                    size={20}
+                    color={action.destructive ? "#FF6B6B" : colors.textPrimary}
+                  />
+                  <Text
+                    style={[
+                      styles.actionText,
+                      {
+                        color: action.destructive
+                          ? "#FF6B6B"
+                          : colors.textPrimary,
+                      },
+                    ]}
+                  >
+                    {action.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </TouchableWithoutFeedback>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.4)",
+    justifyContent: "center",
+    paddingHorizontal: 24,
+  },
+  sheet: {
+    borderRadius: 16,
+    overflow: "hidden",
+  },
+  reactionRow: {
+    flexDirection: "row",
+    justifyContent: "space-around",
+    paddingVertical: 12,
+    paddingHorizontal: 8,
+  },
+  reactionButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  selectedReaction: {
+    backgroundColor: "rgba(255, 107, 107, 0.2)",
+  },
+  reactionEmoji: {
+    fontSize: 26,
+  },
+  actionItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderTopWidth: 0.5,
+    gap: 12,
+  },
+  actionText: {
+    fontSize: 16,
+  },
+});
@@ -6,47 +6,224 @@ import {
   StyleSheet,
   ActivityIndicator,
   Text,
+  Image,
+  ScrollView,
+  Alert,
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
+import * as ImagePicker from "expo-image-picker";
 import { useChat } from "../contexts/ChatContext";
+import { useAuth } from "../contexts/AuthContext";
 import { useTheme } from "../contexts/ThemeContext";
+import { Message } from "../@types/chat";
+import { getMessagePreview } from "../services/chatUtils";
+import { TextModerationError } from "../services/textModerationService";
+import { chatTransport } from "../services/chatTransport";
+import {
+  isUploadCancelled,
+  MediaType,
+  MediaUploadHandle,
+} from "../services/mediaService";
+
+const MAX_ATTACHMENTS = 10;
+
+interface PendingAttachment {
+  id: string;
+  uri: string;
+  mimeType?: string;
+  type: MediaType;
+  progress: number; // 0-1
+  uploadedUrl?: string; // set once uploaded, so a retry skips it
+  uploadedThumbnailUrl?: string;
+  failed?: boolean;
+  paused?: boolean;
+}
+
+interface UploadedAttachment {
+  url: string;
+  type: MediaType;
+  thumbnailUrl?: string;
+}
 
 interface MessageInputProps {
   onSendMessage?: () => void;
   disabled?: boolean;
+  replyTo?: Message | null;
+  onCancelReply?: () => void;
 }
 
 export const MessageInput: React.FC<MessageInputProps> = ({
   onSendMessage,
   disabled = false,
+  replyTo = null,
+  onCancelReply,
 }) => {
-  const { sendMessage, setTyping, selectedConversation } = useChat();
+  const {
+    sendMessage,
+    setTyping,
+    selectedConversation,
+    isConversationBlocked,
+  } = useChat();
+  const { user } = useAuth();
   const { colors } = useTheme();
   const [messageText, setMessageText] = useState("");
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const inputRef = useRef<TextInput>(null);
+  const uploadHandlesRef = useRef<Map<string, MediaUploadHandle>>(new Map());
+
+  // Focus the input when a reply is started
+  useEffect(() => {
+    if (replyTo) {
+      inputRef.current?.focus();
+    }
+  }, [replyTo]);
 
   // Handle text change (typing indicators disabled to reduce Firestore quota)
   const handleTypingChange = useCallback((text: string) => {
     setMessageText(text);
   }, []);
 
+  const cancelAllUploads = useCallback(() => {
+    uploadHandlesRef.current.forEach((handle) => handle.cancel());
+    uploadHandlesRef.current.clear();
+  }, []);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
       if (typingTimeoutRef.current) {
         clearTimeout(typingTimeoutRef.current);
       }
+      cancelAllUploads();
     };
-  }, []);
+  }, [cancelAllUploads]);
+
+  // Drop pending attachments when switching conversations
+  useEffect(() => {
+    cancelAllUploads();
+    setAttachments([]);
+  }, [selectedConversation?.id, cancelAllUploads]);
+
+  const updateAttachment = useCallback(
+    (id: string, updates: Partial<PendingAttachment>) => {
+      setAttachments((prev) =>
+        prev.map((a) => (a.id === id ? { ...a, ...updates } : a))
+      );
+    },
+    []
+  );
+
+  /**
+   * Upload all pending attachments in parallel, reporting per-file progress
+   * Attachments cancelled mid-upload are left out of the message
+   */
+  const uploadAttachments = useCallback(async () => {
+    if (!user || !selectedConversation) {
+      throw new Error("User or conversation not available");
+    }
+
+    const results = await Promise.allSettled(
+      attachments.map(async (attachment) => {
+        if (attachment.uploadedUrl) {
+          return {
+            url: attachment.uploadedUrl,
+            type: attachment.type,
+            thumbnailUrl: attachment.uploadedThumbnailUrl,
+          };
+        }
+
+        updateAttachment(attachment.id, {
+          progress: 0,
+          failed: false,
+          paused: false,
+        });
+        const handle = chatTransport.startMediaUpload(
+          attachment.uri,
+          selectedConversation.id,
+          user.uid,
+          attachment.mimeType,
+          (progress) => {
+            if (progress.total > 0) {
+              updateAttachment(attachment.id, {
+                progress: progress.loaded / progress.total,
+              });
+            }
+          }
+        );
+        uploadHandlesRef.current.set(attachment.id, handle);
+
+        try {
+          const result = await handle.promise;
+          updateAttachment(attachment.id, {
+            progress: 1,
+            uploadedUrl: result.url,
+            uploadedThumbnailUrl: result.thumbnailUrl,
+          });
+          return {
+            url: result.url,
+            type: result.type,
+            thumbnailUrl: result.thumbnailUrl,
+          };
+        } catch (error) {
+          if (isUploadCancelled(error)) {
+            return null;
+          }
+          updateAttachment(attachment.id, { failed: true });
+          throw error;
+        } finally {
+          uploadHandlesRef.current.delete(attachment.id);
+        }
+      })
+    );
+
+    const failed = results.find((r) => r.status === "rejected");
+    if (failed) {
+      throw (failed as PromiseRejectedResult).reason;
+    }
+
+    return results
+      .map(
+        (r) => (r as PromiseFulfilledResult<UploadedAttachment | null>).value
+      )
+      .filter((u): u is UploadedAttachment => u !== null);
+  }, [attachments, user, selectedConversation, updateAttachment]);
 
   const handleSendMessage = useCallback(async () => {
-    if (!messageText.trim() || !selectedConversation || disabled) return;
+    if (
+      (!messageText.trim() && attachments.length === 0) ||
+      !selectedConversation ||
+      disabled
+    ) {
+      return;
+    }
 
     setIsLoading(true);
     try {
-      await sendMessage(messageText.trim());
+      const uploaded = attachments.length > 0 ? await uploadAttachments() : [];
+
+      // Every attachment was cancelled and there is no text left to send
+      if (!messageText.trim() && uploaded.length === 0) {
+        return;
+      }
+
+      await sendMessage(
+        messageText.trim(),
+        uploaded.map((u) => u.url),
+        uploaded.map((u) => u.type),
+        uploaded.map((u) => u.thumbnailUrl || ""),
+        replyTo
+          ? {
+              messageId: replyTo.id,
+              senderName: replyTo.senderName,
+              text: getMessagePreview(replyTo),
+            }
+          : undefined
+      );
       setMessageText("");
+      setAttachments([]);
+      onCancelReply?.();
 
       // Clear typing timeout (typing indicators disabled for quota savings)
       if (typingTimeoutRef.current) {
@@ -55,23 +232,162 @@ export const MessageInput: React.FC<MessageInputProps> = ({
 
       onSendMessage?.();
     } catch (error) {
+      // Text messages are queued in the outbox, so only moderation and
+      // uploads fail here. The text and attachments are kept for another try
+      if (error instanceof TextModerationError) {
+        Alert.alert("Message not sent", error.message);
+        return;
+      }
       console.error("Error sending message:", error);
-      // Show error feedback
-      alert("Failed to send message. Please try again.");
+      Alert.alert(
+        "Upload failed",
+        "Some attachments couldn't be uploaded. Tap send to try again."
+      );
     } finally {
       setIsLoading(false);
     }
-  }, [messageText, selectedConversation, sendMessage, disabled, onSendMessage]);
+  }, [
+    messageText,
+    attachments,
+    uploadAttachments,
+    selectedConversation,
+    sendMessage,
+    disabled,
+    onSendMessage,
+    replyTo,
+    onCancelReply,
+  ]);
+
+  const addPickedAssets = useCallback(
+    (assets: ImagePicker.ImagePickerAsset[]) => {
+      setAttachments((prev) => {
+        const room = MAX_ATTACHMENTS - prev.length;
+        if (assets.length > room) {
+          Alert.alert(
+            "Too many attachments",
+            `You can send up to ${MAX_ATTACHMENTS} photos or videos at once.`
+          );
+        }
+        const added = assets.slice(0, Math.max(0, room)).map((asset, i) => ({
+          id: `${Date.now()}_${i}_${asset.uri}`,
+          uri: asset.uri,
+          mimeType: asset.mimeType,
+          type: (asset.type === "video" ? "video" : "image") as MediaType,
+          progress: 0,
+        }));
+        return [...prev, ...added];
+      });
+    },
+    []
+  );
+
+  const pickFromLibrary = useCallback(async () => {
+    try {
+      const permissionResult =
+        await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (permissionResult.granted === false) {
+        Alert.alert(
+          "Permission required",
+          "Permission to access camera roll is required!"
+        );
+        return;
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.All,
+        allowsMultipleSelection: true,
+        selectionLimit: MAX_ATTACHMENTS,
+        quality: 0.8,
+      });
+
+      if (!result.canceled) {
+        addPickedAssets(result.assets);
+      }
+    } catch (error) {
+      console.error("Error picking media:", error);
+      Alert.alert("Error", "Failed to pick media");
+    }
+  }, [addPickedAssets]);
+
+  const captureWithCamera = useCallback(async () => {
+    try {
+      const { status } = await ImagePicker.requestCameraPermissionsAsync();
+      if (status !== "granted") {
+        Alert.alert(
+          "Permission required",
+          "Permission to access the camera is required!"
+        );
+        return;
+      }
+
+      const result = await ImagePicker.launchCameraAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.All,
+        quality: 0.8,
+      });
+
+      if (!result.canceled) {
+        addPickedAssets(result.assets);
+      }
+    } catch (error) {
+      console.error("Error capturing media:", error);
+      Alert.alert("Error", "Failed to open camera");
+    }
+  }, [addPickedAssets]);
 
   const handleAttachMedia = useCallback(async () => {
-    // TODO: Implement media picker
-    console.log("Media attachment not yet implemented");
+    Alert.alert("Add Attachment", undefined, [
+      { text: "Photo & Video Library", onPress: pickFromLibrary },
+      { text: "Camera", onPress: captureWithCamera },
+      { text: "Cancel", style: "cancel" },
+    ]);
+  }, [pickFromLibrary, captureWithCamera]);
+
+  const handleRemoveAttachment = useCallback((id: string) => {
+    // Cancel the upload if this attachment is still being sent
+    uploadHandlesRef.current.get(id)?.cancel();
+    setAttachments((prev) => prev.filter((a) => a.id !== id));
   }, []);
 
+  const handleTogglePause = useCallback(
+    (attachment: PendingAttachment) => {
+      const handle = uploadHandlesRef.current.get(attachment.id);
+      if (!handle) return;
+
+      const changed = attachment.paused ? handle.resume() : handle.pause();
+      if (changed) {
+        updateAttachment(attachment.id, { paused: !attachment.paused });
+      }
+    },
+    [updateAttachment]
+  );
+
+  const canSend =
+    (!!messageText.trim() || attachments.length > 0) && !isLoading && !disabled;
+
+  if (isConversationBlocked) {
+    return (
+      <View
+        style={[
+          styles.wrapper,
+          styles.blockedNotice,
+          {
+            backgroundColor: colors.bgPrimary,
+            borderTopColor: colors.borderColor,
+          },
+        ]}
+      >
+        <Ionicons name="ban-outline" size={18} color={colors.textMuted} />
+        <Text style={[styles.blockedNoticeText, { color: colors.textMuted }]}>
+          You can't reply to this conversation
+        </Text>
+      </View>
+    );
+  }
+
   return (
     <View
       style={[
-        styles.container,
+        styles.wrapper,
         {
           backgroundColor: colors.bgPrimary,
           borderTopColor: colors.borderColor,
@@ -79,63 +395,222 @@ export const MessageInput: React.FC<MessageInputProps> = ({
         disabled && styles.disabledContainer,
       ]}
     >
-      <TouchableOpacity
-        style={[
-          styles.iconButton,
-          !selectedConversation && styles.disabledButton,
-        ]}
-        onPress={handleAttachMedia}
-        disabled={!selectedConversation || disabled}
-      >
-        <Ionicons name="add" size={24} color="#FF6B6B" />
-      </TouchableOpacity>
+      {/* Reply preview */}
+      {replyTo && (
+        <View
+          style={[styles.replyPreview, { backgroundColor: colors.bgSecondary }]}
+        >
+          <View style={styles.replyPreviewContent}>
+            <Text style={styles.replyPreviewLabel}>
+              Replying to {replyTo.senderName}
+            </Text>
+            <Text
+              style={[styles.replyPreviewText, { color: colors.textSecondary }]}
+              numberOfLines={1}
+            >
+              {getMessagePreview(replyTo)}
+            </Text>
+          </View>
+          <TouchableOpacity onPress={onCancelReply} style={styles.replyCancel}>
+            <Ionicons name="close" size={20} color={colors.textMuted} />
+          </TouchableOpacity>
+        </View>
+      )}
 
-      <TextInput
-        style={[
-          styles.input,
-          { backgroundColor: colors.bgSecondary, color: colors.textPrimary },
-        ]}
-        placeholder="Type a message..."
-        placeholderTextColor={colors.textMuted}
-        value={messageText}
-        onChangeText={handleTypingChange}
-        multiline
-        maxLength={5000}
-        editable={!disabled && !!selectedConversation}
-      />
-
-      <TouchableOpacity
-        style={[
-          styles.iconButton,
-          styles.sendButton,
-          (!messageText.trim() || isLoading || disabled) &&
-            styles.disabledButton,
-        ]}
-        onPress={handleSendMessage}
-        disabled={!messageText.trim() || isLoading || disabled}
-      >
-        {isLoading ? (
-          <ActivityIndicator size="small" color="#FF6B6B" />
-        ) : (
-          <Ionicons name="send" size={20} color="#FF6B6B" />
+      {/* Attachment previews */}
+      {attachments.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.attachmentsContainer}
+        >
+          {attachments.map((attachment) => (
+            <View key={attachment.id} style={styles.attachmentItem}>
+              {attachment.type === "image" ? (
+                <Image
+                  source={{ uri: attachment.uri }}
+                  style={styles.attachmentThumb}
+                />
+              ) : (
+                <View style={[styles.attachmentThumb, styles.videoThumb]}>
+                  <Ionicons name="videocam" size={24} color="#fff" />
+                </View>
+              )}
+
+              {/* Upload progress */}
+              {isLoading && !attachment.uploadedUrl && (
+                <TouchableOpacity
+                  style={[styles.attachmentThumb, styles.progressOverlay]}
+                  onPress={() => handleTogglePause(attachment)}
+                  disabled={attachment.failed}
+                >
+                  {attachment.failed ? (
+                    <Ionicons name="alert-circle" size={24} color="#FF6B6B" />
+                  ) : attachment.paused ? (
+                    <Ionicons name="play" size={22} color="#fff" />
+                  ) : (
+                    <Text style={styles.progressText}>
+                      {Math.round(attachment.progress * 100)}%
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              )}
+              {!isLoading && attachment.failed && (
+                <View style={[styles.attachmentThumb, styles.progressOverlay]}>
+                  <Ionicons name="alert-circle" size={24} color="#FF6B6B" />
+                </View>
+              )}
+
+              {(!isLoading || !attachment.uploadedUrl) && (
+                <TouchableOpacity
+                  style={styles.removeAttachment}
+                  onPress={() => handleRemoveAttachment(attachment.id)}
+                >
+                  <Ionicons name="close-circle" size={20} color="#333" />
+                </TouchableOpacity>
+              )}
+            </View>
+          ))}
+        </ScrollView>
+      )}
+
+      <View style={styles.container}>
+        {chatTransport.capabilities.attachments && (
+          <TouchableOpacity
+            style={[
+              styles.iconButton,
+              !selectedConversation && styles.disabledButton,
+            ]}
+            onPress={handleAttachMedia}
+            disabled={!selectedConversation || disabled || isLoading}
+          >
+            <Ionicons name="add" size={24} color="#FF6B6B" />
+          </TouchableOpacity>
         )}
-      </TouchableOpacity>
+
+        <TextInput
+          ref={inputRef}
+          style={[
+            styles.input,
+            { backgroundColor: colors.bgSecondary, color: colors.textPrimary },
+          ]}
+          placeholder="Type a message..."
+          placeholderTextColor={colors.textMuted}
+          value={messageText}
+          onChangeText={handleTypingChange}
+          multiline
+          maxLength={5000}
+          editable={!disabled && !!selectedConversation}
+        />
+
+        <TouchableOpacity
+          style={[
+            styles.iconButton,
+            styles.sendButton,
+            !canSend && styles.disabledButton,
+          ]}
+          onPress={handleSendMessage}
+          disabled={!canSend}
+        >
+          {isLoading ? (
+            <ActivityIndicator size="small" color="#FF6B6B" />
+          ) : (
+            <Ionicons name="send" size={20} color="#FF6B6B" />
+          )}
+        </TouchableOpacity>
+      </View>
     </View>
   );
 };
 
 const styles = StyleSheet.create({
+  wrapper: {
+    borderTopWidth: 0.5,
+  },
   container: {
     flexDirection: "row",
     alignItems: "flex-end",
     paddingHorizontal: 12,
     paddingVertical: 8,
-    borderTopWidth: 0.5,
     gap: 8,
   },
+  replyPreview: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginHorizontal: 12,
+    marginTop: 8,
+    paddingLeft: 10,
+    paddingVertical: 6,
+    borderLeftWidth: 3,
+    borderLeftColor: "#FF6B6B",
+    borderRadius: 4,
+  },
+  replyPreviewContent: {
+    flex: 1,
+  },
+  replyPreviewLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#FF6B6B",
+  },
+  replyPreviewText: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  replyCancel: {
+    padding: 8,
+  },
+  attachmentsContainer: {
+    paddingHorizontal: 12,
+    paddingTop: 10,
+    gap: 8,
+  },
+  attachmentItem: {
+    position: "relative",
+  },
+  attachmentThumb: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+  },
+  videoThumb: {
+    backgroundColor: "#333",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  progressOverlay: {
+    position: "absolute",
+    top: 0,
+    left: 0,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  progressText: {
+    color: "#fff",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  removeAttachment: {
+    position: "absolute",
+    top: -6,
+    right: -6,
+    backgroundColor: "#fff",
+    borderRadius: 10,
+  },
   disabledContainer: {
     opacity: 0.5,
   },
+  blockedNotice: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 16,
+    gap: 8,
+  },
+  blockedNoticeText: {
+    fontSize: 14,
+  },
   input: {
     flex: 1,
     borderRadius: 20,
@@ -1,4 +1,10 @@
-import React, { useEffect, useCallback, useRef } from "react";
+import React, {
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import {
   View,
   Text,
@@ -8,44 +14,363 @@ import {
   TouchableOpacity,
   Image,
   Alert,
+  Linking,
+  NativeSyntheticEvent,
+  NativeScrollEvent,
 } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
 import { useChat } from "../contexts/ChatContext";
 import { useAuth } from "../contexts/AuthContext";
 import { useTheme } from "../contexts/ThemeContext";
+import { SwipeToReply } from "./SwipeToReply";
+import { MediaViewerModal } from "./MediaViewerModal";
+import { Message, MessageStatus } from "../@types/chat";
 import {
   formatFullTime,
+  getMessageStatus,
+  getSeenBy,
+  isGroupConversation,
   isMessageDeleted,
+  isMessageHidden,
+  isSystemMessage,
   getTimeDiffFromNow,
+  aggregateReactions,
+  getMediaFileName,
 } from "../services/chatUtils";
 
+// Distance from the top of the list at which the previous page is loaded
+const LOAD_OLDER_THRESHOLD = 200;
+
 interface MessageListProps {
   onMessageLongPress?: (messageId: string, senderId: string) => void;
+  onReply?: (message: Message) => void;
+  focusMessageId?: string | null; // scrolled to and highlighted when set
 }
 
+const HIGHLIGHT_DURATION = 2000;
+
 export const MessageList: React.FC<MessageListProps> = ({
   onMessageLongPress,
+  onReply,
+  focusMessageId,
 }) => {
-  const { messages, messagesLoading, selectedConversation, markAsRead } =
-    useChat();
+  const {
+    messages,
+    messagesLoading,
+    selectedConversation,
+    markAsRead,
+    hasMoreMessages,
+    loadingOlderMessages,
+    loadOlderMessages,
+    retryMessage,
+    discardMessage,
+  } = useChat();
   const { user } = useAuth();
   const { colors, isDark } = useTheme();
   const flatListRef = useRef<FlatList>(null);
-  const previousMessageCountRef = useRef(0);
+  const lastMessageIdRef = useRef<string | null>(null);
+  // Older pages only load once the user has scrolled themselves,
+  // not while the list is settling at the bottom on open
+  const userHasScrolledRef = useRef(false);
+  const [pendingJumpId, setPendingJumpId] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<
+    string | null
+  >(null);
+  const highlightTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const [viewerMedia, setViewerMedia] = useState<{
+    urls: string[];
+    types: string[];
+    index: number;
+  } | null>(null);
 
   // Mark-as-read disabled to prevent errors on non-existent message documents
   // Messages are marked as read when conversation is opened via markConversationAsRead
 
-  // Auto-scroll to bottom when new messages arrive
+  // Auto-scroll to bottom when a new message arrives at the end
+  // (older pages are prepended and must not move the list)
   useEffect(() => {
+    const lastMessageId =
+      messages.length > 0 ? messages[messages.length - 1].id : null;
     if (
-      messages.length > previousMessageCountRef.current &&
+      lastMessageId &&
+      lastMessageId !== lastMessageIdRef.current &&
       flatListRef.current
     ) {
       flatListRef.current.scrollToEnd({ animated: true });
     }
-    previousMessageCountRef.current = messages.length;
+    lastMessageIdRef.current = lastMessageId;
   }, [messages]);
 
+  useEffect(() => {
+    userHasScrolledRef.current = false;
+  }, [selectedConversation?.id]);
+
+  // Load the previous page when scrolled close to the top
+  const handleScroll = useCallback(
+    (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+      if (
+        !userHasScrolledRef.current ||
+        !hasMoreMessages ||
+        loadingOlderMessages
+      ) {
+        return;
+      }
+
+      if (event.nativeEvent.contentOffset.y < LOAD_OLDER_THRESHOLD) {
+        loadOlderMessages().catch(() => {
+          // Logged in ChatContext - scrolling up again retries
+        });
+      }
+    },
+    [hasMoreMessages, loadingOlderMessages, loadOlderMessages]
+  );
+
+  // Scroll to a quoted message once it is part of the list
+  useEffect(() => {
+    if (!pendingJumpId) return;
+
+    const index = messages.findIndex((m) => m.id === pendingJumpId);
+    if (index === -1 || !flatListRef.current) return;
+
+    flatListRef.current.scrollToIndex({
+      index,
+      animated: true,
+      viewPosition: 0.5,
+    });
+    setHighlightedMessageId(pendingJumpId);
+    setPendingJumpId(null);
+
+    if (highlightTimeoutRef.current) {
+      clearTimeout(highlightTimeoutRef.current);
+    }
+    highlightTimeoutRef.current = setTimeout(() => {
+      setHighlightedMessageId(null);
+    }, HIGHLIGHT_DURATION);
+  }, [pendingJumpId, messages]);
+
+  useEffect(() => {
+    return () => {
+      if (highlightTimeoutRef.current) {
+        clearTimeout(highlightTimeoutRef.current);
+      }
+    };
+  }, []);
+
+  // Jump to a message, loading older pages if needed
+  const jumpToMessage = useCallback(
+    async (messageId: string) => {
+      if (messages.some((m) => m.id === messageId)) {
+        setPendingJumpId(messageId);
+        return;
+      }
+
+      if (!hasMoreMessages) {
+        Alert.alert("Message unavailable", "The message could not be found.");
+        return;
+      }
+
+      try {
+        // Keep paging back until the message shows up or history runs out
+        let page = await loadOlderMessages();
+        const maxPages = 20;
+        for (let i = 0; i < maxPages && page.length > 0; i++) {
+          if (page.some((m) => m.id === messageId)) {
+            setPendingJumpId(messageId);
+            return;
+          }
+          page = await loadOlderMessages();
+        }
+        Alert.alert("Message unavailable", "The message could not be found.");
+      } catch (error) {
+        Alert.alert("Error", "Failed to load the message");
+      }
+    },
+    [messages, hasMoreMessages, loadOlderMessages]
+  );
+
+  // Jump to messages picked from outside the list (e.g. search results)
+  const jumpToMessageRef = useRef(jumpToMessage);
+  jumpToMessageRef.current = jumpToMessage;
+  useEffect(() => {
+    if (focusMessageId && !messagesLoading) {
+      jumpToMessageRef.current(focusMessageId);
+    }
+  }, [focusMessageId, messagesLoading]);
+
+  // scrollToIndex fails for rows that haven't been measured yet
+  const handleScrollToIndexFailed = useCallback(
+    (info: { index: number; averageItemLength: number }) => {
+      flatListRef.current?.scrollToOffset({
+        offset: info.averageItemLength * info.index,
+        animated: false,
+      });
+      setTimeout(() => {
+        flatListRef.current?.scrollToIndex({
+          index: info.index,
+          animated: true,
+          viewPosition: 0.5,
+        });
+      }, 100);
+    },
+    []
+  );
+
+  // Show who reacted with a given emoji
+  const handleReactionPress = (emoji: string, userIds: string[]) => {
+    const names = userIds.map((id) =>
+      id === user?.uid
+        ? "You"
+        : selectedConversation?.participantDetails?.[id]?.displayName ||
+          "Unknown"
+    );
+    Alert.alert(`${emoji} Reactions`, names.join("\n"));
+  };
+
+  // Messages still in the outbox can be retried or removed
+  const handleQueuedMessagePress = (message: Message) => {
+    const isFailed = message.outboxStatus === "failed";
+    Alert.alert(
+      isFailed ? "Message not sent" : "Sending message",
+      isFailed
+        ? "This message couldn't be sent."
+        : "This message will be sent when you're back online.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () => discardMessage(message.id),
+        },
+        ...(isFailed
+          ? [{ text: "Retry", onPress: () => retryMessage(message.id) }]
+          : []),
+      ]
+    );
+  };
+
+  // Images and videos go in a grid, anything else is shown as a file chip.
+  // Videos show their poster frame when they have one
+  const renderMedia = (message: Message, isOwnMessage: boolean) => {
+    const mediaUrls = message.mediaUrls || [];
+    const mediaTypes = message.mediaTypes || [];
+    const mediaThumbnails = message.mediaThumbnails || [];
+    const visual = mediaUrls
+      .map((url, i) => ({
+        url,
+        type: mediaTypes[i] || "image",
+        thumbnail: mediaThumbnails[i],
+      }))
+      .filter((m) => m.type === "image" || m.type === "video");
+    const files = mediaUrls.filter(
+      (_, i) =>
+        mediaTypes[i] &&
+        mediaTypes[i] !== "image" &&
+        mediaTypes[i] !== "video"
+    );
+    const maxTiles = 4;
+    const hiddenCount = visual.length - maxTiles;
+
+    return (
+      <>
+        {visual.length > 0 && (
+          <View style={styles.mediaContainer}>
+            {visual.slice(0, maxTiles).map((media, index) => (
+              <TouchableOpacity
+                key={`${message.id}_${index}`}
+                activeOpacity={0.8}
+                onPress={() =>
+                  setViewerMedia({
+                    urls: visual.map((m) => m.url),
+                    types: visual.map((m) => m.type),
+                    index,
+                  })
+                }
+              >
+                {media.type === "video" ? (
+                  <View
+                    style={[
+                      visual.length === 1
+                        ? styles.mediaSingle
+                        : styles.mediaImage,
+                      styles.videoTile,
+                    ]}
+                  >
+                    {!!media.thumbnail && (
+                      <Image
+                        source={{ uri: media.thumbnail }}
+                        style={StyleSheet.absoluteFill}
+                      />
+                    )}
+                    <Ionicons name="play-circle" size={44} color="#fff" />
+                  </View>
+                ) : (
+                  <Image
+                    source={{ uri: media.url }}
+                    style={
+                      visual.length === 1
+                        ? styles.mediaSingle
+                        : styles.mediaImage
+                    }
+                  />
+                )}
+                {index === maxTiles - 1 && hiddenCount > 0 && (
+                  <View style={[styles.mediaImage, styles.moreOverlay]}>
+                    <Text style={styles.moreText}>+{hiddenCount}</Text>
+                  </View>
+                )}
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {files.map((url, index) => (
+          <TouchableOpacity
+            key={`${message.id}_file_${index}`}
+            style={[
+              styles.fileChip,
+              isOwnMessage ? styles.ownFileChip : styles.otherFileChip,
+            ]}
+            onPress={() =>
+              Linking.openURL(url).catch((error) =>
+                console.error("Error opening file:", error)
+              )
+            }
+          >
+            <Ionicons
+              name="document-outline"
+              size={18}
+              color={isOwnMessage ? "#fff" : colors.textPrimary}
+            />
+            <Text
+              style={[
+                styles.fileName,
+                { color: isOwnMessage ? "#fff" : colors.textPrimary },
+              ]}
+              numberOfLines={1}
+            >
+              {getMediaFileName(url)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </>
+    );
+  };
+
+  // Newest message sent by this user - the group "seen by" line goes under it
+  const lastOwnMessageId = useMemo(() => {
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const message = messages[i];
+      if (
+        message.senderId === user?.uid &&
+        !message.outboxStatus &&
+        !isSystemMessage(message)
+      ) {
+        return message.id;
+      }
+    }
+    return null;
+  }, [messages, user?.uid]);
+
   if (messagesLoading) {
     return (
       <View
@@ -71,130 +396,316 @@ export const MessageList: React.FC<MessageListProps> = ({
     );
   }
 
+  const getParticipantName = (userId: string) =>
+    selectedConversation?.participantDetails?.[userId]?.displayName ||
+    "Unknown";
+
+  // List everyone who has seen a message, with the time they read it
+  const handleSeenByPress = (message: Message) => {
+    if (!selectedConversation) return;
+
+    const lines = getSeenBy(message, selectedConversation).map((receipt) =>
+      receipt.readAt
+        ? `${getParticipantName(receipt.userId)} - ${formatFullTime(
+            receipt.readAt
+          )}`
+        : getParticipantName(receipt.userId)
+    );
+    Alert.alert("Seen by", lines.join("\n"));
+  };
+
+  const renderStatusIcon = (status: MessageStatus) => (
+    <Ionicons
+      name={status === "sent" ? "checkmark" : "checkmark-done"}
+      size={13}
+      color={status === "read" ? "#B3E5FC" : "rgba(255, 255, 255, 0.7)"}
+      style={styles.statusIcon}
+    />
+  );
+
+  const renderSeenBy = (message: Message) => {
+    if (!selectedConversation) return null;
+
+    const seenBy = getSeenBy(message, selectedConversation);
+    if (seenBy.length === 0) return null;
+
+    const names = seenBy
+      .slice(0, 3)
+      .map((receipt) => getParticipantName(receipt.userId));
+    const extra = seenBy.length - names.length;
+
+    return (
+      <TouchableOpacity
+        style={styles.seenByContainer}
+        onPress={() => handleSeenByPress(message)}
+      >
+        <Text
+          style={[styles.seenByText, { color: colors.textMuted }]}
+          numberOfLines={1}
+        >
+          Seen by {names.join(", ")}
+          {extra > 0 && ` +${extra}`}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
   const renderMessage = ({ item: message }: any) => {
+    // Membership changes etc. are shown as centered notices
+    if (isSystemMessage(message)) {
+      return (
+        <View style={styles.systemMessageRow}>
+          <Text style={[styles.systemMessageText, { color: colors.textMuted }]}>
+            {message.text}
+          </Text>
+        </View>
+      );
+    }
+
     const isOwnMessage = message.senderId === user?.uid;
-    const isDeleted = isMessageDeleted(message);
+    const isHidden = isMessageHidden(message);
+    const isDeleted = isMessageDeleted(message) || isHidden;
+    const isQueued = !!message.outboxStatus;
+    const reactions = isDeleted ? [] : aggregateReactions(message);
 
     return (
-      <View
-        style={[
-          styles.messageRow,
-          isOwnMessage ? styles.ownMessageRow : styles.otherMessageRow,
-        ]}
+      <SwipeToReply
+        enabled={!!onReply && !isDeleted && !isQueued}
+        onReply={() => onReply?.(message)}
       >
-        {!isOwnMessage && (
-          <Image
-            source={
-              message.senderAvatar
-                ? { uri: message.senderAvatar }
-                : require("../../assets/placeholderImg.jpg")
-            }
-            style={styles.senderAvatar}
-          />
-        )}
-
-        <TouchableOpacity
+        <View
           style={[
-            styles.messageBubble,
-            isOwnMessage
-              ? styles.ownBubble
-              : [
-                  styles.otherBubble,
-                  { backgroundColor: isDark ? colors.bgTertiary : "#f0f0f0" },
-                ],
-            isDeleted && styles.deletedBubble,
+            styles.messageRow,
+            isOwnMessage ? styles.ownMessageRow : styles.otherMessageRow,
+            highlightedMessageId === message.id && styles.highlightedRow,
           ]}
-          onLongPress={() => {
-            if (onMessageLongPress && !isDeleted) {
-              onMessageLongPress(message.id, message.senderId);
-            }
-          }}
-          delayLongPress={500}
         >
-          {/* Message header with sender name for others' messages */}
           {!isOwnMessage && (
-            <Text style={[styles.senderName, { color: colors.textSecondary }]}>
-              {message.senderName}
-            </Text>
-          )}
-
-          {/* Reply-to indicator */}
-          {message.replyTo && (
-            <View style={styles.replyToContainer}>
-              <Text style={styles.replyToLabel}>
-                Replying to {message.replyTo.senderName}
-              </Text>
-              <Text style={styles.replyToText} numberOfLines={1}>
-                {message.replyTo.text}
-              </Text>
-            </View>
+            <Image
+              source={
+                message.senderAvatar
+                  ? { uri: message.senderAvatar }
+                  : require("../../assets/placeholderImg.jpg")
+              }
+              style={styles.senderAvatar}
+            />
           )}
 
-          {/* Main message content */}
-          <Text
+          <TouchableOpacity
             style={[
-              styles.messageText,
+              styles.messageBubble,
               isOwnMessage
-                ? styles.ownMessageText
-                : { color: colors.textPrimary },
-              isDeleted && [
-                styles.deletedMessageText,
-                { color: colors.textMuted },
-              ],
+                ? styles.ownBubble
+                : [
+                    styles.otherBubble,
+                    { backgroundColor: isDark ? colors.bgTertiary : "#f0f0f0" },
+                  ],
+              isDeleted && styles.deletedBubble,
+              message.outboxStatus === "pending" && styles.pendingBubble,
             ]}
+            onPress={
+              message.outboxStatus === "failed"
+                ? () => handleQueuedMessagePress(message)
+                : undefined
+            }
+            onLongPress={() => {
+              if (isQueued) {
+                handleQueuedMessagePress(message);
+              } else if (onMessageLongPress && !isDeleted) {
+                onMessageLongPress(message.id, message.senderId);
+              }
+            }}
+            delayLongPress={500}
           >
-            {isDeleted ? "[Message deleted]" : message.text}
-          </Text>
+            {/* Message header with sender name for others' messages */}
+            {!isOwnMessage && (
+              <Text
+                style={[styles.senderName, { color: colors.textSecondary }]}
+              >
+                {message.senderName}
+              </Text>
+            )}
+
+            {/* Reply-to indicator */}
+            {message.replyTo && (
+              <TouchableOpacity
+                style={styles.replyToContainer}
+                onPress={() => jumpToMessage(message.replyTo.messageId)}
+              >
+                <Text style={styles.replyToLabel}>
+                  Replying to {message.replyTo.senderName}
+                </Text>
+                <Text style={styles.replyToText} numberOfLines={1}>
+                  {message.replyTo.text}
+                </Text>
+              </TouchableOpacity>
+            )}
 
-          {/* Media attachments */}
-          {message.mediaUrls && message.mediaUrls.length > 0 && !isDeleted && (
-            <View style={styles.mediaContainer}>
-              {message.mediaUrls.map((url: string, index: number) => (
-                <Image
-                  key={`${message.id}_${index}`}
-                  source={{ uri: url }}
-                  style={styles.mediaImage}
+            {/* Main message content */}
+            {(isDeleted || !!message.text) && (
+              <Text
+                style={[
+                  styles.messageText,
+                  isOwnMessage
+                    ? styles.ownMessageText
+                    : { color: colors.textPrimary },
+                  isDeleted && [
+                    styles.deletedMessageText,
+                    { color: colors.textMuted },
+                  ],
+                ]}
+              >
+                {isHidden
+                  ? "[Message removed]"
+                  : isDeleted
+                  ? "[Message deleted]"
+                  : message.text}
+              </Text>
+            )}
+
+            {/* Media attachments */}
+            {message.mediaUrls &&
+              message.mediaUrls.length > 0 &&
+              !isDeleted &&
+              renderMedia(message, isOwnMessage)}
+
+            {/* Message footer with time and edit status */}
+            <View style={styles.messageFooter}>
+              <Text
+                style={[
+                  styles.messageTime,
+                  isOwnMessage ? styles.ownTime : { color: colors.textMuted },
+                ]}
+              >
+                {getTimeDiffFromNow(message.timestamp)}
+                {message.editedAt && " (edited)"}
+              </Text>
+
+              {message.outboxStatus === "pending" && (
+                <Ionicons
+                  name="time-outline"
+                  size={11}
+                  color="rgba(255, 255, 255, 0.7)"
+                  style={styles.statusIcon}
                 />
-              ))}
+              )}
+              {!isQueued &&
+                isOwnMessage &&
+                selectedConversation &&
+                renderStatusIcon(
+                  getMessageStatus(message, selectedConversation)
+                )}
             </View>
+          </TouchableOpacity>
+
+          {message.outboxStatus === "failed" && (
+            <TouchableOpacity
+              style={styles.failedIndicator}
+              onPress={() => handleQueuedMessagePress(message)}
+            >
+              <Ionicons name="alert-circle" size={14} color="#FF3B30" />
+              <Text style={styles.failedText}>Not sent. Tap to retry</Text>
+            </TouchableOpacity>
           )}
 
-          {/* Message footer with time and edit status */}
-          <View style={styles.messageFooter}>
-            <Text
+          {/* Reaction chips */}
+          {reactions.length > 0 && (
+            <View
               style={[
-                styles.messageTime,
-                isOwnMessage ? styles.ownTime : { color: colors.textMuted },
+                styles.reactionsContainer,
+                isOwnMessage ? styles.ownReactions : styles.otherReactions,
               ]}
             >
-              {getTimeDiffFromNow(message.timestamp)}
-              {message.editedAt && " (edited)"}
-            </Text>
+              {reactions.map((reaction) => {
+                const reactedByMe =
+                  !!user && reaction.userIds.includes(user.uid);
+                return (
+                  <TouchableOpacity
+                    key={reaction.emoji}
+                    style={[
+                      styles.reactionChip,
+                      {
+                        backgroundColor: colors.bgSecondary,
+                        borderColor: reactedByMe
+                          ? "#FF6B6B"
+                          : colors.borderColor,
+                      },
+                    ]}
+                    onPress={() =>
+                      handleReactionPress(reaction.emoji, reaction.userIds)
+                    }
+                  >
+                    <Text style={styles.reactionEmoji}>{reaction.emoji}</Text>
+                    {reaction.count > 1 && (
+                      <Text
+                        style={[
+                          styles.reactionCount,
+                          { color: colors.textSecondary },
+                        ]}
+                      >
+                        {reaction.count}
+                      </Text>
+                    )}
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
 
-            {isOwnMessage && message.isRead && (
-              <Text style={styles.readIndicator}>✓✓</Text>
-            )}
-          </View>
-        </TouchableOpacity>
-      </View>
+          {message.id === lastOwnMessageId &&
+            selectedConversation &&
+            isGroupConversation(selectedConversation) &&
+            renderSeenBy(message)}
+        </View>
+      </SwipeToReply>
     );
   };
 
   return (
-    <FlatList
-      ref={flatListRef}
-      data={messages}
-      renderItem={renderMessage}
-      keyExtractor={(item) => item.id}
-      contentContainerStyle={styles.listContent}
-      scrollEnabled={true}
-      inverted={false}
-      onEndReachedThreshold={0.5}
-    />
+    <>
+      <FlatList
+        ref={flatListRef}
+        data={messages}
+        renderItem={renderMessage}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.listContent}
+        scrollEnabled={true}
+        inverted={false}
+        onEndReachedThreshold={0.5}
+        onScrollToIndexFailed={handleScrollToIndexFailed}
+        onScroll={handleScroll}
+        onScrollBeginDrag={() => {
+          userHasScrolledRef.current = true;
+        }}
+        scrollEventThrottle={100}
+        // Keeps the visible messages in place when older pages are prepended
+        maintainVisibleContentPosition={{ minIndexForVisible: 0 }}
+        ListHeaderComponent={
+          loadingOlderMessages ? (
+            <ActivityIndicator
+              style={styles.olderMessagesLoader}
+              size="small"
+              color="#FF6B6B"
+            />
+          ) : null
+        }
+      />
+
+      <MediaViewerModal
+        visible={!!viewerMedia}
+        mediaUrls={viewerMedia?.urls || []}
+        mediaTypes={viewerMedia?.types || []}
+        initialIndex={viewerMedia?.index || 0}
+        onClose={() => setViewerMedia(null)}
+      />
+    </>
   );
 };
 
 const styles = StyleSheet.create({
+  olderMessagesLoader: {
+    paddingVertical: 12,
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: "center",
@@ -219,10 +730,24 @@ const styles = StyleSheet.create({
     paddingVertical: 12,
     paddingHorizontal: 12,
   },
+  systemMessageRow: {
+    alignItems: "center",
+    marginVertical: 8,
+    paddingHorizontal: 24,
+  },
+  systemMessageText: {
+    fontSize: 12,
+    textAlign: "center",
+  },
   messageRow: {
     flexDirection: "row",
+    flexWrap: "wrap",
     marginVertical: 4,
   },
+  highlightedRow: {
+    backgroundColor: "rgba(255, 107, 107, 0.15)",
+    borderRadius: 12,
+  },
   ownMessageRow: {
     justifyContent: "flex-end",
   },
@@ -294,9 +819,53 @@ const styles = StyleSheet.create({
     gap: 4,
   },
   mediaImage: {
-    width: 150,
-    height: 150,
+    width: 110,
+    height: 110,
+    borderRadius: 8,
+  },
+  mediaSingle: {
+    width: 220,
+    height: 220,
+    borderRadius: 8,
+  },
+  videoTile: {
+    backgroundColor: "#222",
+    justifyContent: "center",
+    alignItems: "center",
+    overflow: "hidden",
+  },
+  moreOverlay: {
+    position: "absolute",
+    top: 0,
+    left: 0,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  moreText: {
+    color: "#fff",
+    fontSize: 22,
+    fontWeight: "700",
+  },
+  fileChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
     borderRadius: 8,
+    gap: 6,
+    maxWidth: 240,
+  },
+  ownFileChip: {
+    backgroundColor: "rgba(255, 255, 255, 0.2)",
+  },
+  otherFileChip: {
+    backgroundColor: "rgba(0, 0, 0, 0.05)",
+  },
+  fileName: {
+    flexShrink: 1,
+    fontSize: 14,
   },
   messageFooter: {
     flexDirection: "row",
@@ -311,9 +880,61 @@ const styles = StyleSheet.create({
     color: "rgba(255, 255, 255, 0.7)",
   },
   otherTime: {},
-  readIndicator: {
-    color: "rgba(255, 255, 255, 0.7)",
-    fontSize: 10,
+  reactionsContainer: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    width: "100%",
+    marginTop: -4,
+    gap: 4,
+  },
+  ownReactions: {
+    justifyContent: "flex-end",
+    paddingRight: 8,
+  },
+  otherReactions: {
+    justifyContent: "flex-start",
+    paddingLeft: 48,
+  },
+  reactionChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  reactionEmoji: {
+    fontSize: 13,
+  },
+  reactionCount: {
+    fontSize: 12,
+    fontWeight: "600",
+    marginLeft: 3,
+  },
+  seenByContainer: {
+    width: "100%",
+    alignItems: "flex-end",
+    marginTop: 2,
+  },
+  seenByText: {
+    fontSize: 11,
+  },
+  statusIcon: {
     marginLeft: 4,
   },
+  pendingBubble: {
+    opacity: 0.7,
+  },
+  failedIndicator: {
+    width: "100%",
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "flex-end",
+    marginTop: 4,
+    gap: 4,
+  },
+  failedText: {
+    color: "#FF3B30",
+    fontSize: 12,
+  },
 });
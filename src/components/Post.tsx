@@ -17,29 +17,28 @@ import { FontAwesome } from "@expo/vector-icons";
 import { useNavigation } from "@react-navigation/native";
 import { useTheme } from "../contexts/ThemeContext";
 import { getOptimizedImageUrl } from "../services/imageOptimization";
-import {
-  deleteDoc,
-  doc,
-  updateDoc,
-  arrayUnion,
-  arrayRemove,
-  increment,
-  collection,
-  addDoc,
-  serverTimestamp,
-  query,
-  where,
-  orderBy,
-  onSnapshot,
-  getDocs,
-} from "firebase/firestore";
+import { doc, onSnapshot } from "firebase/firestore";
 import { db } from "../config/firebase";
+import {
+  subscribeToPost,
+  subscribeToPostLiked,
+  deletePost,
+  likePost,
+  unlikePost,
+} from "../services/postRepository";
+import {
+  subscribeToPostComments,
+  deleteComment,
+} from "../services/commentRepository";
 import formatTimeAgo from "../config/timeFormat";
 import CommentInput from "./CommentInput";
 import CommentItem from "./CommentItem";
 import CommentsModal from "./CommentsModal";
 import LikesListModal from "./LikesListModal";
 import ProgressiveImage from "./ProgressiveImage";
+import ReportModal from "./ReportModal";
+import { ReportTarget } from "../@types/report";
+import { Comment } from "../@types/social";
 
 const { width, height } = Dimensions.get("window");
 
@@ -50,7 +49,6 @@ type PostType = {
   userId: string;
   createdAt: any;
   likesCount: number;
-  likedByUsers: string[];
   commentsCount: number;
 };
 
@@ -61,13 +59,6 @@ type UserType = {
   photoURL?: string;
 };
 
-type CommentType = {
-  id: string;
-  authorId: string;
-  text: string;
-  createdAt: any;
-};
-
 interface PostProps {
   post: PostType;
   currentUser: UserType | null;
@@ -89,11 +80,7 @@ export default function Post({
 }: PostProps) {
   const navigation = useNavigation();
   const { colors } = useTheme();
-  const [isLiked, setIsLiked] = useState(
-    currentUser &&
-      post.likedByUsers &&
-      post.likedByUsers.includes(currentUser.uid)
-  );
+  const [isLiked, setIsLiked] = useState(false);
   const [likesCount, setLikesCount] = useState(post.likesCount || 0);
   const [showOptions, setShowOptions] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
@@ -102,30 +89,35 @@ export default function Post({
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [showOtherUserMenu, setShowOtherUserMenu] = useState(false);
 
-  const [previewComments, setPreviewComments] = useState<CommentType[]>([]);
+  const [previewComments, setPreviewComments] = useState<Comment[]>([]);
   const [totalComments, setTotalComments] = useState(0);
   const [showFullComments, setShowFullComments] = useState(false);
   const [showLikes, setShowLikes] = useState(false);
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
   const isUpdatingLike = useRef(false);
 
   const [postUser, setPostUser] = useState<UserType | null>(null);
 
   useEffect(() => {
-    const postRef = doc(db, "posts", post.id);
-    const unsubscribe = onSnapshot(postRef, (doc) => {
-      if (doc.exists()) {
-        const postData = doc.data();
-        setLikesCount(postData.likesCount || 0);
-        setIsLiked(
-          currentUser &&
-            postData.likedByUsers &&
-            postData.likedByUsers.includes(currentUser.uid)
-        );
-      }
+    const unsubscribe = subscribeToPost(post.id, (postData) => {
+      if (postData) setLikesCount(postData.likesCount);
     });
 
     return () => unsubscribe();
-  }, [post.id, currentUser]);
+  }, [post.id]);
+
+  useEffect(() => {
+    if (!currentUser) {
+      setIsLiked(false);
+      return;
+    }
+    const unsubscribe = subscribeToPostLiked(
+      post.id,
+      currentUser.uid,
+      setIsLiked
+    );
+    return () => unsubscribe();
+  }, [post.id, currentUser?.uid]);
 
   useEffect(() => {
     if (!post.userId) return;
@@ -142,7 +134,6 @@ export default function Post({
     if (!currentUser) return;
     if (isUpdatingLike.current) return;
     isUpdatingLike.current = true;
-    const postDocRef = doc(db, "posts", post.id);
     const userId = currentUser.uid;
 
     console.log("[LIKE-POST] Starting like toggle on post...");
@@ -153,66 +144,12 @@ export default function Post({
     try {
       if (isLiked) {
         console.log("[LIKE-POST] Removing like from post...");
-        try {
-          await updateDoc(postDocRef, {
-            likesCount: increment(-1),
-            likedByUsers: arrayRemove(userId),
-          });
-          console.log("[LIKE-POST] Like removed from post successfully");
-        } catch (updateError: any) {
-          console.error(
-            "[LIKE-POST] ERROR UPDATING POST (UNLIKE):",
-            updateError?.message
-          );
-          throw updateError;
-        }
+        await unlikePost(post.id, userId);
+        console.log("[LIKE-POST] Like removed from post successfully");
       } else {
         console.log("[LIKE-POST] Adding like to post...");
-        try {
-          await updateDoc(postDocRef, {
-            likesCount: increment(1),
-            likedByUsers: arrayUnion(userId),
-          });
-          console.log("[LIKE-POST] Like added to post successfully");
-        } catch (updateError: any) {
-          console.error(
-            "[LIKE-POST] ERROR UPDATING POST (LIKE):",
-            updateError?.message
-          );
-          throw updateError;
-        }
-
-        if (post.userId !== currentUser.uid) {
-          try {
-            // Check if notification already exists
-            const existingNotificationQuery = query(
-              collection(db, "notifications"),
-              where("userId", "==", post.userId),
-              where("fromUserId", "==", currentUser.uid),
-              where("type", "==", "like"),
-              where("postId", "==", post.id)
-            );
-            const existingSnap = await getDocs(existingNotificationQuery);
-            if (existingSnap.empty) {
-              await addDoc(collection(db, "notifications"), {
-                userId: post.userId,
-                fromUserId: currentUser.uid,
-                type: "like",
-                postId: post.id,
-                postCaption: post.caption,
-                createdAt: serverTimestamp(),
-                read: false,
-              });
-              console.log("[LIKE-POST] Like notification created");
-            }
-          } catch (notifError: any) {
-            console.error(
-              "[LIKE-POST] ERROR CREATING NOTIFICATION:",
-              notifError?.message
-            );
-            // Don't throw - notification failure shouldn't prevent the like
-          }
-        }
+        await likePost(post, userId);
+        console.log("[LIKE-POST] Like added to post successfully");
       }
     } catch (err: any) {
       console.error("[LIKE-POST] Error handling like:", err);
@@ -263,24 +200,16 @@ export default function Post({
 
   const handleReport = () => {
     setShowOtherUserMenu(false);
-    Alert.alert(
-      "Report Post",
-      "Thank you for helping keep MeowGram safe. Our team will review this report.",
-      [
-        { text: "Cancel", style: "cancel" },
-        {
-          text: "Report",
-          style: "destructive",
-          onPress: () => {
-            console.log("Post reported:", post.id);
-            Alert.alert(
-              "Reported",
-              "This post has been reported to our moderation team."
-            );
-          },
-        },
-      ]
-    );
+    setReportTarget({
+      targetType: "post",
+      targetId: post.id,
+      targetOwnerId: post.userId,
+      snapshot: {
+        text: post.caption || "",
+        imageUrls: post.imageUrl ? [post.imageUrl] : [],
+        authorName: postUser?.username || "",
+      },
+    });
   };
 
   const handleDeletePost = () => {
@@ -292,8 +221,7 @@ export default function Post({
     setIsDeleting(true);
     setShowDeleteConfirm(false);
     try {
-      const postDocRef = doc(db, "posts", post.id);
-      await deleteDoc(postDocRef);
+      await deletePost(post.id);
       if (onPostActionComplete) {
         onPostActionComplete({ type: "delete", postId: post.id });
       }
@@ -305,35 +233,20 @@ export default function Post({
   };
 
   useEffect(() => {
-    const q = query(
-      collection(db, "comments"),
-      where("postId", "==", post.id),
-      orderBy("createdAt", "desc")
-    );
-    const unsub = onSnapshot(q, (snap) => {
-      const all = snap.docs.map((d) => {
-        const data = d.data();
-        return {
-          id: d.id,
-          ...data,
-          createdAt: data.createdAt || { toDate: () => new Date(0) },
-        } as CommentType;
-      });
+    const unsub = subscribeToPostComments(post.id, (comments) => {
+      const all = comments.filter((c) => !c.hiddenAt); // removed by moderators
       setTotalComments(all.length);
       setPreviewComments(all.slice(0, all.length < 10 ? 1 : 2));
     });
     return () => unsub();
   }, [post.id]);
 
-  const handleDeleteComment = async (comment: CommentType) => {
+  const handleDeleteComment = async (comment: Comment) => {
     if (
       post.userId === currentUser?.uid ||
       comment.authorId === currentUser?.uid
     ) {
-      await deleteDoc(doc(db, "comments", comment.id));
-      await updateDoc(doc(db, "posts", post.id), {
-        commentsCount: increment(-1),
-      });
+      await deleteComment(comment.id, post.id);
     }
   };
 
@@ -677,10 +590,15 @@ export default function Post({
         <LikesListModal
           isOpen={showLikes}
           onClose={() => setShowLikes(false)}
-          likedByUsers={post.likedByUsers || []}
+          postId={post.id}
         />
       )}
 
+      <ReportModal
+        target={reportTarget}
+        onClose={() => setReportTarget(null)}
+      />
+
       {currentUser ? (
         <CommentInput post={post} postId={post.id} currentUser={currentUser} />
       ) : (
@@ -0,0 +1,239 @@
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useAuth } from "../contexts/AuthContext";
+import { useTheme } from "../contexts/ThemeContext";
+import {
+  REPORT_REASONS,
+  ReportRateLimitError,
+  submitReport,
+} from "../services/reportService";
+import { ReportReason, ReportTarget } from "../@types/report";
+
+interface ReportModalProps {
+  target: ReportTarget | null; // modal is shown while a target is set
+  onClose: () => void;
+}
+
+const TITLES: { [K in ReportTarget["targetType"]]: string } = {
+  post: "Report Post",
+  comment: "Report Comment",
+  message: "Report Message",
+  user: "Report User",
+};
+
+/**
+ * Lets the user pick a reason and add details before filing a report
+ */
+const ReportModal: React.FC<ReportModalProps> = ({ target, onClose }) => {
+  const { user } = useAuth();
+  const { colors } = useTheme();
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  // Start fresh for every target
+  useEffect(() => {
+    setReason(null);
+    setDetails("");
+  }, [target?.targetType, target?.targetId]);
+
+  const handleSubmit = async () => {
+    if (!user || !target || !reason) return;
+
+    setSubmitting(true);
+    try {
+      await submitReport(user.uid, target, reason, details);
+      onClose();
+      Alert.alert(
+        "Reported",
+        "Thank you for helping keep MeowGram safe. Our team will review this report."
+      );
+    } catch (error) {
+      if (error instanceof ReportRateLimitError) {
+        onClose();
+        Alert.alert("Report not sent", error.message);
+      } else {
+        Alert.alert("Error", "Failed to send report. Please try again.");
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!target) return null;
+
+  return (
+    <Modal
+      visible={!!target}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View
+        style={[styles.modalContainer, { backgroundColor: colors.bgPrimary }]}
+      >
+        <View
+          style={[styles.header, { borderBottomColor: colors.borderColor }]}
+        >
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Text style={[styles.closeText, { color: colors.textSecondary }]}>
+              ✕
+            </Text>
+          </TouchableOpacity>
+          <Text style={[styles.title, { color: colors.textPrimary }]}>
+            {TITLES[target.targetType]}
+          </Text>
+          <View style={styles.placeholder} />
+        </View>
+
+        <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={[styles.prompt, { color: colors.textPrimary }]}>
+            Why are you reporting this?
+          </Text>
+
+          {REPORT_REASONS.map((option) => (
+            <TouchableOpacity
+              key={option.value}
+              style={[
+                styles.reasonItem,
+                { borderBottomColor: colors.borderLight },
+              ]}
+              onPress={() => setReason(option.value)}
+            >
+              <Text style={[styles.reasonText, { color: colors.textPrimary }]}>
+                {option.label}
+              </Text>
+              <Ionicons
+                name={
+                  reason === option.value
+                    ? "radio-button-on"
+                    : "radio-button-off"
+                }
+                size={20}
+                color={reason === option.value ? "#FF6B6B" : colors.textMuted}
+              />
+            </TouchableOpacity>
+          ))}
+
+          <TextInput
+            style={[
+              styles.detailsInput,
+              {
+                color: colors.textPrimary,
+                backgroundColor: colors.bgSecondary,
+                borderColor: colors.borderColor,
+              },
+            ]}
+            placeholder="Add details (optional)"
+            placeholderTextColor={colors.textMuted}
+            value={details}
+            onChangeText={setDetails}
+            maxLength={500}
+            multiline
+          />
+
+          <TouchableOpacity
+            style={[
+              styles.submitButton,
+              (!reason || submitting) && styles.submitButtonDisabled,
+            ]}
+            onPress={handleSubmit}
+            disabled={!reason || submitting}
+          >
+            {submitting ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Text style={styles.submitText}>Submit Report</Text>
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  closeButton: {
+    padding: 8,
+  },
+  closeText: {
+    fontSize: 18,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  placeholder: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+  },
+  prompt: {
+    fontSize: 16,
+    fontWeight: "600",
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+  reasonItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: 0.5,
+  },
+  reasonText: {
+    fontSize: 15,
+  },
+  detailsInput: {
+    minHeight: 90,
+    margin: 16,
+    padding: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    fontSize: 15,
+    textAlignVertical: "top",
+  },
+  submitButton: {
+    marginHorizontal: 16,
+    marginBottom: 32,
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: "center",
+    backgroundColor: "#FF6B6B",
+  },
+  submitButtonDisabled: {
+    opacity: 0.5,
+  },
+  submitText: {
+    color: "#fff",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
+
+export default ReportModal;
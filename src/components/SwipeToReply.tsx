@@ -0,0 +1,85 @@
+import React, { useRef } from "react";
+import { Animated, PanResponder, StyleSheet, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+const REPLY_THRESHOLD = 60;
+const MAX_DRAG = 80;
+
+interface SwipeToReplyProps {
+  children: React.ReactNode;
+  enabled?: boolean;
+  onReply: () => void;
+}
+
+/**
+ * Wraps a message bubble so that swiping it to the right starts a reply
+ */
+export const SwipeToReply: React.FC<SwipeToReplyProps> = ({
+  children,
+  enabled = true,
+  onReply,
+}) => {
+  const translateX = useRef(new Animated.Value(0)).current;
+  const onReplyRef = useRef(onReply);
+  onReplyRef.current = onReply;
+
+  const panResponder = useRef(
+    PanResponder.create({
+      // Only claim clearly horizontal drags so vertical scrolling still works
+      onMoveShouldSetPanResponder: (_, gesture) =>
+        gesture.dx > 10 && Math.abs(gesture.dx) > Math.abs(gesture.dy) * 2,
+      onPanResponderMove: (_, gesture) => {
+        translateX.setValue(Math.max(0, Math.min(gesture.dx, MAX_DRAG)));
+      },
+      onPanResponderRelease: (_, gesture) => {
+        if (gesture.dx >= REPLY_THRESHOLD) {
+          onReplyRef.current();
+        }
+        Animated.spring(translateX, {
+          toValue: 0,
+          useNativeDriver: true,
+        }).start();
+      },
+      onPanResponderTerminate: () => {
+        Animated.spring(translateX, {
+          toValue: 0,
+          useNativeDriver: true,
+        }).start();
+      },
+    })
+  ).current;
+
+  if (!enabled) {
+    return <>{children}</>;
+  }
+
+  const iconOpacity = translateX.interpolate({
+    inputRange: [0, REPLY_THRESHOLD],
+    outputRange: [0, 1],
+    extrapolate: "clamp",
+  });
+
+  return (
+    <View style={styles.container}>
+      <Animated.View style={[styles.replyIcon, { opacity: iconOpacity }]}>
+        <Ionicons name="arrow-undo" size={20} color="#FF6B6B" />
+      </Animated.View>
+      <Animated.View
+        style={{ transform: [{ translateX }] }}
+        {...panResponder.panHandlers}
+      >
+        {children}
+      </Animated.View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    justifyContent: "center",
+  },
+  replyIcon: {
+    position: "absolute",
+    left: 8,
+  },
+});
@@ -0,0 +1,9 @@
+// Chat backend configuration
+// "firestore" keeps conversations in Firestore; "meowchat" uses the MeowChat
+// REST API and Socket.IO server at EXPO_PUBLIC_CHAT_API_URL
+export type ChatBackend = "firestore" | "meowchat";
+
+export const CHAT_BACKEND: ChatBackend =
+  process.env.EXPO_PUBLIC_CHAT_BACKEND === "meowchat"
+    ? "meowchat"
+    : "firestore";
@@ -0,0 +1,26 @@
+// Content moderation configuration
+// When set, images that pass the on-device checks are also sent to this
+// endpoint for a second opinion
+export const MODERATION_API_URL = process.env.EXPO_PUBLIC_MODERATION_API_URL;
+
+// Remote checks that take longer than this fall back to the local result
+export const MODERATION_API_TIMEOUT_MS = 10000;
+
+// Terms that are never allowed in user-written text. Matching ignores case,
+// accents, leetspeak and letters split up with spaces or punctuation
+export const TEXT_BLOCKLIST = [
+  "kill yourself",
+  "kys",
+  "nigger",
+  "faggot",
+  "retard",
+  "child porn",
+];
+
+// Extra comma-separated terms, so the list can be extended per deployment
+export const EXTRA_TEXT_BLOCKLIST = (
+  process.env.EXPO_PUBLIC_MODERATION_BLOCKLIST || ""
+)
+  .split(",")
+  .map((term: string) => term.trim())
+  .filter(Boolean);
@@ -10,7 +10,7 @@ import {
   GoogleAuthProvider,
   signInWithCredential,
 } from "firebase/auth";
-import { doc, setDoc, serverTimestamp } from "firebase/firestore";
+import { doc, getDoc, setDoc, serverTimestamp } from "firebase/firestore";
 import { auth, db } from "../config/firebase";
 
 type AuthContextType = {
@@ -97,26 +97,26 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
       const credential = GoogleAuthProvider.credential(idToken);
       const result = await signInWithCredential(auth, credential);
 
-      // Create user doc if new
+      // Create user doc if new - merging the defaults into an existing one
+      // would reset its counters
       const user = result.user;
       const userRef = doc(db, "users", user.uid);
-      await setDoc(
-        userRef,
-        {
-          uid: user.uid,
-          username: user.displayName?.toLowerCase().replace(/\s+/g, "") || "",
-          displayName: user.displayName || user.email,
-          email: user.email,
-          avatarUrl: user.photoURL || "",
-          bio: "",
-          followersCount: 0,
-          followingCount: 0,
-          postsCount: 0,
-          onboardingComplete: false,
-          createdAt: serverTimestamp(),
-        },
-        { merge: true }
-      );
+      const existing = await getDoc(userRef);
+      if (existing.exists()) return;
+
+      await setDoc(userRef, {
+        uid: user.uid,
+        username: user.displayName?.toLowerCase().replace(/\s+/g, "") || "",
+        displayName: user.displayName || user.email,
+        email: user.email,
+        avatarUrl: user.photoURL || "",
+        bio: "",
+        followersCount: 0,
+        followingCount: 0,
+        postsCount: 0,
+        onboardingComplete: false,
+        createdAt: serverTimestamp(),
+      });
     } catch (error) {
       console.error("Google sign-in failed:", error);
       throw error;
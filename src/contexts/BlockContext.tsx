@@ -0,0 +1,117 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+} from "react";
+import { useAuth } from "./AuthContext";
+import {
+  BlockedUser,
+  blockUser as blockUserService,
+  unblockUser as unblockUserService,
+  subscribeToBlockedUsers,
+} from "../services/blockService";
+
+interface BlockContextType {
+  blockedUsers: BlockedUser[];
+  blockedUserIds: string[];
+  blockedUsersLoading: boolean;
+  isBlocked: (userId: string | undefined | null) => boolean;
+  blockUser: (userId: string) => Promise<void>;
+  unblockUser: (userId: string) => Promise<void>;
+}
+
+const BlockContext = createContext<BlockContextType | undefined>(undefined);
+
+/**
+ * Keeps the signed-in user's block list in sync so feeds, comments,
+ * notifications and chat can filter blocked users out
+ */
+export const BlockProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const { user } = useAuth();
+  const [blockedUsers, setBlockedUsers] = useState<BlockedUser[]>([]);
+  const [blockedUsersLoading, setBlockedUsersLoading] = useState(false);
+
+  useEffect(() => {
+    if (!user) {
+      setBlockedUsers([]);
+      setBlockedUsersLoading(false);
+      return;
+    }
+
+    setBlockedUsersLoading(true);
+    const unsubscribe = subscribeToBlockedUsers(
+      user.uid,
+      (blocked) => {
+        setBlockedUsers(blocked);
+        setBlockedUsersLoading(false);
+      },
+      () => {
+        setBlockedUsersLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [user?.uid]);
+
+  const blockedUserIds = useMemo(
+    () => blockedUsers.map((b) => b.blockedUserId),
+    [blockedUsers]
+  );
+
+  const blockedUserIdSet = useMemo(
+    () => new Set(blockedUserIds),
+    [blockedUserIds]
+  );
+
+  const isBlocked = useCallback(
+    (userId: string | undefined | null) =>
+      !!userId && blockedUserIdSet.has(userId),
+    [blockedUserIdSet]
+  );
+
+  const blockUser = useCallback(
+    async (userId: string) => {
+      if (!user) {
+        throw new Error("User not authenticated");
+      }
+      await blockUserService(user.uid, userId);
+    },
+    [user]
+  );
+
+  const unblockUser = useCallback(
+    async (userId: string) => {
+      if (!user) {
+        throw new Error("User not authenticated");
+      }
+      await unblockUserService(user.uid, userId);
+    },
+    [user]
+  );
+
+  const value: BlockContextType = {
+    blockedUsers,
+    blockedUserIds,
+    blockedUsersLoading,
+    isBlocked,
+    blockUser,
+    unblockUser,
+  };
+
+  return (
+    <BlockContext.Provider value={value}>{children}</BlockContext.Provider>
+  );
+};
+
+export const useBlocks = () => {
+  const context = useContext(BlockContext);
+  if (!context) {
+    throw new Error("useBlocks must be used within BlockProvider");
+  }
+  return context;
+};
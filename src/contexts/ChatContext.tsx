@@ -4,46 +4,69 @@ import React, {
   useState,
   useEffect,
   useCallback,
+  useMemo,
 } from "react";
 import { AppState, AppStateStatus } from "react-native";
 import { useAuth } from "./AuthContext";
+import { useBlocks } from "./BlockContext";
+import { chatTransport } from "../services/chatTransport";
 import {
-  subscribeToUserConversations,
-  subscribeToConversationMessages,
-  subscribeToConversation,
-  sendMessage as sendMessageService,
-  markMessageAsRead,
-  markConversationAsRead,
-  deleteMessage as deleteMessageService,
-  editMessage as editMessageService,
-  getOrCreateConversation,
-} from "../services/conversationService";
+  loadOutbox,
+  saveOutbox,
+  sendOutboxMessage,
+  outboxItemToMessage,
+  MAX_OUTBOX_ATTEMPTS,
+} from "../services/outboxService";
+import { indexMessages } from "../services/messageSearchService";
+import { getUserProfile, updateUserProfile } from "../services/userService";
 import {
-  updateUserPresence,
-  listenToUsersPresence,
-  setTypingIndicator,
-  listenToTypingIndicators,
-} from "../services/presenceService";
-import { getUserProfile } from "../services/userService";
-import { db } from "../config/firebase";
+  getUnreadCount,
+  getClearedAt,
+  getOtherParticipant,
+  isGroupConversation,
+  isSystemMessage,
+  isUserBlocked,
+  sanitizeMessageText,
+  getOutboxPartIds,
+  isOutboxItemDelivered,
+} from "../services/chatUtils";
+import { isBlockedBy } from "../services/blockService";
 import {
+  moderateText,
+  TextModerationError,
+} from "../services/textModerationService";
+import {
+  ChatConnectionState,
   Conversation,
   Message,
+  OutboxMessage,
   TypingIndicator,
+  User,
   UserPresence,
 } from "../@types/chat";
 
+// Newest messages covered by the live listener, and the size of older pages
+const LIVE_MESSAGES_WINDOW = 50;
+const OLDER_MESSAGES_PAGE_SIZE = 30;
+
+// Backoff between automatic outbox flushes while messages are still pending
+const OUTBOX_RETRY_BASE_MS = 5000;
+const OUTBOX_RETRY_MAX_MS = 60000;
+
 interface ChatContextType {
   // Conversation state
   conversations: Conversation[];
   selectedConversation: Conversation | null;
   conversationsLoading: boolean;
   conversationsError: Error | null;
+  isConversationBlocked: boolean; // either side of a direct chat blocked the other
 
   // Message state
   messages: Message[];
-  messagesLoading: boolean;
+  messagesLoading: boolean; // initial load of the newest window only
   messagesError: Error | null;
+  hasMoreMessages: boolean;
+  loadingOlderMessages: boolean; // paging in older history
 
   // Typing indicators
   typingUsers: TypingIndicator[];
@@ -54,29 +77,58 @@ interface ChatContextType {
   // Unread count
   totalUnreadCount: number;
 
+  // Connection to the chat backend
+  connectionState: ChatConnectionState;
+
+  // Privacy - whether this user sends read receipts
+  readReceiptsEnabled: boolean;
+
   // Actions
   selectConversation: (conversation: Conversation | null) => Promise<void>;
+  loadOlderMessages: () => Promise<Message[]>;
   sendMessage: (
     text: string,
     mediaUrls?: string[],
     mediaTypes?: string[],
+    mediaThumbnails?: string[],
     replyTo?: Message["replyTo"]
   ) => Promise<void>;
+  retryMessage: (messageId: string) => Promise<void>;
+  discardMessage: (messageId: string) => Promise<void>;
   markAsRead: (messageId: string) => Promise<void>;
   markConversationRead: () => Promise<void>;
   deleteMessage: (messageId: string) => Promise<void>;
   editMessage: (messageId: string, newText: string) => Promise<void>;
+  toggleReaction: (messageId: string, emoji: string) => Promise<void>;
   setTyping: (isTyping: boolean) => Promise<void>;
   startConversation: (otherUserId: string) => Promise<Conversation>;
+  startGroupConversation: (
+    memberIds: string[],
+    name: string
+  ) => Promise<Conversation>;
   refreshConversations: () => void;
+  setReadReceiptsEnabled: (enabled: boolean) => Promise<void>;
 }
 
 const ChatContext = createContext<ChatContextType | undefined>(undefined);
 
+/**
+ * Add messages to the paged history, deduplicated and oldest first
+ */
+const mergeOlderMessages = (
+  existing: Message[],
+  incoming: Message[]
+): Message[] => {
+  const byId = new Map(existing.map((m) => [m.id, m]));
+  incoming.forEach((m) => byId.set(m.id, m));
+  return [...byId.values()].sort((a, b) => a.timestamp - b.timestamp);
+};
+
 export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
   children,
 }) => {
   const { user } = useAuth();
+  const { blockedUserIds, isBlocked } = useBlocks();
 
   // Conversation state
   const [conversations, setConversations] = useState<Conversation[]>([]);
@@ -88,10 +140,76 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
   );
   const [forceRefresh, setForceRefresh] = useState(0);
 
-  // Message state
-  const [messages, setMessages] = useState<Message[]>([]);
+  // Message state - live listener window plus older pages loaded on demand
+  const [liveMessages, setLiveMessages] = useState<Message[]>([]);
+  const [olderMessages, setOlderMessages] = useState<Message[]>([]);
   const [messagesLoading, setMessagesLoading] = useState(false);
   const [messagesError, setMessagesError] = useState<Error | null>(null);
+  const [hasMoreMessages, setHasMoreMessages] = useState(true);
+  const [loadingOlderMessages, setLoadingOlderMessages] = useState(false);
+  const loadingOlderRef = React.useRef(false);
+  const liveMessagesRef = React.useRef<Message[]>([]);
+  const selectedConversationIdRef = React.useRef<string | null>(null);
+  // Oldest message fetched so far - repeated calls page further back
+  // even before the merged message list has re-rendered
+  const oldestPagedMessageRef = React.useRef<Message | null>(null);
+
+  // Outbox - messages written on this device that haven't reached the backend yet
+  const [outbox, setOutbox] = useState<OutboxMessage[]>([]);
+  const outboxRef = React.useRef<OutboxMessage[]>([]);
+  const flushingOutboxRef = React.useRef(false);
+  const flushRequestedRef = React.useRef(false);
+  const outboxRetryTimeoutRef = React.useRef<NodeJS.Timeout | null>(null);
+  const outboxRetryCountRef = React.useRef(0);
+
+  const messages = useMemo(() => {
+    // The live window wins over paged copies of the same message
+    const liveIds = new Set(liveMessages.map((m) => m.id));
+    const allServerMessages = [
+      ...olderMessages.filter((m) => !liveIds.has(m.id)),
+      ...liveMessages,
+    ];
+
+    if (!selectedConversation || !user) return allServerMessages;
+
+    // Messages from before the user cleared the conversation stay hidden,
+    // and so do group messages from blocked users - group events stay so
+    // the member list still makes sense
+    const clearedAt = getClearedAt(selectedConversation, user.uid);
+    const serverMessages = allServerMessages.filter(
+      (m) =>
+        m.timestamp > clearedAt &&
+        (isSystemMessage(m) || !isBlocked(m.senderId))
+    );
+
+    // Queued messages keep their pending/failed state until the outbox
+    // confirms them, even if Firestore already shows the local write
+    const queuedItems = outbox.filter(
+      (item) => item.conversationId === selectedConversation.id
+    );
+    if (queuedItems.length === 0) return serverMessages;
+
+    // Server copies are matched by id on Firestore and by client message
+    // id on backends that assign their own
+    const queuedIds = new Set(queuedItems.map((item) => item.id));
+    const queuedPartIds = new Set(queuedItems.flatMap(getOutboxPartIds));
+    return [
+      ...serverMessages.filter(
+        (m) =>
+          !queuedIds.has(m.id) &&
+          !(m.clientMessageId && queuedPartIds.has(m.clientMessageId))
+      ),
+      ...queuedItems.map(outboxItemToMessage),
+    ];
+  }, [
+    olderMessages,
+    liveMessages,
+    outbox,
+    selectedConversation?.id,
+    selectedConversation?.clearedAt,
+    user?.uid,
+    isBlocked,
+  ]);
 
   // Typing indicators
   const [typingUsers, setTypingUsers] = useState<TypingIndicator[]>([]);
@@ -101,9 +219,23 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
     [userId: string]: UserPresence | null;
   }>({});
 
+  // Connection state
+  const [connectionState, setConnectionState] =
+    useState<ChatConnectionState>("connected");
+
   // Cache user profile to avoid repeated fetches
   const userProfileRef = React.useRef<any>(null);
 
+  // Read receipts - the ref is read from subscription callbacks
+  const [readReceiptsEnabled, setReadReceiptsEnabledState] = useState(true);
+  const readReceiptsEnabledRef = React.useRef(true);
+
+  // Receipts already written, so repeated snapshots don't write them again
+  const deliveredUpToRef = React.useRef<{ [conversationId: string]: number }>(
+    {}
+  );
+  const markedReadIdsRef = React.useRef<Set<string>>(new Set());
+
   // Refs for cleanup
   const conversationUnsubscribeRef = React.useRef<(() => void) | null>(null);
   const messagesUnsubscribeRef = React.useRef<(() => void) | null>(null);
@@ -111,12 +243,33 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
   const typingUnsubscribeRef = React.useRef<(() => void) | null>(null);
   const appStateSubscriptionRef = React.useRef<any>(null);
 
-  // Calculate total unread count
-  const totalUnreadCount = conversations.reduce(
-    (sum, conv) => sum + (conv.unreadCount || 0),
-    0
+  // Direct conversations with blocked users are hidden
+  const visibleConversations = useMemo(
+    () =>
+      user
+        ? conversations.filter(
+            (conv) => !isUserBlocked(conv, user.uid, blockedUserIds)
+          )
+        : conversations,
+    [conversations, user?.uid, blockedUserIds]
   );
 
+  // Whether the other participant of the open direct chat blocked this user
+  const [blockedByOther, setBlockedByOther] = useState(false);
+  const isConversationBlocked =
+    !!user &&
+    !!selectedConversation &&
+    (blockedByOther ||
+      isUserBlocked(selectedConversation, user.uid, blockedUserIds));
+
+  // Calculate total unread count for the current user
+  const totalUnreadCount = user
+    ? visibleConversations.reduce(
+        (sum, conv) => sum + getUnreadCount(conv, user.uid),
+        0
+      )
+    : 0;
+
   /**
    * Clean up all subscriptions
    */
@@ -140,13 +293,262 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
   }, []);
 
   /**
-   * Setup app state listener for presence - DISABLED to reduce Firestore quota usage
-   * Only keeping typing indicators and read status
+   * Replace the outbox and persist it for the current user
+   */
+  const updateOutbox = useCallback(
+    (updater: (items: OutboxMessage[]) => OutboxMessage[]) => {
+      if (!user) return;
+
+      const next = updater(outboxRef.current);
+      outboxRef.current = next;
+      setOutbox(next);
+      saveOutbox(user.uid, next);
+    },
+    [user]
+  );
+
+  /**
+   * Send queued messages in order
+   * A failure (usually no connectivity) holds back the rest of that
+   * conversation, and another attempt is scheduled with backoff while
+   * pending messages remain
+   */
+  const flushOutbox = useCallback(async () => {
+    if (!user) return;
+    if (flushingOutboxRef.current) {
+      // Picked up once the running flush finishes
+      flushRequestedRef.current = true;
+      return;
+    }
+
+    if (outboxRetryTimeoutRef.current) {
+      clearTimeout(outboxRetryTimeoutRef.current);
+      outboxRetryTimeoutRef.current = null;
+    }
+
+    flushingOutboxRef.current = true;
+    flushRequestedRef.current = false;
+    let hadFailure = false;
+
+    try {
+      // Messages after a failed one wait, so a conversation never gets
+      // its messages out of order. Other conversations keep sending
+      const blockedConversations = new Set<string>();
+
+      for (const item of [...outboxRef.current]) {
+        if (blockedConversations.has(item.conversationId)) continue;
+        if (item.status === "failed") {
+          blockedConversations.add(item.conversationId);
+          continue;
+        }
+
+        try {
+          await sendOutboxMessage(item);
+          updateOutbox((items) => items.filter((i) => i.id !== item.id));
+        } catch (error) {
+          console.error("[CHAT] Error sending queued message:", error);
+          const attempts = item.attempts + 1;
+          updateOutbox((items) =>
+            items.map((i) =>
+              i.id === item.id
+                ? {
+                    ...i,
+                    attempts,
+                    status:
+                      attempts >= MAX_OUTBOX_ATTEMPTS ? "failed" : "pending",
+                  }
+                : i
+            )
+          );
+          hadFailure = true;
+          blockedConversations.add(item.conversationId);
+        }
+      }
+    } finally {
+      flushingOutboxRef.current = false;
+    }
+
+    if (!hadFailure) {
+      outboxRetryCountRef.current = 0;
+      if (flushRequestedRef.current) {
+        flushOutbox();
+      }
+      return;
+    }
+
+    if (outboxRef.current.some((item) => item.status === "pending")) {
+      const delay = Math.min(
+        OUTBOX_RETRY_BASE_MS * 2 ** outboxRetryCountRef.current,
+        OUTBOX_RETRY_MAX_MS
+      );
+      outboxRetryCountRef.current += 1;
+      outboxRetryTimeoutRef.current = setTimeout(() => {
+        outboxRetryTimeoutRef.current = null;
+        flushOutbox();
+      }, delay);
+    }
+  }, [user, updateOutbox]);
+
+  /**
+   * Load the persisted outbox on sign-in and try to send it
    */
   useEffect(() => {
-    // Presence updates disabled - using only typing indicators and read status
-    return () => {};
-  }, [user, selectedConversation?.id]);
+    outboxRef.current = [];
+    setOutbox([]);
+    outboxRetryCountRef.current = 0;
+
+    if (!user) return;
+
+    let isSubscribed = true;
+    loadOutbox(user.uid).then((items) => {
+      if (!isSubscribed) return;
+      outboxRef.current = items;
+      setOutbox(items);
+      if (items.length > 0) {
+        flushOutbox();
+      }
+    });
+
+    return () => {
+      isSubscribed = false;
+      if (outboxRetryTimeoutRef.current) {
+        clearTimeout(outboxRetryTimeoutRef.current);
+        outboxRetryTimeoutRef.current = null;
+      }
+    };
+  }, [user?.uid]);
+
+  /**
+   * Setup app state listener
+   * Coming back to the foreground flushes the outbox. Presence is only
+   * updated when the transport supports it cheaply
+   */
+  useEffect(() => {
+    const subscription = AppState.addEventListener(
+      "change",
+      (nextState: AppStateStatus) => {
+        if (nextState === "active" && outboxRef.current.length > 0) {
+          outboxRetryCountRef.current = 0;
+          flushOutbox();
+        }
+        if (user && chatTransport.capabilities.presence) {
+          chatTransport
+            .updatePresence(user.uid, nextState === "active")
+            .catch(() => {
+              // Presence is best effort
+            });
+        }
+      }
+    );
+    appStateSubscriptionRef.current = subscription;
+
+    return () => {
+      subscription.remove();
+      appStateSubscriptionRef.current = null;
+    };
+  }, [flushOutbox, user?.uid]);
+
+  /**
+   * Drop queued messages the backend already has
+   * A send can reach the server even though its acknowledgement was lost -
+   * the server copy arriving with our client message id settles it
+   */
+  useEffect(() => {
+    const delivered = outboxRef.current.filter((item) =>
+      isOutboxItemDelivered(item, liveMessages)
+    );
+    if (delivered.length === 0) return;
+
+    const deliveredIds = new Set(delivered.map((item) => item.id));
+    updateOutbox((items) => items.filter((i) => !deliveredIds.has(i.id)));
+  }, [liveMessages, updateOutbox]);
+
+  /**
+   * Follow the backend connection while signed in
+   * Reconnecting flushes the outbox instead of waiting for its retry timer
+   */
+  useEffect(() => {
+    setConnectionState("connected");
+    if (!user) return;
+
+    let previousState: ChatConnectionState | null = null;
+    const unsubscribe = chatTransport.subscribeToConnectionState((state) => {
+      setConnectionState(state);
+      if (
+        state === "connected" &&
+        previousState !== null &&
+        previousState !== "connected" &&
+        outboxRef.current.length > 0
+      ) {
+        outboxRetryCountRef.current = 0;
+        flushOutbox();
+      }
+      previousState = state;
+    });
+
+    return unsubscribe;
+  }, [flushOutbox, user?.uid]);
+
+  /**
+   * Load the user's profile and read receipt preference on sign-in
+   */
+  useEffect(() => {
+    userProfileRef.current = null;
+    deliveredUpToRef.current = {};
+    markedReadIdsRef.current = new Set();
+    readReceiptsEnabledRef.current = true;
+    setReadReceiptsEnabledState(true);
+
+    if (!user) return;
+
+    let isSubscribed = true;
+    getUserProfile(user.uid)
+      .then((profile) => {
+        if (!isSubscribed || !profile) return;
+        userProfileRef.current = profile;
+        const enabled = profile.readReceiptsEnabled !== false;
+        readReceiptsEnabledRef.current = enabled;
+        setReadReceiptsEnabledState(enabled);
+      })
+      .catch(() => {
+        // Keep defaults - the profile is fetched again when sending
+      });
+
+    return () => {
+      isSubscribed = false;
+    };
+  }, [user?.uid]);
+
+  /**
+   * Record delivery for conversations whose newest message reached this device
+   */
+  const recordDelivery = useCallback(
+    (conversations: Conversation[]) => {
+      if (!user) return;
+
+      conversations.forEach((conv) => {
+        if (!conv.lastMessage || conv.lastMessage.senderId === user.uid) {
+          return;
+        }
+
+        const timestamp = conv.lastMessageTimestamp;
+        const recorded = Math.max(
+          conv.deliveredUpTo?.[user.uid] || 0,
+          deliveredUpToRef.current[conv.id] || 0
+        );
+        if (timestamp <= recorded) return;
+
+        deliveredUpToRef.current[conv.id] = timestamp;
+        chatTransport
+          .markConversationDelivered(conv.id, user.uid, timestamp)
+          .catch(() => {
+            // Retried on the next snapshot
+            delete deliveredUpToRef.current[conv.id];
+          });
+      });
+    },
+    [user]
+  );
 
   /**
    * Load user's conversations
@@ -167,22 +569,10 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
     // Manual fetch as fallback if subscription doesn't fire
     const manualFetch = async () => {
       try {
-        const { getDocs, collection, query, where } = await import(
-          "firebase/firestore"
-        );
-        const q = query(
-          collection(db, "conversations"),
-          where("participants", "array-contains", user.uid)
-        );
-        const snapshot = await getDocs(q);
+        const conversations = await chatTransport.getConversations(user.uid);
 
         if (!isSubscribed) return;
 
-        const conversations = snapshot.docs
-          .map((doc) => ({ id: doc.id, ...doc.data() } as Conversation))
-          .filter((conv) => !conv.isArchived)
-          .sort((a, b) => b.lastMessageTimestamp - a.lastMessageTimestamp);
-
         hasReceivedData = true;
         setConversations(conversations);
         setConversationsLoading(false);
@@ -195,12 +585,13 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
       }
     };
 
-    const unsubscribe = subscribeToUserConversations(
+    const unsubscribe = chatTransport.subscribeToConversations(
       user.uid,
       (conversations) => {
         hasReceivedData = true;
         setConversations(conversations);
         setConversationsLoading(false);
+        recordDelivery(conversations);
       },
       (error) => {
         hasReceivedData = true;
@@ -239,14 +630,49 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
       clearTimeout(initialLoadTimeout);
       if (unsubscribe) unsubscribe();
     };
-  }, [user, forceRefresh]);
+  }, [user, forceRefresh, recordDelivery]);
+
+  /**
+   * Keep the selected conversation in sync with the live conversation list
+   * (group name, members and admins can change while a chat is open)
+   */
+  useEffect(() => {
+    if (!selectedConversation) return;
+
+    const latest = conversations.find((c) => c.id === selectedConversation.id);
+    if (latest && latest !== selectedConversation) {
+      setSelectedConversationState(latest);
+    }
+  }, [conversations]);
+
+  /**
+   * Clear the unread counter for messages arriving in the open conversation
+   */
+  useEffect(() => {
+    if (!selectedConversation || !user) return;
+
+    if (getUnreadCount(selectedConversation, user.uid) > 0) {
+      chatTransport
+        .clearUnreadCount(selectedConversation.id, user.uid)
+        .catch(() => {
+          // Silently ignore errors
+        });
+    }
+  }, [selectedConversation, user?.uid]);
 
   /**
    * Load messages and set up subscriptions when conversation is selected
    */
   useEffect(() => {
+    setOlderMessages([]);
+    setHasMoreMessages(true);
+    setLoadingOlderMessages(false);
+    liveMessagesRef.current = [];
+    oldestPagedMessageRef.current = null;
+    selectedConversationIdRef.current = selectedConversation?.id ?? null;
+
     if (!selectedConversation || !user) {
-      setMessages([]);
+      setLiveMessages([]);
       setTypingUsers([]);
       // Cleanup existing subscriptions
       if (messagesUnsubscribeRef.current) {
@@ -273,11 +699,47 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
     setMessagesError(null);
 
     // Subscribe to messages
-    const messagesUnsub = subscribeToConversationMessages(
+    const messagesUnsub = chatTransport.subscribeToMessages(
       conversationId,
+      LIVE_MESSAGES_WINDOW,
       (messages) => {
-        setMessages(messages);
+        // Messages pushed out of the window by newer ones stay in the list
+        const windowStart = messages.length > 0 ? messages[0].timestamp : 0;
+        const newIds = new Set(messages.map((m) => m.id));
+        const droppedOut = liveMessagesRef.current.filter(
+          (m) => !newIds.has(m.id) && m.timestamp <= windowStart
+        );
+        if (droppedOut.length > 0) {
+          setOlderMessages((prev) => mergeOlderMessages(prev, droppedOut));
+        }
+
+        liveMessagesRef.current = messages;
+        setLiveMessages(messages);
         setMessagesLoading(false);
+        indexMessages(userId, messages);
+        if (messages.length < LIVE_MESSAGES_WINDOW) {
+          setHasMoreMessages(false);
+        }
+
+        // Messages arriving while the conversation is open are read right away
+        if (!readReceiptsEnabledRef.current) return;
+        const unreadIds = messages
+          .filter(
+            (m) =>
+              m.senderId !== userId &&
+              !isSystemMessage(m) &&
+              !m.readBy?.[userId] &&
+              !markedReadIdsRef.current.has(m.id)
+          )
+          .map((m) => m.id);
+        if (unreadIds.length > 0) {
+          unreadIds.forEach((id) => markedReadIdsRef.current.add(id));
+          chatTransport
+            .markMessagesRead(conversationId, unreadIds, userId)
+            .catch(() => {
+              unreadIds.forEach((id) => markedReadIdsRef.current.delete(id));
+            });
+        }
       },
       (error) => {
         console.error("[CHAT-MSG] Error loading messages:", error);
@@ -287,17 +749,32 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
     );
     messagesUnsubscribeRef.current = messagesUnsub;
 
-    // Typing indicators disabled to reduce Firestore quota usage
-    // Each keystroke was creating a write + subscription update
-    // typingUnsubscribeRef.current = null;
-
-    // Presence subscriptions disabled to reduce Firestore quota usage
-    // Only keeping typing indicators and read status
+    // Typing and presence only where the transport makes them cheap -
+    // on Firestore every keystroke would be a write plus snapshot updates
+    if (chatTransport.capabilities.typing) {
+      typingUnsubscribeRef.current = chatTransport.subscribeToTyping(
+        conversationId,
+        (indicators) =>
+          setTypingUsers(indicators.filter((t) => t.userId !== userId))
+      );
+    }
+    if (chatTransport.capabilities.presence) {
+      presenceUnsubscribeRef.current = chatTransport.subscribeToPresence(
+        selectedConversation.participants.filter((id) => id !== userId),
+        setUserPresences
+      );
+    }
 
     // Mark conversation as read when opened
-    markConversationAsRead(conversationId, userId).catch(() => {
-      // Silently ignore errors
-    });
+    chatTransport
+      .markConversationRead(
+        conversationId,
+        userId,
+        readReceiptsEnabledRef.current
+      )
+      .catch(() => {
+        // Silently ignore errors
+      });
 
     return () => {
       // Cleanup on unmount or conversation change
@@ -309,6 +786,41 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
         typingUnsubscribeRef.current();
         typingUnsubscribeRef.current = null;
       }
+      if (presenceUnsubscribeRef.current) {
+        presenceUnsubscribeRef.current();
+        presenceUnsubscribeRef.current = null;
+      }
+    };
+  }, [selectedConversation?.id, user?.uid]);
+
+  /**
+   * Check whether the other side of the open direct chat blocked this user
+   */
+  useEffect(() => {
+    setBlockedByOther(false);
+    if (
+      !user ||
+      !selectedConversation ||
+      isGroupConversation(selectedConversation)
+    ) {
+      return;
+    }
+
+    const otherUserId = getOtherParticipant(selectedConversation, user.uid);
+    if (!otherUserId) return;
+
+    let isSubscribed = true;
+    isBlockedBy(user.uid, otherUserId)
+      .then((blocked) => {
+        if (isSubscribed) setBlockedByOther(blocked);
+      })
+      .catch(() => {
+        // Offline - the message is queued, and Firestore rules reject it
+        // once it's sent if this user is blocked
+      });
+
+    return () => {
+      isSubscribed = false;
     };
   }, [selectedConversation?.id, user?.uid]);
 
@@ -322,47 +834,157 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
     []
   );
 
+  /**
+   * Load the page of messages before the oldest one currently loaded
+   * Resolves with the newly loaded messages (empty when there are no more)
+   */
+  const loadOlderMessages = useCallback(async (): Promise<Message[]> => {
+    if (!selectedConversation || !hasMoreMessages || loadingOlderRef.current) {
+      return [];
+    }
+
+    // Queued outbox messages are newer than anything on the server
+    const oldestListed = messages.find((m) => !m.outboxStatus);
+    const oldestPaged = oldestPagedMessageRef.current;
+    const oldestMessage =
+      oldestPaged &&
+      (!oldestListed || oldestPaged.timestamp < oldestListed.timestamp)
+        ? oldestPaged
+        : oldestListed;
+    if (!oldestMessage) return [];
+
+    const pageSize = OLDER_MESSAGES_PAGE_SIZE;
+    const conversationId = selectedConversation.id;
+    loadingOlderRef.current = true;
+    setLoadingOlderMessages(true);
+    try {
+      // Pages include one extra message to detect more pages
+      const page = await chatTransport.getMessagesPage(
+        conversationId,
+        pageSize,
+        oldestMessage
+      );
+      const olderPage = page.length > pageSize ? page.slice(1) : page;
+
+      // The user may have switched conversations while the page loaded
+      if (selectedConversationIdRef.current !== conversationId) return [];
+
+      if (olderPage.length > 0) {
+        oldestPagedMessageRef.current = olderPage[0];
+      }
+      setHasMoreMessages(page.length > pageSize);
+      setOlderMessages((prev) => mergeOlderMessages(prev, olderPage));
+      if (user) {
+        indexMessages(user.uid, olderPage);
+      }
+      return olderPage;
+    } catch (error) {
+      console.error("Error loading older messages:", error);
+      throw error;
+    } finally {
+      loadingOlderRef.current = false;
+      setLoadingOlderMessages(false);
+    }
+  }, [selectedConversation, hasMoreMessages, messages, user]);
+
   /**
    * Send a message
+   * The message is queued in the outbox first, so it survives going offline
+   * Throws TextModerationError when the text isn't allowed
    */
   const sendMessage = useCallback(
     async (
       text: string,
       mediaUrls?: string[],
       mediaTypes?: string[],
+      mediaThumbnails?: string[],
       replyTo?: Message["replyTo"]
     ) => {
       if (!user || !selectedConversation) {
         throw new Error("User or conversation not available");
       }
+      if (isConversationBlocked) {
+        throw new Error("You can't send messages in this conversation");
+      }
 
-      try {
-        // Use cached profile or fetch once
-        if (!userProfileRef.current) {
+      const cleanText = sanitizeMessageText(text);
+      const moderation = moderateText(cleanText, "message");
+      if (!moderation.isAllowed) {
+        throw new TextModerationError(moderation.reason);
+      }
+
+      // Use cached profile or fetch once - falls back to the auth profile
+      // when offline
+      if (!userProfileRef.current) {
+        try {
           userProfileRef.current = await getUserProfile(user.uid);
+        } catch (error) {
+          console.error("Error loading sender profile:", error);
         }
+      }
+      const userProfile = userProfileRef.current;
 
-        const userProfile = userProfileRef.current;
-        if (!userProfile) {
-          throw new Error("User profile not found");
+      const item: OutboxMessage = {
+        id: chatTransport.createMessageId(selectedConversation.id),
+        conversationId: selectedConversation.id,
+        senderId: user.uid,
+        senderName: userProfile?.displayName || user.displayName || "",
+        senderAvatar: userProfile?.avatarUrl || user.photoURL || "",
+        text: cleanText,
+        recipientIds: selectedConversation.participants,
+        createdAt: Date.now(),
+        status: "pending",
+        attempts: 0,
+      };
+      if (mediaUrls && mediaUrls.length > 0) {
+        item.mediaUrls = mediaUrls;
+        item.mediaTypes = mediaTypes;
+        if (mediaThumbnails?.some(Boolean)) {
+          item.mediaThumbnails = mediaThumbnails;
         }
-
-        await sendMessageService(
-          selectedConversation.id,
-          user.uid,
-          userProfile.displayName,
-          userProfile.avatarUrl,
-          text,
-          mediaUrls,
-          mediaTypes,
-          replyTo
-        );
-      } catch (error) {
-        console.error("Error sending message:", error);
-        throw error;
       }
+      if (replyTo) {
+        item.replyTo = replyTo;
+      }
+
+      updateOutbox((items) => [...items, item]);
+      flushOutbox();
     },
-    [user, selectedConversation]
+    [
+      user,
+      selectedConversation,
+      isConversationBlocked,
+      updateOutbox,
+      flushOutbox,
+    ]
+  );
+
+  /**
+   * Retry a message that failed to send
+   */
+  const retryMessage = useCallback(
+    async (messageId: string) => {
+      updateOutbox((items) =>
+        items.map((item) =>
+          item.id === messageId
+            ? { ...item, status: "pending", attempts: 0 }
+            : item
+        )
+      );
+      outboxRetryCountRef.current = 0;
+      await flushOutbox();
+    },
+    [updateOutbox, flushOutbox]
+  );
+
+  /**
+   * Remove a message that hasn't been sent yet from the outbox
+   */
+  const discardMessage = useCallback(
+    async (messageId: string) => {
+      updateOutbox((items) => items.filter((item) => item.id !== messageId));
+    },
+    [updateOutbox]
   );
 
   /**
@@ -370,15 +992,19 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
    */
   const markAsRead = useCallback(
     async (messageId: string) => {
-      if (!selectedConversation || !user) return;
+      if (!selectedConversation || !user || !readReceiptsEnabled) return;
 
       try {
-        await markMessageAsRead(selectedConversation.id, messageId, user.uid);
+        await chatTransport.markMessagesRead(
+          selectedConversation.id,
+          [messageId],
+          user.uid
+        );
       } catch (error) {
         console.error("Error marking message as read:", error);
       }
     },
-    [selectedConversation, user]
+    [selectedConversation, user, readReceiptsEnabled]
   );
 
   /**
@@ -388,11 +1014,15 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
     if (!selectedConversation || !user) return;
 
     try {
-      await markConversationAsRead(selectedConversation.id, user.uid);
+      await chatTransport.markConversationRead(
+        selectedConversation.id,
+        user.uid,
+        readReceiptsEnabled
+      );
     } catch (error) {
       console.error("Error marking conversation as read:", error);
     }
-  }, [selectedConversation, user]);
+  }, [selectedConversation, user, readReceiptsEnabled]);
 
   /**
    * Delete a message
@@ -404,7 +1034,7 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
       }
 
       try {
-        await deleteMessageService(selectedConversation.id, messageId);
+        await chatTransport.deleteMessage(selectedConversation.id, messageId);
       } catch (error) {
         console.error("Error deleting message:", error);
         throw error;
@@ -415,6 +1045,7 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
 
   /**
    * Edit a message
+   * Throws TextModerationError when the new text isn't allowed
    */
   const editMessage = useCallback(
     async (messageId: string, newText: string) => {
@@ -422,8 +1053,18 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
         throw new Error("User or conversation not available");
       }
 
+      const cleanText = sanitizeMessageText(newText);
+      const moderation = moderateText(cleanText, "message");
+      if (!moderation.isAllowed) {
+        throw new TextModerationError(moderation.reason);
+      }
+
       try {
-        await editMessageService(selectedConversation.id, messageId, newText);
+        await chatTransport.editMessage(
+          selectedConversation.id,
+          messageId,
+          cleanText
+        );
       } catch (error) {
         console.error("Error editing message:", error);
         throw error;
@@ -433,14 +1074,68 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
   );
 
   /**
-   * Set typing indicator - DISABLED to reduce Firestore quota usage
-   * Was creating a write on every keystroke
+   * React to a message - picking the same emoji again removes the reaction
    */
-  const setTyping = useCallback(async (isTyping: boolean) => {
-    // Typing indicators disabled to prevent quota exhaustion
-    // Each keystroke was creating a Firestore write
-    return;
-  }, []);
+  const toggleReaction = useCallback(
+    async (messageId: string, emoji: string) => {
+      if (!selectedConversation || !user) {
+        throw new Error("User or conversation not available");
+      }
+
+      const message = messages.find((m) => m.id === messageId);
+      const currentReaction = message?.reactions?.[user.uid];
+
+      try {
+        if (currentReaction === emoji) {
+          await chatTransport.removeReaction(
+            selectedConversation.id,
+            messageId,
+            user.uid
+          );
+        } else {
+          await chatTransport.setReaction(
+            selectedConversation.id,
+            messageId,
+            user.uid,
+            emoji
+          );
+        }
+      } catch (error) {
+        console.error("Error updating reaction:", error);
+        throw error;
+      }
+    },
+    [selectedConversation, user, messages]
+  );
+
+  /**
+   * Set typing indicator
+   * A no-op on transports where typing isn't cheap (Firestore would write
+   * on every keystroke)
+   */
+  const setTyping = useCallback(
+    async (isTyping: boolean) => {
+      if (
+        !chatTransport.capabilities.typing ||
+        !user ||
+        !selectedConversation
+      ) {
+        return;
+      }
+
+      try {
+        await chatTransport.setTyping(
+          selectedConversation.id,
+          user.uid,
+          userProfileRef.current?.username || user.displayName || "",
+          isTyping
+        );
+      } catch (error) {
+        console.error("Error updating typing indicator:", error);
+      }
+    },
+    [user, selectedConversation]
+  );
 
   /**
    * Start a conversation with another user
@@ -451,7 +1146,15 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
         throw new Error("User not authenticated");
       }
 
+      if (isBlocked(otherUserId)) {
+        throw new Error("You have blocked this user");
+      }
+
       try {
+        if (await isBlockedBy(user.uid, otherUserId)) {
+          throw new Error("You can't message this user");
+        }
+
         const currentUserProfile = await getUserProfile(user.uid);
         const otherUserProfile = await getUserProfile(otherUserId);
 
@@ -459,7 +1162,7 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
           throw new Error("User profile not found");
         }
 
-        const conversation = await getOrCreateConversation(
+        const conversation = await chatTransport.getOrCreateDirectConversation(
           user.uid,
           otherUserId,
           currentUserProfile,
@@ -472,6 +1175,70 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
         throw error;
       }
     },
+    [user, isBlocked]
+  );
+
+  /**
+   * Start a group conversation with the given members
+   */
+  const startGroupConversation = useCallback(
+    async (memberIds: string[], name: string) => {
+      if (!user) {
+        throw new Error("User not authenticated");
+      }
+
+      try {
+        const currentUserProfile = await getUserProfile(user.uid);
+        if (!currentUserProfile) {
+          throw new Error("User profile not found");
+        }
+
+        const memberProfiles = await Promise.all(
+          memberIds.map((memberId) => getUserProfile(memberId))
+        );
+        if (memberProfiles.some((profile) => !profile)) {
+          throw new Error("User profile not found");
+        }
+
+        return await chatTransport.createGroupConversation(
+          user.uid,
+          currentUserProfile,
+          memberProfiles as User[],
+          name
+        );
+      } catch (error) {
+        console.error("Error starting group conversation:", error);
+        throw error;
+      }
+    },
+    [user]
+  );
+
+  /**
+   * Turn sending read receipts on or off for this user
+   */
+  const setReadReceiptsEnabled = useCallback(
+    async (enabled: boolean) => {
+      if (!user) {
+        throw new Error("User not authenticated");
+      }
+
+      const previous = readReceiptsEnabledRef.current;
+      readReceiptsEnabledRef.current = enabled;
+      setReadReceiptsEnabledState(enabled);
+
+      try {
+        await updateUserProfile(user.uid, { readReceiptsEnabled: enabled });
+        if (userProfileRef.current) {
+          userProfileRef.current.readReceiptsEnabled = enabled;
+        }
+      } catch (error) {
+        console.error("Error updating read receipts setting:", error);
+        readReceiptsEnabledRef.current = previous;
+        setReadReceiptsEnabledState(previous);
+        throw error;
+      }
+    },
     [user]
   );
 
@@ -481,25 +1248,36 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
   }, []);
 
   const value: ChatContextType = {
-    conversations,
+    conversations: visibleConversations,
     selectedConversation,
     conversationsLoading,
     conversationsError,
+    isConversationBlocked,
     messages,
     messagesLoading,
     messagesError,
+    hasMoreMessages,
+    loadingOlderMessages,
     typingUsers,
     userPresences,
     totalUnreadCount,
+    connectionState,
+    readReceiptsEnabled,
     selectConversation,
+    loadOlderMessages,
     sendMessage,
+    retryMessage,
+    discardMessage,
     markAsRead,
     markConversationRead,
     deleteMessage,
     editMessage,
+    toggleReaction,
     setTyping,
     startConversation,
+    startGroupConversation,
     refreshConversations,
+    setReadReceiptsEnabled,
   };
 
   return <ChatContext.Provider value={value}>{children}</ChatContext.Provider>;
@@ -8,7 +8,8 @@ import { Conversation } from "../@types/chat";
  */
 export const useChatNavigation = () => {
   const navigation = useNavigation<any>();
-  const { selectConversation, startConversation } = useChat();
+  const { selectConversation, startConversation, startGroupConversation } =
+    useChat();
 
   const goToConversationList = useCallback(() => {
     navigation.navigate("ConversationList");
@@ -36,9 +37,28 @@ export const useChatNavigation = () => {
     [navigation, selectConversation, startConversation]
   );
 
+  const startNewGroupChat = useCallback(
+    async (memberIds: string[], name: string) => {
+      try {
+        const conversation = await startGroupConversation(memberIds, name);
+        await selectConversation(conversation);
+        navigation.navigate("ChatDetail", { conversationId: conversation.id });
+      } catch (error) {
+        console.error("Error starting group conversation:", error);
+        alert(
+          error instanceof Error
+            ? `Failed to create group: ${error.message}`
+            : "Failed to create group"
+        );
+      }
+    },
+    [navigation, selectConversation, startGroupConversation]
+  );
+
   return {
     goToConversationList,
     goToChat,
     startNewChat,
+    startNewGroupChat,
   };
 };
@@ -5,16 +5,16 @@ import { createBottomTabNavigator } from "@react-navigation/bottom-tabs";
 import { BackHandler } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { useAuth } from "../contexts/AuthContext";
+import { useBlocks } from "../contexts/BlockContext";
 import { useTheme } from "../contexts/ThemeContext";
 import { View, ActivityIndicator, Platform } from "react-native";
 import { useEffect, useState } from "react";
-import { collection, query, where, onSnapshot } from "firebase/firestore";
+import { subscribeToUnreadNotifications } from "../services/notificationRepository";
 import type {
   BottomTabNavigationEventMap,
   BottomTabNavigationProp,
 } from "@react-navigation/bottom-tabs";
 import type { RouteProp } from "@react-navigation/native";
-import { db } from "../config/firebase";
 
 // Screen imports
 import LoginScreen from "../screens/LoginScreen";
@@ -31,6 +31,8 @@ import ConversationListScreen from "../screens/ConversationListScreen";
 import ChatDetailScreen from "../screens/ChatDetailScreen";
 import SearchUsersScreen from "../screens/SearchUsersScreen";
 import ConversationInfoScreen from "../screens/ConversationInfoScreen";
+import MessageSearchScreen from "../screens/MessageSearchScreen";
+import BlockedAccountsScreen from "../screens/BlockedAccountsScreen";
 
 export type RootStackParamList = {
   Login: undefined;
@@ -42,9 +44,11 @@ export type RootStackParamList = {
   PostDetail: { postId: string };
   CropImage: { imageUri: string };
   ConversationList: undefined;
-  ChatDetail: { conversationId: string };
-  SearchUsers: undefined;
+  ChatDetail: { conversationId: string; messageId?: string };
+  SearchUsers: { mode?: "direct" | "group" | "addMembers" } | undefined;
   ConversationInfo: undefined;
+  MessageSearch: undefined;
+  BlockedAccounts: undefined;
 };
 
 export type MainTabParamList = {
@@ -61,25 +65,23 @@ let lastHomeTabPress = 0;
 const MainTabs: React.FC = () => {
   const { user } = useAuth();
   const { colors } = useTheme();
-  const [unreadCount, setUnreadCount] = useState(0);
+  const { isBlocked } = useBlocks();
+  // Sender of each unread notification, so blocked users can be left out
+  const [unreadFromUserIds, setUnreadFromUserIds] = useState<string[]>([]);
 
   // Get unread notifications count
   useEffect(() => {
     if (!user) return;
 
-    const q = query(
-      collection(db, "notifications"),
-      where("userId", "==", user.uid),
-      where("read", "==", false)
-    );
-
-    const unsub = onSnapshot(q, (snap) => {
-      setUnreadCount(snap.size);
+    const unsub = subscribeToUnreadNotifications(user.uid, (notifications) => {
+      setUnreadFromUserIds(notifications.map((n) => n.fromUserId));
     });
 
     return () => unsub();
   }, [user]);
 
+  const unreadCount = unreadFromUserIds.filter((id) => !isBlocked(id)).length;
+
   return (
     <Tab.Navigator
       screenOptions={{
@@ -218,6 +220,11 @@ const AppNavigatorContent: React.FC = () => {
           />
           <Stack.Screen name="AddPost" component={AddPostScreen} />
           <Stack.Screen name="Settings" component={SettingsScreen} />
+          <Stack.Screen
+            name="BlockedAccounts"
+            component={BlockedAccountsScreen}
+            options={{ gestureEnabled: true }}
+          />
           <Stack.Screen name="PostDetail" component={PostDetailScreen} />
           <Stack.Screen name="CropImage" component={CropImageScreen} />
           <Stack.Screen
@@ -240,6 +247,11 @@ const AppNavigatorContent: React.FC = () => {
             component={ConversationInfoScreen}
             options={{ gestureEnabled: true }}
           />
+          <Stack.Screen
+            name="MessageSearch"
+            component={MessageSearchScreen}
+            options={{ gestureEnabled: true }}
+          />
         </Stack.Navigator>
       ) : (
         // Unauthenticated user - show auth screens
@@ -27,7 +27,15 @@ import {
 import { db } from "../config/firebase";
 import { useAuth } from "../contexts/AuthContext";
 import { RootStackParamList } from "../navigation/AppNavigator";
-import { moderateImageWithAI } from "../services/aiModeration";
+import {
+  moderateImage,
+  recordPostedImage,
+  ModerationResult,
+} from "../services/moderationService";
+import {
+  moderateText,
+  getPendingReviewFields,
+} from "../services/textModerationService";
 import { RouteProp, useRoute } from "@react-navigation/native";
 import ScreenHeader from "../components/ScreenHeader";
 
@@ -48,12 +56,13 @@ const AddPostScreen: React.FC = () => {
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [moderationMessage, setModerationMessage] = useState("");
-  const [aiAnalyzing, setAiAnalyzing] = useState(false);
+  const [checkingImage, setCheckingImage] = useState(false);
+  const [imageHash, setImageHash] = useState<string | undefined>();
   const [userDoc, setUserDoc] = useState<any>(null);
 
   useEffect(() => {
     if (route.params?.selectedImage) {
-      setSelectedImage(route.params.selectedImage);
+      checkImage(route.params.selectedImage);
     }
   }, [route.params?.selectedImage]);
 
@@ -101,6 +110,36 @@ const AddPostScreen: React.FC = () => {
     })();
   }, []);
 
+  const checkImage = async (imageUri: string) => {
+    setSelectedImage(imageUri);
+    setModerationMessage("");
+    setImageHash(undefined);
+    setCheckingImage(true);
+
+    try {
+      const result = await moderateImage({
+        uri: imageUri,
+        context: "post",
+        userId: user?.uid,
+      });
+      setImageHash(result.imageHash);
+      if (result.decision === "block") {
+        setModerationMessage(`🚫 ${result.reason}`);
+      } else if (result.decision === "warn") {
+        setModerationMessage(`⚠️ ${result.reason}`);
+      } else {
+        setModerationMessage("✅ Image approved!");
+      }
+    } catch (error) {
+      console.error("Image moderation failed:", error);
+      setModerationMessage(
+        "⚠️ Could not verify image. Please ensure it follows community guidelines."
+      );
+    } finally {
+      setCheckingImage(false);
+    }
+  };
+
   const pickImage = async () => {
     try {
       const result = await ImagePicker.launchImageLibraryAsync({
@@ -111,27 +150,7 @@ const AddPostScreen: React.FC = () => {
       });
 
       if (!result.canceled && result.assets[0]) {
-        const imageUri = result.assets[0].uri;
-        setSelectedImage(imageUri);
-        setModerationMessage("");
-        setAiAnalyzing(true);
-
-        // AI moderation check
-        try {
-          const aiResult = await moderateImageWithAI(imageUri, "post image");
-          if (!aiResult.isAllowed) {
-            setModerationMessage(`🚫 ${aiResult.reason}`);
-          } else {
-            setModerationMessage("✅ Image approved!");
-          }
-        } catch (error) {
-          console.error("AI moderation failed:", error);
-          setModerationMessage(
-            "⚠️ Could not verify image. Please ensure it follows community guidelines."
-          );
-        } finally {
-          setAiAnalyzing(false);
-        }
+        await checkImage(result.assets[0].uri);
       }
     } catch (error) {
       console.error("Error picking image:", error);
@@ -149,27 +168,7 @@ const AddPostScreen: React.FC = () => {
       });
 
       if (!result.canceled && result.assets[0]) {
-        const imageUri = result.assets[0].uri;
-        setSelectedImage(imageUri);
-        setModerationMessage("");
-        setAiAnalyzing(true);
-
-        // AI moderation check
-        try {
-          const aiResult = await moderateImageWithAI(imageUri, "post image");
-          if (!aiResult.isAllowed) {
-            setModerationMessage(`🚫 ${aiResult.reason}`);
-          } else {
-            setModerationMessage("✅ Image approved!");
-          }
-        } catch (error) {
-          console.error("AI moderation failed:", error);
-          setModerationMessage(
-            "⚠️ Could not verify image. Please ensure it follows community guidelines."
-          );
-        } finally {
-          setAiAnalyzing(false);
-        }
+        await checkImage(result.assets[0].uri);
       }
     } catch (error) {
       console.error("Error taking photo:", error);
@@ -303,6 +302,26 @@ const AddPostScreen: React.FC = () => {
       return;
     }
 
+    const captionResult = moderateText(caption.trim(), "caption");
+    if (!captionResult.isAllowed) {
+      Alert.alert("Content Warning", captionResult.reason);
+      return;
+    }
+
+    if (captionResult.decision === "warn") {
+      Alert.alert("Content Warning", captionResult.reason, [
+        { text: "Edit", style: "cancel" },
+        { text: "Post Anyway", onPress: () => createPost(captionResult) },
+      ]);
+      return;
+    }
+
+    await createPost(captionResult);
+  };
+
+  const createPost = async (captionResult: ModerationResult) => {
+    if (!user || !selectedImage) return;
+
     setLoading(true);
 
     try {
@@ -321,9 +340,20 @@ const AddPostScreen: React.FC = () => {
         createdAt: serverTimestamp(),
         likesCount: 0,
         commentsCount: 0,
-        likedByUsers: [],
+        ...getPendingReviewFields(captionResult),
       });
 
+      if (imageHash) {
+        await recordPostedImage(user.uid, imageHash);
+      }
+
+      if (captionResult.decision === "hide") {
+        Alert.alert(
+          "Post under review",
+          "Your post will be visible to others once it has been reviewed."
+        );
+      }
+
       // Navigate back to home
       navigation.goBack();
     } catch (error) {
@@ -400,8 +430,8 @@ const AddPostScreen: React.FC = () => {
             )}
           </TouchableOpacity>
 
-          {/* AI Moderation Status */}
-          {aiAnalyzing && (
+          {/* Moderation Status */}
+          {checkingImage && (
             <View
               style={{
                 flexDirection: "row",
@@ -411,7 +441,7 @@ const AddPostScreen: React.FC = () => {
             >
               <ActivityIndicator size="small" color={colors.brandPrimary} />
               <Text style={{ marginLeft: 10, color: colors.textSecondary }}>
-                🤖 AI analyzing image...
+                Checking image...
               </Text>
             </View>
           )}
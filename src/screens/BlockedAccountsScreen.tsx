@@ -0,0 +1,247 @@
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Image,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { useNavigation } from "@react-navigation/native";
+import { useBlocks } from "../contexts/BlockContext";
+import { useTheme } from "../contexts/ThemeContext";
+import { getUserProfiles } from "../services/userService";
+import { getOptimizedImageUrl } from "../services/imageOptimization";
+import { User } from "../@types/chat";
+
+/**
+ * Lists the accounts the user has blocked, with a way to unblock them
+ */
+const BlockedAccountsScreen: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const { colors } = useTheme();
+  const { blockedUserIds, blockedUsersLoading, unblockUser } = useBlocks();
+  const [profiles, setProfiles] = useState<{ [userId: string]: User }>({});
+  const [unblockingId, setUnblockingId] = useState<string | null>(null);
+
+  // Fetch profiles for blocked users we haven't loaded yet
+  useEffect(() => {
+    const missing = blockedUserIds.filter((id) => !profiles[id]);
+    if (missing.length === 0) return;
+
+    let isSubscribed = true;
+    getUserProfiles(missing)
+      .then((users) => {
+        if (!isSubscribed) return;
+        setProfiles((prev) => {
+          const next = { ...prev };
+          users.forEach((u) => {
+            next[u.uid] = u;
+          });
+          return next;
+        });
+      })
+      .catch((error) => {
+        console.error("Error loading blocked profiles:", error);
+      });
+
+    return () => {
+      isSubscribed = false;
+    };
+  }, [blockedUserIds]);
+
+  const handleUnblock = (userId: string) => {
+    const name = profiles[userId]?.username || "this user";
+    Alert.alert(
+      "Unblock User",
+      `${name} will be able to message you and see your activity again.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Unblock",
+          onPress: async () => {
+            setUnblockingId(userId);
+            try {
+              await unblockUser(userId);
+            } catch (error) {
+              console.error("Error unblocking user:", error);
+              Alert.alert("Error", "Failed to unblock user. Please try again.");
+            } finally {
+              setUnblockingId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderItem = ({ item }: { item: string }) => {
+    const profile = profiles[item];
+
+    return (
+      <View
+        style={[styles.userItem, { borderBottomColor: colors.borderLight }]}
+      >
+        <Image
+          source={
+            profile?.avatarUrl
+              ? { uri: getOptimizedImageUrl(profile.avatarUrl, "thumbnail") }
+              : require("../../assets/placeholderImg.jpg")
+          }
+          style={styles.avatar}
+        />
+        <View style={styles.userInfo}>
+          <Text
+            style={[styles.username, { color: colors.textPrimary }]}
+            numberOfLines={1}
+          >
+            {profile?.username || "Unknown User"}
+          </Text>
+          {!!profile?.displayName && (
+            <Text
+              style={[styles.displayName, { color: colors.textSecondary }]}
+              numberOfLines={1}
+            >
+              {profile.displayName}
+            </Text>
+          )}
+        </View>
+        <TouchableOpacity
+          style={[styles.unblockButton, { borderColor: colors.borderColor }]}
+          onPress={() => handleUnblock(item)}
+          disabled={unblockingId === item}
+        >
+          {unblockingId === item ? (
+            <ActivityIndicator size="small" color="#FF6B6B" />
+          ) : (
+            <Text
+              style={[styles.unblockButtonText, { color: colors.textPrimary }]}
+            >
+              Unblock
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: colors.bgPrimary }]}
+    >
+      <View style={[styles.header, { borderBottomColor: colors.borderColor }]}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.backButton}
+        >
+          <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: colors.textPrimary }]}>
+          Blocked Accounts
+        </Text>
+      </View>
+
+      {blockedUsersLoading ? (
+        <ActivityIndicator style={styles.loader} size="large" color="#FF6B6B" />
+      ) : (
+        <FlatList
+          data={blockedUserIds}
+          renderItem={renderItem}
+          keyExtractor={(item) => item}
+          contentContainerStyle={
+            blockedUserIds.length === 0 && styles.emptyList
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Ionicons name="ban-outline" size={48} color={colors.textMuted} />
+              <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+                You haven't blocked anyone
+              </Text>
+            </View>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 0.5,
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  loader: {
+    marginTop: 40,
+  },
+  userItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 0.5,
+  },
+  avatar: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    marginRight: 12,
+  },
+  userInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  username: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  displayName: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  unblockButton: {
+    minWidth: 84,
+    paddingHorizontal: 14,
+    paddingVertical: 7,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: "center",
+  },
+  unblockButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  emptyList: {
+    flexGrow: 1,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: 32,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 15,
+    textAlign: "center",
+  },
+});
+
+export default BlockedAccountsScreen;
@@ -5,6 +5,7 @@ import {
   Alert,
   TouchableOpacity,
   Text,
+  TextInput,
   Image,
   SafeAreaView,
   StatusBar,
@@ -20,7 +21,25 @@ import { useTheme } from "../contexts/ThemeContext";
 import { MessageList } from "../components/MessageList";
 import { MessageInput } from "../components/MessageInput";
 import { TypingIndicator } from "../components/TypingIndicator";
-import { getOtherParticipant, getTimeDiffFromNow } from "../services/chatUtils";
+import { ConnectionBanner } from "../components/ConnectionBanner";
+import {
+  MessageActionsModal,
+  MessageAction,
+} from "../components/MessageActionsModal";
+import ReportModal from "../components/ReportModal";
+import {
+  getOtherParticipant,
+  getTimeDiffFromNow,
+  getConversationTitle,
+  getConversationAvatar,
+  isGroupConversation,
+  isSystemMessage,
+} from "../services/chatUtils";
+import { searchMessages } from "../services/messageSearchService";
+import { Message } from "../@types/chat";
+import { ReportTarget } from "../@types/report";
+
+const SEARCH_DEBOUNCE_MS = 250;
 
 interface ChatDetailScreenProps {
   navigation: any;
@@ -31,12 +50,13 @@ export const ChatDetailScreen: React.FC<ChatDetailScreenProps> = ({
   navigation,
   route,
 }) => {
-  const { conversationId } = route.params || {};
+  const { conversationId, messageId: initialMessageId } = route.params || {};
   const {
     selectedConversation,
     selectConversation,
     deleteMessage,
     editMessage,
+    toggleReaction,
     messages,
     userPresences,
     conversations,
@@ -45,6 +65,18 @@ export const ChatDetailScreen: React.FC<ChatDetailScreenProps> = ({
   const { colors, isDark } = useTheme();
   const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
   const [showOptions, setShowOptions] = useState(false);
+  const [actionMessageId, setActionMessageId] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
+
+  // In-conversation search - matches are newest first
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchMatchIds, setSearchMatchIds] = useState<string[]>([]);
+  const [searchMatchIndex, setSearchMatchIndex] = useState(0);
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(
+    initialMessageId || null
+  );
 
   const dims = useWindowDimensions();
 
@@ -72,58 +104,188 @@ export const ChatDetailScreen: React.FC<ChatDetailScreenProps> = ({
     ? userPresences[otherParticipantId]
     : null;
 
-  // Get the OTHER participant's details (not current user)
-  const otherParticipant =
-    selectedConversation?.participantDetails && otherParticipantId
-      ? selectedConversation.participantDetails[otherParticipantId]
-      : null;
+  // Header shows the group, or the OTHER participant (not current user)
+  const isGroup =
+    !!selectedConversation && isGroupConversation(selectedConversation);
+  const headerTitle = selectedConversation
+    ? getConversationTitle(selectedConversation, user?.uid || "")
+    : "Unknown";
+  const headerAvatarUrl = selectedConversation
+    ? getConversationAvatar(selectedConversation, user?.uid || "")
+    : "";
 
   const handleMessageLongPress = useCallback(
     (messageId: string, senderId: string) => {
-      if (senderId !== user?.uid) {
-        Alert.alert("Message Options", "You can view this message", [
-          { text: "OK", style: "cancel" },
-        ]);
-        return;
+      setActionMessageId(messageId);
+    },
+    []
+  );
+
+  const actionMessage = actionMessageId
+    ? messages.find((m) => m.id === actionMessageId) || null
+    : null;
+
+  const handleReact = useCallback(
+    async (emoji: string) => {
+      if (!actionMessageId) return;
+
+      try {
+        await toggleReaction(actionMessageId, emoji);
+      } catch (error) {
+        Alert.alert("Error", "Failed to add reaction");
       }
+    },
+    [actionMessageId, toggleReaction]
+  );
 
-      Alert.alert("Message Options", "What would you like to do?", [
-        {
-          text: "Edit",
-          onPress: () => {
-            setEditingMessageId(messageId);
-          },
+  const handleReply = useCallback((message: Message) => {
+    setReplyingTo(message);
+  }, []);
+
+  const handleCancelReply = useCallback(() => {
+    setReplyingTo(null);
+  }, []);
+
+  // Drop a pending reply and search when switching conversations
+  useEffect(() => {
+    setReplyingTo(null);
+    setIsSearching(false);
+    setSearchQuery("");
+  }, [selectedConversation?.id]);
+
+  // Opened from a search result
+  useEffect(() => {
+    if (initialMessageId) {
+      setFocusMessageId(initialMessageId);
+    }
+  }, [initialMessageId]);
+
+  // Find matches in this conversation, jumping to the newest one
+  useEffect(() => {
+    if (!isSearching || !user || !selectedConversation) return;
+
+    if (!searchQuery.trim()) {
+      setSearchMatchIds([]);
+      setSearchMatchIndex(0);
+      return;
+    }
+
+    let isSubscribed = true;
+    const timeout = setTimeout(async () => {
+      try {
+        const results = await searchMessages(user.uid, searchQuery, {
+          conversationId: selectedConversation.id,
+          limit: 500,
+        });
+        if (!isSubscribed) return;
+
+        const ids = results.map((r) => r.message.id);
+        setSearchMatchIds(ids);
+        setSearchMatchIndex(0);
+        if (ids.length > 0) {
+          setFocusMessageId(ids[0]);
+        }
+      } catch (error) {
+        console.error("Error searching conversation:", error);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      isSubscribed = false;
+      clearTimeout(timeout);
+    };
+  }, [isSearching, searchQuery, user?.uid, selectedConversation?.id]);
+
+  // direction 1 goes to an older match, -1 to a newer one
+  const goToSearchMatch = useCallback(
+    (direction: 1 | -1) => {
+      const nextIndex = searchMatchIndex + direction;
+      if (nextIndex < 0 || nextIndex >= searchMatchIds.length) return;
+
+      setSearchMatchIndex(nextIndex);
+      setFocusMessageId(searchMatchIds[nextIndex]);
+    },
+    [searchMatchIndex, searchMatchIds]
+  );
+
+  const handleCloseSearch = useCallback(() => {
+    setIsSearching(false);
+    setSearchQuery("");
+    setSearchMatchIds([]);
+    setSearchMatchIndex(0);
+  }, []);
+
+  const messageActions: MessageAction[] = [];
+  if (actionMessage) {
+    const message = actionMessage;
+    messageActions.push({
+      label: "Reply",
+      icon: "arrow-undo-outline",
+      onPress: () => handleReply(message),
+    });
+  }
+  if (actionMessage && actionMessage.senderId === user?.uid) {
+    const messageId = actionMessage.id;
+    messageActions.push(
+      {
+        label: "Edit",
+        icon: "create-outline",
+        onPress: () => {
+          setEditingMessageId(messageId);
         },
-        {
-          text: "Delete",
-          onPress: () => {
-            Alert.alert(
-              "Delete Message",
-              "This message will be deleted for everyone.",
-              [
-                {
-                  text: "Delete",
-                  style: "destructive",
-                  onPress: async () => {
-                    try {
-                      await deleteMessage(messageId);
-                      Alert.alert("Success", "Message deleted");
-                    } catch (error) {
-                      Alert.alert("Error", "Failed to delete message");
-                    }
-                  },
+      },
+      {
+        label: "Delete",
+        icon: "trash-outline",
+        destructive: true,
+        onPress: () => {
+          Alert.alert(
+            "Delete Message",
+            "This message will be deleted for everyone.",
+            [
+              {
+                text: "Delete",
+                style: "destructive",
+                onPress: async () => {
+                  try {
+                    await deleteMessage(messageId);
+                    Alert.alert("Success", "Message deleted");
+                  } catch (error) {
+                    Alert.alert("Error", "Failed to delete message");
+                  }
                 },
-                { text: "Cancel", style: "cancel" },
-              ]
-            );
-          },
-          style: "destructive",
+              },
+              { text: "Cancel", style: "cancel" },
+            ]
+          );
         },
-        { text: "Cancel", style: "cancel" },
-      ]);
-    },
-    [user?.uid, deleteMessage]
-  );
+      }
+    );
+  }
+  if (
+    actionMessage &&
+    actionMessage.senderId !== user?.uid &&
+    !isSystemMessage(actionMessage)
+  ) {
+    const message = actionMessage;
+    messageActions.push({
+      label: "Report",
+      icon: "flag-outline",
+      destructive: true,
+      onPress: () =>
+        setReportTarget({
+          targetType: "message",
+          targetId: message.id,
+          targetOwnerId: message.senderId,
+          snapshot: {
+            text: message.text,
+            imageUrls: message.mediaUrls || [],
+            authorName: message.senderName,
+            conversationId: message.conversationId,
+          },
+        }),
+    });
+  }
 
   const handleBackPress = useCallback(() => {
     selectConversation(null);
@@ -155,49 +317,156 @@ export const ChatDetailScreen: React.FC<ChatDetailScreenProps> = ({
         backgroundColor={colors.bgPrimary}
       />
 
-      {/* Chat Header */}
-      <View
-        style={[
-          styles.chatHeader,
-          {
-            backgroundColor: colors.bgPrimary,
-            borderBottomColor: colors.borderColor,
-          },
-        ]}
-      >
-        <TouchableOpacity onPress={handleBackPress} style={styles.backButton}>
-          <Ionicons name="chevron-back" size={28} color={colors.textPrimary} />
-        </TouchableOpacity>
-
-        <TouchableOpacity style={styles.headerInfo} onPress={handleInfoPress}>
-          <Image
-            source={
-              otherParticipant?.avatarUrl
-                ? { uri: otherParticipant.avatarUrl }
-                : require("../../assets/placeholderImg.jpg")
-            }
-            style={styles.headerAvatar}
+      {/* Search bar replaces the header while searching */}
+      {isSearching ? (
+        <View
+          style={[
+            styles.chatHeader,
+            {
+              backgroundColor: colors.bgPrimary,
+              borderBottomColor: colors.borderColor,
+            },
+          ]}
+        >
+          <TouchableOpacity
+            onPress={handleCloseSearch}
+            style={styles.backButton}
+          >
+            <Ionicons name="close" size={26} color={colors.textPrimary} />
+          </TouchableOpacity>
+          <TextInput
+            style={[
+              styles.searchInput,
+              {
+                color: colors.textPrimary,
+                backgroundColor: colors.bgSecondary,
+              },
+            ]}
+            placeholder="Search in conversation"
+            placeholderTextColor={colors.textMuted}
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            autoFocus
+            autoCapitalize="none"
+            autoCorrect={false}
+            returnKeyType="search"
           />
-
-          <View style={styles.headerTextContainer}>
-            <Text style={[styles.headerName, { color: colors.textPrimary }]}>
-              {otherParticipant?.displayName || "Unknown"}
+          {!!searchQuery.trim() && (
+            <Text style={[styles.searchCount, { color: colors.textSecondary }]}>
+              {searchMatchIds.length > 0
+                ? `${searchMatchIndex + 1}/${searchMatchIds.length}`
+                : "0/0"}
             </Text>
-            {/* Online status removed - keeping only typing and read indicators */}
-          </View>
-        </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={() => goToSearchMatch(1)}
+            disabled={searchMatchIndex >= searchMatchIds.length - 1}
+          >
+            <Ionicons
+              name="chevron-up"
+              size={22}
+              color={
+                searchMatchIndex >= searchMatchIds.length - 1
+                  ? colors.textMuted
+                  : "#FF6B6B"
+              }
+            />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={() => goToSearchMatch(-1)}
+            disabled={searchMatchIndex <= 0}
+          >
+            <Ionicons
+              name="chevron-down"
+              size={22}
+              color={searchMatchIndex <= 0 ? colors.textMuted : "#FF6B6B"}
+            />
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <View
+          style={[
+            styles.chatHeader,
+            {
+              backgroundColor: colors.bgPrimary,
+              borderBottomColor: colors.borderColor,
+            },
+          ]}
+        >
+          <TouchableOpacity onPress={handleBackPress} style={styles.backButton}>
+            <Ionicons
+              name="chevron-back"
+              size={28}
+              color={colors.textPrimary}
+            />
+          </TouchableOpacity>
 
-        <TouchableOpacity style={styles.headerButton} onPress={handleCallPress}>
-          <Ionicons name="call" size={22} color="#FF6B6B" />
-        </TouchableOpacity>
+          <TouchableOpacity style={styles.headerInfo} onPress={handleInfoPress}>
+            {isGroup && !headerAvatarUrl ? (
+              <View
+                style={[
+                  styles.headerAvatar,
+                  styles.groupAvatar,
+                  { backgroundColor: colors.bgSecondary },
+                ]}
+              >
+                <Ionicons name="people" size={22} color="#FF6B6B" />
+              </View>
+            ) : (
+              <Image
+                source={
+                  headerAvatarUrl
+                    ? { uri: headerAvatarUrl }
+                    : require("../../assets/placeholderImg.jpg")
+                }
+                style={styles.headerAvatar}
+              />
+            )}
 
-        <TouchableOpacity
-          style={styles.headerButton}
-          onPress={handleVideoPress}
-        >
-          <Ionicons name="videocam" size={22} color="#FF6B6B" />
-        </TouchableOpacity>
-      </View>
+            <View style={styles.headerTextContainer}>
+              <Text
+                style={[styles.headerName, { color: colors.textPrimary }]}
+                numberOfLines={1}
+              >
+                {headerTitle}
+              </Text>
+              {isGroup && (
+                <Text
+                  style={[styles.headerStatus, { color: colors.textSecondary }]}
+                >
+                  {selectedConversation?.participants.length} members
+                </Text>
+              )}
+              {/* Online status removed - keeping only typing and read indicators */}
+            </View>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={handleCallPress}
+          >
+            <Ionicons name="call" size={22} color="#FF6B6B" />
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={handleVideoPress}
+          >
+            <Ionicons name="videocam" size={22} color="#FF6B6B" />
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={() => setIsSearching(true)}
+          >
+            <Ionicons name="search" size={22} color="#FF6B6B" />
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <ConnectionBanner />
 
       {/* Messages */}
       <KeyboardAvoidingView
@@ -205,14 +474,36 @@ export const ChatDetailScreen: React.FC<ChatDetailScreenProps> = ({
         style={styles.messagesContainer}
         keyboardVerticalOffset={Platform.OS === "ios" ? 90 : 0}
       >
-        <MessageList onMessageLongPress={handleMessageLongPress} />
+        <MessageList
+          onMessageLongPress={handleMessageLongPress}
+          onReply={handleReply}
+          focusMessageId={focusMessageId}
+        />
 
         {/* Typing Indicator */}
         <TypingIndicator />
 
         {/* Message Input */}
-        <MessageInput />
+        <MessageInput
+          replyTo={replyingTo}
+          onCancelReply={handleCancelReply}
+        />
       </KeyboardAvoidingView>
+
+      <MessageActionsModal
+        visible={!!actionMessage}
+        currentReaction={
+          user ? actionMessage?.reactions?.[user.uid] : undefined
+        }
+        actions={messageActions}
+        onReact={handleReact}
+        onClose={() => setActionMessageId(null)}
+      />
+
+      <ReportModal
+        target={reportTarget}
+        onClose={() => setReportTarget(null)}
+      />
     </SafeAreaView>
   );
 };
@@ -243,6 +534,10 @@ const styles = StyleSheet.create({
     height: 40,
     borderRadius: 20,
   },
+  groupAvatar: {
+    justifyContent: "center",
+    alignItems: "center",
+  },
   headerTextContainer: {
     flex: 1,
   },
@@ -265,6 +560,18 @@ const styles = StyleSheet.create({
   headerButton: {
     padding: 8,
   },
+  searchInput: {
+    flex: 1,
+    fontSize: 15,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+  },
+  searchCount: {
+    fontSize: 13,
+    minWidth: 36,
+    textAlign: "center",
+  },
   messagesContainer: {
     flex: 1,
     justifyContent: "space-between",
@@ -10,16 +10,25 @@ import {
   ScrollView,
   Switch,
   Alert,
+  TextInput,
+  ActivityIndicator,
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
+import * as ImagePicker from "expo-image-picker";
 import { useChat } from "../contexts/ChatContext";
 import { useAuth } from "../contexts/AuthContext";
-import { getOtherParticipant } from "../services/chatUtils";
-import { getOptimizedImageUrl } from "../services/imageOptimization";
+import { useBlocks } from "../contexts/BlockContext";
 import {
-  clearConversationMessages,
-  deleteConversation,
-} from "../services/conversationService";
+  getOtherParticipant,
+  getConversationTitle,
+  isGroupConversation,
+  isConversationAdmin,
+} from "../services/chatUtils";
+import { getOptimizedImageUrl } from "../services/imageOptimization";
+import { chatTransport } from "../services/chatTransport";
+import { getUserProfile } from "../services/userService";
+import ReportModal from "../components/ReportModal";
+import { ReportTarget } from "../@types/report";
 
 interface ConversationInfoScreenProps {
   navigation: any;
@@ -30,28 +39,204 @@ export const ConversationInfoScreen: React.FC<ConversationInfoScreenProps> = ({
   navigation,
   route,
 }) => {
-  const { selectedConversation, userPresences } = useChat();
+  const { selectedConversation, selectConversation, userPresences } =
+    useChat();
   const { user } = useAuth();
+  const { isBlocked, blockUser, unblockUser } = useBlocks();
   const [notificationsMuted, setNotificationsMuted] = useState(false);
+  const [isEditingName, setIsEditingName] = useState(false);
+  const [groupNameDraft, setGroupNameDraft] = useState("");
+  const [updatingGroup, setUpdatingGroup] = useState(false);
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
 
   if (!selectedConversation || !user) {
     navigation.goBack();
     return null;
   }
 
+  const isGroup = isGroupConversation(selectedConversation);
+  const isAdmin = isConversationAdmin(selectedConversation, user.uid);
+  const currentUserName =
+    selectedConversation.participantDetails?.[user.uid]?.displayName ||
+    user.displayName ||
+    "Someone";
+
   const otherParticipantId = getOtherParticipant(
     selectedConversation,
     user.uid
   );
 
-  if (!otherParticipantId) {
+  if (!otherParticipantId && !isGroup) {
     navigation.goBack();
     return null;
   }
 
-  const otherParticipant =
-    selectedConversation.participantDetails[otherParticipantId];
-  const presence = userPresences[otherParticipantId];
+  const otherParticipant = otherParticipantId
+    ? selectedConversation.participantDetails[otherParticipantId]
+    : null;
+  const presence = otherParticipantId
+    ? userPresences[otherParticipantId]
+    : null;
+
+  const handleStartRename = () => {
+    setGroupNameDraft(selectedConversation.name || "");
+    setIsEditingName(true);
+  };
+
+  const handleSaveGroupName = async () => {
+    const trimmedName = groupNameDraft.trim();
+    if (!trimmedName || trimmedName === selectedConversation.name) {
+      setIsEditingName(false);
+      return;
+    }
+
+    setUpdatingGroup(true);
+    try {
+      await chatTransport.updateGroupDetails(
+        selectedConversation.id,
+        user.uid,
+        currentUserName,
+        { name: trimmedName }
+      );
+      setIsEditingName(false);
+    } catch (error) {
+      console.error("Error renaming group:", error);
+      Alert.alert("Error", "Failed to rename group. Please try again.");
+    } finally {
+      setUpdatingGroup(false);
+    }
+  };
+
+  const handleChangeGroupPhoto = async () => {
+    try {
+      const permissionResult =
+        await ImagePicker.requestMediaLibraryPermissionsAsync();
+
+      if (permissionResult.granted === false) {
+        Alert.alert(
+          "Permission required",
+          "Permission to access camera roll is required!"
+        );
+        return;
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        allowsEditing: true,
+        aspect: [1, 1],
+        quality: 0.8,
+      });
+
+      if (result.canceled) return;
+
+      setUpdatingGroup(true);
+      const asset = result.assets[0];
+      const uploaded = await chatTransport.startMediaUpload(
+        asset.uri,
+        selectedConversation.id,
+        user.uid,
+        asset.mimeType
+      ).promise;
+      await chatTransport.updateGroupDetails(
+        selectedConversation.id,
+        user.uid,
+        currentUserName,
+        { avatarUrl: uploaded.url }
+      );
+    } catch (error) {
+      console.error("Error changing group photo:", error);
+      Alert.alert("Error", "Failed to update group photo. Please try again.");
+    } finally {
+      setUpdatingGroup(false);
+    }
+  };
+
+  const handleAddMembers = () => {
+    navigation.navigate("SearchUsers", { mode: "addMembers" });
+  };
+
+  const handleMemberPress = (memberId: string) => {
+    const member = selectedConversation.participantDetails[memberId];
+    const memberName = member?.displayName || "this member";
+    const memberIsAdmin = isConversationAdmin(selectedConversation, memberId);
+    const adminCount = selectedConversation.admins?.length || 0;
+
+    const options: any[] = [
+      {
+        text: "View Profile",
+        onPress: () => navigation.navigate("Profile", { userId: memberId }),
+      },
+    ];
+
+    if (isAdmin && memberId !== user.uid) {
+      if (!memberIsAdmin || adminCount > 1) {
+        options.push({
+          text: memberIsAdmin ? "Remove as Admin" : "Make Admin",
+          onPress: async () => {
+            try {
+              await chatTransport.setGroupAdmin(
+                selectedConversation.id,
+                memberId,
+                !memberIsAdmin
+              );
+            } catch (error) {
+              console.error("Error updating admin:", error);
+              Alert.alert("Error", "Failed to update admin rights.");
+            }
+          },
+        });
+      }
+      options.push({
+        text: "Remove from Group",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await chatTransport.removeGroupMember(
+              selectedConversation.id,
+              user.uid,
+              currentUserName,
+              memberId,
+              memberName
+            );
+          } catch (error) {
+            console.error("Error removing member:", error);
+            Alert.alert("Error", "Failed to remove member. Please try again.");
+          }
+        },
+      });
+    }
+
+    options.push({ text: "Cancel", style: "cancel" });
+    Alert.alert(memberName, undefined, options);
+  };
+
+  const handleLeaveGroup = () => {
+    Alert.alert(
+      "Leave Group",
+      "You will no longer receive messages from this group.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Leave",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await chatTransport.leaveGroup(
+                selectedConversation.id,
+                user.uid,
+                currentUserName
+              );
+              await selectConversation(null);
+              navigation.navigate("ConversationList");
+            } catch (error) {
+              console.error("Error leaving group:", error);
+              Alert.alert("Error", "Failed to leave group. Please try again.");
+            }
+          },
+        },
+      ]
+    );
+  };
 
   const handleBlockUser = () => {
     Alert.alert(
@@ -62,31 +247,49 @@ export const ConversationInfoScreen: React.FC<ConversationInfoScreenProps> = ({
         {
           text: "Block",
           style: "destructive",
-          onPress: () => {
-            Alert.alert(
-              "Feature Coming Soon",
-              "Block user feature will be available soon."
-            );
+          onPress: async () => {
+            if (!otherParticipantId) return;
+            try {
+              await blockUser(otherParticipantId);
+              // The conversation is hidden while the user is blocked
+              await selectConversation(null);
+              navigation.navigate("ConversationList");
+            } catch (error) {
+              console.error("Error blocking user:", error);
+              Alert.alert("Error", "Failed to block user. Please try again.");
+            }
           },
         },
       ]
     );
   };
 
-  const handleReportUser = () => {
-    Alert.alert("Report User", `Report ${otherParticipant?.displayName}?`, [
-      { text: "Cancel", style: "cancel" },
-      {
-        text: "Report",
-        style: "destructive",
-        onPress: () => {
-          Alert.alert(
-            "Feature Coming Soon",
-            "Report user feature will be available soon."
-          );
-        },
+  const handleUnblockUser = async () => {
+    if (!otherParticipantId) return;
+    try {
+      await unblockUser(otherParticipantId);
+    } catch (error) {
+      console.error("Error unblocking user:", error);
+      Alert.alert("Error", "Failed to unblock user. Please try again.");
+    }
+  };
+
+  const handleReportUser = async () => {
+    if (!otherParticipantId) return;
+
+    // Snapshot the current profile - the bio isn't on the conversation
+    const profile = await getUserProfile(otherParticipantId).catch(() => null);
+    const avatarUrl = profile?.avatarUrl || otherParticipant?.avatarUrl;
+    setReportTarget({
+      targetType: "user",
+      targetId: otherParticipantId,
+      targetOwnerId: otherParticipantId,
+      snapshot: {
+        text: profile?.bio || "",
+        imageUrls: avatarUrl ? [avatarUrl] : [],
+        authorName: profile?.username || otherParticipant?.username || "",
       },
-    ]);
+    });
   };
 
   const handleViewProfile = () => {
@@ -100,7 +303,7 @@ export const ConversationInfoScreen: React.FC<ConversationInfoScreenProps> = ({
   const handleClearChat = async () => {
     Alert.alert(
       "Clear Chat History",
-      "This will delete all messages in this conversation. This action cannot be undone.",
+      "This will remove all messages in this conversation for you. This action cannot be undone.",
       [
         { text: "Cancel", style: "cancel" },
         {
@@ -108,7 +311,10 @@ export const ConversationInfoScreen: React.FC<ConversationInfoScreenProps> = ({
           style: "destructive",
           onPress: async () => {
             try {
-              await clearConversationMessages(selectedConversation.id);
+              await chatTransport.clearConversation(
+                selectedConversation.id,
+                user.uid
+              );
               Alert.alert("Success", "Chat history has been cleared.");
             } catch (error) {
               console.error("Error clearing chat:", error);
@@ -134,7 +340,10 @@ export const ConversationInfoScreen: React.FC<ConversationInfoScreenProps> = ({
           style: "destructive",
           onPress: async () => {
             try {
-              await deleteConversation(selectedConversation.id, user.uid);
+              await chatTransport.deleteConversation(
+                selectedConversation.id,
+                user.uid
+              );
               Alert.alert("Success", "Conversation has been deleted.", [
                 {
                   text: "OK",
@@ -173,34 +382,165 @@ export const ConversationInfoScreen: React.FC<ConversationInfoScreenProps> = ({
       </View>
 
       <ScrollView style={styles.content}>
-        {/* User Profile Section */}
-        <View style={styles.profileSection}>
-          <Image
-            source={
-              otherParticipant?.avatarUrl
-                ? {
+        {/* Group Profile Section */}
+        {isGroup ? (
+          <View style={styles.profileSection}>
+            <TouchableOpacity
+              onPress={handleChangeGroupPhoto}
+              disabled={
+                !isAdmin ||
+                updatingGroup ||
+                !chatTransport.capabilities.attachments
+              }
+            >
+              {selectedConversation.avatarUrl ? (
+                <Image
+                  source={{
                     uri: getOptimizedImageUrl(
-                      otherParticipant.avatarUrl,
+                      selectedConversation.avatarUrl,
                       "medium"
                     ),
-                  }
-                : require("../../assets/placeholderImg.jpg")
-            }
-            style={styles.profileImage}
-          />
-          <Text style={styles.displayName}>
-            {otherParticipant?.displayName || "Unknown"}
-          </Text>
-          <Text style={styles.username}>@{otherParticipant?.username}</Text>
-          {/* Online status removed */}
+                  }}
+                  style={styles.profileImage}
+                />
+              ) : (
+                <View style={[styles.profileImage, styles.groupImage]}>
+                  <Ionicons name="people" size={56} color="#FF6B6B" />
+                </View>
+              )}
+              {updatingGroup && (
+                <View style={[styles.profileImage, styles.imageOverlay]}>
+                  <ActivityIndicator color="#fff" />
+                </View>
+              )}
+            </TouchableOpacity>
 
-          <TouchableOpacity
-            style={styles.viewProfileButton}
-            onPress={handleViewProfile}
-          >
-            <Text style={styles.viewProfileText}>View Profile</Text>
-          </TouchableOpacity>
-        </View>
+            {isEditingName ? (
+              <View style={styles.nameEditRow}>
+                <TextInput
+                  style={styles.nameInput}
+                  value={groupNameDraft}
+                  onChangeText={setGroupNameDraft}
+                  maxLength={50}
+                  autoFocus
+                  onSubmitEditing={handleSaveGroupName}
+                />
+                <TouchableOpacity onPress={handleSaveGroupName}>
+                  <Ionicons name="checkmark" size={24} color="#FF6B6B" />
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <TouchableOpacity
+                style={styles.nameRow}
+                onPress={handleStartRename}
+                disabled={!isAdmin}
+              >
+                <Text style={styles.displayName}>
+                  {getConversationTitle(selectedConversation, user.uid)}
+                </Text>
+                {isAdmin && (
+                  <Ionicons
+                    name="pencil"
+                    size={16}
+                    color="#999"
+                    style={styles.nameEditIcon}
+                  />
+                )}
+              </TouchableOpacity>
+            )}
+            <Text style={styles.username}>
+              {selectedConversation.participants.length} members
+            </Text>
+          </View>
+        ) : (
+          <View style={styles.profileSection}>
+            <Image
+              source={
+                otherParticipant?.avatarUrl
+                  ? {
+                      uri: getOptimizedImageUrl(
+                        otherParticipant.avatarUrl,
+                        "medium"
+                      ),
+                    }
+                  : require("../../assets/placeholderImg.jpg")
+              }
+              style={styles.profileImage}
+            />
+            <Text style={styles.displayName}>
+              {otherParticipant?.displayName || "Unknown"}
+            </Text>
+            <Text style={styles.username}>@{otherParticipant?.username}</Text>
+            {/* Online status removed */}
+
+            <TouchableOpacity
+              style={styles.viewProfileButton}
+              onPress={handleViewProfile}
+            >
+              <Text style={styles.viewProfileText}>View Profile</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {/* Members Section */}
+        {isGroup && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Members</Text>
+            </View>
+
+            {isAdmin && (
+              <TouchableOpacity
+                style={styles.actionItem}
+                onPress={handleAddMembers}
+              >
+                <Ionicons name="person-add" size={22} color="#FF6B6B" />
+                <Text style={styles.actionText}>Add Members</Text>
+                <Ionicons name="chevron-forward" size={20} color="#ccc" />
+              </TouchableOpacity>
+            )}
+
+            {selectedConversation.participants.map((memberId) => {
+              const member = selectedConversation.participantDetails[memberId];
+              return (
+                <TouchableOpacity
+                  key={memberId}
+                  style={styles.memberItem}
+                  onPress={() => handleMemberPress(memberId)}
+                >
+                  <Image
+                    source={
+                      member?.avatarUrl
+                        ? {
+                            uri: getOptimizedImageUrl(
+                              member.avatarUrl,
+                              "thumbnail"
+                            ),
+                          }
+                        : require("../../assets/placeholderImg.jpg")
+                    }
+                    style={styles.memberAvatar}
+                  />
+                  <View style={styles.memberInfo}>
+                    <Text style={styles.memberName}>
+                      {memberId === user.uid
+                        ? "You"
+                        : member?.displayName || "Unknown"}
+                    </Text>
+                    {member?.username && (
+                      <Text style={styles.memberUsername}>
+                        @{member.username}
+                      </Text>
+                    )}
+                  </View>
+                  {isConversationAdmin(selectedConversation, memberId) && (
+                    <Text style={styles.adminBadge}>Admin</Text>
+                  )}
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
 
         {/* Actions Section */}
         <View style={styles.section}>
@@ -259,24 +599,48 @@ export const ConversationInfoScreen: React.FC<ConversationInfoScreenProps> = ({
             <Ionicons name="chevron-forward" size={20} color="#ccc" />
           </TouchableOpacity>
 
-          <TouchableOpacity style={styles.actionItem} onPress={handleBlockUser}>
-            <Ionicons name="ban" size={22} color="#FF6B6B" />
-            <Text style={[styles.actionText, styles.dangerText]}>
-              Block User
-            </Text>
-            <Ionicons name="chevron-forward" size={20} color="#ccc" />
-          </TouchableOpacity>
+          {isGroup ? (
+            <TouchableOpacity
+              style={styles.actionItem}
+              onPress={handleLeaveGroup}
+            >
+              <Ionicons name="exit-outline" size={22} color="#FF6B6B" />
+              <Text style={[styles.actionText, styles.dangerText]}>
+                Leave Group
+              </Text>
+              <Ionicons name="chevron-forward" size={20} color="#ccc" />
+            </TouchableOpacity>
+          ) : (
+            <>
+              <TouchableOpacity
+                style={styles.actionItem}
+                onPress={
+                  isBlocked(otherParticipantId)
+                    ? handleUnblockUser
+                    : handleBlockUser
+                }
+              >
+                <Ionicons name="ban" size={22} color="#FF6B6B" />
+                <Text style={[styles.actionText, styles.dangerText]}>
+                  {isBlocked(otherParticipantId)
+                    ? "Unblock User"
+                    : "Block User"}
+                </Text>
+                <Ionicons name="chevron-forward" size={20} color="#ccc" />
+              </TouchableOpacity>
 
-          <TouchableOpacity
-            style={styles.actionItem}
-            onPress={handleReportUser}
-          >
-            <Ionicons name="flag" size={22} color="#FF6B6B" />
-            <Text style={[styles.actionText, styles.dangerText]}>
-              Report User
-            </Text>
-            <Ionicons name="chevron-forward" size={20} color="#ccc" />
-          </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.actionItem}
+                onPress={handleReportUser}
+              >
+                <Ionicons name="flag" size={22} color="#FF6B6B" />
+                <Text style={[styles.actionText, styles.dangerText]}>
+                  Report User
+                </Text>
+                <Ionicons name="chevron-forward" size={20} color="#ccc" />
+              </TouchableOpacity>
+            </>
+          )}
 
           <TouchableOpacity
             style={[styles.actionItem, styles.lastActionItem]}
@@ -309,6 +673,11 @@ export const ConversationInfoScreen: React.FC<ConversationInfoScreenProps> = ({
           </View>
         </View>
       </ScrollView>
+
+      <ReportModal
+        target={reportTarget}
+        onClose={() => setReportTarget(null)}
+      />
     </SafeAreaView>
   );
 };
@@ -384,6 +753,73 @@ const styles = StyleSheet.create({
     color: "#666",
     marginBottom: 16,
   },
+  groupImage: {
+    backgroundColor: "#f0f0f0",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  imageOverlay: {
+    position: "absolute",
+    top: 0,
+    left: 0,
+    backgroundColor: "rgba(0, 0, 0, 0.4)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  nameRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  nameEditIcon: {
+    marginLeft: 8,
+    marginBottom: 4,
+  },
+  nameEditRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8,
+    gap: 8,
+  },
+  nameInput: {
+    minWidth: 180,
+    fontSize: 20,
+    fontWeight: "600",
+    color: "#000",
+    borderBottomWidth: 1,
+    borderBottomColor: "#FF6B6B",
+    paddingVertical: 4,
+  },
+  memberItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: 0.5,
+    borderBottomColor: "#f0f0f0",
+  },
+  memberAvatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    marginRight: 12,
+  },
+  memberInfo: {
+    flex: 1,
+  },
+  memberName: {
+    fontSize: 16,
+    color: "#000",
+    fontWeight: "500",
+  },
+  memberUsername: {
+    fontSize: 13,
+    color: "#666",
+  },
+  adminBadge: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#FF6B6B",
+  },
   viewProfileButton: {
     backgroundColor: "#FF6B6B",
     paddingHorizontal: 32,
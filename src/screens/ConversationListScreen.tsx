@@ -15,7 +15,15 @@ import { Ionicons } from "@expo/vector-icons";
 import { useChat } from "../contexts/ChatContext";
 import { useAuth } from "../contexts/AuthContext";
 import { useTheme } from "../contexts/ThemeContext";
-import { formatMessageTime, getMessagePreview } from "../services/chatUtils";
+import { ConnectionBanner } from "../components/ConnectionBanner";
+import {
+  formatMessageTime,
+  getMessagePreview,
+  getConversationTitle,
+  getConversationAvatar,
+  isGroupConversation,
+  getUnreadCount,
+} from "../services/chatUtils";
 import { getUserProfile } from "../services/userService";
 
 interface ConversationListScreenProps {
@@ -60,7 +68,8 @@ export const ConversationListScreen: React.FC<ConversationListScreenProps> = ({
       const enhanced = await Promise.all(
         conversations.map(async (conv) => {
           // If participantDetails already exists, use it
-          if (conv.participantDetails) {
+          // (group conversations are always created with them)
+          if (conv.participantDetails || isGroupConversation(conv)) {
             // Conversation has participant details
             return conv;
           }
@@ -132,6 +141,10 @@ export const ConversationListScreen: React.FC<ConversationListScreenProps> = ({
     navigation.navigate("SearchUsers");
   }, [navigation]);
 
+  const handleSearchMessages = useCallback(() => {
+    navigation.navigate("MessageSearch");
+  }, [navigation]);
+
   const handleRefresh = useCallback(async () => {
     setRefreshing(true);
     // Manual refresh triggered
@@ -144,12 +157,20 @@ export const ConversationListScreen: React.FC<ConversationListScreenProps> = ({
   }, [refreshConversations, conversations.length]);
 
   const renderConversationItem = ({ item: conversation }: any) => {
-    const otherParticipant = conversation.participantDetails
-      ? (Object.values(conversation.participantDetails)[0] as any)
-      : null;
+    const isGroup = isGroupConversation(conversation);
+    const title = getConversationTitle(conversation, user?.uid || "");
+    const avatarUrl = getConversationAvatar(conversation, user?.uid || "");
 
-    const hasUnread = conversation.unreadCount > 0;
-    const messagePreview = getMessagePreview(conversation.lastMessage);
+    const unreadCount = getUnreadCount(conversation, user?.uid || "");
+    const hasUnread = unreadCount > 0;
+    const lastMessage = conversation.lastMessage;
+    const showSenderPrefix =
+      isGroup && lastMessage && lastMessage.type !== "system";
+    const messagePreview = showSenderPrefix
+      ? `${
+          lastMessage.senderId === user?.uid ? "You" : lastMessage.senderName
+        }: ${getMessagePreview(lastMessage)}`
+      : getMessagePreview(lastMessage);
 
     return (
       <TouchableOpacity
@@ -165,14 +186,26 @@ export const ConversationListScreen: React.FC<ConversationListScreenProps> = ({
         activeOpacity={0.7}
       >
         <View style={styles.avatarContainer}>
-          <Image
-            source={
-              otherParticipant?.avatarUrl
-                ? { uri: otherParticipant.avatarUrl }
-                : require("../../assets/placeholderImg.jpg")
-            }
-            style={styles.avatar}
-          />
+          {isGroup && !avatarUrl ? (
+            <View
+              style={[
+                styles.avatar,
+                styles.groupAvatar,
+                { backgroundColor: colors.bgSecondary },
+              ]}
+            >
+              <Ionicons name="people" size={28} color="#FF6B6B" />
+            </View>
+          ) : (
+            <Image
+              source={
+                avatarUrl
+                  ? { uri: avatarUrl }
+                  : require("../../assets/placeholderImg.jpg")
+              }
+              style={styles.avatar}
+            />
+          )}
           {/* Online indicator removed */}
         </View>
 
@@ -186,7 +219,7 @@ export const ConversationListScreen: React.FC<ConversationListScreenProps> = ({
               ]}
               numberOfLines={1}
             >
-              {otherParticipant?.displayName || "Unknown"}
+              {title}
             </Text>
             <Text style={[styles.timestamp, { color: colors.textSecondary }]}>
               {formatMessageTime(conversation.lastMessageTimestamp)}
@@ -211,7 +244,7 @@ export const ConversationListScreen: React.FC<ConversationListScreenProps> = ({
         {hasUnread && (
           <View style={styles.unreadBadge}>
             <Text style={styles.unreadBadgeText}>
-              {conversation.unreadCount > 99 ? "99+" : conversation.unreadCount}
+              {unreadCount > 99 ? "99+" : unreadCount}
             </Text>
           </View>
         )}
@@ -263,17 +296,30 @@ export const ConversationListScreen: React.FC<ConversationListScreenProps> = ({
             <Text style={styles.headerSubtitle}>{totalUnreadCount} unread</Text>
           )}
         </View>
-        <TouchableOpacity
-          style={[
-            styles.newChatButton,
-            { backgroundColor: colors.bgSecondary },
-          ]}
-          onPress={handleNewChat}
-        >
-          <Ionicons name="create" size={24} color="#FF6B6B" />
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            style={[
+              styles.newChatButton,
+              { backgroundColor: colors.bgSecondary },
+            ]}
+            onPress={handleSearchMessages}
+          >
+            <Ionicons name="search" size={22} color="#FF6B6B" />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.newChatButton,
+              { backgroundColor: colors.bgSecondary },
+            ]}
+            onPress={handleNewChat}
+          >
+            <Ionicons name="create" size={24} color="#FF6B6B" />
+          </TouchableOpacity>
+        </View>
       </View>
 
+      <ConnectionBanner />
+
       {/* Conversations List */}
       {conversationsLoading || isEnhancing ? (
         <View
@@ -357,6 +403,10 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     marginTop: 2,
   },
+  headerActions: {
+    flexDirection: "row",
+    gap: 8,
+  },
   newChatButton: {
     width: 44,
     height: 44,
@@ -395,6 +445,10 @@ const styles = StyleSheet.create({
     height: 56,
     borderRadius: 28,
   },
+  groupAvatar: {
+    justifyContent: "center",
+    alignItems: "center",
+  },
   onlineIndicator: {
     position: "absolute",
     bottom: 0,
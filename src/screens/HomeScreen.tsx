@@ -11,6 +11,7 @@ import {
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useAuth } from "../contexts/AuthContext";
 import { useTheme } from "../contexts/ThemeContext";
+import { useBlocks } from "../contexts/BlockContext";
 import Post from "../components/Post";
 import ScreenHeader from "../components/ScreenHeader";
 import { prefetchImages } from "../services/imageOptimization";
@@ -32,6 +33,7 @@ type Props = any;
 const HomeScreen: React.FC<Props> = ({ navigation }) => {
   const { user, logout } = useAuth();
   const { colors } = useTheme();
+  const { isBlocked } = useBlocks();
   const [posts, setPosts] = useState<any[]>([]);
   const [loadingPosts, setLoadingPosts] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -134,6 +136,11 @@ const HomeScreen: React.FC<Props> = ({ navigation }) => {
     }
   };
 
+  // Hide posts from blocked users and posts removed by moderators
+  const visiblePosts = posts.filter(
+    (post) => !isBlocked(post.userId) && !post.hiddenAt
+  );
+
   if (!user || !userDoc) {
     return (
       <View style={styles.container}>
@@ -142,7 +149,7 @@ const HomeScreen: React.FC<Props> = ({ navigation }) => {
     );
   }
 
-  if (posts.length === 0) {
+  if (visiblePosts.length === 0) {
     return (
       <View style={styles.container}>
         <Text>No posts yet. Be the first to add one!</Text>
@@ -162,7 +169,7 @@ const HomeScreen: React.FC<Props> = ({ navigation }) => {
       />
       <FlatList
         ref={flatListRef}
-        data={posts}
+        data={visiblePosts}
         keyExtractor={(item) => item.id}
         renderItem={({ item }) => (
           <Post
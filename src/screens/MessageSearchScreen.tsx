@@ -0,0 +1,363 @@
+import React, { useState, useEffect, useMemo, useRef } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  FlatList,
+  TouchableOpacity,
+  Image,
+  ActivityIndicator,
+  SafeAreaView,
+  StatusBar,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useNavigation } from "@react-navigation/native";
+import { useAuth } from "../contexts/AuthContext";
+import { useChat } from "../contexts/ChatContext";
+import { useTheme } from "../contexts/ThemeContext";
+import {
+  searchMessages,
+  syncSearchIndex,
+  MessageSearchResult,
+} from "../services/messageSearchService";
+import {
+  formatMessageTime,
+  getClearedAt,
+  getConversationTitle,
+  getConversationAvatar,
+  isGroupConversation,
+} from "../services/chatUtils";
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+/**
+ * Search message text across all of the user's conversations
+ * Runs against the on-device index, so it also works offline
+ */
+const MessageSearchScreen: React.FC = () => {
+  const { user } = useAuth();
+  const { colors, isDark } = useTheme();
+  const navigation = useNavigation<any>();
+  const { conversations, selectConversation } = useChat();
+
+  const [searchQuery, setSearchQuery] = useState("");
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+  const [syncVersion, setSyncVersion] = useState(0);
+
+  const conversationsRef = useRef(conversations);
+  conversationsRef.current = conversations;
+
+  // Changes only when a conversation gets a new message, not on every
+  // snapshot of the list
+  const lastMessageKey = useMemo(
+    () =>
+      conversations
+        .map((conv) => `${conv.id}:${conv.lastMessageTimestamp}`)
+        .join(","),
+    [conversations]
+  );
+
+  // Catch the index up with conversations that got new messages
+  useEffect(() => {
+    if (!user) return;
+
+    let isSubscribed = true;
+    setSyncing(true);
+    syncSearchIndex(user.uid, conversationsRef.current).finally(() => {
+      if (!isSubscribed) return;
+      setSyncing(false);
+      setSyncVersion((prev) => prev + 1);
+    });
+
+    return () => {
+      isSubscribed = false;
+    };
+  }, [user?.uid, lastMessageKey]);
+
+  useEffect(() => {
+    if (!user || !searchQuery.trim()) {
+      setResults([]);
+      setLoading(false);
+      return;
+    }
+
+    let isSubscribed = true;
+    setLoading(true);
+    const timeout = setTimeout(async () => {
+      try {
+        const found = await searchMessages(user.uid, searchQuery);
+        if (isSubscribed) {
+          // Only show conversations the user is still part of, and leave
+          // out messages from before they cleared the chat
+          const conversationsById = new Map(
+            conversations.map((c) => [c.id, c])
+          );
+          setResults(
+            found.filter((r) => {
+              const conversation = conversationsById.get(
+                r.message.conversationId
+              );
+              return (
+                !!conversation &&
+                r.message.timestamp > getClearedAt(conversation, user.uid)
+              );
+            })
+          );
+        }
+      } catch (error) {
+        console.error("Error searching messages:", error);
+      } finally {
+        if (isSubscribed) setLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      isSubscribed = false;
+      clearTimeout(timeout);
+    };
+  }, [searchQuery, user?.uid, conversations, syncVersion]);
+
+  const handleSelectResult = async (result: MessageSearchResult) => {
+    const conversation = conversations.find(
+      (c) => c.id === result.message.conversationId
+    );
+    if (!conversation) return;
+
+    await selectConversation(conversation);
+    navigation.navigate("ChatDetail", {
+      conversationId: conversation.id,
+      messageId: result.message.id,
+    });
+  };
+
+  const renderResult = ({ item }: { item: MessageSearchResult }) => {
+    const conversation = conversations.find(
+      (c) => c.id === item.message.conversationId
+    );
+    if (!conversation || !user) return null;
+
+    const avatarUrl = getConversationAvatar(conversation, user.uid);
+    const senderName =
+      item.message.senderId === user.uid ? "You" : item.message.senderName;
+
+    return (
+      <TouchableOpacity
+        style={[styles.resultItem, { borderBottomColor: colors.borderLight }]}
+        onPress={() => handleSelectResult(item)}
+      >
+        {isGroupConversation(conversation) && !avatarUrl ? (
+          <View
+            style={[
+              styles.avatar,
+              styles.groupAvatar,
+              { backgroundColor: colors.bgSecondary },
+            ]}
+          >
+            <Ionicons name="people" size={22} color="#FF6B6B" />
+          </View>
+        ) : (
+          <Image
+            source={
+              avatarUrl
+                ? { uri: avatarUrl }
+                : require("../../assets/placeholderImg.jpg")
+            }
+            style={styles.avatar}
+          />
+        )}
+
+        <View style={styles.resultContent}>
+          <View style={styles.resultHeader}>
+            <Text
+              style={[styles.conversationName, { color: colors.textPrimary }]}
+              numberOfLines={1}
+            >
+              {getConversationTitle(conversation, user.uid)}
+            </Text>
+            <Text style={[styles.timestamp, { color: colors.textMuted }]}>
+              {formatMessageTime(item.message.timestamp)}
+            </Text>
+          </View>
+          <Text
+            style={[styles.snippet, { color: colors.textSecondary }]}
+            numberOfLines={2}
+          >
+            <Text style={styles.senderName}>{senderName}: </Text>
+            {item.snippet.before}
+            <Text style={styles.highlight}>{item.snippet.match}</Text>
+            {item.snippet.after}
+          </Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEmptyState = () => {
+    if (!searchQuery.trim()) {
+      return (
+        <View style={styles.emptyContainer}>
+          <Ionicons name="search" size={48} color={colors.textMuted} />
+          <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+            Search your messages
+          </Text>
+        </View>
+      );
+    }
+
+    if (loading) return null;
+
+    return (
+      <View style={styles.emptyContainer}>
+        <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+          No messages found for "{searchQuery.trim()}"
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: colors.bgPrimary }]}
+    >
+      <StatusBar
+        barStyle={isDark ? "light-content" : "dark-content"}
+        backgroundColor={colors.bgPrimary}
+      />
+
+      {/* Header with search input */}
+      <View style={[styles.header, { borderBottomColor: colors.borderColor }]}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.backButton}
+        >
+          <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+        <TextInput
+          style={[
+            styles.searchInput,
+            {
+              color: colors.textPrimary,
+              backgroundColor: colors.bgSecondary,
+            },
+          ]}
+          placeholder="Search messages"
+          placeholderTextColor={colors.textMuted}
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+          autoFocus
+          autoCapitalize="none"
+          autoCorrect={false}
+          returnKeyType="search"
+        />
+        {(loading || syncing) && (
+          <ActivityIndicator
+            style={styles.headerSpinner}
+            size="small"
+            color="#FF6B6B"
+          />
+        )}
+      </View>
+
+      <FlatList
+        data={results}
+        renderItem={renderResult}
+        keyExtractor={(item) => item.message.id}
+        keyboardShouldPersistTaps="handled"
+        ListEmptyComponent={renderEmptyState}
+        contentContainerStyle={results.length === 0 && styles.emptyList}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 0.5,
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 8,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+  },
+  headerSpinner: {
+    marginLeft: 12,
+  },
+  resultItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 0.5,
+  },
+  avatar: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    marginRight: 12,
+  },
+  groupAvatar: {
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  resultContent: {
+    flex: 1,
+  },
+  resultHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 4,
+  },
+  conversationName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: "600",
+    marginRight: 8,
+  },
+  timestamp: {
+    fontSize: 12,
+  },
+  snippet: {
+    fontSize: 14,
+    lineHeight: 19,
+  },
+  senderName: {
+    fontWeight: "600",
+  },
+  highlight: {
+    color: "#FF6B6B",
+    fontWeight: "700",
+  },
+  emptyList: {
+    flexGrow: 1,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: 32,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 15,
+    textAlign: "center",
+  },
+});
+
+export default MessageSearchScreen;
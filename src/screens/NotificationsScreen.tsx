@@ -15,37 +15,23 @@ import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { RootStackParamList } from "../navigation/AppNavigator";
 import { useAuth } from "../contexts/AuthContext";
 import { useTheme } from "../contexts/ThemeContext";
+import { useBlocks } from "../contexts/BlockContext";
 import ScreenHeader from "../components/ScreenHeader";
 import { getOptimizedImageUrl } from "../services/imageOptimization";
 import {
-  collection,
-  query,
-  where,
-  orderBy,
-  limit,
-  startAfter,
-  getDocs,
-  onSnapshot,
-  updateDoc,
-  doc,
-} from "firebase/firestore";
-import { db } from "../config/firebase";
+  subscribeToRecentNotifications,
+  getNotificationsPage,
+  markNotificationsRead,
+  NotificationCursor,
+  NotificationPage,
+} from "../services/notificationRepository";
+import { getUserProfile } from "../services/userService";
+import { Notification } from "../@types/social";
 import PostPreview from "../components/PostPreview";
 
 const { width } = Dimensions.get("window");
 const PAGE_SIZE = 20;
 
-interface Notification {
-  id: string;
-  userId: string;
-  fromUserId: string;
-  type: "follow" | "like" | "comment" | "commentLike";
-  postId?: string;
-  commentId?: string;
-  createdAt: any;
-  read: boolean;
-}
-
 interface UserData {
   uid: string;
   username: string;
@@ -55,79 +41,66 @@ interface UserData {
 const NotificationsScreen: React.FC = () => {
   const { user } = useAuth();
   const { colors } = useTheme();
+  const { isBlocked } = useBlocks();
   const navigation =
     useNavigation<NativeStackNavigationProp<RootStackParamList>>();
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
   const [initialLoading, setInitialLoading] = useState<boolean>(true);
   const [hasMore, setHasMore] = useState<boolean>(true);
-  const lastDocRef = useRef<any>(null);
+  const lastDocRef = useRef<NotificationCursor | null>(null);
   const [usersMap, setUsersMap] = useState<Record<string, UserData>>({});
   const unsubscribeRef = useRef<() => void | null>(null);
   const [refreshing, setRefreshing] = useState(false);
 
+  // Fetch senders we haven't loaded yet
+  const loadMissingUsers = async (list: Notification[]) => {
+    const userIds = [...new Set(list.map((n) => n.fromUserId).filter(Boolean))];
+    const missing = userIds.filter((id) => id && !usersMap[id]);
+    if (missing.length === 0) return;
+
+    const results = await Promise.all(
+      missing.map((uid) => getUserProfile(uid).catch(() => null))
+    );
+    const newMap = { ...usersMap };
+    results.forEach((profile, i) => {
+      if (profile) {
+        newMap[missing[i]] = {
+          uid: profile.uid,
+          username: profile.username,
+          avatarUrl: profile.avatarUrl,
+        };
+      }
+    });
+    setUsersMap(newMap);
+  };
+
   // Subscribe to recent notifications (real-time) and keep lastDoc for pagination
   useEffect(() => {
     if (!user) return;
 
     setInitialLoading(true);
 
-    const q = query(
-      collection(db, "notifications"),
-      where("userId", "==", user.uid),
-      orderBy("createdAt", "desc"),
-      limit(PAGE_SIZE)
-    );
-
-    const unsub = onSnapshot(
-      q,
-      async (snap) => {
-        const docs = snap.docs.map((d) => ({
-          id: d.id,
-          ...(d.data() as any),
-        })) as Notification[];
+    const unsub = subscribeToRecentNotifications(
+      user.uid,
+      PAGE_SIZE,
+      async (page: NotificationPage) => {
         // update lastDoc for pagination
-        lastDocRef.current = snap.docs[snap.docs.length - 1] || null;
-
-        // fetch any missing user data
-        const userIds = [
-          ...new Set(docs.map((n) => n.fromUserId).filter(Boolean)),
-        ];
-        const missing = userIds.filter((id) => id && !usersMap[id]);
-        if (missing.length > 0) {
-          const promises = missing.map(async (uid) => {
-            const res = await getDocs(
-              query(collection(db, "users"), where("uid", "==", uid))
-            );
-            if (!res.empty)
-              return { uid, data: res.docs[0].data() as UserData };
-            return null;
-          });
-          const results = await Promise.all(promises);
-          const newMap = { ...usersMap };
-          results.forEach((r) => {
-            if (r) newMap[r.uid] = r.data;
-          });
-          setUsersMap(newMap);
-        }
+        lastDocRef.current = page.cursor;
 
-        setNotifications(docs);
-        setHasMore(snap.docs.length === PAGE_SIZE);
+        await loadMissingUsers(page.notifications);
+
+        setNotifications(page.notifications);
+        setHasMore(page.hasMore);
         setInitialLoading(false);
 
         // Mark all unread notifications as read when opening the screen
-        const unreadNotifications = docs.filter((n) => !n.read);
-        if (unreadNotifications.length > 0) {
-          const markReadPromises = unreadNotifications.map((n) =>
-            updateDoc(doc(db, "notifications", n.id), { read: true })
-          );
-          await Promise.all(markReadPromises);
-        }
+        const unreadIds = page.notifications
+          .filter((n) => !n.read)
+          .map((n) => n.id);
+        await markNotificationsRead(unreadIds);
       },
-      (err) => {
-        console.error("Notifications onSnapshot error:", err);
-        setInitialLoading(false);
-      }
+      () => setInitialLoading(false)
     );
 
     unsubscribeRef.current = unsub;
@@ -145,45 +118,17 @@ const NotificationsScreen: React.FC = () => {
 
     setLoading(true);
     try {
-      let q = query(
-        collection(db, "notifications"),
-        where("userId", "==", user.uid),
-        orderBy("createdAt", "desc"),
-        startAfter(lastDocRef.current),
-        limit(PAGE_SIZE)
+      const page = await getNotificationsPage(
+        user.uid,
+        PAGE_SIZE,
+        lastDocRef.current
       );
 
-      const snap = await getDocs(q);
-      const list = snap.docs.map((d) => ({
-        id: d.id,
-        ...(d.data() as any),
-      })) as Notification[];
-
-      // fetch user data for any missing fromUserId
-      const userIds = [
-        ...new Set(list.map((n) => n.fromUserId).filter(Boolean)),
-      ];
-      const missing = userIds.filter((id) => id && !usersMap[id]);
-      if (missing.length > 0) {
-        const promises = missing.map(async (uid) => {
-          const res = await getDocs(
-            query(collection(db, "users"), where("uid", "==", uid))
-          );
-          if (!res.empty) return { uid, data: res.docs[0].data() as UserData };
-          return null;
-        });
-        const results = await Promise.all(promises);
-        const newMap = { ...usersMap };
-        results.forEach((r) => {
-          if (r) newMap[r.uid] = r.data;
-        });
-        setUsersMap(newMap);
-      }
+      await loadMissingUsers(page.notifications);
 
-      setNotifications((prev) => [...prev, ...list]);
-      lastDocRef.current =
-        snap.docs[snap.docs.length - 1] || lastDocRef.current;
-      setHasMore(snap.docs.length === PAGE_SIZE);
+      setNotifications((prev) => [...prev, ...page.notifications]);
+      lastDocRef.current = page.cursor || lastDocRef.current;
+      setHasMore(page.hasMore);
     } catch (err) {
       console.error("Error loading more notifications:", err);
     } finally {
@@ -193,7 +138,7 @@ const NotificationsScreen: React.FC = () => {
 
   const markAsRead = async (notificationId: string) => {
     try {
-      await updateDoc(doc(db, "notifications", notificationId), { read: true });
+      await markNotificationsRead([notificationId]);
     } catch (err) {
       console.error("Error marking notification as read:", err);
     }
@@ -203,44 +148,15 @@ const NotificationsScreen: React.FC = () => {
     if (!user) return;
     setRefreshing(true);
     try {
-      const q = query(
-        collection(db, "notifications"),
-        where("userId", "==", user.uid),
-        orderBy("createdAt", "desc"),
-        limit(PAGE_SIZE)
-      );
-      const snap = await getDocs(q);
-      const docs = snap.docs.map((d) => ({
-        id: d.id,
-        ...(d.data() as any),
-      })) as Notification[];
+      const page = await getNotificationsPage(user.uid, PAGE_SIZE);
 
       // Update lastDoc for pagination
-      lastDocRef.current = snap.docs[snap.docs.length - 1] || null;
-
-      // Fetch user data for notifications
-      const userIds = [
-        ...new Set(docs.map((n) => n.fromUserId).filter(Boolean)),
-      ];
-      const missing = userIds.filter((id) => id && !usersMap[id]);
-      if (missing.length > 0) {
-        const promises = missing.map(async (uid) => {
-          const res = await getDocs(
-            query(collection(db, "users"), where("uid", "==", uid))
-          );
-          if (!res.empty) return { uid, data: res.docs[0].data() as UserData };
-          return null;
-        });
-        const results = await Promise.all(promises);
-        const newMap = { ...usersMap };
-        results.forEach((r) => {
-          if (r) newMap[r.uid] = r.data;
-        });
-        setUsersMap(newMap);
-      }
+      lastDocRef.current = page.cursor;
+
+      await loadMissingUsers(page.notifications);
 
-      setNotifications(docs);
-      setHasMore(snap.docs.length === PAGE_SIZE);
+      setNotifications(page.notifications);
+      setHasMore(page.hasMore);
     } catch (err) {
       console.error("Error refreshing notifications:", err);
     } finally {
@@ -357,6 +273,11 @@ const NotificationsScreen: React.FC = () => {
     );
   };
 
+  // Hide notifications from blocked users
+  const visibleNotifications = notifications.filter(
+    (n) => !isBlocked(n.fromUserId)
+  );
+
   if (!user) {
     return (
       <SafeAreaView
@@ -382,7 +303,7 @@ const NotificationsScreen: React.FC = () => {
           color={colors.brandPrimary}
           style={styles.loader}
         />
-      ) : notifications.length === 0 ? (
+      ) : visibleNotifications.length === 0 ? (
         <View style={styles.emptyState}>
           <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
             No notifications yet
@@ -393,7 +314,7 @@ const NotificationsScreen: React.FC = () => {
         </View>
       ) : (
         <FlatList
-          data={notifications}
+          data={visibleNotifications}
           renderItem={renderItem}
           keyExtractor={(i) => i.id}
           onEndReached={loadMore}
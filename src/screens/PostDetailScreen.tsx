@@ -16,31 +16,32 @@ import { useRoute, useNavigation, RouteProp } from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { FontAwesome } from "@expo/vector-icons";
-import {
-  doc,
-  onSnapshot,
-  updateDoc,
-  arrayUnion,
-  arrayRemove,
-  increment,
-  collection,
-  addDoc,
-  serverTimestamp,
-  deleteDoc,
-  query,
-  where,
-  getDoc,
-} from "firebase/firestore";
+import { doc, getDoc } from "firebase/firestore";
 import { db } from "../config/firebase";
 import { useAuth } from "../contexts/AuthContext";
 import { useTheme } from "../contexts/ThemeContext";
+import { useBlocks } from "../contexts/BlockContext";
 import { RootStackParamList } from "../navigation/AppNavigator";
 import timeFormat from "../config/timeFormat";
 import CommentInput from "../components/CommentInput";
 import CommentItem from "../components/CommentItem";
 import LikesListModal from "../components/LikesListModal";
+import ReportModal from "../components/ReportModal";
 import ProgressiveImage from "../components/ProgressiveImage";
 import { getOptimizedImageUrl } from "../services/imageOptimization";
+import {
+  subscribeToPost,
+  subscribeToPostLiked,
+  deletePost,
+  likePost,
+  unlikePost,
+} from "../services/postRepository";
+import {
+  subscribeToPostComments,
+  deleteComment,
+} from "../services/commentRepository";
+import { ReportTarget } from "../@types/report";
+import { Post, Comment } from "../@types/social";
 
 type PostDetailScreenRouteProp = RouteProp<RootStackParamList, "PostDetail">;
 type PostDetailScreenNavigationProp = NativeStackNavigationProp<
@@ -48,29 +49,6 @@ type PostDetailScreenNavigationProp = NativeStackNavigationProp<
   "PostDetail"
 >;
 
-interface Post {
-  id: string;
-  imageUrl: string;
-  caption?: string;
-  userId: string;
-  createdAt: any;
-  likesCount?: number;
-  commentsCount?: number;
-  likedByUsers?: string[];
-  username?: string;
-  userAvatar?: string;
-}
-
-interface Comment {
-  id: string;
-  text: string;
-  authorId: string;
-  authorUsername: string;
-  authorAvatar: string;
-  createdAt: any;
-  likes?: string[];
-}
-
 const { width } = Dimensions.get("window");
 
 const PostDetailScreen: React.FC = () => {
@@ -78,6 +56,7 @@ const PostDetailScreen: React.FC = () => {
   const navigation = useNavigation<PostDetailScreenNavigationProp>();
   const { user } = useAuth();
   const { colors } = useTheme();
+  const { isBlocked } = useBlocks();
 
   const postId = route.params?.postId;
   const [post, setPost] = useState<Post | null>(null);
@@ -89,6 +68,7 @@ const PostDetailScreen: React.FC = () => {
   const [userDoc, setUserDoc] = useState<any>(null);
   const [showLikes, setShowLikes] = useState(false);
   const [showMenu, setShowMenu] = useState(false);
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
 
   // Fetch current user document
   useEffect(() => {
@@ -125,51 +105,34 @@ const PostDetailScreen: React.FC = () => {
   useEffect(() => {
     if (!postId) return;
 
-    const postUnsub = onSnapshot(doc(db, "posts", postId), (snap) => {
-      if (snap.exists()) {
-        const postData = { id: snap.id, ...snap.data() } as Post;
+    const postUnsub = subscribeToPost(postId, (postData) => {
+      if (postData) {
         setPost(postData);
-        setIsLiked(
-          (user && postData.likedByUsers?.includes(user.uid)) || false
-        );
-        setLikesCount(postData.likesCount || 0);
+        setLikesCount(postData.likesCount);
       }
       setLoading(false);
     });
 
     return () => postUnsub();
+  }, [postId]);
+
+  // Whether the current user likes this post
+  useEffect(() => {
+    if (!postId || !user) {
+      setIsLiked(false);
+      return;
+    }
+
+    const likeUnsub = subscribeToPostLiked(postId, user.uid, setIsLiked);
+
+    return () => likeUnsub();
   }, [postId, user]);
 
   // Load comments
   useEffect(() => {
     if (!postId) return;
 
-    const commentsUnsub = onSnapshot(
-      query(collection(db, "comments"), where("postId", "==", postId)),
-      (snapshot) => {
-        const commentsData = snapshot.docs.map((doc) => ({
-          id: doc.id,
-          ...doc.data(),
-        })) as Comment[];
-
-        const getMs = (t: any) => {
-          if (!t) return 0;
-          if (t.toDate) return t.toDate().getTime();
-          if (t.seconds) return t.seconds * 1000;
-          if (typeof t === "number") return t > 1e12 ? t : t * 1000;
-          if (typeof t === "string") {
-            const n = Date.parse(t);
-            return isNaN(n) ? 0 : n;
-          }
-          if (t instanceof Date) return t.getTime();
-          return 0;
-        };
-
-        setComments(
-          commentsData.sort((a, b) => getMs(b.createdAt) - getMs(a.createdAt))
-        );
-      }
-    );
+    const commentsUnsub = subscribeToPostComments(postId, setComments);
 
     return () => commentsUnsub();
   }, [postId]);
@@ -177,72 +140,23 @@ const PostDetailScreen: React.FC = () => {
   const handleLikeToggle = async () => {
     if (!user || !post) return;
 
-    const postRef = doc(db, "posts", post.id);
-    const alreadyLiked = post.likedByUsers?.includes(user.uid);
-
     console.log("[LIKE-POST-DETAIL] Starting like toggle on post...");
     console.log(`[LIKE-POST-DETAIL] User ID: ${user.uid}`);
     console.log(`[LIKE-POST-DETAIL] Post ID: ${post.id}`);
-    console.log(`[LIKE-POST-DETAIL] Is Liked: ${alreadyLiked}`);
+    console.log(`[LIKE-POST-DETAIL] Is Liked: ${isLiked}`);
 
     try {
       if (isUpdatingLike) return;
       setIsUpdatingLike(true);
 
-      if (alreadyLiked) {
+      if (isLiked) {
         console.log("[LIKE-POST-DETAIL] Removing like from post...");
-        try {
-          await updateDoc(postRef, {
-            likedByUsers: arrayRemove(user.uid),
-            likesCount: increment(-1),
-          });
-          console.log("[LIKE-POST-DETAIL] Like removed from post successfully");
-        } catch (updateError: any) {
-          console.error(
-            "[LIKE-POST-DETAIL] ERROR UPDATING POST (UNLIKE):",
-            updateError?.message
-          );
-          console.error("[LIKE-POST-DETAIL] Error code:", updateError?.code);
-          throw updateError;
-        }
+        await unlikePost(post.id, user.uid);
+        console.log("[LIKE-POST-DETAIL] Like removed from post successfully");
       } else {
         console.log("[LIKE-POST-DETAIL] Adding like to post...");
-        try {
-          await updateDoc(postRef, {
-            likedByUsers: arrayUnion(user.uid),
-            likesCount: increment(1),
-          });
-          console.log("[LIKE-POST-DETAIL] Like added to post successfully");
-        } catch (updateError: any) {
-          console.error(
-            "[LIKE-POST-DETAIL] ERROR UPDATING POST (LIKE):",
-            updateError?.message
-          );
-          console.error("[LIKE-POST-DETAIL] Error code:", updateError?.code);
-          throw updateError;
-        }
-
-        // Create notification
-        if (post.userId !== user.uid) {
-          try {
-            await addDoc(collection(db, "notifications"), {
-              userId: post.userId,
-              fromUserId: user.uid,
-              type: "like",
-              postId: post.id,
-              postCaption: post.caption,
-              createdAt: serverTimestamp(),
-              read: false,
-            });
-            console.log("[LIKE-POST-DETAIL] Like notification created");
-          } catch (notifError: any) {
-            console.error(
-              "[LIKE-POST-DETAIL] ERROR CREATING NOTIFICATION:",
-              notifError?.message
-            );
-            // Don't throw - notification failure shouldn't prevent the like
-          }
-        }
+        await likePost(post, user.uid);
+        console.log("[LIKE-POST-DETAIL] Like added to post successfully");
       }
     } catch (err: any) {
       console.error("[LIKE-POST-DETAIL] Error toggling like:", err);
@@ -264,7 +178,7 @@ const PostDetailScreen: React.FC = () => {
         style: "destructive",
         onPress: async () => {
           try {
-            await deleteDoc(doc(db, "posts", post.id));
+            await deletePost(post.id);
             navigation.goBack();
           } catch (err) {
             console.error("Error deleting post:", err);
@@ -296,25 +210,17 @@ const PostDetailScreen: React.FC = () => {
 
   const handleReport = () => {
     setShowMenu(false);
-    Alert.alert(
-      "Report Post",
-      "Thank you for helping keep MeowGram safe. Our team will review this report.",
-      [
-        { text: "Cancel", style: "cancel" },
-        {
-          text: "Report",
-          style: "destructive",
-          onPress: () => {
-            // Placeholder - would send email or create report document
-            console.log("Post reported:", postId);
-            Alert.alert(
-              "Reported",
-              "This post has been reported to our moderation team."
-            );
-          },
-        },
-      ]
-    );
+    if (!post) return;
+    setReportTarget({
+      targetType: "post",
+      targetId: post.id,
+      targetOwnerId: post.userId,
+      snapshot: {
+        text: post.caption || "",
+        imageUrls: post.imageUrl ? [post.imageUrl] : [],
+        authorName: post.username || "",
+      },
+    });
   };
 
   const handleDeleteComment = async (comment: Comment) => {
@@ -322,10 +228,7 @@ const PostDetailScreen: React.FC = () => {
       return;
 
     try {
-      await deleteDoc(doc(db, "comments", comment.id));
-      await updateDoc(doc(db, "posts", postId!), {
-        commentsCount: increment(-1),
-      });
+      await deleteComment(comment.id, postId!);
       // Update local state to remove the comment immediately
       setComments((prev) => prev.filter((c) => c.id !== comment.id));
     } catch (err) {
@@ -352,7 +255,8 @@ const PostDetailScreen: React.FC = () => {
     );
   }
 
-  if (!post) {
+  // Removed posts stay visible to their owner only
+  if (!post || (post.hiddenAt && post.userId !== user?.uid)) {
     return (
       <SafeAreaView
         style={{
@@ -367,6 +271,11 @@ const PostDetailScreen: React.FC = () => {
     );
   }
 
+  // Hide comments from blocked users and comments removed by moderators
+  const visibleComments = comments.filter(
+    (c) => !isBlocked(c.authorId) && !c.hiddenAt
+  );
+
   return (
     <SafeAreaView style={{ flex: 1, backgroundColor: colors.bgPrimary }}>
       {/* Header */}
@@ -557,10 +466,10 @@ const PostDetailScreen: React.FC = () => {
               color: colors.textPrimary,
             }}
           >
-            Comments ({comments.length})
+            Comments ({visibleComments.length})
           </Text>
 
-          {comments.length === 0 ? (
+          {visibleComments.length === 0 ? (
             <Text
               style={{
                 color: colors.textSecondary,
@@ -571,7 +480,7 @@ const PostDetailScreen: React.FC = () => {
               No comments yet. Be the first to comment!
             </Text>
           ) : (
-            comments.map((comment) => (
+            visibleComments.map((comment) => (
               <CommentItem
                 key={comment.id}
                 comment={comment}
@@ -610,7 +519,12 @@ const PostDetailScreen: React.FC = () => {
       <LikesListModal
         isOpen={showLikes}
         onClose={() => setShowLikes(false)}
-        likedByUsers={post.likedByUsers || []}
+        postId={post.id}
+      />
+
+      <ReportModal
+        target={reportTarget}
+        onClose={() => setReportTarget(null)}
       />
 
       {/* Menu Modal for other users' posts */}
@@ -15,24 +15,7 @@ import {
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useRoute, useNavigation, RouteProp } from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
-import {
-  collection,
-  doc,
-  getDoc,
-  getDocs,
-  orderBy,
-  query,
-  where,
-  deleteDoc,
-  setDoc,
-  increment,
-  serverTimestamp,
-  updateDoc,
-  addDoc,
-  onSnapshot,
-  arrayUnion,
-  arrayRemove,
-} from "firebase/firestore";
+import { doc, getDoc, onSnapshot } from "firebase/firestore";
 import { db } from "../config/firebase";
 import { useAuth } from "../contexts/AuthContext";
 import { useTheme } from "../contexts/ThemeContext";
@@ -44,6 +27,13 @@ import FollowListModal from "../components/FollowListModal";
 import EditProfileModal from "../components/EditProfileModal";
 import ProgressiveImage from "../components/ProgressiveImage";
 import { getOptimizedImageUrl } from "../services/imageOptimization";
+import { getUserPosts } from "../services/postRepository";
+import {
+  subscribeToIsFollowing,
+  followUser,
+  unfollowUser,
+} from "../services/followRepository";
+import { Post } from "../@types/social";
 
 type ProfileScreenRouteProp = RouteProp<RootStackParamList, "UserProfile">;
 type ProfileScreenNavigationProp = NativeStackNavigationProp<
@@ -51,17 +41,6 @@ type ProfileScreenNavigationProp = NativeStackNavigationProp<
   "UserProfile"
 >;
 
-interface Post {
-  id: string;
-  imageUrl: string;
-  caption?: string;
-  userId: string;
-  createdAt: any;
-  likesCount?: number;
-  commentsCount?: number;
-  likedByUsers?: string[];
-}
-
 interface UserProfile {
   uid: string;
   username: string;
@@ -164,18 +143,7 @@ const ProfileScreen: React.FC = () => {
       setLoadingPosts(true);
       setErrorPosts(null);
       try {
-        const postsCollectionRef = collection(db, "posts");
-        const q = query(
-          postsCollectionRef,
-          where("userId", "==", userId),
-          orderBy("createdAt", "desc")
-        );
-        const querySnapshot = await getDocs(q);
-        const postsArray = querySnapshot.docs.map((doc) => ({
-          id: doc.id,
-          ...doc.data(),
-        })) as Post[];
-        setProfilePosts(postsArray);
+        setProfilePosts(await getUserPosts(userId!));
       } catch (err) {
         console.error("Error loading posts:", err);
         setErrorPosts("Failed to load posts.");
@@ -192,10 +160,7 @@ const ProfileScreen: React.FC = () => {
       setIsFollowing(false);
       return;
     }
-    const followDocRef = doc(db, "users", authUser.uid!, "following", userId!);
-    const unsub = onSnapshot(followDocRef, (snap) => {
-      setIsFollowing(snap.exists());
-    });
+    const unsub = subscribeToIsFollowing(authUser.uid, userId!, setIsFollowing);
     return () => unsub();
   }, [authUser, userId, isOwnProfile]);
 
@@ -203,10 +168,6 @@ const ProfileScreen: React.FC = () => {
     if (!authUser || isOwnProfile || loadingFollow || !authUser.uid || !userId)
       return;
     setLoadingFollow(true);
-    const currentUserRef = doc(db, "users", authUser.uid);
-    const targetUserRef = doc(db, "users", userId);
-    const followingRef = doc(db, "users", authUser.uid, "following", userId);
-    const followerRef = doc(db, "users", userId, "followers", authUser.uid);
 
     console.log("[FOLLOW] Starting follow toggle...");
     console.log(`[FOLLOW] Current User ID: ${authUser.uid}`);
@@ -216,44 +177,21 @@ const ProfileScreen: React.FC = () => {
     try {
       if (isFollowing) {
         console.log("[FOLLOW] Unfollowing user...");
-        await deleteDoc(followingRef);
-        console.log("[FOLLOW] Deleted following doc");
-        await deleteDoc(followerRef);
-        console.log("[FOLLOW] Deleted follower doc");
-        await updateDoc(currentUserRef, { followingCount: increment(-1) });
-        console.log("[FOLLOW] Updated current user following count");
-        await updateDoc(targetUserRef, { followersCount: increment(-1) });
-        console.log("[FOLLOW] Updated target user followers count");
+        await unfollowUser(authUser.uid, userId);
       } else {
         console.log("[FOLLOW] Following user...");
-        await setDoc(followingRef, {
-          uid: userId,
-          username: profileData?.username,
-          avatarUrl: profileData?.avatarUrl,
-          followedAt: new Date(),
-        });
-        console.log("[FOLLOW] Created following doc");
-        await setDoc(followerRef, {
-          uid: authUser.uid,
-          username: authUser.displayName || authUser.email,
-          avatarUrl: "",
-          followedAt: new Date(),
-        });
-        console.log("[FOLLOW] Created follower doc");
-        await updateDoc(currentUserRef, { followingCount: increment(1) });
-        console.log("[FOLLOW] Updated current user following count");
-        await updateDoc(targetUserRef, { followersCount: increment(1) });
-        console.log("[FOLLOW] Updated target user followers count");
-        if (userId !== authUser.uid) {
-          await addDoc(collection(db, "notifications"), {
-            userId: userId,
-            fromUserId: authUser.uid,
-            type: "follow",
-            createdAt: serverTimestamp(),
-            read: false,
-          });
-          console.log("[FOLLOW] Created follow notification");
-        }
+        await followUser(
+          {
+            uid: authUser.uid,
+            username: currentUserDoc?.username || authUser.displayName || "",
+            avatarUrl: currentUserDoc?.avatarUrl,
+          },
+          {
+            uid: userId,
+            username: profileData?.username,
+            avatarUrl: profileData?.avatarUrl,
+          }
+        );
       }
       console.log("[FOLLOW] Follow/unfollow completed successfully");
     } catch (err) {
@@ -264,37 +202,6 @@ const ProfileScreen: React.FC = () => {
     }
   };
 
-  const handleLikeToggle = async (post: Post) => {
-    if (!authUser) return;
-    const postRef = doc(db, "posts", post.id);
-    const alreadyLiked = post.likedByUsers?.includes(authUser.uid);
-
-    console.log("[LIKE] Starting like toggle...");
-    console.log(`[LIKE] User ID: ${authUser.uid}`);
-    console.log(`[LIKE] Post ID: ${post.id}`);
-    console.log(`[LIKE] Already Liked: ${alreadyLiked}`);
-
-    try {
-      if (alreadyLiked) {
-        console.log("[LIKE] Removing like...");
-        await updateDoc(postRef, {
-          likedByUsers: arrayRemove(authUser.uid),
-          likesCount: increment(-1),
-        });
-        console.log("[LIKE] Like removed successfully");
-      } else {
-        console.log("[LIKE] Adding like...");
-        await updateDoc(postRef, {
-          likedByUsers: arrayUnion(authUser.uid),
-          likesCount: increment(1),
-        });
-        console.log("[LIKE] Like added successfully");
-      }
-    } catch (err) {
-      console.error("[LIKE] Error toggling like:", err);
-    }
-  };
-
   const handleRefresh = async () => {
     setRefreshing(true);
     try {
@@ -308,18 +215,7 @@ const ProfileScreen: React.FC = () => {
       }
 
       // Refresh posts
-      const postsCollectionRef = collection(db, "posts");
-      const q = query(
-        postsCollectionRef,
-        where("userId", "==", userId),
-        orderBy("createdAt", "desc")
-      );
-      const querySnapshot = await getDocs(q);
-      const postsArray = querySnapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-      })) as Post[];
-      setProfilePosts(postsArray);
+      if (userId) setProfilePosts(await getUserPosts(userId));
     } catch (err) {
       console.error("Error refreshing profile:", err);
     } finally {
@@ -403,6 +299,11 @@ const ProfileScreen: React.FC = () => {
     );
   }
 
+  // Removed posts stay visible to their owner only
+  const visiblePosts = isOwnProfile
+    ? profilePosts
+    : profilePosts.filter((p) => !p.hiddenAt);
+
   return (
     <SafeAreaView style={{ flex: 1, backgroundColor: colors.bgPrimary }}>
       {/* Back Button Header - Only show when navigating to another user's profile */}
@@ -601,7 +502,7 @@ const ProfileScreen: React.FC = () => {
                 color: colors.textPrimary,
               }}
             >
-              {profilePosts.length}
+              {visiblePosts.length}
             </Text>
             <Text style={{ color: colors.textSecondary }}>Posts</Text>
           </View>
@@ -640,7 +541,7 @@ const ProfileScreen: React.FC = () => {
 
       {/* Posts Grid */}
       <FlatList
-        data={profilePosts}
+        data={visiblePosts}
         renderItem={renderPostItem}
         keyExtractor={(item) => item.id}
         numColumns={numColumns}
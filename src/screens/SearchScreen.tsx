@@ -17,6 +17,7 @@ import { useNavigation } from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { useAuth } from "../contexts/AuthContext";
 import { useTheme } from "../contexts/ThemeContext";
+import { useBlocks } from "../contexts/BlockContext";
 import ScreenHeader from "../components/ScreenHeader";
 import ProgressiveImage from "../components/ProgressiveImage";
 import { getOptimizedImageUrl } from "../services/imageOptimization";
@@ -29,6 +30,9 @@ import {
   limit,
 } from "firebase/firestore";
 import { db } from "../config/firebase";
+import { getRecentPosts } from "../services/postRepository";
+import { getUserProfile } from "../services/userService";
+import { Post } from "../@types/social";
 
 const { width } = Dimensions.get("window");
 
@@ -55,6 +59,7 @@ interface PostResult {
 const SearchScreen: React.FC = () => {
   const { user } = useAuth();
   const { colors } = useTheme();
+  const { isBlocked } = useBlocks();
   const navigation =
     useNavigation<NativeStackNavigationProp<RootStackParamList>>();
   const [searchQuery, setSearchQuery] = useState("");
@@ -88,6 +93,23 @@ const SearchScreen: React.FC = () => {
     return () => clearTimeout(timer);
   }, [searchQuery]);
 
+  // Attach each post's author name and avatar
+  const withAuthors = async (posts: Post[]): Promise<PostResult[]> => {
+    const userIds = [...new Set(posts.map((post) => post.userId))];
+    const profiles = await Promise.all(
+      userIds.map((userId) => getUserProfile(userId).catch(() => null))
+    );
+    const userDataMap = Object.fromEntries(
+      userIds.map((userId, i) => [userId, profiles[i]])
+    );
+
+    return posts.map((post) => ({
+      ...post,
+      username: userDataMap[post.userId]?.username || "Unknown",
+      userAvatar: userDataMap[post.userId]?.avatarUrl,
+    }));
+  };
+
   const performSearch = async (searchQuery: string) => {
     if (!searchQuery) return;
 
@@ -108,58 +130,18 @@ const SearchScreen: React.FC = () => {
       }));
 
       // Search posts by caption
-      const postsQuery = query(
-        collection(db, "posts"),
-        orderBy("createdAt", "desc"),
-        limit(50)
-      );
+      const allPosts = await getRecentPosts(50);
 
-      const postsSnap = await getDocs(postsQuery);
-      const allPosts = postsSnap.docs.map((doc) => ({
-        ...(doc.data() as PostResult),
-        id: doc.id,
-      }));
-
-      // Filter posts that contain the search query in caption
+      // Filter posts that contain the search query in caption, leaving out
+      // posts removed by moderators or held for review
       const filteredPosts = allPosts.filter(
         (post) =>
+          !post.hiddenAt &&
           post.caption &&
           post.caption.toLowerCase().includes(searchQuery.toLowerCase())
       );
 
-      // Get user data for posts
-      const userIds = [...new Set(filteredPosts.map((post) => post.userId))];
-      const userPromises = userIds.map(async (userId) => {
-        const userQuery = query(
-          collection(db, "users"),
-          where("uid", "==", userId)
-        );
-        const userDoc = await getDocs(userQuery);
-        if (!userDoc.empty) {
-          const userData = userDoc.docs[0].data() as UserResult;
-          return {
-            userId,
-            username: userData.username,
-            avatarUrl: userData.avatarUrl,
-          };
-        }
-        return { userId, username: "Unknown", avatarUrl: undefined };
-      });
-
-      const userDataResults = await Promise.all(userPromises);
-      const userDataMap = Object.fromEntries(
-        userDataResults.map(({ userId, username, avatarUrl }) => [
-          userId,
-          { username, avatarUrl },
-        ])
-      );
-
-      // Add user data to posts
-      const postsWithUserData = filteredPosts.map((post) => ({
-        ...post,
-        username: userDataMap[post.userId]?.username || "Unknown",
-        userAvatar: userDataMap[post.userId]?.avatarUrl,
-      }));
+      const postsWithUserData = await withAuthors(filteredPosts);
 
       setUserResults(users);
       setPostResults(postsWithUserData.slice(0, 10)); // Limit to 10 posts
@@ -186,50 +168,12 @@ const SearchScreen: React.FC = () => {
       }));
 
       // Recommended posts: latest 6 posts
-      const postsQuery = query(
-        collection(db, "posts"),
-        orderBy("createdAt", "desc"),
-        limit(12)
-      );
-      const postsSnap = await getDocs(postsQuery);
-      const recentPosts = postsSnap.docs.map((doc) => ({
-        ...(doc.data() as PostResult),
-        id: doc.id,
-      }));
+      const recentPosts = await getRecentPosts(12);
 
-      // Fetch post owners for mapping
-      const userIds = [...new Set(recentPosts.map((p) => p.userId))];
-      const userPromises = userIds.map(async (userId) => {
-        const userQuery = query(
-          collection(db, "users"),
-          where("uid", "==", userId)
-        );
-        const userDoc = await getDocs(userQuery);
-        if (!userDoc.empty) {
-          const userData = userDoc.docs[0].data() as UserResult;
-          return {
-            userId,
-            username: userData.username,
-            avatarUrl: userData.avatarUrl,
-          };
-        }
-        return { userId, username: "Unknown", avatarUrl: undefined };
-      });
-
-      const userDataResults = await Promise.all(userPromises);
-      const userDataMap = Object.fromEntries(
-        userDataResults.map(({ userId, username, avatarUrl }) => [
-          userId,
-          { username, avatarUrl },
-        ])
+      const recPosts = await withAuthors(
+        recentPosts.filter((post) => !post.hiddenAt).slice(0, 6)
       );
 
-      const recPosts = recentPosts.slice(0, 6).map((post) => ({
-        ...post,
-        username: userDataMap[post.userId]?.username || "Unknown",
-        userAvatar: userDataMap[post.userId]?.avatarUrl,
-      }));
-
       setRecommendedUsers(recUsers);
       setRecommendedPosts(recPosts);
     } catch (err) {
@@ -320,6 +264,18 @@ const SearchScreen: React.FC = () => {
     [colors, navigation]
   );
 
+  // Hide blocked users and their posts
+  const visibleUserResults = userResults.filter(
+    (u) => !isBlocked(u.uid || u.id)
+  );
+  const visiblePostResults = postResults.filter((p) => !isBlocked(p.userId));
+  const visibleRecommendedUsers = recommendedUsers.filter(
+    (u) => !isBlocked(u.uid || u.id)
+  );
+  const visibleRecommendedPosts = recommendedPosts.filter(
+    (p) => !isBlocked(p.userId)
+  );
+
   return (
     <SafeAreaView
       style={[styles.container, { backgroundColor: colors.bgPrimary }]}
@@ -362,7 +318,7 @@ const SearchScreen: React.FC = () => {
           ListHeaderComponent={() => (
             <View>
               {/* Users Section */}
-              {userResults.length > 0 && (
+              {visibleUserResults.length > 0 && (
                 <View style={styles.section}>
                   <Text
                     style={[styles.sectionTitle, { color: colors.textPrimary }]}
@@ -370,7 +326,7 @@ const SearchScreen: React.FC = () => {
                     Users
                   </Text>
                   <FlatList
-                    data={userResults}
+                    data={visibleUserResults}
                     renderItem={renderUserResult}
                     keyExtractor={(item) => item.id}
                     horizontal
@@ -381,7 +337,7 @@ const SearchScreen: React.FC = () => {
               )}
 
               {/* Posts Section */}
-              {postResults.length > 0 && (
+              {visiblePostResults.length > 0 && (
                 <View style={styles.section}>
                   <Text
                     style={[styles.sectionTitle, { color: colors.textPrimary }]}
@@ -389,7 +345,7 @@ const SearchScreen: React.FC = () => {
                     Posts
                   </Text>
                   <FlatList
-                    data={postResults}
+                    data={visiblePostResults}
                     renderItem={renderPostResult}
                     keyExtractor={(item) => item.id}
                     numColumns={2}
@@ -399,18 +355,19 @@ const SearchScreen: React.FC = () => {
               )}
 
               {/* No Results */}
-              {userResults.length === 0 && postResults.length === 0 && (
-                <View style={styles.noResults}>
-                  <Text
-                    style={[
-                      styles.noResultsText,
-                      { color: colors.textSecondary },
-                    ]}
-                  >
-                    No results found for "{searchQuery}"
-                  </Text>
-                </View>
-              )}
+              {visibleUserResults.length === 0 &&
+                visiblePostResults.length === 0 && (
+                  <View style={styles.noResults}>
+                    <Text
+                      style={[
+                        styles.noResultsText,
+                        { color: colors.textSecondary },
+                      ]}
+                    >
+                      No results found for "{searchQuery}"
+                    </Text>
+                  </View>
+                )}
             </View>
           )}
           refreshing={refreshing}
@@ -424,7 +381,7 @@ const SearchScreen: React.FC = () => {
           ListHeaderComponent={() => (
             <View>
               {/* Recommended Users Section */}
-              {recommendedUsers.length > 0 && (
+              {visibleRecommendedUsers.length > 0 && (
                 <View style={styles.section}>
                   <Text
                     style={[styles.sectionTitle, { color: colors.textPrimary }]}
@@ -432,7 +389,7 @@ const SearchScreen: React.FC = () => {
                     Recommended Users
                   </Text>
                   <FlatList
-                    data={recommendedUsers}
+                    data={visibleRecommendedUsers}
                     renderItem={renderUserResult}
                     keyExtractor={(item) => item.id}
                     horizontal
@@ -443,7 +400,7 @@ const SearchScreen: React.FC = () => {
               )}
 
               {/* Recommended Posts Section */}
-              {recommendedPosts.length > 0 && (
+              {visibleRecommendedPosts.length > 0 && (
                 <View style={styles.section}>
                   <Text
                     style={[styles.sectionTitle, { color: colors.textPrimary }]}
@@ -451,7 +408,7 @@ const SearchScreen: React.FC = () => {
                     Recommended Posts
                   </Text>
                   <FlatList
-                    data={recommendedPosts}
+                    data={visibleRecommendedPosts}
                     renderItem={renderPostResult}
                     keyExtractor={(item) => item.id}
                     numColumns={2}
@@ -461,8 +418,8 @@ const SearchScreen: React.FC = () => {
               )}
 
               {/* Fallback message if no recommendations */}
-              {recommendedUsers.length === 0 &&
-                recommendedPosts.length === 0 && (
+              {visibleRecommendedUsers.length === 0 &&
+                visibleRecommendedPosts.length === 0 && (
                   <View style={styles.initialState}>
                     <Text
                       style={[styles.initialText, { color: colors.textMuted }]}
@@ -12,11 +12,13 @@ import {
   StatusBar,
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
-import { useNavigation } from "@react-navigation/native";
+import { useNavigation, useRoute } from "@react-navigation/native";
 import { useAuth } from "../contexts/AuthContext";
+import { useChat } from "../contexts/ChatContext";
 import { useTheme } from "../contexts/ThemeContext";
 import { getOptimizedImageUrl } from "../services/imageOptimization";
 import { useChatNavigation } from "../hooks/useChatNavigation";
+import { chatTransport } from "../services/chatTransport";
 import {
   collection,
   query,
@@ -40,7 +42,17 @@ const SearchUsersScreen: React.FC = () => {
   const { user } = useAuth();
   const { colors } = useTheme();
   const navigation = useNavigation<any>();
-  const { startNewChat } = useChatNavigation();
+  const route = useRoute<any>();
+  const { selectedConversation } = useChat();
+  const { startNewChat, startNewGroupChat } = useChatNavigation();
+
+  const [mode, setMode] = useState<"direct" | "group" | "addMembers">(
+    route.params?.mode || "direct"
+  );
+  const isSelecting = mode !== "direct";
+  const [selectedUsers, setSelectedUsers] = useState<UserResult[]>([]);
+  const [groupName, setGroupName] = useState("");
+  const [submitting, setSubmitting] = useState(false);
 
   const [searchQuery, setSearchQuery] = useState("");
   const [userResults, setUserResults] = useState<UserResult[]>([]);
@@ -153,6 +165,69 @@ const SearchUsersScreen: React.FC = () => {
     }
   };
 
+  // Users already in the group can't be added again
+  const existingMemberIds =
+    mode === "addMembers" && selectedConversation
+      ? selectedConversation.participants
+      : [];
+  const visibleUsers = (users: UserResult[]) =>
+    users.filter((u) => !existingMemberIds.includes(u.uid));
+
+  const isUserSelected = (candidate: UserResult) =>
+    selectedUsers.some((u) => u.uid === candidate.uid);
+
+  const toggleUserSelection = (candidate: UserResult) => {
+    setSelectedUsers((prev) =>
+      prev.some((u) => u.uid === candidate.uid)
+        ? prev.filter((u) => u.uid !== candidate.uid)
+        : [...prev, candidate]
+    );
+  };
+
+  const canSubmit =
+    !submitting &&
+    (mode === "group"
+      ? selectedUsers.length >= 2 && groupName.trim().length > 0
+      : selectedUsers.length > 0);
+
+  const handleCreateGroup = async () => {
+    if (!canSubmit) return;
+
+    setSubmitting(true);
+    try {
+      await startNewGroupChat(
+        selectedUsers.map((u) => u.uid),
+        groupName.trim()
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleAddMembers = async () => {
+    if (!canSubmit || !selectedConversation || !user) return;
+
+    setSubmitting(true);
+    try {
+      const actorName =
+        selectedConversation.participantDetails?.[user.uid]?.displayName ||
+        user.displayName ||
+        "Someone";
+      await chatTransport.addGroupMembers(
+        selectedConversation.id,
+        user.uid,
+        actorName,
+        selectedUsers
+      );
+      navigation.goBack();
+    } catch (error) {
+      console.error("[SearchUsers] Failed to add members:", error);
+      alert("Failed to add members. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
   const handleStartChat = async (selectedUser: UserResult) => {
     if (!selectedUser.uid) {
       console.error("User UID is missing");
@@ -185,7 +260,9 @@ const SearchUsersScreen: React.FC = () => {
   const renderUserItem = ({ item }: { item: UserResult }) => (
     <TouchableOpacity
       style={[styles.userItem, { backgroundColor: colors.bgSecondary }]}
-      onPress={() => handleStartChat(item)}
+      onPress={() =>
+        isSelecting ? toggleUserSelection(item) : handleStartChat(item)
+      }
       disabled={startingChat === item.uid}
     >
       <Image
@@ -214,7 +291,15 @@ const SearchUsersScreen: React.FC = () => {
           </Text>
         )}
       </View>
-      {startingChat === item.uid ? (
+      {isSelecting ? (
+        <Ionicons
+          name={isUserSelected(item) ? "checkmark-circle" : "ellipse-outline"}
+          size={24}
+          color={
+            isUserSelected(item) ? colors.brandPrimary : colors.textMuted
+          }
+        />
+      ) : startingChat === item.uid ? (
         <ActivityIndicator size="small" color={colors.brandPrimary} />
       ) : (
         <Ionicons
@@ -241,10 +326,99 @@ const SearchUsersScreen: React.FC = () => {
           <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
         </TouchableOpacity>
         <Text style={[styles.headerTitle, { color: colors.textPrimary }]}>
-          New Message
+          {mode === "group"
+            ? "New Group"
+            : mode === "addMembers"
+            ? "Add Members"
+            : "New Message"}
         </Text>
+        {mode === "direct" ? (
+          <TouchableOpacity
+            onPress={() => setMode("group")}
+            style={styles.headerAction}
+          >
+            <Ionicons
+              name="people-outline"
+              size={24}
+              color={colors.brandPrimary}
+            />
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            onPress={mode === "group" ? handleCreateGroup : handleAddMembers}
+            style={styles.headerAction}
+            disabled={!canSubmit}
+          >
+            {submitting ? (
+              <ActivityIndicator size="small" color={colors.brandPrimary} />
+            ) : (
+              <Text
+                style={[
+                  styles.headerActionText,
+                  { color: colors.brandPrimary },
+                  !canSubmit && styles.headerActionDisabled,
+                ]}
+              >
+                {mode === "group" ? "Create" : "Add"}
+              </Text>
+            )}
+          </TouchableOpacity>
+        )}
       </View>
 
+      {/* Group name */}
+      {mode === "group" && (
+        <View
+          style={[
+            styles.searchContainer,
+            { borderBottomColor: colors.borderColor },
+          ]}
+        >
+          <Ionicons
+            name="people"
+            size={20}
+            color={colors.textMuted}
+            style={styles.searchIcon}
+          />
+          <TextInput
+            style={[styles.searchInput, { color: colors.textPrimary }]}
+            placeholder="Group name"
+            placeholderTextColor={colors.textMuted}
+            value={groupName}
+            onChangeText={setGroupName}
+            maxLength={50}
+          />
+        </View>
+      )}
+
+      {/* Selected members */}
+      {isSelecting && selectedUsers.length > 0 && (
+        <View
+          style={[
+            styles.selectedContainer,
+            { borderBottomColor: colors.borderColor },
+          ]}
+        >
+          {selectedUsers.map((selected) => (
+            <TouchableOpacity
+              key={selected.uid}
+              style={[
+                styles.selectedChip,
+                { backgroundColor: colors.bgSecondary },
+              ]}
+              onPress={() => toggleUserSelection(selected)}
+            >
+              <Text
+                style={[styles.selectedChipText, { color: colors.textPrimary }]}
+              >
+                {selected.displayName || selected.username}
+              </Text>
+              <Ionicons name="close" size={14} color={colors.textMuted} />
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
       {/* Search Input */}
       <View
         style={[
@@ -266,7 +440,7 @@ const SearchUsersScreen: React.FC = () => {
           onChangeText={setSearchQuery}
           autoCapitalize="none"
           autoCorrect={false}
-          autoFocus={true}
+          autoFocus={!isSelecting}
         />
         {searchQuery.length > 0 && (
           <TouchableOpacity onPress={() => setSearchQuery("")}>
@@ -286,7 +460,7 @@ const SearchUsersScreen: React.FC = () => {
       ) : hasSearched ? (
         userResults.length > 0 ? (
           <FlatList
-            data={userResults}
+            data={visibleUsers(userResults)}
             renderItem={renderUserItem}
             keyExtractor={(item) => item.id}
             contentContainerStyle={styles.listContent}
@@ -309,7 +483,7 @@ const SearchUsersScreen: React.FC = () => {
                 Suggested
               </Text>
               <FlatList
-                data={recommendedUsers}
+                data={visibleUsers(recommendedUsers)}
                 renderItem={renderUserItem}
                 keyExtractor={(item) => item.id}
                 contentContainerStyle={styles.listContent}
@@ -338,9 +512,42 @@ const styles = StyleSheet.create({
     marginRight: 8,
   },
   headerTitle: {
+    flex: 1,
     fontSize: 20,
     fontWeight: "600",
   },
+  headerAction: {
+    padding: 8,
+    minWidth: 44,
+    alignItems: "center",
+  },
+  headerActionText: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  headerActionDisabled: {
+    opacity: 0.4,
+  },
+  selectedContainer: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 0.5,
+    gap: 8,
+  },
+  selectedChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+    gap: 4,
+  },
+  selectedChipText: {
+    fontSize: 13,
+    fontWeight: "500",
+  },
   searchContainer: {
     flexDirection: "row",
     alignItems: "center",
@@ -1,8 +1,17 @@
 import React, { useState } from "react";
-import { View, Text, TouchableOpacity, Alert, StyleSheet } from "react-native";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Alert,
+  StyleSheet,
+  Switch,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
 import { useNavigation } from "@react-navigation/native";
 import { auth, db } from "../config/firebase";
 import { useTheme } from "../contexts/ThemeContext";
+import { useChat } from "../contexts/ChatContext";
 import {
   signOut,
   sendPasswordResetEmail,
@@ -19,8 +28,18 @@ const googleProvider = new GoogleAuthProvider();
 
 export default function SettingsScreen() {
   const [status, setStatus] = useState("");
-  const navigation = useNavigation();
+  const navigation = useNavigation<any>();
   const { colors } = useTheme();
+  const { readReceiptsEnabled, setReadReceiptsEnabled } = useChat();
+
+  const handleToggleReadReceipts = async (enabled: boolean) => {
+    try {
+      await setReadReceiptsEnabled(enabled);
+    } catch (err) {
+      const error = err as Error;
+      Alert.alert("Error", "Error updating privacy setting: " + error.message);
+    }
+  };
 
   const handleLogout = async () => {
     try {
@@ -189,6 +208,58 @@ export default function SettingsScreen() {
       </View>
 
       <View style={styles.content}>
+        <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+          Privacy
+        </Text>
+        <View
+          style={[
+            styles.settingRow,
+            {
+              backgroundColor: colors.bgSecondary,
+              borderColor: colors.borderColor,
+            },
+          ]}
+        >
+          <View style={styles.settingTextContainer}>
+            <Text style={[styles.settingLabel, { color: colors.textPrimary }]}>
+              Read Receipts
+            </Text>
+            <Text
+              style={[styles.settingDescription, { color: colors.textMuted }]}
+            >
+              Let people know when you've seen their messages
+            </Text>
+          </View>
+          <Switch
+            value={readReceiptsEnabled}
+            onValueChange={handleToggleReadReceipts}
+            trackColor={{ true: "#FF6B6B" }}
+          />
+        </View>
+        <TouchableOpacity
+          style={[
+            styles.settingRow,
+            styles.lastSettingRow,
+            {
+              backgroundColor: colors.bgSecondary,
+              borderColor: colors.borderColor,
+            },
+          ]}
+          onPress={() => navigation.navigate("BlockedAccounts")}
+        >
+          <View style={styles.settingTextContainer}>
+            <Text style={[styles.settingLabel, { color: colors.textPrimary }]}>
+              Blocked Accounts
+            </Text>
+            <Text
+              style={[styles.settingDescription, { color: colors.textMuted }]}
+            >
+              People you've blocked can't message you or see your activity
+            </Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color={colors.textMuted} />
+        </TouchableOpacity>
+
         <View style={styles.actionsContainer}>
           <TouchableOpacity
             style={[
@@ -262,6 +333,36 @@ const styles = StyleSheet.create({
     paddingHorizontal: 20,
     paddingTop: 40,
   },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    marginBottom: 8,
+  },
+  settingRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 12,
+  },
+  lastSettingRow: {
+    marginBottom: 32,
+  },
+  settingTextContainer: {
+    flex: 1,
+    marginRight: 12,
+  },
+  settingLabel: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  settingDescription: {
+    fontSize: 13,
+    marginTop: 2,
+  },
   actionsContainer: {
     gap: 16,
   },
@@ -1,56 +0,0 @@
-// AI-powered content moderation service
-// This is a simplified version for the mobile app
-// In production, you'd want more sophisticated AI moderation
-
-export interface ModerationResult {
-  isAllowed: boolean;
-  reason: string;
-  confidence?: number;
-}
-
-// Mock AI moderation - in a real app, this would call an AI service
-export const moderateImageWithAI = async (
-  imageUri: string,
-  context: string
-): Promise<ModerationResult> => {
-  // Simulate API call delay
-  await new Promise((resolve) => setTimeout(resolve, 1000));
-
-  // For demo purposes, we'll randomly approve/reject
-  // In a real app, this would analyze the actual image content
-  const isAllowed = Math.random() > 0.1; // 90% approval rate
-
-  if (isAllowed) {
-    return {
-      isAllowed: true,
-      reason: "Image appears appropriate",
-      confidence: 0.95,
-    };
-  } else {
-    const reasons = [
-      "Content may contain inappropriate material",
-      "Image quality is too low",
-      "Content may violate community guidelines",
-      "Unable to verify image content",
-    ];
-
-    return {
-      isAllowed: false,
-      reason: reasons[Math.floor(Math.random() * reasons.length)],
-      confidence: 0.85,
-    };
-  }
-};
-
-// Check if image contains animals (basic check)
-export const checkAnimalContent = (imageUri: string): boolean => {
-  // This would be replaced with actual AI vision API
-  // For now, we'll assume all images are animal-related
-  return true;
-};
-
-// Preload AI moderation (for performance)
-export const preloadAIModeration = async (): Promise<void> => {
-  // Preload any necessary AI models or warm up services
-  console.log("AI moderation service ready");
-};
@@ -1,10 +1,23 @@
 /**
  * API Client for MeowChat Backend
- * Handles HTTP requests with authentication
+ * Handles HTTP requests with authentication, timeouts, retries and
+ * cancellation
  */
 
 import { auth } from "../config/firebase";
 import { API_BASE_URL } from "../config/api";
+import type { UploadProgress } from "./mediaService";
+
+// Per-attempt timeout unless the request sets its own
+const DEFAULT_TIMEOUT_MS = 15000;
+
+// Retries for idempotent requests; POST is only retried when asked to
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 5000;
+
+// Uploads time out as a whole, not per attempt of a chunk
+const DEFAULT_UPLOAD_TIMEOUT_MS = 120000;
 
 export class APIError extends Error {
   constructor(public status: number, message: string, public data?: any) {
@@ -13,6 +26,177 @@ export class APIError extends Error {
   }
 }
 
+/**
+ * The request never got a response - offline, DNS, connection reset
+ */
+export class APINetworkError extends APIError {
+  constructor(message: string) {
+    super(0, message);
+    this.name = "APINetworkError";
+  }
+}
+
+/**
+ * No response within the request's timeout
+ */
+export class APITimeoutError extends APIError {
+  constructor(message: string) {
+    super(0, message);
+    this.name = "APITimeoutError";
+  }
+}
+
+/**
+ * 401 or 403 - a 401 is only thrown after a refreshed token also failed
+ */
+export class APIAuthError extends APIError {
+  constructor(status: number, message: string, data?: any) {
+    super(status, message, data);
+    this.name = "APIAuthError";
+  }
+}
+
+/**
+ * 400 or 422 - the server rejected the request data
+ */
+export class APIValidationError extends APIError {
+  constructor(status: number, message: string, data?: any) {
+    super(status, message, data);
+    this.name = "APIValidationError";
+  }
+}
+
+export interface RequestOptions {
+  timeoutMs?: number;
+  // Retries after the first attempt; defaults to DEFAULT_RETRIES for GET,
+  // PUT and DELETE and to 0 for POST
+  retries?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * A file to upload, as React Native's FormData expects it
+ */
+export interface UploadFile {
+  uri: string;
+  name: string;
+  type: string; // MIME type
+  metadata?: Record<string, string>; // sent alongside, in file order
+}
+
+export interface UploadOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  fieldName?: string; // form field for the files, "file" by default
+  fields?: Record<string, any>; // extra form fields, objects as JSON
+  // Bytes sent across all files in the request
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+type HTTPMethod = "GET" | "POST" | "PUT" | "DELETE";
+
+const IDEMPOTENT_METHODS: HTTPMethod[] = ["GET", "PUT", "DELETE"];
+
+const isRetryable = (error: unknown) =>
+  error instanceof APINetworkError ||
+  error instanceof APITimeoutError ||
+  (error instanceof APIError && error.status >= 500);
+
+const isAbortError = (error: unknown) =>
+  error instanceof Error && error.name === "AbortError";
+
+// Same shape as the error fetch throws on abort
+const createAbortError = () => {
+  const error = new Error("Request aborted");
+  error.name = "AbortError";
+  return error;
+};
+
+/**
+ * Build the error for a failed response
+ */
+const toResponseError = (status: number, message: string, data: any) => {
+  if (status === 401 || status === 403) {
+    return new APIAuthError(status, message, data);
+  }
+  if (status === 400 || status === 422) {
+    return new APIValidationError(status, message, data);
+  }
+  return new APIError(status, message, data);
+};
+
+/**
+ * Append a query parameter in the bracket format Express parses back into
+ * arrays and objects: tags[]=a&tags[]=b, filter[from]=x, items[0][id]=1
+ */
+const appendQueryParam = (
+  parts: string[],
+  key: string,
+  value: unknown
+): void => {
+  if (value === undefined || value === null) return;
+
+  if (Array.isArray(value)) {
+    const hasObjects = value.some((item) => typeof item === "object");
+    value.forEach((item, index) => {
+      appendQueryParam(
+        parts,
+        hasObjects ? `${key}[${index}]` : `${key}[]`,
+        item
+      );
+    });
+    return;
+  }
+
+  if (value instanceof Date) {
+    appendQueryParam(parts, key, value.toISOString());
+    return;
+  }
+
+  if (typeof value === "object") {
+    Object.entries(value as Record<string, unknown>).forEach(
+      ([childKey, childValue]) => {
+        appendQueryParam(parts, `${key}[${childKey}]`, childValue);
+      }
+    );
+    return;
+  }
+
+  parts.push(`${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`);
+};
+
+const toQueryString = (params: Record<string, any>): string => {
+  const parts: string[] = [];
+  Object.entries(params).forEach(([key, value]) => {
+    appendQueryParam(parts, key, value);
+  });
+  return parts.join("&");
+};
+
+/**
+ * Wait before a retry, exponential with jitter; cut short by an abort
+ * The abort listener is removed once the wait is over, so a long-lived
+ * signal doesn't collect one per retry
+ */
+const waitForRetry = (attempt: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const delay = Math.min(
+      RETRY_MAX_DELAY_MS,
+      RETRY_BASE_DELAY_MS * 2 ** attempt
+    );
+    const jitteredDelay = delay / 2 + Math.random() * (delay / 2);
+    // once: true drops the listener when it fires
+    const onAbort = () => {
+      clearTimeout(timeout);
+      resolve();
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, jitteredDelay);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
 class APIClient {
   private baseURL: string;
   private authToken: string | null = null;
@@ -30,12 +214,15 @@ class APIClient {
 
   /**
    * Get current Firebase ID token
+   * forceRefresh skips the cached token, for when the server rejected it
    */
-  async getFirebaseToken(): Promise<string | null> {
+  async getFirebaseToken(
+    forceRefresh: boolean = false
+  ): Promise<string | null> {
     try {
       const user = auth.currentUser;
       if (user) {
-        return await user.getIdToken();
+        return await user.getIdToken(forceRefresh);
       }
       return null;
     } catch (error) {
@@ -47,7 +234,10 @@ class APIClient {
   /**
    * Get headers for requests
    */
-  private async getHeaders(isFormData: boolean = false): Promise<HeadersInit> {
+  private async getHeaders(
+    isFormData: boolean = false,
+    forceRefreshToken: boolean = false
+  ): Promise<HeadersInit> {
     const headers: HeadersInit = {};
 
     if (!isFormData) {
@@ -55,7 +245,7 @@ class APIClient {
     }
 
     // Get Firebase token for authentication
-    const firebaseToken = await this.getFirebaseToken();
+    const firebaseToken = await this.getFirebaseToken(forceRefreshToken);
     if (firebaseToken) {
       headers["Authorization"] = `Bearer ${firebaseToken}`;
     } else if (this.authToken) {
@@ -85,7 +275,7 @@ class APIClient {
         }
       }
 
-      throw new APIError(response.status, errorMessage, errorData);
+      throw toResponseError(response.status, errorMessage, errorData);
     }
 
     if (isJson) {
@@ -96,130 +286,296 @@ class APIClient {
   }
 
   /**
-   * GET request
+   * Make one attempt, aborted after timeoutMs or when the caller aborts
    */
-  async get<T>(endpoint: string, params?: Record<string, any>): Promise<T> {
+  private async fetchWithTimeout(
+    url: string,
+    init: RequestInit,
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const abort = () => controller.abort();
+    if (signal?.aborted) {
+      abort();
+    }
+    signal?.addEventListener("abort", abort);
+
     try {
-      let url = `${this.baseURL}${endpoint}`;
+      return await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      if (timedOut) {
+        throw new APITimeoutError(`Request timed out after ${timeoutMs}ms`);
+      }
+      if (isAbortError(error)) {
+        throw error;
+      }
+      throw new APINetworkError(
+        error instanceof Error ? error.message : "Network request failed"
+      );
+    } finally {
+      clearTimeout(timeout);
+      signal?.removeEventListener("abort", abort);
+    }
+  }
 
-      if (params) {
-        const queryString = new URLSearchParams(params).toString();
+  /**
+   * Send a request with retries and a single token refresh on 401
+   */
+  private async request<T>(
+    method: HTTPMethod,
+    endpoint: string,
+    body: { data?: any; isFormData?: boolean; params?: Record<string, any> },
+    options: RequestOptions = {}
+  ): Promise<T> {
+    const {
+      timeoutMs = DEFAULT_TIMEOUT_MS,
+      retries = IDEMPOTENT_METHODS.includes(method) ? DEFAULT_RETRIES : 0,
+      signal,
+    } = options;
+
+    let url = `${this.baseURL}${endpoint}`;
+    if (body.params) {
+      const queryString = toQueryString(body.params);
+      if (queryString) {
         url += `?${queryString}`;
       }
+    }
 
-      const headers = await this.getHeaders();
-      const response = await fetch(url, {
-        method: "GET",
-        headers,
-      });
+    let requestBody: BodyInit | undefined;
+    if (body.data !== undefined) {
+      requestBody = body.isFormData ? body.data : JSON.stringify(body.data);
+    }
+
+    let attempt = 0;
+    let refreshedToken = false;
 
-      return await this.handleResponse<T>(response);
+    try {
+      while (true) {
+        try {
+          const headers = await this.getHeaders(
+            body.isFormData,
+            refreshedToken
+          );
+          const response = await this.fetchWithTimeout(
+            url,
+            { method, headers, body: requestBody },
+            timeoutMs,
+            signal
+          );
+          return await this.handleResponse<T>(response);
+        } catch (error) {
+          // An expired token is replayed once with a fresh one
+          if (
+            error instanceof APIAuthError &&
+            error.status === 401 &&
+            !refreshedToken &&
+            auth.currentUser
+          ) {
+            refreshedToken = true;
+            continue;
+          }
+
+          if (attempt >= retries || !isRetryable(error)) {
+            throw error;
+          }
+
+          // An abort during the wait ends the next attempt straight away
+          await waitForRetry(attempt, signal);
+          attempt++;
+        }
+      }
     } catch (error) {
-      console.error(`GET ${endpoint} failed:`, error);
+      if (!isAbortError(error)) {
+        console.error(`${method} ${endpoint} failed:`, error);
+      }
       throw error;
     }
   }
 
+  /**
+   * GET request
+   * Arrays and nested objects in params are serialized in bracket form
+   */
+  async get<T>(
+    endpoint: string,
+    params?: Record<string, any>,
+    options?: RequestOptions
+  ): Promise<T> {
+    return this.request<T>("GET", endpoint, { params }, options);
+  }
+
   /**
    * POST request
+   * Not retried by default - pass options.retries when the endpoint
+   * ignores repeats
    */
   async post<T>(
     endpoint: string,
     data?: any,
-    isFormData: boolean = false
+    isFormData: boolean = false,
+    options?: RequestOptions
   ): Promise<T> {
-    try {
-      const url = `${this.baseURL}${endpoint}`;
-      const headers = await this.getHeaders(isFormData);
-
-      const body = isFormData ? data : JSON.stringify(data);
-
-      const response = await fetch(url, {
-        method: "POST",
-        headers,
-        body,
-      });
-
-      return await this.handleResponse<T>(response);
-    } catch (error) {
-      console.error(`POST ${endpoint} failed:`, error);
-      throw error;
-    }
+    return this.request<T>("POST", endpoint, { data, isFormData }, options);
   }
 
   /**
    * PUT request
    */
-  async put<T>(endpoint: string, data?: any): Promise<T> {
-    try {
-      const url = `${this.baseURL}${endpoint}`;
-      const headers = await this.getHeaders();
-
-      const response = await fetch(url, {
-        method: "PUT",
-        headers,
-        body: JSON.stringify(data),
-      });
-
-      return await this.handleResponse<T>(response);
-    } catch (error) {
-      console.error(`PUT ${endpoint} failed:`, error);
-      throw error;
-    }
+  async put<T>(
+    endpoint: string,
+    data?: any,
+    options?: RequestOptions
+  ): Promise<T> {
+    return this.request<T>("PUT", endpoint, { data }, options);
   }
 
   /**
    * DELETE request
    */
-  async delete<T>(endpoint: string): Promise<T> {
-    try {
-      const url = `${this.baseURL}${endpoint}`;
-      const headers = await this.getHeaders();
+  async delete<T>(endpoint: string, options?: RequestOptions): Promise<T> {
+    return this.request<T>("DELETE", endpoint, {}, options);
+  }
 
-      const response = await fetch(url, {
-        method: "DELETE",
-        headers,
-      });
+  /**
+   * Upload one or more files with progress
+   * Sent over XHR because fetch can't report upload progress. Name, type
+   * and metadata of each file go in a fileMetadata JSON field. Not retried,
+   * but a 401 is replayed once with a refreshed token
+   */
+  async upload<T>(
+    endpoint: string,
+    files: UploadFile | UploadFile[],
+    options: UploadOptions = {}
+  ): Promise<T> {
+    const fileList = Array.isArray(files) ? files : [files];
+    const { fieldName = "file", fields = {} } = options;
+
+    const formData = new FormData();
+    fileList.forEach((file) => {
+      // React Native reads the file from its uri when sending
+      formData.append(fieldName, {
+        uri: file.uri,
+        name: file.name,
+        type: file.type,
+      } as any);
+    });
+    formData.append(
+      "fileMetadata",
+      JSON.stringify(
+        fileList.map((file) => ({
+          ...file.metadata,
+          name: file.name,
+          type: file.type,
+        }))
+      )
+    );
+    Object.entries(fields).forEach(([key, value]) => {
+      if (value === undefined || value === null) return;
+      formData.append(
+        key,
+        typeof value === "string" ? value : JSON.stringify(value)
+      );
+    });
 
-      return await this.handleResponse<T>(response);
+    try {
+      try {
+        return await this.sendUpload<T>(endpoint, formData, options, false);
+      } catch (error) {
+        if (
+          error instanceof APIAuthError &&
+          error.status === 401 &&
+          auth.currentUser
+        ) {
+          return await this.sendUpload<T>(endpoint, formData, options, true);
+        }
+        throw error;
+      }
     } catch (error) {
-      console.error(`DELETE ${endpoint} failed:`, error);
+      if (!isAbortError(error)) {
+        console.error(`UPLOAD ${endpoint} failed:`, error);
+      }
       throw error;
     }
   }
 
   /**
-   * Upload file
+   * Send an upload over XHR, reporting progress as bytes go out
    */
-  async upload<T>(
+  private async sendUpload<T>(
     endpoint: string,
-    file: any,
-    additionalData?: Record<string, any>
+    formData: FormData,
+    options: UploadOptions,
+    forceRefreshToken: boolean
   ): Promise<T> {
-    try {
-      const url = `${this.baseURL}${endpoint}`;
-      const headers = await this.getHeaders(true);
-
-      const formData = new FormData();
-      formData.append("file", file);
-
-      if (additionalData) {
-        Object.keys(additionalData).forEach((key) => {
-          formData.append(key, additionalData[key]);
-        });
+    const {
+      timeoutMs = DEFAULT_UPLOAD_TIMEOUT_MS,
+      signal,
+      onProgress,
+    } = options;
+    const headers = (await this.getHeaders(true, forceRefreshToken)) as Record<
+      string,
+      string
+    >;
+
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortError());
+        return;
       }
 
-      const response = await fetch(url, {
-        method: "POST",
-        headers,
-        body: formData,
+      const xhr = new XMLHttpRequest();
+      const abort = () => xhr.abort();
+
+      xhr.open("POST", `${this.baseURL}${endpoint}`);
+      Object.entries(headers).forEach(([key, value]) => {
+        xhr.setRequestHeader(key, value);
       });
+      xhr.timeout = timeoutMs;
 
-      return await this.handleResponse<T>(response);
-    } catch (error) {
-      console.error(`UPLOAD ${endpoint} failed:`, error);
-      throw error;
-    }
+      xhr.upload.onprogress = (event) => {
+        if (event.lengthComputable) {
+          onProgress?.({ loaded: event.loaded, total: event.total });
+        }
+      };
+
+      xhr.onload = () => {
+        const isJson = xhr
+          .getResponseHeader("content-type")
+          ?.includes("application/json");
+        let data: any = xhr.responseText;
+        if (isJson) {
+          try {
+            data = JSON.parse(xhr.responseText);
+          } catch (e) {
+            // Failed to parse JSON - keep the raw text
+          }
+        }
+
+        if (xhr.status >= 200 && xhr.status < 300) {
+          resolve(data as T);
+          return;
+        }
+
+        const message =
+          (isJson && (data?.message || data?.error)) ||
+          `HTTP ${xhr.status}: ${xhr.statusText}`;
+        reject(toResponseError(xhr.status, message, isJson ? data : null));
+      };
+      xhr.onerror = () => reject(new APINetworkError("Upload failed"));
+      xhr.ontimeout = () =>
+        reject(new APITimeoutError(`Upload timed out after ${timeoutMs}ms`));
+      xhr.onabort = () => reject(createAbortError());
+      xhr.onloadend = () => signal?.removeEventListener("abort", abort);
+
+      signal?.addEventListener("abort", abort);
+      xhr.send(formData);
+    });
   }
 }
 
@@ -0,0 +1,107 @@
+import {
+  doc,
+  setDoc,
+  getDoc,
+  deleteDoc,
+  collection,
+  onSnapshot,
+} from "firebase/firestore";
+import { db } from "../config/firebase";
+
+/**
+ * Blocks are stored per user at users/{userId}/blockedUsers/{blockedUserId}
+ * so a blocked user can check a single document to see whether they were
+ * blocked, without being able to read the rest of the list
+ */
+export interface BlockedUser {
+  blockedUserId: string;
+  createdAt: number;
+}
+
+/**
+ * Block a user
+ */
+export const blockUser = async (
+  userId: string,
+  blockedUserId: string
+): Promise<void> => {
+  if (userId === blockedUserId) {
+    throw new Error("You can't block yourself");
+  }
+
+  try {
+    const blockData: BlockedUser = {
+      blockedUserId,
+      createdAt: Date.now(),
+    };
+    await setDoc(
+      doc(db, "users", userId, "blockedUsers", blockedUserId),
+      blockData
+    );
+  } catch (error) {
+    console.error("Error blocking user:", error);
+    throw error;
+  }
+};
+
+/**
+ * Unblock a user
+ */
+export const unblockUser = async (
+  userId: string,
+  blockedUserId: string
+): Promise<void> => {
+  try {
+    await deleteDoc(doc(db, "users", userId, "blockedUsers", blockedUserId));
+  } catch (error) {
+    console.error("Error unblocking user:", error);
+    throw error;
+  }
+};
+
+/**
+ * Check whether otherUserId has blocked userId
+ */
+export const isBlockedBy = async (
+  userId: string,
+  otherUserId: string
+): Promise<boolean> => {
+  try {
+    const blockDoc = await getDoc(
+      doc(db, "users", otherUserId, "blockedUsers", userId)
+    );
+    return blockDoc.exists();
+  } catch (error) {
+    console.error("Error checking block status:", error);
+    throw error;
+  }
+};
+
+/**
+ * Listen to the list of users blocked by userId
+ */
+export const subscribeToBlockedUsers = (
+  userId: string,
+  callback: (blockedUsers: BlockedUser[]) => void,
+  onError?: (error: Error) => void
+): (() => void) => {
+  try {
+    return onSnapshot(
+      collection(db, "users", userId, "blockedUsers"),
+      (snapshot) => {
+        callback(
+          snapshot.docs
+            .map((d) => d.data() as BlockedUser)
+            .sort((a, b) => b.createdAt - a.createdAt)
+        );
+      },
+      (error) => {
+        console.error("Error listening to blocked users:", error);
+        if (onError) onError(error as Error);
+      }
+    );
+  } catch (error) {
+    console.error("Error setting up blocked users listener:", error);
+    return () => {};
+  }
+};
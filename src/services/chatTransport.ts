@@ -0,0 +1,182 @@
+import { CHAT_BACKEND, ChatBackend } from "../config/chat";
+import {
+  ChatConnectionState,
+  Conversation,
+  Message,
+  OutboxMessage,
+  ParticipantDetails,
+  TypingIndicator,
+  User,
+  UserPresence,
+} from "../@types/chat";
+import type { MediaUploadHandle, UploadProgress } from "./mediaService";
+import { firestoreChatTransport } from "./firestoreChatTransport";
+import { meowChatTransport } from "./meowChatTransport";
+
+export type Unsubscribe = () => void;
+
+/**
+ * Everything ChatContext needs from a chat backend
+ * Implementations deliver our own Conversation and Message types, so
+ * screens never see backend-specific data
+ */
+export interface ChatTransport {
+  name: ChatBackend;
+
+  // Features that are cheap enough to keep on - Firestore charges a write
+  // for every typing or presence update. attachments is off where the
+  // backend has nowhere to upload files to
+  capabilities: {
+    typing: boolean;
+    presence: boolean;
+    attachments: boolean;
+  };
+
+  // Conversations
+  subscribeToConversations: (
+    userId: string,
+    onChange: (conversations: Conversation[]) => void,
+    onError: (error: Error) => void
+  ) => Unsubscribe;
+  getConversations: (userId: string) => Promise<Conversation[]>;
+  getOrCreateDirectConversation: (
+    userId: string,
+    otherUserId: string,
+    userProfile: User,
+    otherUserProfile: User
+  ) => Promise<Conversation>;
+  createGroupConversation: (
+    creatorId: string,
+    creatorProfile: User,
+    memberProfiles: User[],
+    name: string
+  ) => Promise<Conversation>;
+  markConversationDelivered: (
+    conversationId: string,
+    userId: string,
+    timestamp: number
+  ) => Promise<void>;
+  markConversationRead: (
+    conversationId: string,
+    userId: string,
+    sendReadReceipts: boolean
+  ) => Promise<void>;
+  clearUnreadCount: (conversationId: string, userId: string) => Promise<void>;
+  // Hide the history up to now, for this user only
+  clearConversation: (conversationId: string, userId: string) => Promise<void>;
+  // Remove the conversation from this user's list
+  deleteConversation: (conversationId: string, userId: string) => Promise<void>;
+
+  // Groups - actorName goes into the system message describing the change
+  addGroupMembers: (
+    conversationId: string,
+    actorId: string,
+    actorName: string,
+    members: (Pick<ParticipantDetails, "uid" | "username"> &
+      Partial<ParticipantDetails>)[]
+  ) => Promise<void>;
+  removeGroupMember: (
+    conversationId: string,
+    actorId: string,
+    actorName: string,
+    memberId: string,
+    memberName: string
+  ) => Promise<void>;
+  leaveGroup: (
+    conversationId: string,
+    userId: string,
+    userName: string
+  ) => Promise<void>;
+  setGroupAdmin: (
+    conversationId: string,
+    userId: string,
+    isAdmin: boolean
+  ) => Promise<void>;
+  updateGroupDetails: (
+    conversationId: string,
+    actorId: string,
+    actorName: string,
+    updates: { name?: string; avatarUrl?: string }
+  ) => Promise<void>;
+
+  // Messages
+  // The live window covers the newest windowSize messages, oldest first
+  subscribeToMessages: (
+    conversationId: string,
+    windowSize: number,
+    onChange: (messages: Message[]) => void,
+    onError: (error: Error) => void
+  ) => Unsubscribe;
+  // Up to pageSize + 1 messages older than `before`, oldest first - the
+  // extra message only signals that there are more pages
+  getMessagesPage: (
+    conversationId: string,
+    pageSize: number,
+    before?: Message
+  ) => Promise<Message[]>;
+  createMessageId: (conversationId: string) => string;
+  sendMessage: (item: OutboxMessage) => Promise<void>;
+  editMessage: (
+    conversationId: string,
+    messageId: string,
+    text: string
+  ) => Promise<void>;
+  deleteMessage: (conversationId: string, messageId: string) => Promise<void>;
+  markMessagesRead: (
+    conversationId: string,
+    messageIds: string[],
+    userId: string
+  ) => Promise<void>;
+  // Upload an attachment before sending it - the resulting URL goes into
+  // the message's mediaUrls. Only called when capabilities.attachments is on
+  startMediaUpload: (
+    fileUri: string,
+    conversationId: string,
+    userId: string,
+    mimeType?: string,
+    onProgress?: (progress: UploadProgress) => void
+  ) => MediaUploadHandle;
+
+  // Reactions
+  setReaction: (
+    conversationId: string,
+    messageId: string,
+    userId: string,
+    emoji: string
+  ) => Promise<void>;
+  removeReaction: (
+    conversationId: string,
+    messageId: string,
+    userId: string
+  ) => Promise<void>;
+
+  // Typing
+  setTyping: (
+    conversationId: string,
+    userId: string,
+    username: string,
+    isTyping: boolean
+  ) => Promise<void>;
+  subscribeToTyping: (
+    conversationId: string,
+    onChange: (typingUsers: TypingIndicator[]) => void
+  ) => Unsubscribe;
+
+  // Presence
+  updatePresence: (userId: string, isOnline: boolean) => Promise<void>;
+  subscribeToPresence: (
+    userIds: string[],
+    onChange: (presences: { [userId: string]: UserPresence | null }) => void
+  ) => Unsubscribe;
+
+  // Connection - called with the current state first, then on every change
+  subscribeToConnectionState: (
+    onChange: (state: ChatConnectionState) => void
+  ) => Unsubscribe;
+}
+
+/**
+ * The chat backend selected with EXPO_PUBLIC_CHAT_BACKEND
+ */
+export const chatTransport: ChatTransport =
+  CHAT_BACKEND === "meowchat" ? meowChatTransport : firestoreChatTransport;
@@ -1,4 +1,10 @@
-import { Message, Conversation } from "../@types/chat";
+import {
+  Message,
+  Conversation,
+  MessageReceipt,
+  MessageStatus,
+  OutboxMessage,
+} from "../@types/chat";
 
 /**
  * Format timestamp to readable time string
@@ -85,6 +91,13 @@ export const isMessageDeleted = (message: Message): boolean => {
   return !!message.deletedAt;
 };
 
+/**
+ * Check if message was removed by a moderator
+ */
+export const isMessageHidden = (message: Message): boolean => {
+  return !!message.hiddenAt;
+};
+
 /**
  * Check if message has media
  */
@@ -92,6 +105,15 @@ export const messageHasMedia = (message: Message): boolean => {
   return !!(message.mediaUrls && message.mediaUrls.length > 0);
 };
 
+/**
+ * Get a readable file name from a media download URL
+ */
+export const getMediaFileName = (url: string): string => {
+  const path = decodeURIComponent(url.split("?")[0]);
+  const name = path.substring(path.lastIndexOf("/") + 1);
+  return name || "Attachment";
+};
+
 /**
  * Get message preview text (for conversation list)
  */
@@ -102,6 +124,10 @@ export const getMessagePreview = (message: Message | null): string => {
     return "[Message deleted]";
   }
 
+  if (isMessageHidden(message)) {
+    return "[Message removed]";
+  }
+
   if (messageHasMedia(message)) {
     const mediaCount = message.mediaUrls?.length || 0;
     return `📎 ${mediaCount} attachment${mediaCount > 1 ? "s" : ""}`;
@@ -113,6 +139,26 @@ export const getMessagePreview = (message: Message | null): string => {
     : message.text;
 };
 
+/**
+ * Aggregate per-user reactions into emoji chips, most used first
+ */
+export const aggregateReactions = (
+  message: Message
+): Array<{ emoji: string; count: number; userIds: string[] }> => {
+  const byEmoji: { [emoji: string]: string[] } = {};
+
+  Object.entries(message.reactions || {}).forEach(([userId, emoji]) => {
+    if (!byEmoji[emoji]) {
+      byEmoji[emoji] = [];
+    }
+    byEmoji[emoji].push(userId);
+  });
+
+  return Object.entries(byEmoji)
+    .map(([emoji, userIds]) => ({ emoji, count: userIds.length, userIds }))
+    .sort((a, b) => b.count - a.count);
+};
+
 /**
  * Sort messages by timestamp (ascending)
  */
@@ -151,6 +197,66 @@ export const userHasReadMessage = (
   return !!(message.readBy && message.readBy[userId]);
 };
 
+/**
+ * Get the receipt state of a message for every recipient
+ * Delivery comes from the conversation's per-user watermark, reads from readBy
+ */
+export const getMessageReceipts = (
+  message: Message,
+  conversation: Conversation
+): MessageReceipt[] => {
+  const recipientIds = conversation.participants.filter(
+    (id) => id !== message.senderId
+  );
+
+  return recipientIds.map((userId) => {
+    const readAt = message.readBy?.[userId];
+    // Older direct-chat messages only have the global isRead flag
+    const legacyRead = message.isRead && recipientIds.length === 1;
+
+    if (readAt || legacyRead) {
+      return { userId, status: "read", readAt };
+    }
+
+    const deliveredUpTo = conversation.deliveredUpTo?.[userId] || 0;
+    return {
+      userId,
+      status: deliveredUpTo >= message.timestamp ? "delivered" : "sent",
+    };
+  });
+};
+
+/**
+ * Summarize receipts - a message is only delivered/read once it is for everyone
+ */
+export const getMessageStatus = (
+  message: Message,
+  conversation: Conversation
+): MessageStatus => {
+  const receipts = getMessageReceipts(message, conversation);
+  if (receipts.length === 0) return "sent";
+
+  if (receipts.every((receipt) => receipt.status === "read")) {
+    return "read";
+  }
+  if (receipts.every((receipt) => receipt.status !== "sent")) {
+    return "delivered";
+  }
+  return "sent";
+};
+
+/**
+ * Get the recipients who have read a message, earliest reader first
+ */
+export const getSeenBy = (
+  message: Message,
+  conversation: Conversation
+): MessageReceipt[] => {
+  return getMessageReceipts(message, conversation)
+    .filter((receipt) => receipt.status === "read")
+    .sort((a, b) => (a.readAt || 0) - (b.readAt || 0));
+};
+
 /**
  * Get unread message count for a conversation
  */
@@ -170,6 +276,7 @@ export const filterDeletedMessages = (messages: Message[]): Message[] => {
 
 /**
  * Get other participant in a two-person conversation
+ * For group conversations use getConversationTitle/getConversationAvatar
  */
 export const getOtherParticipant = (
   conversation: Conversation,
@@ -179,10 +286,102 @@ export const getOtherParticipant = (
 };
 
 /**
- * Check if conversation has unread messages
+ * Check if conversation is a group chat
+ */
+export const isGroupConversation = (conversation: Conversation): boolean => {
+  return conversation.type === "group";
+};
+
+/**
+ * Check if user can manage a group conversation
+ */
+export const isConversationAdmin = (
+  conversation: Conversation,
+  userId: string
+): boolean => {
+  return !!conversation.admins && conversation.admins.includes(userId);
+};
+
+/**
+ * Get the title to show for a conversation (group name or other participant)
  */
-export const hasUnreadMessages = (conversation: Conversation): boolean => {
-  return conversation.unreadCount > 0;
+export const getConversationTitle = (
+  conversation: Conversation,
+  currentUserId: string
+): string => {
+  const details = conversation.participantDetails || {};
+
+  if (isGroupConversation(conversation)) {
+    if (conversation.name) return conversation.name;
+    const names = conversation.participants
+      .filter((id) => id !== currentUserId)
+      .map((id) => details[id]?.displayName)
+      .filter(Boolean);
+    return names.length > 0 ? names.join(", ") : "Group";
+  }
+
+  const otherParticipantId = getOtherParticipant(conversation, currentUserId);
+  return (
+    (otherParticipantId && details[otherParticipantId]?.displayName) ||
+    "Unknown"
+  );
+};
+
+/**
+ * Get the avatar URL to show for a conversation (empty string if none)
+ */
+export const getConversationAvatar = (
+  conversation: Conversation,
+  currentUserId: string
+): string => {
+  if (isGroupConversation(conversation)) {
+    return conversation.avatarUrl || "";
+  }
+
+  const otherParticipantId = getOtherParticipant(conversation, currentUserId);
+  return (
+    (otherParticipantId &&
+      conversation.participantDetails?.[otherParticipantId]?.avatarUrl) ||
+    ""
+  );
+};
+
+/**
+ * Check if message is a system message (member joined, left, etc.)
+ */
+export const isSystemMessage = (message: Message): boolean => {
+  return message.type === "system";
+};
+
+/**
+ * Get a user's unread message count for a conversation
+ */
+export const getUnreadCount = (
+  conversation: Conversation,
+  userId: string
+): number => {
+  return Math.max(0, conversation.unreadCounts?.[userId] || 0);
+};
+
+/**
+ * Get when a user last cleared a conversation - their messages up to this
+ * timestamp are hidden
+ */
+export const getClearedAt = (
+  conversation: Conversation,
+  userId: string
+): number => {
+  return conversation.clearedAt?.[userId] || 0;
+};
+
+/**
+ * Check if conversation has unread messages for a user
+ */
+export const hasUnreadMessages = (
+  conversation: Conversation,
+  userId: string
+): boolean => {
+  return getUnreadCount(conversation, userId) > 0;
 };
 
 /**
@@ -205,12 +404,18 @@ export const isValidMessageText = (text: string): boolean => {
 };
 
 /**
- * Sanitize message text (basic)
+ * Sanitize message text before it is sent
+ * Strips invisible and control characters that can hide words from the
+ * moderation checks or reorder text, and collapses runs of blank space
+ * while keeping line breaks
  */
 export const sanitizeMessageText = (text: string): string => {
   return text
+    .replace(/[\u200B-\u200F\u202A-\u202E\u2060-\u2064\uFEFF]/g, "") // Zero-width and direction overrides
+    .replace(/[\u0000-\u0008\u000B-\u001F\u007F]/g, "") // Control characters other than tab and newline
+    .replace(/[ \t]+/g, " ") // Replace multiple spaces with single space
+    .replace(/\n{3,}/g, "\n\n") // At most one blank line
     .trim()
-    .replace(/\s+/g, " ") // Replace multiple spaces with single space
     .substring(0, 5000); // Limit length
 };
 
@@ -242,12 +447,38 @@ export const createConversationId = (
 };
 
 /**
- * Check if user is blocked in conversation (future feature)
+ * Check if a direct conversation is with a user the current user blocked
+ * Group conversations are never considered blocked as a whole
  */
 export const isUserBlocked = (
   conversation: Conversation,
-  userId: string
+  userId: string,
+  blockedUserIds: string[]
+): boolean => {
+  if (isGroupConversation(conversation)) return false;
+
+  const otherUserId = getOtherParticipant(conversation, userId);
+  return !!otherUserId && blockedUserIds.includes(otherUserId);
+};
+
+/**
+ * Client message ids of the messages a queued outbox item becomes on
+ * backends that send the text and each attachment as separate messages
+ */
+export const getOutboxPartIds = (item: OutboxMessage): string[] => [
+  ...(item.text ? [item.id] : []),
+  ...(item.mediaUrls || []).map((_, index) => `${item.id}_${index}`),
+];
+
+/**
+ * Whether every part of a queued item already came back from the backend
+ * Only backends that echo client message ids can confirm an item this way
+ */
+export const isOutboxItemDelivered = (
+  item: OutboxMessage,
+  messages: Message[]
 ): boolean => {
-  // This is a placeholder for future blocking functionality
-  return false;
+  const partIds = getOutboxPartIds(item);
+  const clientIds = new Set(messages.map((m) => m.clientMessageId));
+  return partIds.length > 0 && partIds.every((id) => clientIds.has(id));
 };
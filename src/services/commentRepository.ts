@@ -0,0 +1,212 @@
+import {
+  collection,
+  doc,
+  updateDoc,
+  runTransaction,
+  writeBatch,
+  onSnapshot,
+  query,
+  where,
+  arrayUnion,
+  arrayRemove,
+  increment,
+  serverTimestamp,
+  QueryDocumentSnapshot,
+  DocumentData,
+} from "firebase/firestore";
+import { db } from "../config/firebase";
+import { Comment, Post } from "../@types/social";
+import { ModerationResult } from "./moderationService";
+import { getPendingReviewFields } from "./textModerationService";
+import { sendNotification } from "./notificationRepository";
+
+// Comments written before timestamps were server-set may store millis,
+// seconds or date strings
+const getMs = (t: any): number => {
+  if (!t) return 0;
+  if (t.toDate) return t.toDate().getTime();
+  if (t.seconds) return t.seconds * 1000;
+  if (typeof t === "number") return t > 1e12 ? t : t * 1000;
+  if (typeof t === "string") {
+    const n = Date.parse(t);
+    return isNaN(n) ? 0 : n;
+  }
+  if (t instanceof Date) return t.getTime();
+  return 0;
+};
+
+// Older comments may be missing likes; pending writes get an estimated
+// createdAt so a comment you just posted sorts and shows as "now"
+const toComment = (snap: QueryDocumentSnapshot<DocumentData>): Comment => {
+  const data = snap.data({ serverTimestamps: "estimate" });
+  return { ...data, id: snap.id, likes: data.likes || [] } as Comment;
+};
+
+/**
+ * Listen to the comments on a post, newest first unless order is "asc"
+ * Hidden comments are included - callers filter them out
+ */
+export const subscribeToPostComments = (
+  postId: string,
+  callback: (comments: Comment[]) => void,
+  order: "asc" | "desc" = "desc",
+  onError?: (error: Error) => void
+): (() => void) => {
+  try {
+    // Sorted here rather than with orderBy, which would leave out comments
+    // without a createdAt
+    return onSnapshot(
+      query(collection(db, "comments"), where("postId", "==", postId)),
+      (snapshot) => {
+        const comments = snapshot.docs.map(toComment);
+        comments.sort((a, b) =>
+          order === "asc"
+            ? getMs(a.createdAt) - getMs(b.createdAt)
+            : getMs(b.createdAt) - getMs(a.createdAt)
+        );
+        callback(comments);
+      },
+      (error) => {
+        console.error("Error listening to comments:", error);
+        if (onError) onError(error as Error);
+      }
+    );
+  } catch (error) {
+    console.error("Error setting up comments listener:", error);
+    return () => {};
+  }
+};
+
+/**
+ * Comment on a post and notify its author
+ * Comments held for review don't notify anyone, and a failed notification
+ * is logged but doesn't fail the comment
+ */
+export const addComment = async (
+  post: Pick<Post, "id" | "userId">,
+  authorId: string,
+  text: string,
+  moderation: ModerationResult
+): Promise<string> => {
+  const commentRef = doc(collection(db, "comments"));
+  const commentId = commentRef.id;
+  try {
+    // The comment and the count go in together or not at all, and
+    // countedCommentId tells the rules which comment the count moved for
+    const batch = writeBatch(db);
+    batch.set(commentRef, {
+      postId: post.id,
+      authorId,
+      text,
+      createdAt: serverTimestamp(),
+      likes: [],
+      ...getPendingReviewFields(moderation),
+    });
+    batch.update(doc(db, "posts", post.id), {
+      commentsCount: increment(1),
+      countedCommentId: commentId,
+    });
+    await batch.commit();
+  } catch (error) {
+    console.error("Error adding comment:", error);
+    throw error;
+  }
+
+  if (moderation.decision !== "hide") {
+    try {
+      await sendNotification({
+        userId: post.userId,
+        fromUserId: authorId,
+        type: "comment",
+        postId: post.id,
+        commentId,
+        commentText: text,
+      });
+    } catch (error) {
+      console.error("Error sending comment notification:", error);
+    }
+  }
+
+  return commentId;
+};
+
+/**
+ * Delete a comment and take it off its post's count
+ * Deleting a comment that's already gone is a no-op, so deleting from two
+ * devices only counts once
+ */
+export const deleteComment = async (
+  commentId: string,
+  postId: string
+): Promise<void> => {
+  try {
+    await runTransaction(db, async (transaction) => {
+      const commentRef = doc(db, "comments", commentId);
+      const postRef = doc(db, "posts", postId);
+      const [commentSnap, postSnap] = await Promise.all([
+        transaction.get(commentRef),
+        transaction.get(postRef),
+      ]);
+      if (!commentSnap.exists()) return;
+
+      transaction.delete(commentRef);
+      if (postSnap.exists()) {
+        transaction.update(postRef, {
+          commentsCount: increment(-1),
+          countedCommentId: commentId,
+        });
+      }
+    });
+  } catch (error) {
+    console.error("Error deleting comment:", error);
+    throw error;
+  }
+};
+
+/**
+ * Like a comment and notify its author
+ * A failed notification is logged but doesn't fail the like
+ */
+export const likeComment = async (
+  comment: Pick<Comment, "id" | "postId" | "authorId" | "text">,
+  userId: string
+): Promise<void> => {
+  try {
+    await updateDoc(doc(db, "comments", comment.id), {
+      likes: arrayUnion(userId),
+    });
+  } catch (error) {
+    console.error("Error liking comment:", error);
+    throw error;
+  }
+
+  try {
+    await sendNotification({
+      userId: comment.authorId,
+      fromUserId: userId,
+      type: "commentLike",
+      postId: comment.postId,
+      commentId: comment.id,
+      commentText: comment.text,
+    });
+  } catch (error) {
+    console.error("Error sending comment like notification:", error);
+  }
+};
+
+/**
+ * Remove a like from a comment
+ */
+export const unlikeComment = async (
+  commentId: string,
+  userId: string
+): Promise<void> => {
+  try {
+    await updateDoc(doc(db, "comments", commentId), {
+      likes: arrayRemove(userId),
+    });
+  } catch (error) {
+    console.error("Error unliking comment:", error);
+    throw error;
+  }
+};
@@ -14,12 +14,95 @@ import {
   deleteDoc,
   arrayUnion,
   arrayRemove,
+  deleteField,
+  increment,
   writeBatch,
+  runTransaction,
   QueryConstraint,
   onSnapshot,
 } from "firebase/firestore";
 import { db } from "../config/firebase";
-import { Conversation, Message, ConversationUser } from "../@types/chat";
+import {
+  Conversation,
+  Message,
+  ConversationUser,
+  ParticipantDetails,
+  SystemEventType,
+} from "../@types/chat";
+
+// Firestore rejects batches with more writes than this
+const MAX_BATCH_WRITES = 500;
+
+/**
+ * Build the denormalized participant entry stored on a conversation
+ */
+const toParticipantDetails = (userData: any): ParticipantDetails => ({
+  uid: userData.uid,
+  username: userData.username,
+  displayName: userData.displayName || userData.username,
+  avatarUrl: userData.avatarUrl || userData.profilePic || "",
+});
+
+/**
+ * Join display names for system messages ("A", "A and B", "A, B and C")
+ */
+const formatNameList = (names: string[]): string => {
+  if (names.length <= 1) return names[0] || "";
+  return `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+};
+
+/**
+ * Build a system message document and the conversation fields it updates
+ */
+const buildSystemMessage = (
+  conversationId: string,
+  actorId: string,
+  actorName: string,
+  eventType: SystemEventType,
+  text: string,
+  targetIds?: string[]
+) => {
+  const messageId = doc(
+    collection(db, "conversations", conversationId, "messages")
+  ).id;
+  const now = Date.now();
+
+  const messageData: Message = {
+    id: messageId,
+    conversationId,
+    type: "system",
+    systemEvent: {
+      type: eventType,
+      actorId,
+      ...(targetIds && targetIds.length > 0 ? { targetIds } : {}),
+    },
+    senderId: actorId,
+    senderName: actorName,
+    senderAvatar: "",
+    text,
+    timestamp: now,
+    isRead: false,
+    readBy: {
+      [actorId]: now,
+    },
+  };
+
+  return {
+    messageRef: doc(db, "conversations", conversationId, "messages", messageId),
+    messageData,
+    conversationUpdates: {
+      lastMessage: {
+        id: messageId,
+        type: "system",
+        text: text.substring(0, 50),
+        senderId: actorId,
+        senderName: actorName,
+      },
+      lastMessageTimestamp: now,
+      updatedAt: now,
+    },
+  };
+};
 
 /**
  * Create a new conversation between two users
@@ -35,6 +118,7 @@ export const createConversation = async (
 
   const conversationData: Conversation = {
     id: conversationId,
+    type: "direct",
     participants: [currentUserId, otherUserId],
     participantDetails: {
       [currentUserId]: {
@@ -55,7 +139,10 @@ export const createConversation = async (
     lastMessageTimestamp: now,
     createdAt: now,
     updatedAt: now,
-    unreadCount: 0,
+    unreadCounts: {
+      [currentUserId]: 0,
+      [otherUserId]: 0,
+    },
     isArchived: false,
   };
 
@@ -162,6 +249,285 @@ export const getOrCreateConversation = async (
   }
 };
 
+/**
+ * Create a new group conversation
+ */
+export const createGroupConversation = async (
+  creatorId: string,
+  creatorData: any,
+  membersData: any[],
+  name: string,
+  avatarUrl?: string
+): Promise<Conversation> => {
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    throw new Error("Group name is required");
+  }
+
+  const members = membersData.filter(
+    (member, index, all) =>
+      member.uid !== creatorId &&
+      all.findIndex((m) => m.uid === member.uid) === index
+  );
+  if (members.length < 2) {
+    throw new Error("A group needs at least two other members");
+  }
+
+  const conversationId = doc(collection(db, "conversations")).id;
+  const now = Date.now();
+  const creatorDetails = toParticipantDetails({
+    uid: creatorId,
+    ...creatorData,
+  });
+
+  const participantDetails: Conversation["participantDetails"] = {
+    [creatorId]: creatorDetails,
+  };
+  members.forEach((member) => {
+    participantDetails[member.uid] = toParticipantDetails(member);
+  });
+
+  const systemMessage = buildSystemMessage(
+    conversationId,
+    creatorId,
+    creatorDetails.displayName,
+    "group_created",
+    `${creatorDetails.displayName} created the group "${trimmedName}"`,
+    members.map((m) => m.uid)
+  );
+
+  const conversationData: Conversation = {
+    id: conversationId,
+    type: "group",
+    name: trimmedName,
+    avatarUrl: avatarUrl || "",
+    admins: [creatorId],
+    createdBy: creatorId,
+    participants: [creatorId, ...members.map((m) => m.uid)],
+    participantDetails,
+    lastMessage: null,
+    lastMessageTimestamp: now,
+    createdAt: now,
+    updatedAt: now,
+    unreadCounts: Object.fromEntries(
+      [creatorId, ...members.map((m) => m.uid)].map((id) => [id, 0])
+    ),
+    isArchived: false,
+  };
+
+  try {
+    const batch = writeBatch(db);
+    batch.set(doc(db, "conversations", conversationId), {
+      ...conversationData,
+      ...systemMessage.conversationUpdates,
+    });
+    batch.set(systemMessage.messageRef, systemMessage.messageData);
+    await batch.commit();
+
+    console.log("[ConversationService] Created group conversation:", {
+      id: conversationId,
+      participants: conversationData.participants.length,
+    });
+
+    return {
+      ...conversationData,
+      ...systemMessage.conversationUpdates,
+    } as Conversation;
+  } catch (error) {
+    console.error("Error creating group conversation:", error);
+    throw error;
+  }
+};
+
+/**
+ * Add members to a group conversation
+ */
+export const addGroupMembers = async (
+  conversationId: string,
+  actorId: string,
+  actorName: string,
+  membersData: any[]
+): Promise<void> => {
+  if (membersData.length === 0) return;
+
+  try {
+    const memberIds = membersData.map((m) => m.uid);
+    const systemMessage = buildSystemMessage(
+      conversationId,
+      actorId,
+      actorName,
+      "members_added",
+      `${actorName} added ${formatNameList(
+        membersData.map((m) => m.displayName || m.username)
+      )}`,
+      memberIds
+    );
+
+    const updates: { [field: string]: any } = {
+      ...systemMessage.conversationUpdates,
+      participants: arrayUnion(...memberIds),
+      // Re-added members should see the group again if they had hidden it
+      deletedBy: arrayRemove(...memberIds),
+    };
+    membersData.forEach((member) => {
+      updates[`participantDetails.${member.uid}`] =
+        toParticipantDetails(member);
+      updates[`unreadCounts.${member.uid}`] = 0;
+    });
+
+    const batch = writeBatch(db);
+    batch.update(doc(db, "conversations", conversationId), updates);
+    batch.set(systemMessage.messageRef, systemMessage.messageData);
+    await batch.commit();
+  } catch (error) {
+    console.error("Error adding group members:", error);
+    throw error;
+  }
+};
+
+/**
+ * Remove a member from a group conversation
+ * When the actor removes themselves this is recorded as leaving the group
+ */
+export const removeGroupMember = async (
+  conversationId: string,
+  actorId: string,
+  actorName: string,
+  memberId: string,
+  memberName: string
+): Promise<void> => {
+  try {
+    const conversationRef = doc(db, "conversations", conversationId);
+    const isLeaving = actorId === memberId;
+    const systemMessage = buildSystemMessage(
+      conversationId,
+      actorId,
+      actorName,
+      isLeaving ? "member_left" : "member_removed",
+      isLeaving
+        ? `${memberName} left the group`
+        : `${actorName} removed ${memberName}`,
+      [memberId]
+    );
+
+    // Read and write participants and admins together so concurrent
+    // removals or admin changes can't undo each other
+    await runTransaction(db, async (transaction) => {
+      const conversationDoc = await transaction.get(conversationRef);
+      if (!conversationDoc.exists()) {
+        throw new Error("Conversation not found");
+      }
+
+      const conversation = conversationDoc.data() as Conversation;
+      const remainingParticipants = conversation.participants.filter(
+        (id) => id !== memberId
+      );
+      const remainingAdmins = (conversation.admins || []).filter(
+        (id) => id !== memberId
+      );
+
+      // Never leave a group without an admin
+      if (remainingAdmins.length === 0 && remainingParticipants.length > 0) {
+        remainingAdmins.push(remainingParticipants[0]);
+      }
+
+      transaction.update(conversationRef, {
+        ...systemMessage.conversationUpdates,
+        participants: remainingParticipants,
+        admins: remainingAdmins,
+        [`participantDetails.${memberId}`]: deleteField(),
+        [`unreadCounts.${memberId}`]: deleteField(),
+      });
+      transaction.set(systemMessage.messageRef, systemMessage.messageData);
+    });
+  } catch (error) {
+    console.error("Error removing group member:", error);
+    throw error;
+  }
+};
+
+/**
+ * Leave a group conversation
+ */
+export const leaveGroupConversation = async (
+  conversationId: string,
+  userId: string,
+  userName: string
+): Promise<void> => {
+  return removeGroupMember(conversationId, userId, userName, userId, userName);
+};
+
+/**
+ * Update the name and/or avatar of a group conversation
+ */
+export const updateGroupDetails = async (
+  conversationId: string,
+  actorId: string,
+  actorName: string,
+  updates: { name?: string; avatarUrl?: string }
+): Promise<void> => {
+  try {
+    const batch = writeBatch(db);
+    const conversationRef = doc(db, "conversations", conversationId);
+    const fields: { [field: string]: any } = { updatedAt: Date.now() };
+
+    if (updates.name !== undefined) {
+      const trimmedName = updates.name.trim();
+      if (!trimmedName) {
+        throw new Error("Group name is required");
+      }
+      const systemMessage = buildSystemMessage(
+        conversationId,
+        actorId,
+        actorName,
+        "group_renamed",
+        `${actorName} renamed the group to "${trimmedName}"`
+      );
+      Object.assign(fields, systemMessage.conversationUpdates);
+      fields.name = trimmedName;
+      batch.set(systemMessage.messageRef, systemMessage.messageData);
+    }
+
+    if (updates.avatarUrl !== undefined) {
+      const systemMessage = buildSystemMessage(
+        conversationId,
+        actorId,
+        actorName,
+        "group_avatar_changed",
+        `${actorName} changed the group photo`
+      );
+      Object.assign(fields, systemMessage.conversationUpdates);
+      fields.avatarUrl = updates.avatarUrl;
+      batch.set(systemMessage.messageRef, systemMessage.messageData);
+    }
+
+    batch.update(conversationRef, fields);
+    await batch.commit();
+  } catch (error) {
+    console.error("Error updating group details:", error);
+    throw error;
+  }
+};
+
+/**
+ * Grant or revoke admin rights for a group member
+ */
+export const setGroupAdmin = async (
+  conversationId: string,
+  userId: string,
+  isAdmin: boolean
+): Promise<void> => {
+  try {
+    await updateDoc(doc(db, "conversations", conversationId), {
+      admins: isAdmin ? arrayUnion(userId) : arrayRemove(userId),
+      updatedAt: Date.now(),
+    });
+  } catch (error) {
+    console.error("Error updating group admin:", error);
+    throw error;
+  }
+};
+
 /**
  * Get a conversation by ID
  */
@@ -243,8 +609,17 @@ export const getUserConversationsPaginated = async (
   }
 };
 
+/**
+ * Generate a message id on the client without a network round-trip
+ */
+export const createMessageId = (conversationId: string): string => {
+  return doc(collection(db, "conversations", conversationId, "messages")).id;
+};
+
 /**
  * Send a message in a conversation
+ * recipientIds get their unread counter incremented atomically
+ * Pass a clientMessageId to make the send safe to retry
  */
 export const sendMessage = async (
   conversationId: string,
@@ -254,12 +629,28 @@ export const sendMessage = async (
   text: string,
   mediaUrls?: string[],
   mediaTypes?: string[],
-  replyTo?: Message["replyTo"]
+  replyTo?: Message["replyTo"],
+  recipientIds: string[] = [],
+  clientMessageId?: string,
+  mediaThumbnails?: string[]
 ): Promise<Message> => {
   try {
-    const messageId = doc(
-      collection(db, "conversations", conversationId, "messages")
-    ).id;
+    const messagesRef = collection(
+      db,
+      "conversations",
+      conversationId,
+      "messages"
+    );
+    const messageId = clientMessageId || createMessageId(conversationId);
+
+    // A retried send may have already reached Firestore - don't write it twice
+    if (clientMessageId) {
+      const existing = await getDoc(doc(messagesRef, messageId));
+      if (existing.exists()) {
+        return { id: existing.id, ...existing.data() } as Message;
+      }
+    }
+
     const now = Date.now();
 
     const messageData: any = {
@@ -283,17 +674,13 @@ export const sendMessage = async (
     if (mediaTypes && mediaTypes.length > 0) {
       messageData.mediaTypes = mediaTypes;
     }
+    if (mediaThumbnails && mediaThumbnails.length > 0) {
+      messageData.mediaThumbnails = mediaThumbnails;
+    }
     if (replyTo) {
       messageData.replyTo = replyTo;
     }
 
-    const messagesRef = collection(
-      db,
-      "conversations",
-      conversationId,
-      "messages"
-    );
-
     console.log("[ConversationService] Sending message with data:", {
       id: messageData.id,
       hasMediaUrls: !!messageData.mediaUrls,
@@ -301,27 +688,42 @@ export const sendMessage = async (
       hasReplyTo: !!messageData.replyTo,
     });
 
-    // Write message and update conversation in parallel
+    // Write the message and update the conversation in one batch, so a
+    // retried send never finds the message without its conversation update
     const conversationRef = doc(db, "conversations", conversationId);
 
-    // Use setDoc with merge to preserve participantDetails
-    await Promise.all([
-      setDoc(doc(messagesRef, messageId), messageData),
-      setDoc(
-        conversationRef,
-        {
-          lastMessage: {
-            id: messageId,
-            text: text.substring(0, 50),
-            senderId,
-            senderName,
-          },
-          lastMessageTimestamp: now,
-          updatedAt: now,
+    const unreadCounts: { [userId: string]: any } = {};
+    recipientIds
+      .filter((id) => id !== senderId)
+      .forEach((id) => {
+        unreadCounts[id] = increment(1);
+      });
+
+    const batch = writeBatch(db);
+    batch.set(doc(messagesRef, messageId), messageData);
+    // Merge to preserve participantDetails
+    batch.set(
+      conversationRef,
+      {
+        lastMessage: {
+          id: messageId,
+          text: text.substring(0, 50),
+          senderId,
+          senderName,
+          ...(messageData.mediaUrls
+            ? {
+                mediaUrls: messageData.mediaUrls,
+                mediaTypes: messageData.mediaTypes || [],
+              }
+            : {}),
         },
-        { merge: true }
-      ),
-    ]);
+        lastMessageTimestamp: now,
+        updatedAt: now,
+        ...(Object.keys(unreadCounts).length > 0 ? { unreadCounts } : {}),
+      },
+      { merge: true }
+    );
+    await batch.commit();
 
     return messageData;
   } catch (error) {
@@ -400,7 +802,6 @@ export const markMessageAsRead = async (
       messageId
     );
     await updateDoc(messageRef, {
-      isRead: true,
       [`readBy.${userId}`]: Date.now(),
     });
   } catch (error) {
@@ -409,39 +810,115 @@ export const markMessageAsRead = async (
   }
 };
 
+/**
+ * Mark several messages as read by a user in one batch
+ */
+export const markMessagesAsRead = async (
+  conversationId: string,
+  messageIds: string[],
+  userId: string
+): Promise<void> => {
+  if (messageIds.length === 0) return;
+
+  try {
+    const now = Date.now();
+    const batch = writeBatch(db);
+
+    messageIds.forEach((messageId) => {
+      batch.update(
+        doc(db, "conversations", conversationId, "messages", messageId),
+        { [`readBy.${userId}`]: now }
+      );
+    });
+
+    await batch.commit();
+  } catch (error) {
+    console.error("Error marking messages as read:", error);
+    throw error;
+  }
+};
+
+/**
+ * Record that messages up to a timestamp reached a user's device
+ * Stored as a per-user watermark on the conversation so delivery costs
+ * one write per snapshot instead of one per message
+ */
+export const markConversationDelivered = async (
+  conversationId: string,
+  userId: string,
+  timestamp: number
+): Promise<void> => {
+  try {
+    await updateDoc(doc(db, "conversations", conversationId), {
+      [`deliveredUpTo.${userId}`]: timestamp,
+    });
+  } catch (error) {
+    console.error("Error marking conversation as delivered:", error);
+    throw error;
+  }
+};
+
 /**
  * Mark all messages in conversation as read
+ * With sendReadReceipts off only the user's unread counter is cleared
  */
 export const markConversationAsRead = async (
   conversationId: string,
-  userId: string
+  userId: string,
+  sendReadReceipts: boolean = true
 ): Promise<void> => {
   try {
+    if (!sendReadReceipts) {
+      await clearConversationUnreadCount(conversationId, userId);
+      return;
+    }
+
     const messagesRef = collection(
       db,
       "conversations",
       conversationId,
       "messages"
     );
-    const q = query(messagesRef, where("readBy", "!=", null));
+    const snapshot = await getDocs(
+      query(messagesRef, where("senderId", "!=", userId))
+    );
 
-    const snapshot = await getDocs(q);
-    const batch = writeBatch(db);
+    // Only messages this user hasn't read yet, so earlier read times
+    // aren't overwritten
+    const unreadRefs = snapshot.docs
+      .filter((messageDoc) => !messageDoc.data().readBy?.[userId])
+      .map((messageDoc) => messageDoc.ref);
 
-    snapshot.docs.forEach((doc) => {
-      batch.update(doc.ref, {
-        [`readBy.${userId}`]: Date.now(),
+    const now = Date.now();
+    for (let i = 0; i < unreadRefs.length; i += MAX_BATCH_WRITES) {
+      const batch = writeBatch(db);
+      unreadRefs.slice(i, i + MAX_BATCH_WRITES).forEach((messageRef) => {
+        batch.update(messageRef, { [`readBy.${userId}`]: now });
       });
-    });
+      await batch.commit();
+    }
 
-    await batch.commit();
+    // Clear only this user's unread counter
+    await clearConversationUnreadCount(conversationId, userId);
+  } catch (error) {
+    console.error("Error marking conversation as read:", error);
+    throw error;
+  }
+};
 
-    // Update conversation unread count
+/**
+ * Reset a user's unread counter for a conversation
+ */
+export const clearConversationUnreadCount = async (
+  conversationId: string,
+  userId: string
+): Promise<void> => {
+  try {
     await updateDoc(doc(db, "conversations", conversationId), {
-      unreadCount: 0,
+      [`unreadCounts.${userId}`]: 0,
     });
   } catch (error) {
-    console.error("Error marking conversation as read:", error);
+    console.error("Error clearing conversation unread count:", error);
     throw error;
   }
 };
@@ -497,6 +974,57 @@ export const deleteMessage = async (
   }
 };
 
+/**
+ * Set the current user's reaction on a message (one emoji per user)
+ */
+export const setMessageReaction = async (
+  conversationId: string,
+  messageId: string,
+  userId: string,
+  emoji: string
+): Promise<void> => {
+  try {
+    const messageRef = doc(
+      db,
+      "conversations",
+      conversationId,
+      "messages",
+      messageId
+    );
+    await updateDoc(messageRef, {
+      [`reactions.${userId}`]: emoji,
+    });
+  } catch (error) {
+    console.error("Error setting message reaction:", error);
+    throw error;
+  }
+};
+
+/**
+ * Remove the current user's reaction from a message
+ */
+export const removeMessageReaction = async (
+  conversationId: string,
+  messageId: string,
+  userId: string
+): Promise<void> => {
+  try {
+    const messageRef = doc(
+      db,
+      "conversations",
+      conversationId,
+      "messages",
+      messageId
+    );
+    await updateDoc(messageRef, {
+      [`reactions.${userId}`]: deleteField(),
+    });
+  } catch (error) {
+    console.error("Error removing message reaction:", error);
+    throw error;
+  }
+};
+
 /**
  * Archive a conversation
  */
@@ -532,38 +1060,18 @@ export const unarchiveConversation = async (
 };
 
 /**
- * Clear all messages in a conversation
+ * Clear a conversation's history for one user
+ * Messages up to now are hidden for them only - the other participants
+ * keep theirs, and only senders can delete messages
  */
 export const clearConversationMessages = async (
-  conversationId: string
+  conversationId: string,
+  userId: string
 ): Promise<void> => {
   try {
-    console.log("[ConversationService] Clearing messages for:", conversationId);
-
-    // Get all messages in the conversation
-    const messagesRef = collection(
-      db,
-      "conversations",
-      conversationId,
-      "messages"
-    );
-    const messagesSnapshot = await getDocs(messagesRef);
-
-    // Delete all messages in batches
-    const batch = writeBatch(db);
-    messagesSnapshot.docs.forEach((doc) => {
-      batch.delete(doc.ref);
-    });
-
-    // Update conversation metadata
-    batch.update(doc(db, "conversations", conversationId), {
-      lastMessage: null,
-      lastMessageTimestamp: Date.now(),
-      updatedAt: Date.now(),
+    await updateDoc(doc(db, "conversations", conversationId), {
+      [`clearedAt.${userId}`]: Date.now(),
     });
-
-    await batch.commit();
-    console.log("[ConversationService] Successfully cleared messages");
   } catch (error) {
     console.error("Error clearing conversation messages:", error);
     throw error;
@@ -601,23 +1109,17 @@ export const deleteConversation = async (
 };
 
 /**
- * Update conversation unread count
+ * Update a user's unread count for a conversation
  */
 export const updateConversationUnreadCount = async (
   conversationId: string,
-  increment: number
+  userId: string,
+  delta: number
 ): Promise<void> => {
   try {
-    const conversationRef = doc(db, "conversations", conversationId);
-    const conversation = await getDoc(conversationRef);
-
-    if (conversation.exists()) {
-      const currentCount = conversation.data().unreadCount || 0;
-      const newCount = Math.max(0, currentCount + increment);
-      await updateDoc(conversationRef, {
-        unreadCount: newCount,
-      });
-    }
+    await updateDoc(doc(db, "conversations", conversationId), {
+      [`unreadCounts.${userId}`]: increment(delta),
+    });
   } catch (error) {
     console.error("Error updating conversation unread count:", error);
     throw error;
@@ -676,6 +1178,8 @@ export const subscribeToUserConversations = (
 
 /**
  * Subscribe to real-time message updates in a conversation
+ * Covers the newest pageSize messages, delivered oldest first;
+ * older history is loaded with getMessagesPaginated
  */
 export const subscribeToConversationMessages = (
   conversationId: string,
@@ -686,14 +1190,16 @@ export const subscribeToConversationMessages = (
   try {
     const q = query(
       collection(db, "conversations", conversationId, "messages"),
-      orderBy("timestamp", "asc"),
+      orderBy("timestamp", "desc"),
       limit(pageSize)
     );
 
     const unsubscribe = onSnapshot(
       q,
       (snapshot) => {
-        const messages = snapshot.docs.map((doc) => doc.data() as Message);
+        const messages = snapshot.docs
+          .map((doc) => doc.data() as Message)
+          .reverse();
         callback(messages);
       },
       (error) => {
@@ -0,0 +1,153 @@
+import { collection, getDocs, query, where } from "firebase/firestore";
+import { db } from "../config/firebase";
+import { Conversation } from "../@types/chat";
+import type { ChatTransport } from "./chatTransport";
+import {
+  subscribeToUserConversations,
+  subscribeToConversationMessages,
+  getMessagesPaginated,
+  getOrCreateConversation,
+  createGroupConversation,
+  createMessageId,
+  sendMessage,
+  editMessage,
+  deleteMessage,
+  markMessagesAsRead,
+  markConversationAsRead,
+  markConversationDelivered,
+  clearConversationUnreadCount,
+  clearConversationMessages,
+  deleteConversation,
+  addGroupMembers,
+  removeGroupMember,
+  leaveGroupConversation,
+  setGroupAdmin,
+  updateGroupDetails,
+  setMessageReaction,
+  removeMessageReaction,
+} from "./conversationService";
+import {
+  updateUserPresence,
+  listenToUsersPresence,
+  setTypingIndicator,
+  listenToTypingIndicators,
+} from "./presenceService";
+import { startMediaUpload } from "./mediaService";
+
+/**
+ * Chat backed by Firestore, through conversationService and presenceService
+ */
+export const firestoreChatTransport: ChatTransport = {
+  name: "firestore",
+
+  // Disabled to reduce Firestore quota usage - each keystroke or presence
+  // change was a write plus a snapshot for every listener
+  capabilities: {
+    typing: false,
+    presence: false,
+    attachments: true,
+  },
+
+  subscribeToConversations: (userId, onChange, onError) =>
+    subscribeToUserConversations(userId, onChange, onError),
+
+  getConversations: async (userId) => {
+    const snapshot = await getDocs(
+      query(
+        collection(db, "conversations"),
+        where("participants", "array-contains", userId)
+      )
+    );
+
+    return snapshot.docs
+      .map((d) => ({ id: d.id, ...d.data() }) as Conversation)
+      .filter((conv) => !conv.isArchived)
+      .sort((a, b) => b.lastMessageTimestamp - a.lastMessageTimestamp);
+  },
+
+  getOrCreateDirectConversation: (
+    userId,
+    otherUserId,
+    userProfile,
+    otherUserProfile
+  ) =>
+    getOrCreateConversation(userId, otherUserId, userProfile, otherUserProfile),
+
+  createGroupConversation: (creatorId, creatorProfile, memberProfiles, name) =>
+    createGroupConversation(creatorId, creatorProfile, memberProfiles, name),
+
+  markConversationDelivered,
+
+  markConversationRead: markConversationAsRead,
+
+  clearUnreadCount: clearConversationUnreadCount,
+
+  clearConversation: clearConversationMessages,
+
+  deleteConversation,
+
+  addGroupMembers,
+
+  removeGroupMember,
+
+  leaveGroup: leaveGroupConversation,
+
+  setGroupAdmin,
+
+  updateGroupDetails,
+
+  subscribeToMessages: (conversationId, windowSize, onChange, onError) =>
+    subscribeToConversationMessages(
+      conversationId,
+      onChange,
+      onError,
+      windowSize
+    ),
+
+  getMessagesPage: getMessagesPaginated,
+
+  createMessageId,
+
+  sendMessage: async (item) => {
+    await sendMessage(
+      item.conversationId,
+      item.senderId,
+      item.senderName,
+      item.senderAvatar,
+      item.text,
+      item.mediaUrls,
+      item.mediaTypes,
+      item.replyTo,
+      item.recipientIds,
+      item.id,
+      item.mediaThumbnails
+    );
+  },
+
+  editMessage,
+
+  deleteMessage,
+
+  markMessagesRead: markMessagesAsRead,
+
+  startMediaUpload,
+
+  setReaction: setMessageReaction,
+
+  removeReaction: removeMessageReaction,
+
+  setTyping: setTypingIndicator,
+
+  subscribeToTyping: listenToTypingIndicators,
+
+  updatePresence: (userId, isOnline) => updateUserPresence(userId, isOnline),
+
+  subscribeToPresence: listenToUsersPresence,
+
+  // The Firestore SDK queues writes and resyncs listeners by itself, and
+  // unsent messages already show as pending, so there is nothing to report
+  subscribeToConnectionState: (onChange) => {
+    onChange("connected");
+    return () => {};
+  },
+};
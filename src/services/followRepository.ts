@@ -0,0 +1,154 @@
+import {
+  collection,
+  doc,
+  onSnapshot,
+  runTransaction,
+  increment,
+} from "firebase/firestore";
+import { db } from "../config/firebase";
+import { FollowEntry, FollowProfile } from "../@types/social";
+import { sendNotification } from "./notificationRepository";
+
+/**
+ * Follows are stored on both sides, at users/{followerId}/following/{targetId}
+ * and users/{targetId}/followers/{followerId}, with a counter on each user
+ */
+export type FollowListType = "followers" | "following";
+
+/**
+ * Listen to whether followerId follows targetId
+ */
+export const subscribeToIsFollowing = (
+  followerId: string,
+  targetId: string,
+  callback: (isFollowing: boolean) => void
+): (() => void) => {
+  try {
+    return onSnapshot(
+      doc(db, "users", followerId, "following", targetId),
+      (snap) => callback(snap.exists()),
+      (error) => {
+        console.error("Error listening to follow status:", error);
+      }
+    );
+  } catch (error) {
+    console.error("Error setting up follow status listener:", error);
+    return () => {};
+  }
+};
+
+/**
+ * Listen to a user's followers or the users they follow
+ */
+export const subscribeToFollowList = (
+  userId: string,
+  type: FollowListType,
+  callback: (entries: FollowEntry[]) => void
+): (() => void) => {
+  try {
+    return onSnapshot(
+      collection(db, "users", userId, type),
+      (snapshot) => {
+        callback(
+          snapshot.docs.map((d) => ({ id: d.id, ...d.data() }) as FollowEntry)
+        );
+      },
+      (error) => {
+        console.error(`Error listening to ${type}:`, error);
+      }
+    );
+  } catch (error) {
+    console.error(`Error setting up ${type} listener:`, error);
+    return () => {};
+  }
+};
+
+/**
+ * Follow a user and notify them
+ * Both entries and both counters are written in one transaction, and
+ * following someone you already follow is a no-op. countedFollowingId tells
+ * the rules which following doc the count moved for
+ */
+export const followUser = async (
+  follower: FollowProfile,
+  target: FollowProfile
+): Promise<void> => {
+  if (follower.uid === target.uid) {
+    throw new Error("You can't follow yourself");
+  }
+
+  try {
+    const followed = await runTransaction(db, async (transaction) => {
+      const followingRef = doc(
+        db,
+        "users",
+        follower.uid,
+        "following",
+        target.uid
+      );
+      if ((await transaction.get(followingRef)).exists()) return false;
+
+      const followedAt = new Date();
+      transaction.set(followingRef, {
+        uid: target.uid,
+        username: target.username || "",
+        avatarUrl: target.avatarUrl || "",
+        followedAt,
+      });
+      transaction.set(doc(db, "users", target.uid, "followers", follower.uid), {
+        uid: follower.uid,
+        username: follower.username || "",
+        avatarUrl: follower.avatarUrl || "",
+        followedAt,
+      });
+      transaction.update(doc(db, "users", follower.uid), {
+        followingCount: increment(1),
+        countedFollowingId: target.uid,
+      });
+      transaction.update(doc(db, "users", target.uid), {
+        followersCount: increment(1),
+      });
+      return true;
+    });
+
+    if (followed) {
+      await sendNotification({
+        userId: target.uid,
+        fromUserId: follower.uid,
+        type: "follow",
+      });
+    }
+  } catch (error) {
+    console.error("Error following user:", error);
+    throw error;
+  }
+};
+
+/**
+ * Unfollow a user
+ * Unfollowing someone you don't follow is a no-op
+ */
+export const unfollowUser = async (
+  followerId: string,
+  targetId: string
+): Promise<void> => {
+  try {
+    await runTransaction(db, async (transaction) => {
+      const followingRef = doc(db, "users", followerId, "following", targetId);
+      if (!(await transaction.get(followingRef)).exists()) return;
+
+      transaction.delete(followingRef);
+      transaction.delete(doc(db, "users", targetId, "followers", followerId));
+      transaction.update(doc(db, "users", followerId), {
+        followingCount: increment(-1),
+        countedFollowingId: targetId,
+      });
+      transaction.update(doc(db, "users", targetId), {
+        followersCount: increment(-1),
+      });
+    });
+  } catch (error) {
+    console.error("Error unfollowing user:", error);
+    throw error;
+  }
+};
@@ -1,48 +1,94 @@
 import {
   ref,
   uploadBytes,
+  uploadBytesResumable,
   getDownloadURL,
   deleteObject,
+  UploadTask,
 } from "firebase/storage";
 import { storage } from "../config/firebase";
-import * as FileSystem from "expo-file-system";
+import * as FileSystem from "expo-file-system/legacy";
+import * as VideoThumbnails from "expo-video-thumbnails";
 
 export type MediaType = "image" | "video" | "file";
 
-interface UploadProgress {
+export interface UploadProgress {
   loaded: number;
   total: number;
 }
 
+export interface UploadedMedia {
+  url: string;
+  type: MediaType;
+  size: number;
+  thumbnailUrl?: string; // poster frame, for videos
+}
+
 /**
- * Convert file URI to blob for upload
+ * Handle for an in-flight upload
+ * pause/resume/cancel return false when the upload is already finished
  */
-const uriToBlob = async (uri: string): Promise<Blob> => {
-  try {
-    // Read file from device
-    const base64Data = await FileSystem.readAsStringAsync(uri, {
-      encoding: FileSystem.EncodingType.Base64,
-    });
+export interface MediaUploadHandle {
+  promise: Promise<UploadedMedia>;
+  pause: () => boolean;
+  resume: () => boolean;
+  cancel: () => boolean;
+}
 
-    // Convert base64 to blob
-    const binaryString = atob(base64Data);
-    const bytes = new Uint8Array(binaryString.length);
+/**
+ * Error thrown when an upload was cancelled through its handle
+ */
+export class UploadCancelledError extends Error {
+  constructor() {
+    super("Upload cancelled");
+    this.name = "UploadCancelledError";
+  }
+}
 
-    for (let i = 0; i < binaryString.length; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
-    }
+/**
+ * Check if an upload error was caused by cancelling it
+ */
+export const isUploadCancelled = (error: unknown): boolean => {
+  return (
+    error instanceof UploadCancelledError ||
+    (error as { code?: string })?.code === "storage/canceled" ||
+    (error as Error)?.name === "AbortError"
+  );
+};
 
-    return new Blob([bytes], { type: "application/octet-stream" });
-  } catch (error) {
-    console.error("Error converting URI to blob:", error);
-    throw error;
-  }
+/**
+ * Get a blob for a file URI without reading it into JS memory
+ * React Native backs XHR blobs natively, so large videos are streamed
+ * from disk instead of going through a base64 string
+ */
+const uriToBlob = (uri: string): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.onload = () => resolve(xhr.response as Blob);
+    xhr.onerror = () => {
+      console.error("Error converting URI to blob:", uri);
+      reject(new TypeError("Failed to read file for upload"));
+    };
+    xhr.responseType = "blob";
+    xhr.open("GET", uri, true);
+    xhr.send(null);
+  });
+};
+
+/**
+ * Release the native memory behind a React Native blob
+ */
+const releaseBlob = (blob: Blob) => {
+  (blob as Blob & { close?: () => void }).close?.();
 };
 
 /**
  * Determine media type from file URI or MIME type
  */
-const determineMediaType = (uri: string, mimeType?: string): MediaType => {
+export const determineMediaType = (
+  uri: string,
+  mimeType?: string
+): MediaType => {
   const mimeStr = mimeType || uri.toLowerCase();
 
   if (
@@ -68,76 +114,222 @@ const getFileExtension = (uri: string): string => {
 };
 
 /**
- * Upload media file to Firebase Storage
+ * Grab the first frame of a video and upload it as a JPEG poster
+ * A video without a poster still plays, so failures are logged and give
+ * undefined instead of failing the upload
  */
-export const uploadMediaFile = async (
+const uploadVideoThumbnail = async (
+  videoUri: string,
+  storagePath: string
+): Promise<string | undefined> => {
+  try {
+    const { uri } = await VideoThumbnails.getThumbnailAsync(videoUri, {
+      time: 0,
+      quality: 0.7,
+    });
+    const blob = await uriToBlob(uri);
+    try {
+      const snapshot = await uploadBytes(ref(storage, storagePath), blob, {
+        contentType: "image/jpeg",
+      });
+      return await getDownloadURL(snapshot.ref);
+    } finally {
+      releaseBlob(blob);
+    }
+  } catch (error) {
+    console.error("Error creating video thumbnail:", error);
+    return undefined;
+  }
+};
+
+/**
+ * Start a resumable upload of a media file to Firebase Storage
+ * Videos also get a poster frame, uploaded once the video is done
+ * Progress is reported in bytes as the upload proceeds
+ */
+export const startMediaUpload = (
   fileUri: string,
   conversationId: string,
   userId: string,
   mimeType?: string,
   onProgress?: (progress: UploadProgress) => void
-): Promise<{ url: string; type: MediaType; size: number }> => {
-  try {
+): MediaUploadHandle => {
+  let task: UploadTask | null = null;
+  let cancelled = false;
+  let paused = false;
+  let finished = false;
+
+  const upload = async (): Promise<UploadedMedia> => {
     const mediaType = determineMediaType(fileUri, mimeType);
     const fileExtension = getFileExtension(fileUri);
     const timestamp = Date.now();
-    const fileName = `${userId}_${timestamp}.${fileExtension}`;
+    // Files picked together start in the same millisecond, so the random
+    // part keeps them from overwriting each other
+    const suffix = Math.random().toString(36).slice(2, 10);
+    const fileName = `${userId}_${timestamp}_${suffix}.${fileExtension}`;
 
     // Create organized path: messages/{conversationId}/{mediaType}/{fileName}
     const storagePath = `messages/${conversationId}/${mediaType}/${fileName}`;
     const storageRef = ref(storage, storagePath);
 
-    // Get file info
-    const fileInfo = await FileSystem.getInfoAsync(fileUri);
-    const fileSize = fileInfo.size || 0;
-
-    // Convert URI to blob
     const blob = await uriToBlob(fileUri);
 
-    // Upload with progress tracking
-    const snapshot = await uploadBytes(storageRef, blob, {
-      customMetadata: {
-        conversationId,
-        userId,
-        mediaType,
-        uploadedAt: new Date().toISOString(),
-      },
+    try {
+      // Cancelled while the file was being opened
+      if (cancelled) {
+        throw new UploadCancelledError();
+      }
+
+      task = uploadBytesResumable(storageRef, blob, {
+        contentType: mimeType,
+        customMetadata: {
+          conversationId,
+          userId,
+          mediaType,
+          uploadedAt: new Date().toISOString(),
+        },
+      });
+
+      // Paused while the file was being opened
+      if (paused) {
+        task.pause();
+      }
+
+      const snapshot = await new Promise<UploadTask["snapshot"]>(
+        (resolve, reject) => {
+          task!.on(
+            "state_changed",
+            (progressSnapshot) => {
+              onProgress?.({
+                loaded: progressSnapshot.bytesTransferred,
+                total: progressSnapshot.totalBytes,
+              });
+            },
+            (error) => {
+              reject(
+                error.code === "storage/canceled"
+                  ? new UploadCancelledError()
+                  : error
+              );
+            },
+            () => resolve(task!.snapshot)
+          );
+        }
+      );
+
+      const downloadUrl = await getDownloadURL(snapshot.ref);
+      const thumbnailUrl =
+        mediaType === "video"
+          ? await uploadVideoThumbnail(
+              fileUri,
+              `messages/${conversationId}/thumbnail/${userId}_${timestamp}_${suffix}.jpg`
+            )
+          : undefined;
+
+      return {
+        url: downloadUrl,
+        type: mediaType,
+        size: snapshot.totalBytes,
+        ...(thumbnailUrl ? { thumbnailUrl } : {}),
+      };
+    } finally {
+      releaseBlob(blob);
+    }
+  };
+
+  const promise = upload()
+    .catch((error) => {
+      if (!isUploadCancelled(error)) {
+        console.error("Error uploading media file:", error);
+      }
+      throw error;
+    })
+    .finally(() => {
+      finished = true;
     });
 
-    // Get download URL
-    const downloadUrl = await getDownloadURL(snapshot.ref);
+  return {
+    promise,
+    pause: () => {
+      if (finished || cancelled) return false;
+      paused = true;
+      return task ? task.pause() : true;
+    },
+    resume: () => {
+      if (finished || cancelled) return false;
+      paused = false;
+      return task ? task.resume() : true;
+    },
+    cancel: () => {
+      if (finished || cancelled) return false;
+      cancelled = true;
+      return task ? task.cancel() : true;
+    },
+  };
+};
 
-    return {
-      url: downloadUrl,
-      type: mediaType,
-      size: fileSize,
-    };
-  } catch (error) {
-    console.error("Error uploading media file:", error);
-    throw error;
-  }
+/**
+ * Upload media file to Firebase Storage
+ */
+export const uploadMediaFile = async (
+  fileUri: string,
+  conversationId: string,
+  userId: string,
+  mimeType?: string,
+  onProgress?: (progress: UploadProgress) => void
+): Promise<UploadedMedia> => {
+  return startMediaUpload(
+    fileUri,
+    conversationId,
+    userId,
+    mimeType,
+    onProgress
+  ).promise;
 };
 
 /**
  * Upload multiple media files
+ * Progress is aggregated across all files in bytes
  */
 export const uploadMediaFiles = async (
   fileUris: string[],
   conversationId: string,
   userId: string,
-  onProgress?: (progress: { completed: number; total: number }) => void
-): Promise<{ url: string; type: MediaType; size: number }[]> => {
+  onProgress?: (progress: UploadProgress) => void
+): Promise<UploadedMedia[]> => {
   try {
-    const results: { url: string; type: MediaType; size: number }[] = [];
-    const total = fileUris.length;
+    // Sizes up front so the total doesn't grow as each upload starts
+    const sizes = await Promise.all(
+      fileUris.map(async (uri) => {
+        const fileInfo = await FileSystem.getInfoAsync(uri);
+        return fileInfo.exists ? fileInfo.size : 0;
+      })
+    );
+    const total = sizes.reduce((sum, size) => sum + size, 0);
+
+    const results: UploadedMedia[] = [];
+    let completedBytes = 0;
 
     for (let i = 0; i < fileUris.length; i++) {
-      const result = await uploadMediaFile(fileUris[i], conversationId, userId);
+      const result = await uploadMediaFile(
+        fileUris[i],
+        conversationId,
+        userId,
+        undefined,
+        (progress) => {
+          onProgress?.({
+            loaded: completedBytes + progress.loaded,
+            total: Math.max(total, completedBytes + progress.total),
+          });
+        }
+      );
       results.push(result);
+      completedBytes += result.size;
 
-      if (onProgress) {
-        onProgress({ completed: i + 1, total });
-      }
+      onProgress?.({
+        loaded: completedBytes,
+        total: Math.max(total, completedBytes),
+      });
     }
 
     return results;
@@ -3,7 +3,7 @@
  * Bridge service for Firebase-authenticated users only (no MongoDB user management)
  */
 
-import apiClient from "./apiClient";
+import apiClient, { UploadFile, UploadOptions } from "./apiClient";
 import { API_ENDPOINTS } from "../config/api";
 
 // Type definitions for MeowChat backend models
@@ -30,6 +30,7 @@ export interface MeowChatMessage {
   readBy: string[];
   reactions: Array<{ user: string; emoji: string }>;
   replyTo?: string;
+  clientMessageId?: string;
 }
 
 export interface MeowChat {
@@ -174,12 +175,17 @@ export const meowChatMessageAPI = {
     messageData: {
       content: string;
       type?: "text" | "image" | "file";
+      fileUrl?: string; // already uploaded attachment
       replyTo?: string;
+      clientMessageId?: string; // repeated sends with the same id are stored once
     }
   ): Promise<MeowChatMessage> => {
+    // Safe to retry - a repeated clientMessageId is stored once
     return await apiClient.post(
       API_ENDPOINTS.MESSAGES.SEND(chatId),
-      messageData
+      messageData,
+      false,
+      { retries: messageData.clientMessageId ? 2 : 0 }
     );
   },
 
@@ -203,18 +209,18 @@ export const meowChatMessageAPI = {
   },
 
   /**
-   * Upload file/image with message
+   * Upload a file and post it as a message
    */
   uploadMessage: async (
     chatId: string,
-    file: any,
-    messageData?: { content?: string }
+    file: UploadFile,
+    messageData?: { content?: string },
+    options?: Omit<UploadOptions, "fields">
   ): Promise<MeowChatMessage> => {
-    return await apiClient.upload(
-      API_ENDPOINTS.MESSAGES.UPLOAD(chatId),
-      file,
-      messageData
-    );
+    return await apiClient.upload(API_ENDPOINTS.MESSAGES.UPLOAD(chatId), file, {
+      ...options,
+      fields: messageData,
+    });
   },
 
   /**
@@ -0,0 +1,147 @@
+/**
+ * Maps MeowChat backend models to the app's chat types
+ * MeowChat identifies users by Firebase UID, so ids carry over unchanged
+ */
+
+import { MeowChat, MeowChatMessage, MeowChatUser } from "./meowChatAPI";
+import { SocketMessage } from "./socketService";
+import { Conversation, Message, ParticipantDetails } from "../@types/chat";
+
+// Socket payloads are a subset of the REST message model
+export type MeowChatMessageLike = MeowChatMessage | SocketMessage;
+
+/**
+ * Dates arrive as ISO strings over JSON even though the models say Date
+ */
+export const toTimestamp = (value: Date | string | number | undefined) =>
+  value ? new Date(value).getTime() : 0;
+
+/**
+ * Firebase UID of a user reference - populated users carry it explicitly
+ */
+export const getMeowChatUserId = (
+  user: string | { firebaseUid: string }
+): string => (typeof user === "string" ? user : user.firebaseUid);
+
+const toParticipantDetails = (user: MeowChatUser): ParticipantDetails => ({
+  uid: user.firebaseUid,
+  username: user.username,
+  displayName: user.username,
+  avatarUrl: user.profilePicture || "",
+});
+
+/**
+ * Convert a MeowChat message
+ * replyTo is only an id on the backend; pass the surrounding messages to
+ * fill in the quoted sender and text
+ */
+export const toMessage = (
+  message: MeowChatMessageLike,
+  related: Message[] = []
+): Message => {
+  const sender = message.sender;
+  const timestamp = toTimestamp(message.createdAt);
+  const full = message as Partial<MeowChatMessage>;
+
+  // MeowChat records who read a message but not when - the send time
+  // stands in so receipts still show
+  const readBy: Message["readBy"] = {};
+  (message.readBy || []).forEach((userId) => {
+    readBy[userId] = timestamp;
+  });
+
+  const result: Message = {
+    id: message._id,
+    conversationId: message.chat,
+    senderId: getMeowChatUserId(sender),
+    senderName: typeof sender === "string" ? "" : sender.username,
+    senderAvatar: typeof sender === "string" ? "" : sender.profilePicture || "",
+    text: message.content || "",
+    timestamp,
+    isRead: Object.keys(readBy).length > 1,
+    readBy,
+  };
+
+  if (message.clientMessageId) {
+    result.clientMessageId = message.clientMessageId;
+  }
+
+  if (message.fileUrl) {
+    result.mediaUrls = [message.fileUrl];
+    result.mediaTypes = [message.type === "image" ? "image" : "file"];
+  }
+
+  if (full.reactions && full.reactions.length > 0) {
+    result.reactions = {};
+    full.reactions.forEach((reaction) => {
+      result.reactions![reaction.user] = reaction.emoji;
+    });
+  }
+
+  if (full.replyTo) {
+    const quoted = related.find((m) => m.id === full.replyTo);
+    result.replyTo = {
+      messageId: full.replyTo,
+      senderName: quoted?.senderName || "",
+      text: quoted?.text || "",
+    };
+  }
+
+  return result;
+};
+
+/**
+ * Convert a page of MeowChat messages, oldest first, resolving replies
+ * against each other
+ */
+export const toMessages = (messages: MeowChatMessageLike[]): Message[] => {
+  const plain = messages
+    .map((m) => toMessage(m))
+    .sort((a, b) => a.timestamp - b.timestamp);
+  return messages
+    .map((m) => toMessage(m, plain))
+    .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * Convert a MeowChat chat for the given user
+ * MeowChat keeps no unread counters, so the user's count is 1 while the
+ * latest message from someone else is unread and 0 otherwise
+ */
+export const toConversation = (
+  chat: MeowChat,
+  currentUserId: string
+): Conversation => {
+  const participants: string[] = [];
+  const participantDetails: Conversation["participantDetails"] = {};
+  (chat.participants as Array<string | MeowChatUser>).forEach((p) => {
+    const uid = getMeowChatUserId(p);
+    participants.push(uid);
+    if (typeof p !== "string") {
+      participantDetails[uid] = toParticipantDetails(p);
+    }
+  });
+
+  const lastMessage = chat.lastMessage ? toMessage(chat.lastMessage) : null;
+  const lastActivity = toTimestamp(chat.lastActivity);
+  const hasUnread =
+    !!lastMessage &&
+    lastMessage.senderId !== currentUserId &&
+    !lastMessage.readBy[currentUserId];
+
+  return {
+    id: chat._id,
+    type: chat.type,
+    name: chat.name,
+    createdBy: chat.createdBy,
+    admins: chat.type === "group" ? [chat.createdBy] : undefined,
+    participants,
+    participantDetails,
+    lastMessage,
+    lastMessageTimestamp: lastMessage?.timestamp || lastActivity,
+    createdAt: toTimestamp(chat.createdAt),
+    updatedAt: lastActivity,
+    unreadCounts: { [currentUserId]: hasUnread ? 1 : 0 },
+    isArchived: false,
+  };
+};
@@ -0,0 +1,722 @@
+/**
+ * Chat backed by the MeowChat backend
+ * REST calls load and change data, Socket.IO pushes updates. The latest
+ * known state is cached here so subscribers get complete lists the same
+ * way Firestore snapshots deliver them
+ */
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { auth } from "../config/firebase";
+import {
+  meowChatAuthAPI,
+  meowChatAPI,
+  meowChatMessageAPI,
+  MeowChat,
+  MeowChatMessage,
+} from "./meowChatAPI";
+import socketService, {
+  SendMessagePayload,
+  SocketMessage,
+  TypingIndicator as SocketTypingIndicator,
+  UserStatus,
+} from "./socketService";
+import {
+  MeowChatMessageLike,
+  toConversation,
+  toMessage,
+  toMessages,
+  toTimestamp,
+} from "./meowChatAdapter";
+import { getOutboxPartIds } from "./chatUtils";
+import type { ChatTransport } from "./chatTransport";
+import {
+  Conversation,
+  Message,
+  TypingIndicator,
+  UserPresence,
+} from "../@types/chat";
+
+// Page size used when walking back through history - the backend pages
+// by number, not by cursor
+const HISTORY_PAGE_SIZE = 50;
+
+// Typing indicators are dropped if no update arrives for this long
+const TYPING_TIMEOUT_MS = 5000;
+
+const LOCAL_STATE_KEY_PREFIX = "meowgram-meowchat-local";
+
+/**
+ * Per-user conversation state the backend has no place for - clearing and
+ * hiding a chat only affect this user, so they are kept on the device
+ */
+interface LocalConversationState {
+  clearedAt: { [conversationId: string]: number };
+  hidden: string[];
+}
+
+let authenticatedUserId: string | null = null;
+let authenticating: Promise<unknown> | null = null;
+
+let localState: LocalConversationState = { clearedAt: {}, hidden: [] };
+let localStateUserId: string | null = null;
+
+const conversationsById = new Map<string, Conversation>();
+const messagesByConversation = new Map<string, Map<string, Message>>();
+const conversationListeners = new Set<() => void>();
+const messageListeners = new Map<string, Set<() => void>>();
+
+const getCurrentUserId = () => auth.currentUser?.uid || "";
+
+const sortedConversations = () =>
+  [...conversationsById.values()].sort(
+    (a, b) => b.lastMessageTimestamp - a.lastMessageTimestamp
+  );
+
+const getMessageCache = (conversationId: string) => {
+  let cache = messagesByConversation.get(conversationId);
+  if (!cache) {
+    cache = new Map();
+    messagesByConversation.set(conversationId, cache);
+  }
+  return cache;
+};
+
+const notifyConversations = () => {
+  conversationListeners.forEach((listener) => listener());
+};
+
+const notifyMessages = (conversationId: string) => {
+  messageListeners.get(conversationId)?.forEach((listener) => listener());
+};
+
+const getLocalStateKey = (userId: string) =>
+  `${LOCAL_STATE_KEY_PREFIX}-${userId}`;
+
+const loadLocalState = async (userId: string) => {
+  if (localStateUserId === userId) return;
+  try {
+    const stored = await AsyncStorage.getItem(getLocalStateKey(userId));
+    localState = stored ? JSON.parse(stored) : { clearedAt: {}, hidden: [] };
+  } catch (error) {
+    console.error("[MeowChat] Error loading local chat state:", error);
+    localState = { clearedAt: {}, hidden: [] };
+  }
+  localStateUserId = userId;
+};
+
+const saveLocalState = async (userId: string) => {
+  try {
+    await AsyncStorage.setItem(
+      getLocalStateKey(userId),
+      JSON.stringify(localState)
+    );
+  } catch (error) {
+    console.error("[MeowChat] Error saving local chat state:", error);
+  }
+};
+
+/**
+ * Convert a chat with this user's local state applied
+ */
+const toLocalConversation = (chat: MeowChat, userId: string) => {
+  const conversation = toConversation(chat, userId);
+  const clearedAt = localState.clearedAt[conversation.id];
+  return clearedAt
+    ? { ...conversation, clearedAt: { [userId]: clearedAt } }
+    : conversation;
+};
+
+const storeConversation = (chat: MeowChat) => {
+  const conversation = toLocalConversation(chat, getCurrentUserId());
+  if (localState.hidden.includes(conversation.id)) {
+    conversationsById.delete(conversation.id);
+  } else {
+    conversationsById.set(conversation.id, conversation);
+  }
+  return conversation;
+};
+
+/**
+ * Drop a conversation this user no longer sees
+ */
+const forgetConversation = (conversationId: string) => {
+  conversationsById.delete(conversationId);
+  messagesByConversation.delete(conversationId);
+  notifyConversations();
+};
+
+/**
+ * Add or replace a message and move it into the conversation preview
+ */
+const storeMessage = (message: Message) => {
+  const cache = getMessageCache(message.conversationId);
+  // Edits and reactions re-store a message that was already counted
+  const isNew = !cache.has(message.id);
+  cache.set(message.id, message);
+
+  const conversation = conversationsById.get(message.conversationId);
+  if (conversation && message.timestamp >= conversation.lastMessageTimestamp) {
+    const userId = getCurrentUserId();
+    const isUnread =
+      isNew && message.senderId !== userId && !message.readBy[userId];
+    conversationsById.set(conversation.id, {
+      ...conversation,
+      lastMessage: message,
+      lastMessageTimestamp: message.timestamp,
+      updatedAt: message.timestamp,
+      unreadCounts: {
+        ...conversation.unreadCounts,
+        [userId]: isUnread
+          ? (conversation.unreadCounts?.[userId] || 0) + 1
+          : conversation.unreadCounts?.[userId] || 0,
+      },
+    });
+    notifyConversations();
+  }
+  notifyMessages(message.conversationId);
+};
+
+/**
+ * Apply a change to a cached message, wherever it is
+ */
+const updateCachedMessage = (
+  messageId: string,
+  update: (message: Message) => Message
+) => {
+  messagesByConversation.forEach((cache, conversationId) => {
+    const message = cache.get(messageId);
+    if (message) {
+      cache.set(messageId, update(message));
+      notifyMessages(conversationId);
+    }
+  });
+};
+
+const handleNewMessage = (message: SocketMessage) => {
+  storeMessage(toMessage(message));
+};
+
+const handleMessageEdited = (data: { messageId: string; content: string }) => {
+  updateCachedMessage(data.messageId, (m) => ({
+    ...m,
+    text: data.content,
+    editedAt: Date.now(),
+  }));
+};
+
+const handleMessageDeleted = (data: { messageId: string }) => {
+  updateCachedMessage(data.messageId, (m) => ({
+    ...m,
+    text: "[Message deleted]",
+    deletedAt: Date.now(),
+  }));
+};
+
+const handleReactionAdded = (data: {
+  messageId: string;
+  reaction: { user: string; emoji: string };
+}) => {
+  updateCachedMessage(data.messageId, (m) => ({
+    ...m,
+    reactions: { ...m.reactions, [data.reaction.user]: data.reaction.emoji },
+  }));
+};
+
+const handleReactionRemoved = (data: { messageId: string; userId: string }) => {
+  updateCachedMessage(data.messageId, (m) => {
+    const reactions = { ...m.reactions };
+    delete reactions[data.userId];
+    return { ...m, reactions };
+  });
+};
+
+const handleChatChanged = (chat: MeowChat) => {
+  storeConversation(chat);
+  notifyConversations();
+};
+
+/**
+ * Socket events keep the cache current for every subscriber
+ * Listeners are kept in sets, so adding them again is harmless
+ */
+const attachSocketListeners = () => {
+  socketService.on("new_message", handleNewMessage);
+  socketService.on("message_edited", handleMessageEdited);
+  socketService.on("message_deleted", handleMessageDeleted);
+  socketService.on("reaction_added", handleReactionAdded);
+  socketService.on("reaction_removed", handleReactionRemoved);
+  socketService.on("chat_created", handleChatChanged);
+  socketService.on("chat_updated", handleChatChanged);
+};
+
+/**
+ * Register the user with the backend and open the socket
+ * Registration happens once per user; the socket reconnects by itself.
+ * A different user gets a new socket, since the old one was authenticated
+ * as the previous account
+ */
+const ensureConnected = async (): Promise<void> => {
+  const userId = getCurrentUserId();
+  if (authenticatedUserId !== userId) {
+    if (authenticatedUserId) {
+      socketService.disconnect();
+      messagesByConversation.clear();
+    }
+    if (!authenticating) {
+      authenticating = meowChatAuthAPI
+        .authenticateWithFirebase()
+        .finally(() => {
+          authenticating = null;
+        });
+    }
+    await authenticating;
+    authenticatedUserId = userId;
+  }
+  await loadLocalState(userId);
+
+  attachSocketListeners();
+  if (!socketService.getSocket()) {
+    await socketService.connect();
+  }
+};
+
+/**
+ * Cache a message returned by a REST call or send acknowledgement - the
+ * socket echo of the same message is deduplicated by id
+ */
+const storeReturnedMessage = (message: MeowChatMessageLike) => {
+  storeMessage(toMessage(message));
+};
+
+/**
+ * Send one message, acknowledged over the socket when it is up and over
+ * REST otherwise
+ * The server stores a clientMessageId only once, so falling back to REST
+ * after a lost acknowledgement does not duplicate the message
+ */
+const sendMessagePart = async (
+  part: SendMessagePayload
+): Promise<MeowChatMessageLike> => {
+  if (socketService.isSocketConnected()) {
+    try {
+      return await socketService.sendMessage(part);
+    } catch (error) {
+      console.warn("[MeowChat] Socket send failed, retrying over REST:", error);
+    }
+  }
+
+  const { chatId, ...messageData } = part;
+  return meowChatMessageAPI.sendMessage(chatId, messageData);
+};
+
+export const meowChatTransport: ChatTransport = {
+  name: "meowchat",
+
+  // Typing and presence travel over the socket at no extra cost. The
+  // backend's only upload route posts a message per file straight away,
+  // which would bypass the outbox, so there are no attachments yet
+  capabilities: {
+    typing: true,
+    presence: true,
+    attachments: false,
+  },
+
+  subscribeToConversations: (userId, onChange, onError) => {
+    let isSubscribed = true;
+    const listener = () => {
+      if (isSubscribed) onChange(sortedConversations());
+    };
+    conversationListeners.add(listener);
+
+    ensureConnected()
+      .then(() => meowChatAPI.getChats())
+      .then((chats) => {
+        conversationsById.clear();
+        chats.forEach(storeConversation);
+        listener();
+      })
+      .catch((error) => {
+        console.error("[MeowChat] Error loading chats:", error);
+        if (isSubscribed) onError(error as Error);
+      });
+
+    return () => {
+      isSubscribed = false;
+      conversationListeners.delete(listener);
+    };
+  },
+
+  getConversations: async (userId) => {
+    await ensureConnected();
+    const chats = await meowChatAPI.getChats();
+    return chats
+      .map((chat) => toLocalConversation(chat, userId))
+      .filter((conv) => !localState.hidden.includes(conv.id))
+      .sort((a, b) => b.lastMessageTimestamp - a.lastMessageTimestamp);
+  },
+
+  getOrCreateDirectConversation: async (userId, otherUserId) => {
+    await ensureConnected();
+    const chats = await meowChatAPI.getChats();
+    const existing = chats
+      .map((chat) => toConversation(chat, userId))
+      .find(
+        (conv) =>
+          conv.type === "direct" &&
+          conv.participants.includes(otherUserId) &&
+          conv.participants.includes(userId)
+      );
+    if (existing) return existing;
+
+    const chat = await meowChatAPI.createChat({
+      type: "direct",
+      participants: [otherUserId],
+    });
+    const conversation = storeConversation(chat);
+    notifyConversations();
+    return conversation;
+  },
+
+  createGroupConversation: async (
+    creatorId,
+    creatorProfile,
+    memberProfiles,
+    name
+  ) => {
+    await ensureConnected();
+    const chat = await meowChatAPI.createChat({
+      type: "group",
+      participants: memberProfiles.map((profile) => profile.uid),
+      name: name.trim(),
+    });
+    const conversation = storeConversation(chat);
+    notifyConversations();
+    return conversation;
+  },
+
+  // MeowChat has no delivery receipts
+  markConversationDelivered: async () => {},
+
+  markConversationRead: async (conversationId, userId, sendReadReceipts) => {
+    if (sendReadReceipts) {
+      getMessageCache(conversationId).forEach((message) => {
+        if (message.senderId !== userId && !message.readBy[userId]) {
+          socketService.markAsRead(message.id);
+        }
+      });
+    }
+    await meowChatTransport.clearUnreadCount(conversationId, userId);
+  },
+
+  clearUnreadCount: async (conversationId, userId) => {
+    const conversation = conversationsById.get(conversationId);
+    if (!conversation || !conversation.unreadCounts?.[userId]) return;
+
+    conversationsById.set(conversationId, {
+      ...conversation,
+      unreadCounts: { ...conversation.unreadCounts, [userId]: 0 },
+    });
+    notifyConversations();
+  },
+
+  clearConversation: async (conversationId, userId) => {
+    await ensureConnected();
+    const clearedAt = Date.now();
+    localState.clearedAt[conversationId] = clearedAt;
+    await saveLocalState(userId);
+
+    const conversation = conversationsById.get(conversationId);
+    if (conversation) {
+      conversationsById.set(conversationId, {
+        ...conversation,
+        clearedAt: { [userId]: clearedAt },
+      });
+      notifyConversations();
+    }
+  },
+
+  // Deleting the chat on the backend would remove it for everyone
+  deleteConversation: async (conversationId, userId) => {
+    await ensureConnected();
+    if (!localState.hidden.includes(conversationId)) {
+      localState.hidden.push(conversationId);
+      await saveLocalState(userId);
+    }
+    forgetConversation(conversationId);
+  },
+
+  // The backend posts its own notices for membership changes, so
+  // actorName isn't sent
+  addGroupMembers: async (conversationId, actorId, actorName, members) => {
+    await ensureConnected();
+    storeConversation(
+      await meowChatAPI.addParticipants(
+        conversationId,
+        members.map((member) => member.uid)
+      )
+    );
+    notifyConversations();
+  },
+
+  removeGroupMember: async (conversationId, actorId, actorName, memberId) => {
+    await ensureConnected();
+    storeConversation(
+      await meowChatAPI.removeParticipant(conversationId, memberId)
+    );
+    notifyConversations();
+  },
+
+  leaveGroup: async (conversationId, userId) => {
+    await ensureConnected();
+    await meowChatAPI.removeParticipant(conversationId, userId);
+    forgetConversation(conversationId);
+  },
+
+  // MeowChat groups are managed by their creator alone
+  setGroupAdmin: async () => {
+    throw new Error("MeowChat groups can't have other admins");
+  },
+
+  updateGroupDetails: async (conversationId, actorId, actorName, updates) => {
+    if (updates.avatarUrl !== undefined) {
+      throw new Error("MeowChat groups can't have an avatar");
+    }
+    if (updates.name === undefined) return;
+
+    const name = updates.name.trim();
+    if (!name) {
+      throw new Error("Group name is required");
+    }
+
+    await ensureConnected();
+    storeConversation(await meowChatAPI.updateChat(conversationId, { name }));
+    notifyConversations();
+  },
+
+  subscribeToMessages: (conversationId, windowSize, onChange, onError) => {
+    let isSubscribed = true;
+    const listener = () => {
+      if (!isSubscribed) return;
+      const messages = [...getMessageCache(conversationId).values()].sort(
+        (a, b) => a.timestamp - b.timestamp
+      );
+      onChange(messages.slice(-windowSize));
+    };
+
+    if (!messageListeners.has(conversationId)) {
+      messageListeners.set(conversationId, new Set());
+    }
+    messageListeners.get(conversationId)!.add(listener);
+
+    ensureConnected()
+      .then(() => {
+        socketService.joinChat(conversationId);
+        return meowChatMessageAPI.getMessages(conversationId, 1, windowSize);
+      })
+      .then(({ messages }) => {
+        const cache = getMessageCache(conversationId);
+        toMessages(messages).forEach((m) => cache.set(m.id, m));
+        listener();
+      })
+      .catch((error) => {
+        console.error("[MeowChat] Error loading messages:", error);
+        if (isSubscribed) onError(error as Error);
+      });
+
+    return () => {
+      isSubscribed = false;
+      const listeners = messageListeners.get(conversationId);
+      listeners?.delete(listener);
+      if (listeners && listeners.size === 0) {
+        messageListeners.delete(conversationId);
+        socketService.leaveChat(conversationId);
+      }
+    };
+  },
+
+  getMessagesPage: async (conversationId, pageSize, before) => {
+    const cutoff = before ? before.timestamp : Infinity;
+    const older: MeowChatMessage[] = [];
+
+    // Walk back until enough messages older than the cutoff are found
+    for (let page = 1; older.length <= pageSize; page++) {
+      const result = await meowChatMessageAPI.getMessages(
+        conversationId,
+        page,
+        HISTORY_PAGE_SIZE
+      );
+      older.push(
+        ...result.messages.filter((m) => toTimestamp(m.createdAt) < cutoff)
+      );
+      if (!result.hasMore) break;
+    }
+
+    return toMessages(older).slice(-(pageSize + 1));
+  },
+
+  // The backend assigns its own ids; this one only tracks the queued copy
+  createMessageId: (conversationId) =>
+    `local-${conversationId}-${Date.now().toString(36)}-${Math.random()
+      .toString(36)
+      .slice(2, 8)}`,
+
+  sendMessage: async (item) => {
+    await ensureConnected();
+    const replyTo = item.replyTo?.messageId;
+    const parts: Omit<SendMessagePayload, "clientMessageId">[] = [];
+
+    if (item.text) {
+      parts.push({
+        chatId: item.conversationId,
+        content: item.text,
+        type: "text",
+        replyTo,
+      });
+    }
+
+    // Attachments are already uploaded, so each is sent as a link message
+    (item.mediaUrls || []).forEach((url, index) => {
+      parts.push({
+        chatId: item.conversationId,
+        content: "",
+        type: item.mediaTypes?.[index] === "image" ? "image" : "file",
+        fileUrl: url,
+        replyTo: parts.length === 0 ? replyTo : undefined,
+      });
+    });
+
+    // Part ids line up with the parts - text first, then attachments
+    const partIds = getOutboxPartIds(item);
+    for (const [index, part] of parts.entries()) {
+      storeReturnedMessage(
+        await sendMessagePart({ ...part, clientMessageId: partIds[index] })
+      );
+    }
+  },
+
+  editMessage: async (conversationId, messageId, text) => {
+    storeReturnedMessage(await meowChatMessageAPI.editMessage(messageId, text));
+  },
+
+  deleteMessage: async (conversationId, messageId) => {
+    await meowChatMessageAPI.deleteMessage(messageId);
+    updateCachedMessage(messageId, (m) => ({
+      ...m,
+      text: "[Message deleted]",
+      deletedAt: Date.now(),
+    }));
+  },
+
+  markMessagesRead: async (conversationId, messageIds) => {
+    messageIds.forEach((id) => socketService.markAsRead(id));
+  },
+
+  // capabilities.attachments is off, so the app never offers an upload
+  startMediaUpload: () => ({
+    promise: Promise.reject(
+      new Error("Attachments aren't supported on MeowChat yet")
+    ),
+    pause: () => false,
+    resume: () => false,
+    cancel: () => false,
+  }),
+
+  setReaction: async (conversationId, messageId, userId, emoji) => {
+    storeReturnedMessage(
+      await meowChatMessageAPI.addReaction(messageId, emoji)
+    );
+  },
+
+  removeReaction: async (conversationId, messageId) => {
+    storeReturnedMessage(await meowChatMessageAPI.removeReaction(messageId));
+  },
+
+  setTyping: async (conversationId, userId, username, isTyping) => {
+    socketService.sendTyping(conversationId, isTyping);
+  },
+
+  subscribeToTyping: (conversationId, onChange) => {
+    const typing = new Map<string, TypingIndicator>();
+    const timeouts = new Map<string, ReturnType<typeof setTimeout>>();
+
+    const remove = (userId: string) => {
+      clearTimeout(timeouts.get(userId));
+      timeouts.delete(userId);
+      if (typing.delete(userId)) {
+        onChange([...typing.values()]);
+      }
+    };
+
+    const handleTyping = (data: SocketTypingIndicator) => {
+      if (data.chatId !== conversationId) return;
+      if (!data.isTyping) {
+        remove(data.userId);
+        return;
+      }
+
+      typing.set(data.userId, {
+        userId: data.userId,
+        username: data.username,
+        timestamp: Date.now(),
+        conversationId,
+      });
+      clearTimeout(timeouts.get(data.userId));
+      timeouts.set(
+        data.userId,
+        setTimeout(() => remove(data.userId), TYPING_TIMEOUT_MS)
+      );
+      onChange([...typing.values()]);
+    };
+    const handleStopped = (data: SocketTypingIndicator) => {
+      if (data.chatId === conversationId) remove(data.userId);
+    };
+
+    const unsubscribeTyping = socketService.on("user_typing", handleTyping);
+    const unsubscribeStopped = socketService.on(
+      "user_stopped_typing",
+      handleStopped
+    );
+
+    return () => {
+      unsubscribeTyping();
+      unsubscribeStopped();
+      timeouts.forEach((timeout) => clearTimeout(timeout));
+    };
+  },
+
+  subscribeToConnectionState: (onChange) =>
+    socketService.onConnectionStateChange(onChange),
+
+  // The backend tracks presence from the socket connection itself
+  updatePresence: async (userId, isOnline) => {
+    if (isOnline) {
+      await ensureConnected();
+    }
+  },
+
+  subscribeToPresence: (userIds, onChange) => {
+    const presences: { [userId: string]: UserPresence | null } = {};
+    userIds.forEach((userId) => {
+      presences[userId] = null;
+    });
+
+    const handleStatus = (data: UserStatus) => {
+      if (!userIds.includes(data.userId)) return;
+      presences[data.userId] = {
+        uid: data.userId,
+        isOnline: data.isOnline,
+        lastSeen: data.lastSeen ? toTimestamp(data.lastSeen) : Date.now(),
+        status: data.isOnline ? "available" : "offline",
+      };
+      onChange({ ...presences });
+    };
+
+    const unsubscribeOnline = socketService.on("user_online", handleStatus);
+    const unsubscribeOffline = socketService.on("user_offline", handleStatus);
+
+    return () => {
+      unsubscribeOnline();
+      unsubscribeOffline();
+    };
+  },
+};
@@ -0,0 +1,337 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Conversation, Message } from "../@types/chat";
+import { chatTransport } from "./chatTransport";
+import {
+  isMessageDeleted,
+  isMessageHidden,
+  isSystemMessage,
+} from "./chatUtils";
+
+const SEARCH_INDEX_KEY_PREFIX = "meowgram-search-index";
+
+// Oldest messages are evicted past this size to keep storage bounded
+const MAX_INDEXED_MESSAGES = 10000;
+
+// Messages fetched per conversation when catching the index up
+const SYNC_PAGE_SIZE = 50;
+
+// A conversation's first sync only indexes its latest messages - older ones
+// are indexed as they are scrolled through in the chat
+const INITIAL_SYNC_MESSAGES = 200;
+
+const SAVE_DELAY_MS = 1000;
+
+/**
+ * The part of a message kept in the on-device search index
+ */
+export interface IndexedMessage {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  senderName: string;
+  text: string;
+  timestamp: number;
+}
+
+/**
+ * Text around the first match, split so the match can be highlighted
+ */
+export interface SearchSnippet {
+  before: string;
+  match: string;
+  after: string;
+}
+
+export interface MessageSearchResult {
+  message: IndexedMessage;
+  snippet: SearchSnippet;
+}
+
+interface SearchIndex {
+  messages: { [messageId: string]: IndexedMessage };
+  syncedUpTo: { [conversationId: string]: number };
+}
+
+// One index is kept in memory for the signed-in user
+let loadedUserId: string | null = null;
+let loadingIndex: Promise<SearchIndex> | null = null;
+let saveTimeout: ReturnType<typeof setTimeout> | null = null;
+
+// The running sync, and the latest conversations to sync once it's done
+let runningSync: Promise<void> | null = null;
+let queuedSync: { userId: string; conversations: Conversation[] } | null = null;
+
+const getIndexKey = (userId: string) => `${SEARCH_INDEX_KEY_PREFIX}-${userId}`;
+
+/**
+ * Lowercase and strip accents so "Cafe" finds "café"
+ */
+const normalizeText = (text: string): string => {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+};
+
+const loadIndex = (userId: string): Promise<SearchIndex> => {
+  if (loadedUserId === userId && loadingIndex) {
+    return loadingIndex;
+  }
+
+  loadedUserId = userId;
+  loadingIndex = AsyncStorage.getItem(getIndexKey(userId))
+    .then((stored) => {
+      if (!stored) return { messages: {}, syncedUpTo: {} };
+      return JSON.parse(stored) as SearchIndex;
+    })
+    .catch((error) => {
+      console.error("Error loading search index:", error);
+      return { messages: {}, syncedUpTo: {} };
+    });
+
+  return loadingIndex;
+};
+
+/**
+ * Persist the index shortly after the last change, so bursts of
+ * snapshots result in a single write
+ */
+const scheduleSave = (userId: string, index: SearchIndex) => {
+  if (saveTimeout) {
+    clearTimeout(saveTimeout);
+  }
+
+  saveTimeout = setTimeout(() => {
+    saveTimeout = null;
+    AsyncStorage.setItem(getIndexKey(userId), JSON.stringify(index)).catch(
+      (error) => {
+        console.error("Error saving search index:", error);
+      }
+    );
+  }, SAVE_DELAY_MS);
+};
+
+const evictOldest = (index: SearchIndex) => {
+  const ids = Object.keys(index.messages);
+  if (ids.length <= MAX_INDEXED_MESSAGES) return;
+
+  ids
+    .sort((a, b) => index.messages[a].timestamp - index.messages[b].timestamp)
+    .slice(0, ids.length - MAX_INDEXED_MESSAGES)
+    .forEach((id) => {
+      delete index.messages[id];
+    });
+};
+
+/**
+ * Add synced messages to the index
+ * Edited messages replace their old text; deleted and system messages
+ * are removed
+ */
+export const indexMessages = async (
+  userId: string,
+  messages: Message[]
+): Promise<void> => {
+  if (messages.length === 0) return;
+
+  const index = await loadIndex(userId);
+  let changed = false;
+
+  messages.forEach((message) => {
+    if (message.outboxStatus) return;
+
+    const searchable =
+      !!message.text &&
+      !isMessageDeleted(message) &&
+      !isMessageHidden(message) &&
+      !isSystemMessage(message);
+    if (!searchable) {
+      if (index.messages[message.id]) {
+        delete index.messages[message.id];
+        changed = true;
+      }
+      return;
+    }
+
+    const existing = index.messages[message.id];
+    if (existing && existing.text === message.text) return;
+
+    index.messages[message.id] = {
+      id: message.id,
+      conversationId: message.conversationId,
+      senderId: message.senderId,
+      senderName: message.senderName,
+      text: message.text,
+      timestamp: message.timestamp,
+    };
+    changed = true;
+  });
+
+  if (changed) {
+    evictOldest(index);
+    scheduleSave(userId, index);
+  }
+};
+
+/**
+ * Index a conversation's messages newer than syncedUpTo
+ * Pages back from the newest message until it reaches syncedUpTo, the
+ * start of the conversation or maxMessages
+ */
+const syncConversation = async (
+  userId: string,
+  conversationId: string,
+  syncedUpTo: number,
+  maxMessages: number
+): Promise<void> => {
+  let before: Message | undefined;
+  let fetched = 0;
+
+  while (fetched < maxMessages) {
+    const page = await chatTransport.getMessagesPage(
+      conversationId,
+      SYNC_PAGE_SIZE,
+      before
+    );
+    const hasMore = page.length > SYNC_PAGE_SIZE;
+    const messages = hasMore ? page.slice(1) : page;
+    if (messages.length === 0) return;
+
+    await indexMessages(userId, messages);
+    fetched += messages.length;
+
+    // Pages are oldest first
+    if (!hasMore || messages[0].timestamp <= syncedUpTo) return;
+    before = messages[0];
+  }
+};
+
+/**
+ * Sync stale conversations one at a time, to keep reads spread out
+ */
+const runSync = async (
+  userId: string,
+  conversations: Conversation[]
+): Promise<void> => {
+  const index = await loadIndex(userId);
+
+  const stale = conversations.filter(
+    (conv) => conv.lastMessageTimestamp > (index.syncedUpTo[conv.id] || 0)
+  );
+
+  for (const conv of stale) {
+    const syncedUpTo = index.syncedUpTo[conv.id] || 0;
+    try {
+      await syncConversation(
+        userId,
+        conv.id,
+        syncedUpTo,
+        syncedUpTo ? MAX_INDEXED_MESSAGES : INITIAL_SYNC_MESSAGES
+      );
+      // Only advanced once everything since the last sync is indexed, so
+      // a failed sync is retried from the same point
+      index.syncedUpTo[conv.id] = conv.lastMessageTimestamp;
+    } catch (error) {
+      console.error("Error syncing search index:", error);
+    }
+  }
+
+  if (stale.length > 0) {
+    scheduleSave(userId, index);
+  }
+};
+
+/**
+ * Catch the index up with conversations that have new messages
+ * Fetches everything since each one was last synced; failures (e.g.
+ * offline) leave that conversation to be synced again next time. Calls
+ * made while a sync is running are merged into one more sync after it
+ */
+export const syncSearchIndex = (
+  userId: string,
+  conversations: Conversation[]
+): Promise<void> => {
+  if (runningSync) {
+    queuedSync = { userId, conversations };
+    return runningSync;
+  }
+
+  runningSync = (async () => {
+    try {
+      await runSync(userId, conversations);
+      while (queuedSync) {
+        const next = queuedSync;
+        queuedSync = null;
+        await runSync(next.userId, next.conversations);
+      }
+    } finally {
+      runningSync = null;
+    }
+  })();
+  return runningSync;
+};
+
+/**
+ * Cut a snippet around the first matching term
+ */
+const buildSnippet = (text: string, terms: string[]): SearchSnippet => {
+  const normalized = normalizeText(text);
+  // Accent stripping can change the length - then search the lowercased text
+  const haystack =
+    normalized.length === text.length ? normalized : text.toLowerCase();
+
+  let start = -1;
+  let length = 0;
+  terms.forEach((term) => {
+    const position = haystack.indexOf(term);
+    if (position !== -1 && (start === -1 || position < start)) {
+      start = position;
+      length = term.length;
+    }
+  });
+
+  if (start === -1) {
+    return { before: "", match: "", after: text.slice(0, 80) };
+  }
+
+  const contextChars = 30;
+  const snippetStart = Math.max(0, start - contextChars);
+  return {
+    before: (snippetStart > 0 ? "…" : "") + text.slice(snippetStart, start),
+    match: text.slice(start, start + length),
+    after: text.slice(start + length, start + length + contextChars * 2),
+  };
+};
+
+/**
+ * Search indexed messages - every word of the query has to appear
+ * Results are newest first
+ */
+export const searchMessages = async (
+  userId: string,
+  searchQuery: string,
+  options: { conversationId?: string; limit?: number } = {}
+): Promise<MessageSearchResult[]> => {
+  const terms = normalizeText(searchQuery).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const index = await loadIndex(userId);
+
+  return Object.values(index.messages)
+    .filter((message) => {
+      if (
+        options.conversationId &&
+        message.conversationId !== options.conversationId
+      ) {
+        return false;
+      }
+      const normalized = normalizeText(message.text);
+      return terms.every((term) => normalized.includes(term));
+    })
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, options.limit ?? 100)
+    .map((message) => ({
+      message,
+      snippet: buildSnippet(message.text, terms),
+    }));
+};
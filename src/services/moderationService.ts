@@ -0,0 +1,564 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Image } from "react-native";
+import * as FileSystem from "expo-file-system/legacy";
+import * as ImageManipulator from "expo-image-manipulator";
+import * as Crypto from "expo-crypto";
+import { auth } from "../config/firebase";
+import {
+  MODERATION_API_URL,
+  MODERATION_API_TIMEOUT_MS,
+} from "../config/moderation";
+import type { TextSurface } from "./textModerationService";
+
+/**
+ * Where the moderated content is going to be shown
+ * Posts get the strictest checks; avatars are small and may be reused
+ */
+export type ModerationContext = "post" | "avatar";
+
+/**
+ * allow - go ahead
+ * warn - allowed, but the user is told what looks off
+ * hide - saved, but hidden from others until a moderator reviews it
+ * block - not allowed
+ */
+export type ModerationDecision = "allow" | "warn" | "hide" | "block";
+
+/**
+ * Outcome of a single check, kept so every decision can be explained
+ */
+export interface ModerationCheck {
+  name: string;
+  decision: ModerationDecision;
+  detail: string;
+}
+
+export interface ModerationResult {
+  decision: ModerationDecision;
+  isAllowed: boolean;
+  reason: string; // user-facing explanation of the decision
+  checks: ModerationCheck[];
+  provider: string;
+  imageHash?: string; // set for images, used to spot reposts
+}
+
+/**
+ * A decision as kept in the on-device moderation log
+ */
+export interface ModerationLogEntry {
+  kind: "image" | "text";
+  context: ModerationContext | TextSurface;
+  decision: ModerationDecision;
+  reason: string;
+  provider: string;
+  checks: ModerationCheck[];
+  createdAt: number; // timestamp
+}
+
+export interface ImageModerationInput {
+  uri: string;
+  context: ModerationContext;
+  userId?: string; // enables the duplicate check
+}
+
+/**
+ * A moderation backend - the on-device provider always runs, a remote one
+ * can be plugged in behind the same interface
+ */
+export interface ModerationProvider {
+  name: string;
+  moderateImage: (input: ImageModerationInput) => Promise<ModerationResult>;
+}
+
+const MODERATION_LOG_KEY = "meowgram-moderation-log";
+const MAX_LOG_ENTRIES = 50;
+
+const POSTED_HASHES_KEY_PREFIX = "meowgram-posted-image-hashes";
+const MAX_POSTED_HASHES = 500;
+
+const MAX_FILE_SIZE_BYTES = 20 * 1024 * 1024;
+
+const MIN_DIMENSIONS: { [K in ModerationContext]: number } = {
+  post: 320,
+  avatar: 100,
+};
+
+// Longest side may be at most this many times the shortest
+const MAX_ASPECT_RATIO = 4;
+
+// GIFs are recognized but not allowed - animation would be lost on upload
+const ALLOWED_MIME_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/heic",
+];
+
+// Size of the thumbnail used for the detail and duplicate checks
+const THUMBNAIL_SIZE = 256;
+
+// Compressed bits per pixel of the thumbnail - flat or blurry images
+// compress far better than sharp ones
+const BLANK_IMAGE_BITS_PER_PIXEL = 0.25;
+const BLURRY_IMAGE_BITS_PER_PIXEL = 0.6;
+
+const DECISION_SEVERITY: { [K in ModerationDecision]: number } = {
+  allow: 0,
+  warn: 1,
+  hide: 2,
+  block: 3,
+};
+
+/**
+ * Combine individual checks into a single result
+ * The most severe check decides, and its detail becomes the reason
+ */
+export const buildResult = (
+  provider: string,
+  checks: ModerationCheck[],
+  imageHash?: string
+): ModerationResult => {
+  const deciding = checks.reduce<ModerationCheck | null>(
+    (worst, check) =>
+      !worst ||
+      DECISION_SEVERITY[check.decision] > DECISION_SEVERITY[worst.decision]
+        ? check
+        : worst,
+    null
+  );
+  const decision = deciding?.decision ?? "allow";
+
+  return {
+    decision,
+    isAllowed: decision !== "block",
+    reason: decision === "allow" ? "No issues found" : deciding!.detail,
+    checks,
+    provider,
+    imageHash,
+  };
+};
+
+const decodeBase64Bytes = (base64: string): number[] => {
+  const binary = atob(base64);
+  const bytes: number[] = [];
+  for (let i = 0; i < binary.length; i++) {
+    bytes.push(binary.charCodeAt(i));
+  }
+  return bytes;
+};
+
+const bytesToAscii = (bytes: number[], start: number, end: number) =>
+  String.fromCharCode(...bytes.slice(start, end));
+
+/**
+ * Work out the real image type from the file's magic bytes, so a renamed
+ * file can't get past the type check
+ */
+export const sniffImageMimeType = (header: number[]): string | null => {
+  if (header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (
+    header[0] === 0x89 &&
+    bytesToAscii(header, 1, 4) === "PNG" &&
+    header[4] === 0x0d
+  ) {
+    return "image/png";
+  }
+  if (bytesToAscii(header, 0, 4) === "GIF8") {
+    return "image/gif";
+  }
+  if (
+    bytesToAscii(header, 0, 4) === "RIFF" &&
+    bytesToAscii(header, 8, 12) === "WEBP"
+  ) {
+    return "image/webp";
+  }
+  if (bytesToAscii(header, 4, 8) === "ftyp") {
+    const brand = bytesToAscii(header, 8, 12);
+    if (["heic", "heix", "hevc", "mif1", "msf1"].includes(brand)) {
+      return "image/heic";
+    }
+  }
+  return null;
+};
+
+const getImageSize = (
+  uri: string
+): Promise<{ width: number; height: number }> =>
+  new Promise((resolve, reject) => {
+    Image.getSize(
+      uri,
+      (width, height) => resolve({ width, height }),
+      (error) => reject(error)
+    );
+  });
+
+const checkFileSize = async (uri: string): Promise<ModerationCheck> => {
+  const info = await FileSystem.getInfoAsync(uri);
+  if (!info.exists) {
+    return { name: "fileSize", decision: "block", detail: "Image not found" };
+  }
+
+  const sizeMb = (info.size || 0) / (1024 * 1024);
+  if ((info.size || 0) > MAX_FILE_SIZE_BYTES) {
+    return {
+      name: "fileSize",
+      decision: "block",
+      detail: `Image is too large (${sizeMb.toFixed(1)} MB, max ${
+        MAX_FILE_SIZE_BYTES / (1024 * 1024)
+      } MB)`,
+    };
+  }
+  return {
+    name: "fileSize",
+    decision: "allow",
+    detail: `${sizeMb.toFixed(1)} MB`,
+  };
+};
+
+const checkMimeType = async (uri: string): Promise<ModerationCheck> => {
+  const header = decodeBase64Bytes(
+    await FileSystem.readAsStringAsync(uri, {
+      encoding: FileSystem.EncodingType.Base64,
+      position: 0,
+      length: 16,
+    })
+  );
+  const mimeType = sniffImageMimeType(header);
+
+  if (!mimeType) {
+    return {
+      name: "mimeType",
+      decision: "block",
+      detail: "File is not a supported image",
+    };
+  }
+  if (!ALLOWED_MIME_TYPES.includes(mimeType)) {
+    return {
+      name: "mimeType",
+      decision: "block",
+      detail: `${mimeType} images are not supported`,
+    };
+  }
+  return { name: "mimeType", decision: "allow", detail: mimeType };
+};
+
+const checkDimensions = async (
+  uri: string,
+  context: ModerationContext
+): Promise<ModerationCheck> => {
+  const { width, height } = await getImageSize(uri);
+  const shortest = Math.min(width, height);
+  const longest = Math.max(width, height);
+  const minimum = MIN_DIMENSIONS[context];
+
+  if (shortest < minimum) {
+    return {
+      name: "dimensions",
+      decision: "block",
+      detail: `Image is too small (${width}×${height}, at least ${minimum}px needed)`,
+    };
+  }
+  if (longest / shortest > MAX_ASPECT_RATIO) {
+    return {
+      name: "dimensions",
+      decision: "block",
+      detail: `Image is too narrow (${width}×${height})`,
+    };
+  }
+  return {
+    name: "dimensions",
+    decision: "allow",
+    detail: `${width}×${height}`,
+  };
+};
+
+/**
+ * Estimate how much detail an image has from how well a thumbnail of it
+ * compresses - blank, heavily blurred or washed out images score low
+ */
+const checkDetail = (thumbnailBase64: string): ModerationCheck => {
+  const bytes = (thumbnailBase64.length * 3) / 4;
+  const bitsPerPixel = (bytes * 8) / (THUMBNAIL_SIZE * THUMBNAIL_SIZE);
+  const score = bitsPerPixel.toFixed(2);
+
+  if (bitsPerPixel < BLANK_IMAGE_BITS_PER_PIXEL) {
+    return {
+      name: "detail",
+      decision: "block",
+      detail: `Image looks blank (${score} bits/pixel)`,
+    };
+  }
+  if (bitsPerPixel < BLURRY_IMAGE_BITS_PER_PIXEL) {
+    return {
+      name: "detail",
+      decision: "warn",
+      detail: `Image looks blurry or low quality (${score} bits/pixel)`,
+    };
+  }
+  return { name: "detail", decision: "allow", detail: `${score} bits/pixel` };
+};
+
+const getPostedHashesKey = (userId: string) =>
+  `${POSTED_HASHES_KEY_PREFIX}-${userId}`;
+
+const loadPostedHashes = async (userId: string): Promise<string[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(getPostedHashesKey(userId));
+    return stored ? (JSON.parse(stored) as string[]) : [];
+  } catch (error) {
+    console.error("Error loading posted image hashes:", error);
+    return [];
+  }
+};
+
+/**
+ * Remember the hash of an image once it has been posted, so posting the
+ * same image again is caught
+ */
+export const recordPostedImage = async (
+  userId: string,
+  imageHash: string
+): Promise<void> => {
+  try {
+    const hashes = await loadPostedHashes(userId);
+    if (hashes.includes(imageHash)) return;
+
+    const updated = [imageHash, ...hashes].slice(0, MAX_POSTED_HASHES);
+    await AsyncStorage.setItem(
+      getPostedHashesKey(userId),
+      JSON.stringify(updated)
+    );
+  } catch (error) {
+    console.error("Error saving posted image hash:", error);
+  }
+};
+
+const checkDuplicate = async (
+  imageHash: string,
+  input: ImageModerationInput
+): Promise<ModerationCheck> => {
+  if (input.context !== "post" || !input.userId) {
+    return { name: "duplicate", decision: "allow", detail: "Not checked" };
+  }
+
+  const hashes = await loadPostedHashes(input.userId);
+  if (hashes.includes(imageHash)) {
+    return {
+      name: "duplicate",
+      decision: "block",
+      detail: "You've already posted this image",
+    };
+  }
+  return { name: "duplicate", decision: "allow", detail: "New image" };
+};
+
+/**
+ * Deterministic on-device checks - the same image always gets the same result
+ */
+export const localModerationProvider: ModerationProvider = {
+  name: "local",
+
+  moderateImage: async (input) => {
+    const checks: ModerationCheck[] = [];
+
+    // Cheap checks first; a failure here makes the rest pointless
+    checks.push(await checkFileSize(input.uri));
+    checks.push(await checkMimeType(input.uri));
+    checks.push(await checkDimensions(input.uri, input.context));
+    if (checks.some((c) => c.decision === "block")) {
+      return buildResult("local", checks);
+    }
+
+    const thumbnail = await ImageManipulator.manipulateAsync(
+      input.uri,
+      [{ resize: { width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE } }],
+      {
+        compress: 0.9,
+        format: ImageManipulator.SaveFormat.JPEG,
+        base64: true,
+      }
+    );
+    const thumbnailBase64 = thumbnail.base64 || "";
+    const imageHash = await Crypto.digestStringAsync(
+      Crypto.CryptoDigestAlgorithm.SHA256,
+      thumbnailBase64
+    );
+
+    checks.push(checkDetail(thumbnailBase64));
+    checks.push(await checkDuplicate(imageHash, input));
+
+    return buildResult("local", checks, imageHash);
+  },
+};
+
+/**
+ * Send content to a moderation API
+ * The endpoint receives multipart form data and answers with
+ * { decision, reason, checks? } using the same decision values
+ */
+export const createRemoteModerationProvider = (
+  endpoint: string,
+  timeoutMs: number = MODERATION_API_TIMEOUT_MS
+): ModerationProvider => {
+  const request = async (body: FormData): Promise<ModerationResult> => {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const token = await auth.currentUser?.getIdToken();
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+        body,
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        throw new Error(`Moderation API returned ${response.status}`);
+      }
+
+      const data = await response.json();
+      const decision: ModerationDecision =
+        data.decision in DECISION_SEVERITY ? data.decision : "warn";
+      const checks: ModerationCheck[] = Array.isArray(data.checks)
+        ? data.checks
+        : [{ name: "remote", decision, detail: data.reason || decision }];
+
+      return {
+        decision,
+        isAllowed: decision !== "block",
+        reason: data.reason || "Reviewed by the moderation service",
+        checks,
+        provider: "remote",
+      };
+    } finally {
+      clearTimeout(timeout);
+    }
+  };
+
+  return {
+    name: "remote",
+
+    moderateImage: (input) => {
+      const body = new FormData();
+      body.append("file", {
+        uri: input.uri,
+        type: "image/jpeg",
+        name: "image.jpg",
+      } as any);
+      body.append("context", input.context);
+      return request(body);
+    },
+  };
+};
+
+const remoteProvider = MODERATION_API_URL
+  ? createRemoteModerationProvider(MODERATION_API_URL)
+  : null;
+
+/**
+ * Run the local checks, then the remote provider if one is configured
+ * A remote failure keeps the local result, noted in the checks
+ */
+const runProviders = async (
+  runLocal: () => Promise<ModerationResult>,
+  runRemote: (provider: ModerationProvider) => Promise<ModerationResult>
+): Promise<ModerationResult> => {
+  const local = await runLocal();
+  if (!remoteProvider || local.decision === "block") {
+    return local;
+  }
+
+  try {
+    const remote = await runRemote(remoteProvider);
+    const combined = buildResult(
+      "local+remote",
+      [...local.checks, ...remote.checks],
+      local.imageHash
+    );
+    if (remote.decision !== "allow") {
+      combined.reason = remote.reason;
+    }
+    return combined;
+  } catch (error) {
+    console.error("Remote moderation failed:", error);
+    return {
+      ...local,
+      checks: [
+        ...local.checks,
+        {
+          name: "remote",
+          decision: "allow",
+          detail: "Moderation service unavailable - local checks only",
+        },
+      ],
+    };
+  }
+};
+
+/**
+ * Keep a short on-device history of decisions so they can be explained
+ * later, e.g. when a user asks why an upload was refused
+ */
+export const logModerationDecision = async (
+  kind: ModerationLogEntry["kind"],
+  context: ModerationLogEntry["context"],
+  result: ModerationResult
+) => {
+  console.log(
+    `[Moderation] ${kind} (${context}) ${result.decision} by ${result.provider}: ${result.reason}`,
+    result.checks
+  );
+
+  try {
+    const stored = await AsyncStorage.getItem(MODERATION_LOG_KEY);
+    const entries: ModerationLogEntry[] = stored ? JSON.parse(stored) : [];
+    entries.unshift({
+      kind,
+      context,
+      decision: result.decision,
+      reason: result.reason,
+      provider: result.provider,
+      checks: result.checks,
+      createdAt: Date.now(),
+    });
+    await AsyncStorage.setItem(
+      MODERATION_LOG_KEY,
+      JSON.stringify(entries.slice(0, MAX_LOG_ENTRIES))
+    );
+  } catch (error) {
+    console.error("Error saving moderation log:", error);
+  }
+};
+
+/**
+ * Recent moderation decisions made on this device, newest first
+ */
+export const getModerationLog = async (): Promise<ModerationLogEntry[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(MODERATION_LOG_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Error loading moderation log:", error);
+    return [];
+  }
+};
+
+/**
+ * Check an image before it is uploaded
+ */
+export const moderateImage = async (
+  input: ImageModerationInput
+): Promise<ModerationResult> => {
+  let result = await runProviders(
+    () => localModerationProvider.moderateImage(input),
+    (provider) => provider.moderateImage(input)
+  );
+  // Images have no review queue, so one that should be hidden is refused
+  if (result.decision === "hide") {
+    result = { ...result, decision: "block", isAllowed: false };
+  }
+  logModerationDecision("image", input.context, result);
+  return result;
+};
@@ -0,0 +1,196 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  getDocs,
+  onSnapshot,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  serverTimestamp,
+  writeBatch,
+  QueryDocumentSnapshot,
+  DocumentData,
+} from "firebase/firestore";
+import { db } from "../config/firebase";
+import {
+  NewNotification,
+  Notification,
+  NotificationType,
+} from "../@types/social";
+
+/**
+ * Types sent at most once per sender and target - liking something again
+ * after unliking it doesn't notify twice
+ */
+const DEDUPED_TYPES: NotificationType[] = ["like", "commentLike"];
+
+export type NotificationCursor = QueryDocumentSnapshot<DocumentData>;
+
+export interface NotificationPage {
+  notifications: Notification[];
+  cursor: NotificationCursor | null; // pass to getNotificationsPage for more
+  hasMore: boolean;
+}
+
+const toNotification = (snap: NotificationCursor): Notification =>
+  ({ id: snap.id, ...snap.data() }) as Notification;
+
+const notificationsQuery = (
+  userId: string,
+  pageSize: number,
+  after?: NotificationCursor | null
+) =>
+  after
+    ? query(
+        collection(db, "notifications"),
+        where("userId", "==", userId),
+        orderBy("createdAt", "desc"),
+        startAfter(after),
+        limit(pageSize)
+      )
+    : query(
+        collection(db, "notifications"),
+        where("userId", "==", userId),
+        orderBy("createdAt", "desc"),
+        limit(pageSize)
+      );
+
+const toPage = (
+  docs: NotificationCursor[],
+  pageSize: number
+): NotificationPage => ({
+  notifications: docs.map(toNotification),
+  cursor: docs[docs.length - 1] || null,
+  hasMore: docs.length === pageSize,
+});
+
+/**
+ * Notify a user about something the sender did
+ * Notifications to yourself are skipped
+ */
+export const sendNotification = async (
+  notification: NewNotification
+): Promise<void> => {
+  if (notification.userId === notification.fromUserId) return;
+
+  try {
+    if (DEDUPED_TYPES.includes(notification.type)) {
+      const existing = await getDocs(
+        query(
+          collection(db, "notifications"),
+          where("userId", "==", notification.userId),
+          where("fromUserId", "==", notification.fromUserId),
+          where("type", "==", notification.type),
+          notification.type === "commentLike"
+            ? where("commentId", "==", notification.commentId)
+            : where("postId", "==", notification.postId)
+        )
+      );
+      if (!existing.empty) return;
+    }
+
+    // Firestore rejects undefined fields
+    const fields = Object.fromEntries(
+      Object.entries(notification).filter(([, value]) => value !== undefined)
+    );
+
+    await addDoc(collection(db, "notifications"), {
+      ...fields,
+      createdAt: serverTimestamp(),
+      read: false,
+    });
+  } catch (error) {
+    console.error("Error sending notification:", error);
+    throw error;
+  }
+};
+
+/**
+ * Listen to a user's newest notifications
+ */
+export const subscribeToRecentNotifications = (
+  userId: string,
+  pageSize: number,
+  callback: (page: NotificationPage) => void,
+  onError?: (error: Error) => void
+): (() => void) => {
+  try {
+    return onSnapshot(
+      notificationsQuery(userId, pageSize),
+      (snapshot) => callback(toPage(snapshot.docs, pageSize)),
+      (error) => {
+        console.error("Error listening to notifications:", error);
+        if (onError) onError(error as Error);
+      }
+    );
+  } catch (error) {
+    console.error("Error setting up notifications listener:", error);
+    return () => {};
+  }
+};
+
+/**
+ * Listen to a user's unread notifications
+ */
+export const subscribeToUnreadNotifications = (
+  userId: string,
+  callback: (notifications: Notification[]) => void
+): (() => void) => {
+  try {
+    return onSnapshot(
+      query(
+        collection(db, "notifications"),
+        where("userId", "==", userId),
+        where("read", "==", false)
+      ),
+      (snapshot) => callback(snapshot.docs.map(toNotification)),
+      (error) => {
+        console.error("Error listening to unread notifications:", error);
+      }
+    );
+  } catch (error) {
+    console.error("Error setting up unread notifications listener:", error);
+    return () => {};
+  }
+};
+
+/**
+ * Get a page of a user's notifications, newest first
+ * Without a cursor this is the first page
+ */
+export const getNotificationsPage = async (
+  userId: string,
+  pageSize: number,
+  after?: NotificationCursor | null
+): Promise<NotificationPage> => {
+  try {
+    const snapshot = await getDocs(notificationsQuery(userId, pageSize, after));
+    return toPage(snapshot.docs, pageSize);
+  } catch (error) {
+    console.error("Error getting notifications:", error);
+    throw error;
+  }
+};
+
+/**
+ * Mark notifications as read in one batch
+ */
+export const markNotificationsRead = async (
+  notificationIds: string[]
+): Promise<void> => {
+  if (notificationIds.length === 0) return;
+
+  try {
+    const batch = writeBatch(db);
+    notificationIds.forEach((id) => {
+      batch.update(doc(db, "notifications", id), { read: true });
+    });
+    await batch.commit();
+  } catch (error) {
+    console.error("Error marking notifications as read:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,102 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Message, OutboxMessage } from "../@types/chat";
+import { chatTransport } from "./chatTransport";
+
+const OUTBOX_KEY_PREFIX = "meowgram-outbox";
+
+// Automatic flushes give up after this many attempts and mark the message failed
+export const MAX_OUTBOX_ATTEMPTS = 3;
+
+// Firestore queues writes while offline instead of rejecting them,
+// so a send that takes this long is treated as failed for now
+const SEND_TIMEOUT_MS = 15000;
+
+const getOutboxKey = (userId: string) => `${OUTBOX_KEY_PREFIX}-${userId}`;
+
+/**
+ * Load the persisted outbox for a user, oldest message first
+ */
+export const loadOutbox = async (userId: string): Promise<OutboxMessage[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(getOutboxKey(userId));
+    if (!stored) return [];
+
+    const items = JSON.parse(stored) as OutboxMessage[];
+    return items.sort((a, b) => a.createdAt - b.createdAt);
+  } catch (error) {
+    console.error("Error loading outbox:", error);
+    return [];
+  }
+};
+
+/**
+ * Persist the outbox for a user
+ */
+export const saveOutbox = async (
+  userId: string,
+  items: OutboxMessage[]
+): Promise<void> => {
+  try {
+    if (items.length === 0) {
+      await AsyncStorage.removeItem(getOutboxKey(userId));
+    } else {
+      await AsyncStorage.setItem(getOutboxKey(userId), JSON.stringify(items));
+    }
+  } catch (error) {
+    console.error("Error saving outbox:", error);
+  }
+};
+
+/**
+ * Send a queued message through the chat transport
+ * On Firestore the client-generated id makes sending the same item twice
+ * harmless
+ */
+export const sendOutboxMessage = async (item: OutboxMessage): Promise<void> => {
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    await Promise.race([
+      chatTransport.sendMessage(item),
+      new Promise<never>((_, reject) => {
+        timeout = setTimeout(
+          () => reject(new Error("Sending message timed out")),
+          SEND_TIMEOUT_MS
+        );
+      }),
+    ]);
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+/**
+ * Build the message shown in the conversation while an item is queued
+ */
+export const outboxItemToMessage = (item: OutboxMessage): Message => {
+  const message: Message = {
+    id: item.id,
+    conversationId: item.conversationId,
+    senderId: item.senderId,
+    senderName: item.senderName,
+    senderAvatar: item.senderAvatar,
+    text: item.text,
+    timestamp: item.createdAt,
+    isRead: false,
+    readBy: {},
+    outboxStatus: item.status,
+  };
+
+  if (item.mediaUrls && item.mediaUrls.length > 0) {
+    message.mediaUrls = item.mediaUrls;
+    message.mediaTypes = item.mediaTypes;
+    if (item.mediaThumbnails) {
+      message.mediaThumbnails = item.mediaThumbnails;
+    }
+  }
+  if (item.replyTo) {
+    message.replyTo = item.replyTo;
+  }
+
+  return message;
+};
@@ -0,0 +1,240 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  deleteDoc,
+  onSnapshot,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  runTransaction,
+  increment,
+  serverTimestamp,
+  DocumentSnapshot,
+  DocumentData,
+  QueryDocumentSnapshot,
+} from "firebase/firestore";
+import { db } from "../config/firebase";
+import { Post, PostLike } from "../@types/social";
+import { sendNotification } from "./notificationRepository";
+
+export type PostLikeCursor = QueryDocumentSnapshot<DocumentData>;
+
+export interface PostLikesPage {
+  likes: PostLike[];
+  cursor: PostLikeCursor | null; // pass to getPostLikesPage for more
+  hasMore: boolean;
+}
+
+// Older posts may be missing their counters
+const toPost = (snap: DocumentSnapshot<DocumentData>): Post => {
+  const data = snap.data() || {};
+  return {
+    ...data,
+    id: snap.id,
+    likesCount: data.likesCount || 0,
+    commentsCount: data.commentsCount || 0,
+  } as Post;
+};
+
+/**
+ * Listen to a single post, null once it's deleted
+ */
+export const subscribeToPost = (
+  postId: string,
+  callback: (post: Post | null) => void,
+  onError?: (error: Error) => void
+): (() => void) => {
+  try {
+    return onSnapshot(
+      doc(db, "posts", postId),
+      (snap) => callback(snap.exists() ? toPost(snap) : null),
+      (error) => {
+        console.error("Error listening to post:", error);
+        if (onError) onError(error as Error);
+      }
+    );
+  } catch (error) {
+    console.error("Error setting up post listener:", error);
+    return () => {};
+  }
+};
+
+/**
+ * Get a user's posts, newest first
+ */
+export const getUserPosts = async (userId: string): Promise<Post[]> => {
+  try {
+    const snapshot = await getDocs(
+      query(
+        collection(db, "posts"),
+        where("userId", "==", userId),
+        orderBy("createdAt", "desc")
+      )
+    );
+    return snapshot.docs.map(toPost);
+  } catch (error) {
+    console.error("Error getting user posts:", error);
+    throw error;
+  }
+};
+
+/**
+ * Get the newest posts from everyone
+ */
+export const getRecentPosts = async (count: number): Promise<Post[]> => {
+  try {
+    const snapshot = await getDocs(
+      query(collection(db, "posts"), orderBy("createdAt", "desc"), limit(count))
+    );
+    return snapshot.docs.map(toPost);
+  } catch (error) {
+    console.error("Error getting recent posts:", error);
+    throw error;
+  }
+};
+
+/**
+ * Delete a post
+ */
+export const deletePost = async (postId: string): Promise<void> => {
+  try {
+    await deleteDoc(doc(db, "posts", postId));
+  } catch (error) {
+    console.error("Error deleting post:", error);
+    throw error;
+  }
+};
+
+/**
+ * Listen to whether userId likes a post
+ * Reads the one like doc instead of the whole list of likers
+ */
+export const subscribeToPostLiked = (
+  postId: string,
+  userId: string,
+  callback: (liked: boolean) => void
+): (() => void) => {
+  try {
+    return onSnapshot(
+      doc(db, "posts", postId, "likes", userId),
+      (snap) => callback(snap.exists()),
+      (error) => {
+        console.error("Error listening to post like:", error);
+      }
+    );
+  } catch (error) {
+    console.error("Error setting up post like listener:", error);
+    return () => {};
+  }
+};
+
+/**
+ * Get a page of a post's likes, newest first
+ * Without a cursor this is the first page
+ */
+export const getPostLikesPage = async (
+  postId: string,
+  pageSize: number,
+  after?: PostLikeCursor | null
+): Promise<PostLikesPage> => {
+  try {
+    const likesRef = collection(db, "posts", postId, "likes");
+    const snapshot = await getDocs(
+      after
+        ? query(
+            likesRef,
+            orderBy("createdAt", "desc"),
+            startAfter(after),
+            limit(pageSize)
+          )
+        : query(likesRef, orderBy("createdAt", "desc"), limit(pageSize))
+    );
+    return {
+      likes: snapshot.docs.map((d) => d.data() as PostLike),
+      cursor: snapshot.docs[snapshot.docs.length - 1] || null,
+      hasMore: snapshot.docs.length === pageSize,
+    };
+  } catch (error) {
+    console.error("Error getting post likes:", error);
+    throw error;
+  }
+};
+
+/**
+ * Add or remove userId's like doc and move likesCount with it, in one
+ * transaction so the count always matches the likes subcollection
+ * Returns false without writing if the post is already in that state
+ */
+const setPostLiked = (
+  postId: string,
+  userId: string,
+  liked: boolean
+): Promise<boolean> =>
+  runTransaction(db, async (transaction) => {
+    const postRef = doc(db, "posts", postId);
+    const likeRef = doc(db, "posts", postId, "likes", userId);
+    const [postSnap, likeSnap] = await Promise.all([
+      transaction.get(postRef),
+      transaction.get(likeRef),
+    ]);
+    if (!postSnap.exists()) throw new Error("Post not found");
+    if (likeSnap.exists() === liked) return false;
+
+    if (liked) {
+      transaction.set(likeRef, { uid: userId, createdAt: serverTimestamp() });
+    } else {
+      transaction.delete(likeRef);
+    }
+    transaction.update(postRef, { likesCount: increment(liked ? 1 : -1) });
+    return true;
+  });
+
+/**
+ * Like a post and notify its author
+ * Liking a post twice is a no-op. A failed notification is logged but
+ * doesn't fail the like
+ */
+export const likePost = async (
+  post: Pick<Post, "id" | "userId" | "caption">,
+  userId: string
+): Promise<void> => {
+  let changed: boolean;
+  try {
+    changed = await setPostLiked(post.id, userId, true);
+  } catch (error) {
+    console.error("Error liking post:", error);
+    throw error;
+  }
+  if (!changed) return;
+
+  try {
+    await sendNotification({
+      userId: post.userId,
+      fromUserId: userId,
+      type: "like",
+      postId: post.id,
+      postCaption: post.caption,
+    });
+  } catch (error) {
+    console.error("Error sending like notification:", error);
+  }
+};
+
+/**
+ * Remove a like from a post
+ * Unliking a post that isn't liked is a no-op
+ */
+export const unlikePost = async (
+  postId: string,
+  userId: string
+): Promise<void> => {
+  try {
+    await setPostLiked(postId, userId, false);
+  } catch (error) {
+    console.error("Error unliking post:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,126 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { doc, getDoc, setDoc } from "firebase/firestore";
+import { db } from "../config/firebase";
+import { Report, ReportReason, ReportTarget } from "../@types/report";
+
+const REPORT_LOG_KEY_PREFIX = "meowgram-report-log";
+
+// Reports a user can file per hour from this device. Advisory only - it is
+// kept on the device, and the rules have no way to count a user's reports
+const MAX_REPORTS_PER_HOUR = 10;
+
+const MAX_DETAILS_LENGTH = 500;
+const MAX_SNAPSHOT_TEXT_LENGTH = 1000;
+
+export const REPORT_REASONS: { value: ReportReason; label: string }[] = [
+  { value: "spam", label: "Spam" },
+  { value: "harassment", label: "Harassment or bullying" },
+  { value: "hate", label: "Hate speech or symbols" },
+  { value: "nudity", label: "Nudity or sexual content" },
+  { value: "violence", label: "Violence or dangerous content" },
+  { value: "self_harm", label: "Self-harm or suicide" },
+  { value: "scam", label: "Scam or fraud" },
+  { value: "other", label: "Something else" },
+];
+
+/**
+ * Error thrown when a report is rejected as a duplicate or because the
+ * reporter filed too many reports recently
+ */
+export class ReportRateLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReportRateLimitError";
+  }
+}
+
+const getReportLogKey = (userId: string) =>
+  `${REPORT_LOG_KEY_PREFIX}-${userId}`;
+
+/**
+ * Timestamps of reports filed from this device in the last hour
+ */
+const loadRecentReportTimes = async (userId: string): Promise<number[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(getReportLogKey(userId));
+    if (!stored) return [];
+
+    const hourAgo = Date.now() - 60 * 60 * 1000;
+    return (JSON.parse(stored) as number[]).filter((t) => t > hourAgo);
+  } catch (error) {
+    console.error("Error loading report log:", error);
+    return [];
+  }
+};
+
+/**
+ * One report per reporter and target - firestore.rules only accepts this id
+ * and rejects overwrites, so duplicates fail on the server as well
+ */
+const getReportId = (reporterId: string, target: ReportTarget) =>
+  `${reporterId}_${target.targetType}_${target.targetId}`;
+
+/**
+ * File a report for review by the moderation team
+ * Throws ReportRateLimitError when the target was already reported by this
+ * user, and when over this device's hourly limit
+ */
+export const submitReport = async (
+  reporterId: string,
+  target: ReportTarget,
+  reason: ReportReason,
+  details: string = ""
+): Promise<string> => {
+  if (target.targetType === "user" && target.targetId === reporterId) {
+    throw new Error("You can't report yourself");
+  }
+
+  const recentTimes = await loadRecentReportTimes(reporterId);
+  if (recentTimes.length >= MAX_REPORTS_PER_HOUR) {
+    throw new ReportRateLimitError(
+      "You've sent a lot of reports recently. Please try again later."
+    );
+  }
+
+  try {
+    const reportRef = doc(db, "reports", getReportId(reporterId, target));
+    if ((await getDoc(reportRef)).exists()) {
+      throw new ReportRateLimitError(
+        "You've already reported this. Thanks for letting us know."
+      );
+    }
+
+    const snapshot = { ...target.snapshot };
+    if (snapshot.text) {
+      snapshot.text = snapshot.text.slice(0, MAX_SNAPSHOT_TEXT_LENGTH);
+    }
+
+    const report: Omit<Report, "id"> = {
+      reporterId,
+      targetType: target.targetType,
+      targetId: target.targetId,
+      targetOwnerId: target.targetOwnerId,
+      snapshot,
+      reason,
+      details: details.trim().slice(0, MAX_DETAILS_LENGTH),
+      status: "open",
+      createdAt: Date.now(),
+    };
+
+    await setDoc(reportRef, report);
+
+    await AsyncStorage.setItem(
+      getReportLogKey(reporterId),
+      JSON.stringify([...recentTimes, report.createdAt])
+    ).catch((error) => {
+      console.error("Error saving report log:", error);
+    });
+
+    return reportRef.id;
+  } catch (error) {
+    if (!(error instanceof ReportRateLimitError)) {
+      console.error("Error submitting report:", error);
+    }
+    throw error;
+  }
+};
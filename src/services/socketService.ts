@@ -6,6 +6,19 @@
 import io, { Socket } from "socket.io-client";
 import { auth } from "../config/firebase";
 import { API_BASE_URL } from "../config/api";
+import { ChatConnectionState } from "../@types/chat";
+import type { MeowChat } from "./meowChatAPI";
+
+// Reconnect backoff - doubles per failed attempt up to the max, and keeps
+// retrying for as long as the user is signed in
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+// Consecutive failed attempts before the connection is reported as offline
+const OFFLINE_AFTER_ATTEMPTS = 3;
+
+// How long a send waits for the server to acknowledge it
+const SEND_ACK_TIMEOUT_MS = 5000;
 
 export interface SocketMessage {
   _id: string;
@@ -19,6 +32,8 @@ export interface SocketMessage {
   chat: string;
   type: "text" | "image" | "file";
   fileUrl?: string;
+  replyTo?: string;
+  clientMessageId?: string;
   createdAt: Date;
   readBy: string[];
 }
@@ -36,43 +51,178 @@ export interface UserStatus {
   lastSeen?: Date;
 }
 
+export interface SendMessagePayload {
+  chatId: string;
+  content: string;
+  type: "text" | "image" | "file";
+  fileUrl?: string;
+  replyTo?: string;
+  clientMessageId: string; // lets the server drop repeated sends
+}
+
+export type SendMessageAck =
+  { ok: true; message: SocketMessage } | { ok: false; error: string };
+
+/**
+ * Thrown when a socket send was rejected or never acknowledged
+ */
+export class SocketSendError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SocketSendError";
+  }
+}
+
+/**
+ * Events the MeowChat server sends
+ */
+export interface ServerToClientEvents {
+  new_message: (message: SocketMessage) => void;
+  message_edited: (data: { messageId: string; content: string }) => void;
+  message_deleted: (data: { messageId: string }) => void;
+  user_typing: (data: TypingIndicator) => void;
+  user_stopped_typing: (data: TypingIndicator) => void;
+  user_online: (data: UserStatus) => void;
+  user_offline: (data: UserStatus) => void;
+  chat_created: (chat: MeowChat) => void;
+  chat_updated: (chat: MeowChat) => void;
+  reaction_added: (data: {
+    messageId: string;
+    reaction: { user: string; emoji: string };
+  }) => void;
+  reaction_removed: (data: { messageId: string; userId: string }) => void;
+}
+
+/**
+ * Events the client sends to the MeowChat server
+ */
+export interface ClientToServerEvents {
+  join_chat: (data: { chatId: string }) => void;
+  leave_chat: (data: { chatId: string }) => void;
+  send_message: (
+    data: SendMessagePayload,
+    ack: (response: SendMessageAck) => void
+  ) => void;
+  typing: (data: { chatId: string; isTyping: boolean }) => void;
+  mark_read: (data: { messageId: string }) => void;
+}
+
+/**
+ * Everything SocketService listeners can subscribe to - server events plus
+ * the service's own connection events
+ */
+export interface SocketServiceEvents extends ServerToClientEvents {
+  socket_connected: (data: { socketId?: string }) => void;
+  socket_disconnected: (data: { reason: string }) => void;
+  socket_error: (data: { error: string }) => void;
+  connection_state: (state: ChatConnectionState) => void;
+}
+
+export type SocketEventName = keyof SocketServiceEvents;
+
+export type SocketEventPayload<E extends SocketEventName> = Parameters<
+  SocketServiceEvents[E]
+>[0];
+
+type ServerEventName = keyof ServerToClientEvents;
+
+// Server payloads are untrusted until validated
+type RawServerEvents = {
+  [E in ServerEventName]: (payload: unknown) => void;
+};
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const hasStrings = (
+  value: unknown,
+  ...keys: string[]
+): value is Record<string, any> =>
+  isRecord(value) && keys.every((key) => typeof value[key] === "string");
+
+const isMessage = (value: unknown): value is SocketMessage =>
+  hasStrings(value, "_id", "chat") &&
+  typeof value.content === "string" &&
+  hasStrings(value.sender, "firebaseUid", "username") &&
+  ["text", "image", "file"].includes(value.type) &&
+  (value.readBy === undefined || Array.isArray(value.readBy));
+
+const isTyping = (value: unknown): value is TypingIndicator =>
+  hasStrings(value, "chatId", "userId");
+
+const isUserStatus = (value: unknown): value is UserStatus =>
+  hasStrings(value, "userId") && typeof value.isOnline === "boolean";
+
+const isChat = (value: unknown): value is MeowChat =>
+  hasStrings(value, "_id") &&
+  Array.isArray(value.participants) &&
+  (value.type === "direct" || value.type === "group");
+
+/**
+ * Payload checks for every server event
+ * Malformed events are dropped before they reach any listener
+ */
+const serverEventValidators: {
+  [E in ServerEventName]: (
+    payload: unknown
+  ) => payload is SocketEventPayload<E>;
+} = {
+  new_message: isMessage,
+  message_edited: (p): p is { messageId: string; content: string } =>
+    hasStrings(p, "messageId", "content"),
+  message_deleted: (p): p is { messageId: string } =>
+    hasStrings(p, "messageId"),
+  user_typing: isTyping,
+  user_stopped_typing: isTyping,
+  user_online: isUserStatus,
+  user_offline: isUserStatus,
+  chat_created: isChat,
+  chat_updated: isChat,
+  reaction_added: (
+    p
+  ): p is { messageId: string; reaction: { user: string; emoji: string } } =>
+    hasStrings(p, "messageId") && hasStrings(p.reaction, "user", "emoji"),
+  reaction_removed: (p): p is { messageId: string; userId: string } =>
+    hasStrings(p, "messageId", "userId"),
+};
+
 class SocketService {
-  private socket: Socket | null = null;
+  private socket: Socket<RawServerEvents, ClientToServerEvents> | null = null;
   private isConnected: boolean = false;
-  private listeners: Map<string, Set<Function>> = new Map();
+  // Callbacks are typed by on()/once(); stored loosely here
+  private listeners: Map<SocketEventName, Set<(data: any) => void>> = new Map();
+  private rooms: Set<string> = new Set();
+  // Nothing has failed yet, so the app doesn't start out looking offline
+  private connectionState: ChatConnectionState = "connecting";
+  private reconnectAttempts: number = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
 
   /**
    * Connect to Socket.IO server with Firebase token
+   * Reconnection is handled here rather than by Socket.IO so it never gives
+   * up and every attempt carries a fresh token
    */
   async connect(): Promise<void> {
-    if (this.isConnected && this.socket) {
-      console.log("[Socket] Already connected");
+    if (this.socket) {
+      console.log("[Socket] Already connected or connecting");
       return;
     }
 
     try {
-      const user = auth.currentUser;
-      if (!user) {
+      if (!auth.currentUser) {
         throw new Error("No authenticated user");
       }
 
-      const firebaseToken = await user.getIdToken();
-
       console.log("[Socket] Connecting to:", API_BASE_URL);
+      this.setConnectionState("connecting");
 
       this.socket = io(API_BASE_URL, {
-        auth: {
-          token: firebaseToken,
-          firebaseUid: user.uid,
-          username: user.displayName || user.email?.split("@")[0] || "User",
-          email: user.email,
-          profilePicture: user.photoURL,
+        // Called before every connection attempt
+        auth: (callback) => {
+          this.getAuthPayload().then(callback);
         },
         transports: ["websocket", "polling"],
-        reconnection: true,
-        reconnectionDelay: 1000,
-        reconnectionDelayMax: 5000,
-        reconnectionAttempts: 5,
+        reconnection: false,
       });
 
       this.setupEventListeners();
@@ -82,6 +232,74 @@ class SocketService {
     }
   }
 
+  /**
+   * Handshake data for the current user
+   * The ID token is force-refreshed on reconnects - it expires after an
+   * hour, and a connection that dropped may have outlived it
+   */
+  private async getAuthPayload(): Promise<object> {
+    const user = auth.currentUser;
+    if (!user) return {};
+
+    const token = await user
+      .getIdToken(this.reconnectAttempts > 0)
+      .catch(() => user.getIdToken())
+      .catch((error) => {
+        console.error("[Socket] Could not get ID token:", error);
+        return undefined;
+      });
+
+    return {
+      token,
+      firebaseUid: user.uid,
+      username: user.displayName || user.email?.split("@")[0] || "User",
+      email: user.email,
+      profilePicture: user.photoURL,
+    };
+  }
+
+  /**
+   * Retry the connection after a backoff delay with jitter, so clients
+   * dropped by a server restart don't all come back at once
+   */
+  private scheduleReconnect(): void {
+    if (!this.socket || this.reconnectTimer) return;
+
+    if (!auth.currentUser) {
+      this.disconnect();
+      return;
+    }
+
+    const delay = Math.min(
+      RECONNECT_MAX_DELAY_MS,
+      RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts
+    );
+    const jitteredDelay = delay / 2 + Math.random() * (delay / 2);
+    this.reconnectAttempts++;
+
+    this.setConnectionState(
+      this.reconnectAttempts > OFFLINE_AFTER_ATTEMPTS
+        ? "offline"
+        : "reconnecting"
+    );
+
+    console.log(
+      `[Socket] Reconnecting in ${Math.round(jitteredDelay)}ms (attempt ${
+        this.reconnectAttempts
+      })`
+    );
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.socket?.connect();
+    }, jitteredDelay);
+  }
+
+  private setConnectionState(state: ChatConnectionState): void {
+    if (this.connectionState === state) return;
+    this.connectionState = state;
+    this.emit("connection_state", state);
+  }
+
   /**
    * Setup Socket.IO event listeners
    */
@@ -91,6 +309,14 @@ class SocketService {
     this.socket.on("connect", () => {
       console.log("[Socket] Connected:", this.socket?.id);
       this.isConnected = true;
+      this.reconnectAttempts = 0;
+      this.setConnectionState("connected");
+
+      // Rooms are per connection on the server
+      this.rooms.forEach((chatId) => {
+        this.socket?.emit("join_chat", { chatId });
+      });
+
       this.emit("socket_connected", { socketId: this.socket?.id });
     });
 
@@ -98,98 +324,73 @@ class SocketService {
       console.log("[Socket] Disconnected:", reason);
       this.isConnected = false;
       this.emit("socket_disconnected", { reason });
+
+      if (reason !== "io client disconnect") {
+        this.scheduleReconnect();
+      }
     });
 
     this.socket.on("connect_error", (error) => {
       console.error("[Socket] Connection error:", error);
       this.emit("socket_error", { error: error.message });
+      this.scheduleReconnect();
     });
 
-    // Message events
-    this.socket.on("new_message", (message: SocketMessage) => {
-      console.log("[Socket] New message:", message._id);
-      this.emit("new_message", message);
-    });
-
-    this.socket.on(
-      "message_edited",
-      (data: { messageId: string; content: string }) => {
-        console.log("[Socket] Message edited:", data.messageId);
-        this.emit("message_edited", data);
-      }
-    );
-
-    this.socket.on("message_deleted", (data: { messageId: string }) => {
-      console.log("[Socket] Message deleted:", data.messageId);
-      this.emit("message_deleted", data);
-    });
-
-    // Typing indicators
-    this.socket.on("user_typing", (data: TypingIndicator) => {
-      this.emit("user_typing", data);
-    });
-
-    this.socket.on("user_stopped_typing", (data: TypingIndicator) => {
-      this.emit("user_stopped_typing", data);
-    });
-
-    // User status events
-    this.socket.on("user_online", (data: UserStatus) => {
-      console.log("[Socket] User online:", data.userId);
-      this.emit("user_online", data);
-    });
-
-    this.socket.on("user_offline", (data: UserStatus) => {
-      console.log("[Socket] User offline:", data.userId);
-      this.emit("user_offline", data);
-    });
-
-    // Chat events
-    this.socket.on("chat_created", (chat: any) => {
-      console.log("[Socket] Chat created:", chat._id);
-      this.emit("chat_created", chat);
-    });
-
-    this.socket.on("chat_updated", (chat: any) => {
-      console.log("[Socket] Chat updated:", chat._id);
-      this.emit("chat_updated", chat);
-    });
-
-    // Reaction events
-    this.socket.on(
-      "reaction_added",
-      (data: { messageId: string; reaction: any }) => {
-        this.emit("reaction_added", data);
+    // Server events - validated, then passed to local listeners
+    (Object.keys(serverEventValidators) as ServerEventName[]).forEach(
+      (event) => {
+        this.socket?.on(event, (payload: unknown) => {
+          this.handleServerEvent(event, payload);
+        });
       }
     );
+  }
 
-    this.socket.on(
-      "reaction_removed",
-      (data: { messageId: string; userId: string }) => {
-        this.emit("reaction_removed", data);
-      }
-    );
+  /**
+   * Forward a server event to listeners if its payload has the right shape
+   */
+  private handleServerEvent<E extends ServerEventName>(
+    event: E,
+    payload: unknown
+  ): void {
+    if (!serverEventValidators[event](payload)) {
+      console.warn(`[Socket] Dropped malformed ${event} event:`, payload);
+      return;
+    }
+    this.emit(event, payload as SocketEventPayload<E>);
   }
 
   /**
    * Disconnect from server
+   * Listeners and joined rooms are kept for the next connect()
    */
   disconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempts = 0;
+
     if (this.socket) {
       console.log("[Socket] Disconnecting...");
-      this.socket.disconnect();
+      const socket = this.socket;
       this.socket = null;
       this.isConnected = false;
-      this.listeners.clear();
+      socket.removeAllListeners();
+      socket.disconnect();
     }
+    this.setConnectionState("offline");
   }
 
   /**
    * Join a chat room
+   * The room is remembered and joined again after every reconnect
    */
   joinChat(chatId: string): void {
+    this.rooms.add(chatId);
+
     if (!this.socket || !this.isConnected) {
-      console.warn("[Socket] Not connected, cannot join chat");
+      console.log("[Socket] Not connected, will join chat on connect:", chatId);
       return;
     }
 
@@ -201,30 +402,48 @@ class SocketService {
    * Leave a chat room
    */
   leaveChat(chatId: string): void {
-    if (!this.socket || !this.isConnected) {
-      console.warn("[Socket] Not connected, cannot leave chat");
-      return;
-    }
+    this.rooms.delete(chatId);
+
+    if (!this.socket || !this.isConnected) return;
 
     console.log("[Socket] Leaving chat:", chatId);
     this.socket.emit("leave_chat", { chatId });
   }
 
   /**
-   * Send a message
+   * Send a message and wait for the server to acknowledge it
+   * Resolves with the stored message; rejects with SocketSendError when not
+   * connected, rejected or not acknowledged in time
    */
   sendMessage(
-    chatId: string,
-    content: string,
-    type: "text" | "image" | "file" = "text"
-  ): void {
-    if (!this.socket || !this.isConnected) {
-      console.warn("[Socket] Not connected, cannot send message");
-      return;
+    data: SendMessagePayload,
+    timeoutMs: number = SEND_ACK_TIMEOUT_MS
+  ): Promise<SocketMessage> {
+    const socket = this.socket;
+    if (!socket || !this.isConnected) {
+      return Promise.reject(new SocketSendError("Socket not connected"));
     }
 
-    console.log("[Socket] Sending message to chat:", chatId);
-    this.socket.emit("send_message", { chatId, content, type });
+    console.log("[Socket] Sending message to chat:", data.chatId);
+    return new Promise((resolve, reject) => {
+      socket
+        .timeout(timeoutMs)
+        .emit("send_message", data, (error, response) => {
+          if (error) {
+            reject(new SocketSendError("Message was not acknowledged"));
+          } else if (!isRecord(response) || response.ok !== true) {
+            reject(
+              new SocketSendError(
+                (isRecord(response) && response.error) || "Message was rejected"
+              )
+            );
+          } else if (!isMessage(response.message)) {
+            reject(new SocketSendError("Malformed acknowledgement"));
+          } else {
+            resolve(response.message);
+          }
+        });
+    });
   }
 
   /**
@@ -247,28 +466,56 @@ class SocketService {
 
   /**
    * Add event listener
+   * Returns a function that removes it
    */
-  on(event: string, callback: Function): void {
+  on<E extends SocketEventName>(
+    event: E,
+    callback: SocketServiceEvents[E]
+  ): () => void {
     if (!this.listeners.has(event)) {
       this.listeners.set(event, new Set());
     }
     this.listeners.get(event)?.add(callback);
+    return () => this.off(event, callback);
+  }
+
+  /**
+   * Add event listener that is removed after the first event
+   * Returns a function that removes it before then
+   */
+  once<E extends SocketEventName>(
+    event: E,
+    callback: SocketServiceEvents[E]
+  ): () => void {
+    const wrapper = (data: SocketEventPayload<E>) => {
+      unsubscribe();
+      (callback as (data: SocketEventPayload<E>) => void)(data);
+    };
+    const unsubscribe = this.on(event, wrapper as SocketServiceEvents[E]);
+    return unsubscribe;
   }
 
   /**
    * Remove event listener
    */
-  off(event: string, callback: Function): void {
+  off<E extends SocketEventName>(
+    event: E,
+    callback: SocketServiceEvents[E]
+  ): void {
     this.listeners.get(event)?.delete(callback);
   }
 
   /**
    * Emit event to local listeners
    */
-  private emit(event: string, data: any): void {
+  private emit<E extends SocketEventName>(
+    event: E,
+    data: SocketEventPayload<E>
+  ): void {
     const callbacks = this.listeners.get(event);
     if (callbacks) {
-      callbacks.forEach((callback) => {
+      // Copied so once() listeners can remove themselves mid-loop
+      [...callbacks].forEach((callback) => {
         try {
           callback(data);
         } catch (error) {
@@ -278,6 +525,25 @@ class SocketService {
     }
   }
 
+  /**
+   * Current connection state
+   */
+  getConnectionState(): ChatConnectionState {
+    return this.connectionState;
+  }
+
+  /**
+   * Listen to connection state changes, starting with the current state
+   * Returns a function that removes the listener
+   */
+  onConnectionStateChange(
+    callback: (state: ChatConnectionState) => void
+  ): () => void {
+    const unsubscribe = this.on("connection_state", callback);
+    callback(this.connectionState);
+    return unsubscribe;
+  }
+
   /**
    * Check if connected
    */
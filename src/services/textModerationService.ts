@@ -0,0 +1,306 @@
+import { TEXT_BLOCKLIST, EXTRA_TEXT_BLOCKLIST } from "../config/moderation";
+import {
+  ModerationCheck,
+  ModerationDecision,
+  ModerationResult,
+  buildResult,
+  logModerationDecision,
+} from "./moderationService";
+
+/**
+ * Where user-written text is going to be shown
+ */
+export type TextSurface = "caption" | "comment" | "bio" | "message";
+
+/**
+ * What to do when a check finds something, per kind of finding
+ * hide - write the content but keep it hidden until a moderator reviews it
+ */
+export interface TextPolicy {
+  maxLength: number;
+  blocklist: ModerationDecision;
+  links: ModerationDecision;
+  spam: ModerationDecision;
+}
+
+export const TEXT_POLICIES: { [S in TextSurface]: TextPolicy } = {
+  caption: { maxLength: 2200, blocklist: "block", links: "warn", spam: "hide" },
+  comment: { maxLength: 500, blocklist: "block", links: "hide", spam: "hide" },
+  bio: { maxLength: 150, blocklist: "block", links: "allow", spam: "warn" },
+  message: {
+    maxLength: 5000,
+    blocklist: "block",
+    links: "allow",
+    spam: "warn",
+  },
+};
+
+// Only posts and comments have a review queue; elsewhere hide means block
+const SOFT_HIDE_SURFACES: TextSurface[] = ["caption", "comment"];
+
+// Recorded as hiddenBy on content hidden pending review
+export const AUTO_MODERATOR_ID = "auto-moderation";
+
+const SURFACE_LABELS: { [S in TextSurface]: string } = {
+  caption: "Caption",
+  comment: "Comment",
+  bio: "Bio",
+  message: "Message",
+};
+
+const LEET_MAP: { [char: string]: string } = {
+  "0": "o",
+  "1": "i",
+  "!": "i",
+  "|": "i",
+  "3": "e",
+  "4": "a",
+  "@": "a",
+  "5": "s",
+  $: "s",
+  "7": "t",
+  "+": "t",
+  "8": "b",
+  "9": "g",
+};
+
+const URL_PATTERN =
+  /\b(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(?:com|net|org|io|co|ly|me|gg|xyz|app|link|shop|info|biz|ru|tk)\b(?:\/\S*)?/gi;
+
+const LINK_SHORTENERS = [
+  "bit.ly",
+  "tinyurl.com",
+  "t.co",
+  "goo.gl",
+  "ow.ly",
+  "is.gd",
+  "cutt.ly",
+  "rb.gy",
+];
+
+// Phrases typical of follower-farming and promo spam
+const SPAM_PHRASES = [
+  "free followers",
+  "follow for follow",
+  "follow4follow",
+  "f4f",
+  "l4l",
+  "dm for promo",
+  "dm me for collab",
+  "check my bio",
+  "link in my bio",
+  "crypto giveaway",
+  "earn money fast",
+  "click the link",
+];
+
+const MAX_LINKS = 2;
+const MAX_MENTIONS = 10;
+const MAX_HASHTAGS = 30;
+const MAX_CHARACTER_RUN = 10;
+const SHOUTING_MIN_LETTERS = 20;
+const SHOUTING_CAPS_RATIO = 0.7;
+const REPEATED_WORD_MIN_COUNT = 5;
+
+/**
+ * Error thrown by write paths when text is refused by the moderation policy
+ */
+export class TextModerationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TextModerationError";
+  }
+}
+
+/**
+ * Reduce text to a canonical form for matching: lowercase without accents,
+ * leetspeak decoded, punctuation removed and letters that were split up
+ * ("k.y.s", "k y s") joined back together
+ */
+export const normalizeForMatching = (text: string): string =>
+  text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    // "!" and "|" only stand for "i" inside a word, not as punctuation
+    .replace(/[0-9@$+]|[!|](?=[a-z0-9])/g, (char) => LEET_MAP[char] ?? char)
+    .replace(/[^a-z0-9]+/g, " ")
+    .replace(/\b(?:[a-z] ){2,}[a-z]\b/g, (run) => run.replace(/ /g, ""))
+    .replace(/(.)\1+/g, "$1") // "kiiill" and "kill" both become "kil"
+    .trim();
+
+const buildTermList = (terms: string[]) =>
+  Array.from(new Set(terms.map(normalizeForMatching).filter(Boolean)));
+
+const BLOCKED_TERMS = buildTermList([
+  ...TEXT_BLOCKLIST,
+  ...EXTRA_TEXT_BLOCKLIST,
+]);
+const SPAM_TERMS = buildTermList(SPAM_PHRASES);
+
+const findTerms = (normalized: string, terms: string[]): string[] => {
+  const padded = ` ${normalized} `;
+  return terms.filter((term) => padded.includes(` ${term} `));
+};
+
+const checkBlocklist = (
+  normalized: string,
+  policy: TextPolicy,
+  label: string
+): ModerationCheck =>
+  findTerms(normalized, BLOCKED_TERMS).length > 0
+    ? {
+        name: "blocklist",
+        decision: policy.blocklist,
+        detail: `${label} contains language that isn't allowed`,
+      }
+    : { name: "blocklist", decision: "allow", detail: "No matches" };
+
+/**
+ * Links are judged separately from spam, since a link in a comment is
+ * suspicious while a link in a bio is expected
+ */
+const checkLinks = (
+  text: string,
+  policy: TextPolicy,
+  label: string
+): ModerationCheck[] => {
+  const links = text.match(URL_PATTERN) || [];
+  if (links.length === 0) {
+    return [{ name: "links", decision: "allow", detail: "No links" }];
+  }
+
+  const checks: ModerationCheck[] = [
+    {
+      name: "links",
+      decision: policy.links,
+      detail: `${label} contains links`,
+    },
+  ];
+
+  const shortened = links.some((link) =>
+    LINK_SHORTENERS.some((domain) =>
+      link
+        .toLowerCase()
+        .replace(/^https?:\/\//, "")
+        .startsWith(domain)
+    )
+  );
+  if (shortened) {
+    checks.push({
+      name: "linkShortener",
+      decision: policy.spam,
+      detail: `${label} contains a shortened link`,
+    });
+  }
+  if (links.length > MAX_LINKS) {
+    checks.push({
+      name: "linkCount",
+      decision: policy.spam,
+      detail: `${label} contains too many links`,
+    });
+  }
+  return checks;
+};
+
+const checkSpam = (
+  text: string,
+  normalized: string,
+  policy: TextPolicy,
+  label: string
+): ModerationCheck => {
+  const spam = (detail: string): ModerationCheck => ({
+    name: "spam",
+    decision: policy.spam,
+    detail: `${label} ${detail}`,
+  });
+
+  if (findTerms(normalized, SPAM_TERMS).length > 0) {
+    return spam("looks like spam");
+  }
+
+  if (new RegExp(`(.)\\1{${MAX_CHARACTER_RUN - 1},}`).test(text)) {
+    return spam("repeats the same character too many times");
+  }
+
+  const letters = text.replace(/[^a-zA-Z]/g, "");
+  const capitals = letters.replace(/[^A-Z]/g, "");
+  if (
+    letters.length >= SHOUTING_MIN_LETTERS &&
+    capitals.length / letters.length > SHOUTING_CAPS_RATIO
+  ) {
+    return spam("is mostly capital letters");
+  }
+
+  const mentions = text.match(/@\w+/g) || [];
+  const hashtags = text.match(/#\w+/g) || [];
+  if (mentions.length > MAX_MENTIONS || hashtags.length > MAX_HASHTAGS) {
+    return spam("has too many mentions or hashtags");
+  }
+
+  const words = normalized.split(" ").filter(Boolean);
+  const counts = new Map<string, number>();
+  words.forEach((word) => counts.set(word, (counts.get(word) || 0) + 1));
+  const mostRepeated = Math.max(0, ...Array.from(counts.values()));
+  if (
+    mostRepeated >= REPEATED_WORD_MIN_COUNT &&
+    mostRepeated > words.length / 2
+  ) {
+    return spam("repeats the same word too many times");
+  }
+
+  return { name: "spam", decision: "allow", detail: "No spam signals" };
+};
+
+/**
+ * Check user-written text against the policy for the surface it will be
+ * shown on. Empty text is always allowed
+ */
+export const moderateText = (
+  text: string,
+  surface: TextSurface
+): ModerationResult => {
+  if (!text.trim()) {
+    return buildResult("local", []);
+  }
+
+  const policy = TEXT_POLICIES[surface];
+  const label = SURFACE_LABELS[surface];
+  const normalized = normalizeForMatching(text);
+
+  const found: ModerationCheck[] = [
+    text.length > policy.maxLength
+      ? {
+          name: "length",
+          decision: "block",
+          detail: `${label} is too long (${text.length}/${policy.maxLength} characters)`,
+        }
+      : { name: "length", decision: "allow", detail: `${text.length}` },
+    checkBlocklist(normalized, policy, label),
+    ...checkLinks(text, policy, label),
+    checkSpam(text, normalized, policy, label),
+  ];
+  const checks = found.map((check): ModerationCheck =>
+    check.decision === "hide" && !SOFT_HIDE_SURFACES.includes(surface)
+      ? { ...check, decision: "block" }
+      : check
+  );
+
+  const result = buildResult("local", checks);
+  if (result.decision !== "allow") {
+    logModerationDecision("text", surface, result);
+  }
+  return result;
+};
+
+/**
+ * Fields to add to a post or comment so it stays hidden until reviewed
+ */
+export const getPendingReviewFields = (result: ModerationResult) =>
+  result.decision === "hide"
+    ? {
+        hiddenAt: Date.now(),
+        hiddenBy: AUTO_MODERATOR_ID,
+        hiddenReason: result.reason,
+      }
+    : {};
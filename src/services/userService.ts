@@ -24,6 +24,7 @@ export const getUserProfile = async (userId: string): Promise<User | null> => {
         bio: data.bio || "",
         isOnline: data.isOnline || false,
         lastSeen: data.lastSeen || 0,
+        readReceiptsEnabled: data.readReceiptsEnabled !== false,
       } as User;
     }
 
@@ -46,6 +47,7 @@ export const getUserProfile = async (userId: string): Promise<User | null> => {
         bio: data.bio || "",
         isOnline: data.isOnline || false,
         lastSeen: data.lastSeen || 0,
+        readReceiptsEnabled: data.readReceiptsEnabled !== false,
       } as User;
     }
 
@@ -92,6 +94,7 @@ export const updateUserProfile = async (
       "avatarUrl",
       "isOnline",
       "lastSeen",
+      "readReceiptsEnabled",
     ];
 
     const filteredUpdates: any = {};